@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Tests for ApiKeyHelper
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { ApiKeyHelper } from "./ApiKeyHelper";
+import { AuditHelper } from "./AuditHelper";
+import { EntityHelper } from "./EntityHelper";
+import { PermissionHelper } from "./PermissionHelper";
+import { entityApiKeys } from "../schema/entities";
+import { MANAGER_PERMISSIONS } from "../types";
+import { generateApiKey, hashApiKey, isApiKey } from "../utils";
+
+const mockEntityId = "entity-uuid-123";
+const mockEntity = { id: mockEntityId, entitySlug: "acme" };
+
+const keyRecord = {
+  id: "key-uuid-1",
+  entity_id: mockEntityId,
+  name: "CI deploys",
+  key_prefix: "esk_0123abcd",
+  key_hash: "hash",
+  scopes: ["canManageProjects"],
+  created_by_user_id: "manager-uid",
+  expires_at: null,
+  last_used_at: null,
+  revoked_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+function createMockConfig() {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.limit = vi.fn().mockResolvedValue([keyRecord]);
+  chain.insert = vi.fn().mockReturnValue(chain);
+  chain.values = vi.fn().mockReturnValue(chain);
+  chain.update = vi.fn().mockReturnValue(chain);
+  chain.set = vi.fn().mockReturnValue(chain);
+  chain.returning = vi.fn().mockResolvedValue([keyRecord]);
+  chain.transaction = vi.fn().mockImplementation(async (fn: any) => fn(chain));
+
+  return {
+    db: chain,
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: {},
+    apiKeysTable: entityApiKeys,
+  };
+}
+
+describe("ApiKeyHelper", () => {
+  beforeEach(() => {
+    vi.spyOn(AuditHelper.prototype, "recordEvent").mockResolvedValue();
+    vi.spyOn(EntityHelper.prototype, "getEntity").mockResolvedValue(
+      mockEntity as any
+    );
+    vi.spyOn(
+      PermissionHelper.prototype,
+      "getUserPermissions"
+    ).mockResolvedValue(MANAGER_PERMISSIONS);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("created keys are returned once and stored as a hash", async () => {
+    const config = createMockConfig();
+    const helper = new ApiKeyHelper(config as any);
+
+    const created = await helper.createApiKey(mockEntityId, "manager-uid", {
+      name: " CI deploys ",
+      scopes: ["canManageProjects"],
+    });
+
+    expect(isApiKey(created.key)).toBe(true);
+    const stored = config.db.values.mock.calls[0][0];
+    expect(stored.name).toBe("CI deploys");
+    expect(stored.key_hash).toBe(await hashApiKey(created.key));
+    expect(created.key.startsWith(stored.key_prefix)).toBe(true);
+    expect(Object.values(stored)).not.toContain(created.key);
+  });
+
+  test("keys cannot carry permissions their creator lacks", async () => {
+    const config = createMockConfig();
+    const helper = new ApiKeyHelper(config as any);
+
+    await expect(
+      helper.createApiKey(mockEntityId, "manager-uid", {
+        name: "Webhooks",
+        scopes: ["canManageWebhooks"],
+      })
+    ).rejects.toThrow(
+      "Cannot grant permissions you do not have: canManageWebhooks"
+    );
+    expect(config.db.insert).not.toHaveBeenCalled();
+  });
+
+  test("keys authenticate by hash with only their scopes", async () => {
+    const config = createMockConfig();
+    const helper = new ApiKeyHelper(config as any);
+    const key = generateApiKey();
+
+    const authentication = await helper.authenticateApiKey(key);
+
+    const lookup = new PgDialect().sqlToQuery(config.db.where.mock.calls[0][0]);
+    expect(lookup.sql).toContain('"key_hash" = $1');
+    expect(lookup.params[0]).toBe(await hashApiKey(key));
+    expect(authentication?.entity).toEqual(mockEntity);
+    expect(authentication?.permissions.canManageProjects).toBe(true);
+    expect(authentication?.permissions.canManageWebhooks).toBe(false);
+    expect(config.db.set).toHaveBeenCalledWith(
+      expect.objectContaining({ last_used_at: expect.any(Date) })
+    );
+  });
+
+  test("revoked, expired and malformed keys do not authenticate", async () => {
+    const config = createMockConfig();
+    config.db.limit
+      .mockResolvedValueOnce([{ ...keyRecord, revoked_at: new Date() }])
+      .mockResolvedValueOnce([
+        { ...keyRecord, expires_at: new Date(Date.now() - 1000) },
+      ]);
+    const helper = new ApiKeyHelper(config as any);
+
+    expect(await helper.authenticateApiKey(generateApiKey())).toBeNull();
+    expect(await helper.authenticateApiKey(generateApiKey())).toBeNull();
+    expect(await helper.authenticateApiKey("not-a-key")).toBeNull();
+    expect(config.db.select).toHaveBeenCalledTimes(2);
+  });
+
+  test("revoking marks the key revoked once", async () => {
+    const config = createMockConfig();
+    const revokedAt = new Date();
+    config.db.returning.mockResolvedValueOnce([
+      { ...keyRecord, revoked_at: revokedAt },
+    ]);
+    const helper = new ApiKeyHelper(config as any);
+
+    const revoked = await helper.revokeApiKey(mockEntityId, keyRecord.id);
+
+    expect(revoked.revokedAt).toBe(revokedAt.toISOString());
+    expect(config.db.set).toHaveBeenCalledWith(
+      expect.objectContaining({ revoked_at: expect.any(Date) })
+    );
+
+    config.db.limit.mockResolvedValueOnce([
+      { ...keyRecord, revoked_at: revokedAt },
+    ]);
+    await expect(
+      helper.revokeApiKey(mockEntityId, keyRecord.id)
+    ).rejects.toThrow("API key is already revoked");
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Entity API Key Helper Class
+ * @description Creation, listing, revocation and authentication of entity API keys
+ */
+
+import { eq, and, desc } from "drizzle-orm";
+import {
+  AuditAction,
+  AuditTargetType,
+  type ApiKey,
+  type ApiKeyAuthentication,
+  type CreateApiKeyRequest,
+  type CreatedApiKey,
+  type EntityHelperConfig,
+  type EntityOperationOptions,
+  type EntityPermissions,
+} from "../types";
+import {
+  buildPermissions,
+  generateApiKey,
+  getApiKeyDisplayPrefix,
+  hashApiKey,
+  isApiKey,
+  isPermissionKey,
+  runInTransaction,
+} from "../utils";
+import { AuditHelper } from "./AuditHelper";
+import { EntityHelper } from "./EntityHelper";
+import { PermissionHelper } from "./PermissionHelper";
+
+/** Minimum time between last_used_at writes for the same key */
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Helper class for entity API keys.
+ * Requires `apiKeysTable` in the config.
+ */
+export class ApiKeyHelper {
+  private readonly entityHelper: EntityHelper;
+  private readonly permissionHelper: PermissionHelper;
+  private readonly auditHelper: AuditHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.entityHelper = new EntityHelper(config);
+    this.permissionHelper = new PermissionHelper(config);
+    this.auditHelper = new AuditHelper(config);
+  }
+
+  /**
+   * Create an API key for an entity.
+   * The key cannot be granted permissions its creator lacks.
+   * The returned secret is shown once; only its hash is stored.
+   * @param entityId - The entity the key acts for
+   * @param createdByUserId - The member creating the key (firebase_uid)
+   * @param request - Key name, scopes and optional expiry
+   * @param options - Optional caller-supplied transaction
+   */
+  async createApiKey(
+    entityId: string,
+    createdByUserId: string,
+    request: CreateApiKeyRequest,
+    options?: EntityOperationOptions
+  ): Promise<CreatedApiKey> {
+    const apiKeysTable = this.requireApiKeysTable();
+
+    if (!request.name.trim()) {
+      throw new Error("API key name is required");
+    }
+
+    const unknown = request.scopes.filter(scope => !isPermissionKey(scope));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown permissions: ${unknown.join(", ")}`);
+    }
+
+    if (request.expiresAt && new Date(request.expiresAt) <= new Date()) {
+      throw new Error("API key expiry must be in the future");
+    }
+
+    const entity = await this.entityHelper.getEntity(entityId, options);
+    if (!entity) {
+      throw new Error("Entity not found");
+    }
+
+    const creatorPermissions = await this.permissionHelper.getUserPermissions(
+      entityId,
+      createdByUserId
+    );
+    if (!creatorPermissions) {
+      throw new Error("User is not a member of this entity");
+    }
+
+    const exceeding = request.scopes.filter(
+      scope => !creatorPermissions[scope]
+    );
+    if (exceeding.length > 0) {
+      throw new Error(
+        `Cannot grant permissions you do not have: ${exceeding.join(", ")}`
+      );
+    }
+
+    const key = generateApiKey();
+    const keyHash = await hashApiKey(key);
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [record] = await tx
+        .insert(apiKeysTable)
+        .values({
+          entity_id: entityId,
+          name: request.name.trim(),
+          key_prefix: getApiKeyDisplayPrefix(key),
+          key_hash: keyHash,
+          scopes: [...new Set(request.scopes)],
+          created_by_user_id: createdByUserId,
+          expires_at: request.expiresAt ? new Date(request.expiresAt) : null,
+        })
+        .returning();
+
+      const apiKey = this.mapRecordToApiKey(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId ?? createdByUserId,
+          action: AuditAction.API_KEY_CREATED,
+          targetType: AuditTargetType.API_KEY,
+          targetId: apiKey.id,
+          after: {
+            name: apiKey.name,
+            keyPrefix: apiKey.keyPrefix,
+            scopes: apiKey.scopes,
+            expiresAt: apiKey.expiresAt,
+          },
+        },
+        { tx }
+      );
+
+      return { ...apiKey, key };
+    });
+  }
+
+  /**
+   * List the API keys of an entity, newest first.
+   * Revoked and expired keys are included so they can be audited.
+   */
+  async listApiKeys(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<ApiKey[]> {
+    const apiKeysTable = this.requireApiKeysTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.entity_id, entityId))
+      .orderBy(desc(apiKeysTable.created_at));
+
+    return results.map((record: any) => this.mapRecordToApiKey(record));
+  }
+
+  /**
+   * Get an API key of an entity by ID.
+   */
+  async getApiKey(
+    entityId: string,
+    apiKeyId: string,
+    options?: EntityOperationOptions
+  ): Promise<ApiKey | null> {
+    const apiKeysTable = this.requireApiKeysTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(apiKeysTable)
+      .where(
+        and(eq(apiKeysTable.id, apiKeyId), eq(apiKeysTable.entity_id, entityId))
+      )
+      .limit(1);
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordToApiKey(results[0]);
+  }
+
+  /**
+   * Revoke an API key. Revoked keys stop authenticating immediately.
+   */
+  async revokeApiKey(
+    entityId: string,
+    apiKeyId: string,
+    options?: EntityOperationOptions
+  ): Promise<ApiKey> {
+    const existing = await this.getApiKey(entityId, apiKeyId, options);
+    if (!existing) {
+      throw new Error("API key not found");
+    }
+
+    if (existing.revokedAt) {
+      throw new Error("API key is already revoked");
+    }
+
+    const apiKeysTable = this.requireApiKeysTable();
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [record] = await tx
+        .update(apiKeysTable)
+        .set({
+          revoked_at: new Date(),
+          updated_at: new Date(),
+        })
+        .where(eq(apiKeysTable.id, apiKeyId))
+        .returning();
+
+      const revoked = this.mapRecordToApiKey(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.API_KEY_REVOKED,
+          targetType: AuditTargetType.API_KEY,
+          targetId: apiKeyId,
+          before: { revokedAt: null },
+          after: { revokedAt: revoked.revokedAt },
+        },
+        { tx }
+      );
+
+      return revoked;
+    });
+  }
+
+  /**
+   * Authenticate an API key.
+   * Returns null for malformed, unknown, revoked or expired keys and for
+   * keys of deleted entities. Records when the key was last used.
+   * @param key - The full API key presented by the client
+   */
+  async authenticateApiKey(
+    key: string,
+    options?: EntityOperationOptions
+  ): Promise<ApiKeyAuthentication | null> {
+    if (!isApiKey(key)) {
+      return null;
+    }
+
+    const apiKeysTable = this.requireApiKeysTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.key_hash, await hashApiKey(key)))
+      .limit(1);
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const record = results[0];
+    const now = new Date();
+
+    if (record.revoked_at || (record.expires_at && record.expires_at <= now)) {
+      return null;
+    }
+
+    const entity = await this.entityHelper.getEntity(record.entity_id, options);
+    if (!entity) {
+      return null;
+    }
+
+    if (
+      !record.last_used_at ||
+      now.getTime() - record.last_used_at.getTime() >=
+        LAST_USED_UPDATE_INTERVAL_MS
+    ) {
+      await db
+        .update(apiKeysTable)
+        .set({ last_used_at: now })
+        .where(eq(apiKeysTable.id, record.id));
+      record.last_used_at = now;
+    }
+
+    const apiKey = this.mapRecordToApiKey(record);
+    return {
+      apiKey,
+      entity,
+      permissions: buildPermissions(apiKey.scopes),
+    };
+  }
+
+  /**
+   * Get the API keys table or fail if API keys are not enabled.
+   */
+  private requireApiKeysTable(): any {
+    if (!this.config.apiKeysTable) {
+      throw new Error("API keys table is not configured");
+    }
+    return this.config.apiKeysTable;
+  }
+
+  /**
+   * Map database record to ApiKey type.
+   */
+  private mapRecordToApiKey(record: any): ApiKey {
+    return {
+      id: record.id,
+      entityId: record.entity_id,
+      name: record.name,
+      keyPrefix: record.key_prefix,
+      scopes: (record.scopes ?? []) as Array<keyof EntityPermissions>,
+      createdByUserId: record.created_by_user_id,
+      expiresAt: record.expires_at?.toISOString() ?? null,
+      lastUsedAt: record.last_used_at?.toISOString() ?? null,
+      revokedAt: record.revoked_at?.toISOString() ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+      updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+    };
+  }
+}
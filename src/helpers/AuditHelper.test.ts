@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Tests for AuditHelper
+ */
+
+import { describe, test, expect, vi } from "vitest";
+import { AuditHelper } from "./AuditHelper";
+import { AuditAction, AuditTargetType } from "../types";
+
+const mockEntityId = "entity-uuid-123";
+
+const auditRecord = {
+  id: "event-uuid-1",
+  entity_id: mockEntityId,
+  actor_user_id: "owner-uid",
+  action: "member.role_changed",
+  target_type: "member",
+  target_id: "member-uid",
+  before: { role: "member" },
+  after: { role: "manager" },
+  created_at: new Date("2026-01-01T00:00:00.000Z"),
+};
+
+function createMockConfig(withAuditTable = true) {
+  const chain: any = {};
+  chain.insert = vi.fn().mockReturnValue(chain);
+  chain.values = vi.fn().mockResolvedValue(undefined);
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.orderBy = vi.fn().mockReturnValue(chain);
+  chain.limit = vi.fn().mockReturnValue(chain);
+  chain.offset = vi.fn().mockResolvedValue([auditRecord]);
+
+  return {
+    db: chain,
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: {},
+    auditEventsTable: withAuditTable
+      ? {
+          entity_id: "entity_id",
+          action: "action",
+          actor_user_id: "actor_user_id",
+          target_type: "target_type",
+          target_id: "target_id",
+          created_at: "created_at",
+        }
+      : undefined,
+  };
+}
+
+describe("AuditHelper", () => {
+  test("recording is a no-op without the audit events table", async () => {
+    const config = createMockConfig(false);
+    const helper = new AuditHelper(config as any);
+
+    await helper.recordEvent({
+      entityId: mockEntityId,
+      action: AuditAction.ENTITY_UPDATED,
+      targetType: AuditTargetType.ENTITY,
+    });
+
+    expect(helper.isEnabled()).toBe(false);
+    expect(config.db.insert).not.toHaveBeenCalled();
+  });
+
+  test("recordEvents writes one row per event with nulls for omitted fields", async () => {
+    const config = createMockConfig();
+    const helper = new AuditHelper(config as any);
+
+    await helper.recordEvents([
+      {
+        entityId: mockEntityId,
+        actorUserId: "owner-uid",
+        action: AuditAction.MEMBER_REMOVED,
+        targetType: AuditTargetType.MEMBER,
+        targetId: "member-uid",
+        before: { role: "member" },
+      },
+      {
+        entityId: mockEntityId,
+        action: AuditAction.INVITATION_EXPIRED,
+        targetType: AuditTargetType.INVITATION,
+      },
+    ]);
+
+    expect(config.db.values).toHaveBeenCalledWith([
+      {
+        entity_id: mockEntityId,
+        actor_user_id: "owner-uid",
+        action: "member.removed",
+        target_type: "member",
+        target_id: "member-uid",
+        before: { role: "member" },
+        after: null,
+      },
+      {
+        entity_id: mockEntityId,
+        actor_user_id: null,
+        action: "invitation.expired",
+        target_type: "invitation",
+        target_id: null,
+        before: null,
+        after: null,
+      },
+    ]);
+  });
+
+  test("listEvents maps records and caps the page size", async () => {
+    const config = createMockConfig();
+    const helper = new AuditHelper(config as any);
+
+    const events = await helper.listEvents(mockEntityId, {
+      actions: [AuditAction.MEMBER_ROLE_CHANGED],
+      limit: 1000,
+      offset: 200,
+    });
+
+    expect(config.db.limit).toHaveBeenCalledWith(200);
+    expect(config.db.offset).toHaveBeenCalledWith(200);
+    expect(events).toEqual([
+      {
+        id: "event-uuid-1",
+        entityId: mockEntityId,
+        actorUserId: "owner-uid",
+        action: AuditAction.MEMBER_ROLE_CHANGED,
+        targetType: AuditTargetType.MEMBER,
+        targetId: "member-uid",
+        before: { role: "member" },
+        after: { role: "manager" },
+        createdAt: "2026-01-01T00:00:00.000Z",
+      },
+    ]);
+  });
+
+  test("listEvents requires the audit events table", async () => {
+    const helper = new AuditHelper(createMockConfig(false) as any);
+
+    await expect(helper.listEvents(mockEntityId)).rejects.toThrow(
+      "Audit events table is not configured"
+    );
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Entity Audit Helper Class
+ * @description Recording and querying the audit log of entity changes
+ */
+
+import { eq, and, desc, gte, lt, inArray } from "drizzle-orm";
+import {
+  type AuditAction,
+  type AuditEvent,
+  type AuditTargetType,
+  type EntityHelperConfig,
+  type EntityOperationOptions,
+  type ListAuditEventsOptions,
+  type RecordAuditEventRequest,
+} from "../types";
+import { OutboxHelper } from "./OutboxHelper";
+
+/** Default page size for audit log queries */
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+/** Maximum page size for audit log queries */
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Helper class for the entity audit log.
+ * Every recorded change is also queued in the outbox (see OutboxHelper).
+ * Recording is a no-op unless `auditEventsTable` or `outboxTable` is in the
+ * config, so the other helpers can record unconditionally.
+ */
+export class AuditHelper {
+  private readonly outboxHelper: OutboxHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.outboxHelper = new OutboxHelper(config);
+  }
+
+  /**
+   * Check if the audit log is enabled.
+   */
+  isEnabled(): boolean {
+    return Boolean(this.config.auditEventsTable);
+  }
+
+  /**
+   * Record a single audit event.
+   * Pass the transaction of the change so the event commits (or rolls back)
+   * together with it.
+   */
+  async recordEvent(
+    event: RecordAuditEventRequest,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    await this.recordEvents([event], options);
+  }
+
+  /**
+   * Record several audit events in one insert.
+   */
+  async recordEvents(
+    events: RecordAuditEventRequest[],
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    if (this.config.auditEventsTable) {
+      const db = options?.tx ?? this.config.db;
+      await db.insert(this.config.auditEventsTable).values(
+        events.map(event => ({
+          entity_id: event.entityId,
+          actor_user_id: event.actorUserId ?? null,
+          action: event.action,
+          target_type: event.targetType,
+          target_id: event.targetId ?? null,
+          before: event.before ?? null,
+          after: event.after ?? null,
+        }))
+      );
+    }
+
+    await this.outboxHelper.enqueueEvents(events, options);
+  }
+
+  /**
+   * Get the audit log of an entity, newest first.
+   * Intended for entity owners; callers are responsible for the access check.
+   */
+  async listEvents(
+    entityId: string,
+    options?: ListAuditEventsOptions
+  ): Promise<AuditEvent[]> {
+    const auditEventsTable = this.requireAuditEventsTable();
+    const conditions = [eq(auditEventsTable.entity_id, entityId)];
+
+    if (options?.actions && options.actions.length > 0) {
+      conditions.push(inArray(auditEventsTable.action, options.actions));
+    }
+
+    if (options?.performedBy) {
+      conditions.push(eq(auditEventsTable.actor_user_id, options.performedBy));
+    }
+
+    if (options?.targetType) {
+      conditions.push(eq(auditEventsTable.target_type, options.targetType));
+    }
+
+    if (options?.targetId) {
+      conditions.push(eq(auditEventsTable.target_id, options.targetId));
+    }
+
+    if (options?.since) {
+      conditions.push(
+        gte(auditEventsTable.created_at, new Date(options.since))
+      );
+    }
+
+    if (options?.until) {
+      conditions.push(lt(auditEventsTable.created_at, new Date(options.until)));
+    }
+
+    const limit = Math.min(
+      options?.limit ?? DEFAULT_AUDIT_PAGE_SIZE,
+      MAX_AUDIT_PAGE_SIZE
+    );
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(auditEventsTable)
+      .where(and(...conditions))
+      .orderBy(desc(auditEventsTable.created_at))
+      .limit(limit)
+      .offset(options?.offset ?? 0);
+
+    return results.map((record: any) => this.mapRecordToEvent(record));
+  }
+
+  /**
+   * Get the audit events table or fail if the audit log is not enabled.
+   */
+  private requireAuditEventsTable(): any {
+    if (!this.config.auditEventsTable) {
+      throw new Error("Audit events table is not configured");
+    }
+    return this.config.auditEventsTable;
+  }
+
+  /**
+   * Map database record to AuditEvent type.
+   */
+  private mapRecordToEvent(record: any): AuditEvent {
+    return {
+      id: record.id,
+      entityId: record.entity_id,
+      actorUserId: record.actor_user_id ?? null,
+      action: record.action as AuditAction,
+      targetType: record.target_type as AuditTargetType,
+      targetId: record.target_id ?? null,
+      before: record.before ?? null,
+      after: record.after ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+    };
+  }
+}
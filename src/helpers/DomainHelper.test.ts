@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tests for DomainHelper
+ */
+
+import { describe, test, expect, vi } from "vitest";
+import { DomainHelper } from "./DomainHelper";
+import { EntityMemberHelper } from "./EntityMemberHelper";
+import { DomainJoinPolicy, EntityRole } from "../types";
+
+const mockEntityId = "entity-uuid-123";
+
+const pendingRecord = {
+  id: "domain-uuid-1",
+  entity_id: mockEntityId,
+  domain: "acme.com",
+  verification_token: "token-abc",
+  verified_at: null,
+  join_policy: "auto_join",
+  default_role: "member",
+  created_by_user_id: "owner-uid",
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+function createMockConfig(records: string[][]) {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.limit = vi
+    .fn()
+    .mockResolvedValueOnce([pendingRecord])
+    .mockResolvedValueOnce([]);
+  chain.update = vi.fn().mockReturnValue(chain);
+  chain.set = vi.fn().mockReturnValue(chain);
+  chain.returning = vi
+    .fn()
+    .mockResolvedValue([{ ...pendingRecord, verified_at: new Date() }]);
+  chain.transaction = vi.fn().mockImplementation(async (fn: any) => fn(chain));
+
+  return {
+    db: chain,
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: {},
+    domainsTable: {
+      id: "id",
+      entity_id: "entity_id",
+      domain: "domain",
+      verified_at: "verified_at",
+    },
+    dnsResolver: { resolveTxt: vi.fn().mockResolvedValue(records) },
+  };
+}
+
+describe("DomainHelper", () => {
+  test("domains expose the TXT record to publish", async () => {
+    const config = createMockConfig([]);
+    const helper = new DomainHelper(config as any);
+
+    const domain = await helper.getDomain(mockEntityId, pendingRecord.id);
+
+    expect(domain?.joinPolicy).toBe(DomainJoinPolicy.AUTO_JOIN);
+    expect(domain?.defaultRole).toBe(EntityRole.MEMBER);
+    expect(domain?.verificationRecord).toEqual({
+      name: "_entity-verification.acme.com",
+      value: "entity-verification=token-abc",
+    });
+  });
+
+  test("verification succeeds when the TXT record is published", async () => {
+    const config = createMockConfig([
+      ["v=spf1 -all"],
+      ["entity-verification=", "token-abc"],
+    ]);
+    const helper = new DomainHelper(config as any);
+
+    const domain = await helper.verifyDomain(mockEntityId, pendingRecord.id);
+
+    expect(config.dnsResolver.resolveTxt).toHaveBeenCalledWith(
+      "_entity-verification.acme.com"
+    );
+    expect(domain.verifiedAt).not.toBeNull();
+    expect(config.db.update).toHaveBeenCalled();
+  });
+
+  test("verification fails without the TXT record", async () => {
+    const config = createMockConfig([["entity-verification=other"]]);
+    const helper = new DomainHelper(config as any);
+
+    await expect(
+      helper.verifyDomain(mockEntityId, pendingRecord.id)
+    ).rejects.toThrow("Verification record not found");
+    expect(config.db.update).not.toHaveBeenCalled();
+  });
+
+  test("a failed auto-join rolls back to a savepoint inside a caller transaction", async () => {
+    const config = createMockConfig([]);
+    const tx: any = {};
+    tx.select = vi.fn().mockReturnValue(tx);
+    tx.from = vi.fn().mockReturnValue(tx);
+    tx.innerJoin = vi.fn().mockReturnValue(tx);
+    tx.where = vi.fn().mockResolvedValue([
+      { entityId: "entity-a", joinPolicy: "auto_join", defaultRole: "member" },
+      { entityId: "entity-b", joinPolicy: "auto_join", defaultRole: "member" },
+    ]);
+    const savepoint = {};
+    tx.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(savepoint));
+    vi.spyOn(EntityMemberHelper.prototype, "getMember").mockResolvedValue(null);
+    const joined = { id: "member-b" };
+    const addMember = vi
+      .spyOn(EntityMemberHelper.prototype, "addMember")
+      .mockRejectedValueOnce(new Error("insert failed"))
+      .mockResolvedValueOnce(joined as any);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const helper = new DomainHelper(config as any);
+
+    const result = await helper.applyDomainRules("user-uid", "jo@acme.com", {
+      tx,
+    });
+
+    expect(tx.transaction).toHaveBeenCalledTimes(2);
+    expect(addMember).toHaveBeenCalledWith("entity-a", "user-uid", "member", {
+      tx: savepoint,
+    });
+    expect(result.joined).toEqual([joined]);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,483 @@
+/**
+ * @fileoverview Entity Domain Helper Class
+ * @description Claiming, verifying and applying email domains of organizations
+ */
+
+import { resolveTxt } from "node:dns/promises";
+import { eq, and, desc, isNotNull, isNull, ne } from "drizzle-orm";
+import {
+  AuditAction,
+  AuditTargetType,
+  DomainJoinPolicy,
+  EntityRole,
+  EntityType,
+  type AddEntityDomainRequest,
+  type DnsResolver,
+  type DomainJoinResult,
+  type EntityDomain,
+  type EntityHelperConfig,
+  type EntityOperationOptions,
+  type EntityTransaction,
+  type UpdateEntityDomainRequest,
+} from "../types";
+import {
+  generateInvitationToken,
+  getDomainVerificationRecord,
+  getEmailDomain,
+  normalizeEmailDomain,
+  runInTransaction,
+} from "../utils";
+import { AuditHelper } from "./AuditHelper";
+import { EntityHelper } from "./EntityHelper";
+import { EntityMemberHelper } from "./EntityMemberHelper";
+
+/** DNS error codes meaning the record does not exist */
+const MISSING_RECORD_CODES = new Set(["ENOTFOUND", "ENODATA"]);
+
+/**
+ * Helper class for organization email domains.
+ * An organization claims a domain, proves control with a DNS TXT record, and
+ * then admits users signing up with an email at that domain.
+ * Requires `domainsTable` in the config.
+ */
+export class DomainHelper {
+  private readonly entityHelper: EntityHelper;
+  private readonly memberHelper: EntityMemberHelper;
+  private readonly auditHelper: AuditHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.entityHelper = new EntityHelper(config);
+    this.memberHelper = new EntityMemberHelper(config);
+    this.auditHelper = new AuditHelper(config);
+  }
+
+  /**
+   * Claim an email domain for an organization.
+   * The domain has no effect until verifyDomain succeeds.
+   * @param entityId - The organization claiming the domain
+   * @param createdByUserId - The member adding the domain (firebase_uid)
+   * @param request - Domain, join policy and default role
+   * @param options - Optional caller-supplied transaction
+   * @returns The domain with the TXT record to publish
+   */
+  async addDomain(
+    entityId: string,
+    createdByUserId: string,
+    request: AddEntityDomainRequest,
+    options?: EntityOperationOptions
+  ): Promise<EntityDomain> {
+    const domainsTable = this.requireDomainsTable();
+    const domain = normalizeEmailDomain(request.domain);
+    const joinPolicy = request.joinPolicy ?? DomainJoinPolicy.AUTO_JOIN;
+    const defaultRole = request.defaultRole ?? EntityRole.MEMBER;
+    this.validatePolicy(joinPolicy, defaultRole);
+
+    const entity = await this.entityHelper.getEntity(entityId, options);
+    if (!entity) {
+      throw new Error("Entity not found");
+    }
+
+    if (entity.entityType !== EntityType.ORGANIZATION) {
+      throw new Error("Domains can only be added to organizations");
+    }
+
+    const actorUserId = options?.actorUserId ?? createdByUserId;
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const existing = await tx
+        .select({ id: domainsTable.id })
+        .from(domainsTable)
+        .where(
+          and(
+            eq(domainsTable.entity_id, entityId),
+            eq(domainsTable.domain, domain)
+          )
+        )
+        .limit(1);
+
+      if (existing.length > 0) {
+        throw new Error("Domain is already added to this entity");
+      }
+
+      const [record] = await tx
+        .insert(domainsTable)
+        .values({
+          entity_id: entityId,
+          domain,
+          verification_token: generateInvitationToken(),
+          join_policy: joinPolicy,
+          default_role: defaultRole,
+          created_by_user_id: createdByUserId,
+        })
+        .returning();
+
+      const added = this.mapRecordToDomain(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId,
+          action: AuditAction.DOMAIN_ADDED,
+          targetType: AuditTargetType.DOMAIN,
+          targetId: added.id,
+          after: { domain, joinPolicy, defaultRole },
+        },
+        { tx }
+      );
+
+      return added;
+    });
+  }
+
+  /**
+   * List the domains of an organization, newest first.
+   */
+  async listDomains(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityDomain[]> {
+    const domainsTable = this.requireDomainsTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(domainsTable)
+      .where(eq(domainsTable.entity_id, entityId))
+      .orderBy(desc(domainsTable.created_at));
+
+    return results.map((record: any) => this.mapRecordToDomain(record));
+  }
+
+  /**
+   * Get a domain of an organization by ID.
+   */
+  async getDomain(
+    entityId: string,
+    domainId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityDomain | null> {
+    const domainsTable = this.requireDomainsTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(domainsTable)
+      .where(
+        and(eq(domainsTable.id, domainId), eq(domainsTable.entity_id, entityId))
+      )
+      .limit(1);
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordToDomain(results[0]);
+  }
+
+  /**
+   * Verify a domain by looking up its TXT record.
+   * A domain can be verified by one organization only.
+   * @throws Error if the record is not published (yet)
+   */
+  async verifyDomain(
+    entityId: string,
+    domainId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityDomain> {
+    const domainsTable = this.requireDomainsTable();
+    const existing = await this.getDomain(entityId, domainId, options);
+    if (!existing) {
+      throw new Error("Domain not found");
+    }
+
+    if (existing.verifiedAt) {
+      return existing;
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const claimed = await db
+      .select({ id: domainsTable.id })
+      .from(domainsTable)
+      .where(
+        and(
+          eq(domainsTable.domain, existing.domain),
+          isNotNull(domainsTable.verified_at),
+          ne(domainsTable.entity_id, entityId)
+        )
+      )
+      .limit(1);
+
+    if (claimed.length > 0) {
+      throw new Error("Domain is already verified by another entity");
+    }
+
+    const { name, value } = existing.verificationRecord;
+    const records = await this.lookupTxtRecords(name);
+    if (!records.includes(value)) {
+      throw new Error(`Verification record not found at ${name}`);
+    }
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [record] = await tx
+        .update(domainsTable)
+        .set({
+          verified_at: new Date(),
+          updated_at: new Date(),
+        })
+        .where(eq(domainsTable.id, domainId))
+        .returning();
+
+      const verified = this.mapRecordToDomain(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.DOMAIN_VERIFIED,
+          targetType: AuditTargetType.DOMAIN,
+          targetId: domainId,
+          after: { domain: verified.domain, verifiedAt: verified.verifiedAt },
+        },
+        { tx }
+      );
+
+      return verified;
+    });
+  }
+
+  /**
+   * Change the join policy or default role of a domain.
+   */
+  async updateDomain(
+    entityId: string,
+    domainId: string,
+    request: UpdateEntityDomainRequest,
+    options?: EntityOperationOptions
+  ): Promise<EntityDomain> {
+    const domainsTable = this.requireDomainsTable();
+    const existing = await this.getDomain(entityId, domainId, options);
+    if (!existing) {
+      throw new Error("Domain not found");
+    }
+
+    const joinPolicy = request.joinPolicy ?? existing.joinPolicy;
+    const defaultRole = request.defaultRole ?? existing.defaultRole;
+    this.validatePolicy(joinPolicy, defaultRole);
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [record] = await tx
+        .update(domainsTable)
+        .set({
+          join_policy: joinPolicy,
+          default_role: defaultRole,
+          updated_at: new Date(),
+        })
+        .where(eq(domainsTable.id, domainId))
+        .returning();
+
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.DOMAIN_UPDATED,
+          targetType: AuditTargetType.DOMAIN,
+          targetId: domainId,
+          before: {
+            joinPolicy: existing.joinPolicy,
+            defaultRole: existing.defaultRole,
+          },
+          after: { joinPolicy, defaultRole },
+        },
+        { tx }
+      );
+
+      return this.mapRecordToDomain(record);
+    });
+  }
+
+  /**
+   * Remove a domain. Existing members stay members.
+   */
+  async removeDomain(
+    entityId: string,
+    domainId: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const domainsTable = this.requireDomainsTable();
+    const existing = await this.getDomain(entityId, domainId, options);
+    if (!existing) {
+      throw new Error("Domain not found");
+    }
+
+    await runInTransaction(this.config.db, options?.tx, async tx => {
+      await tx.delete(domainsTable).where(eq(domainsTable.id, domainId));
+
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.DOMAIN_REMOVED,
+          targetType: AuditTargetType.DOMAIN,
+          targetId: domainId,
+          before: {
+            domain: existing.domain,
+            verifiedAt: existing.verifiedAt,
+          },
+        },
+        { tx }
+      );
+    });
+  }
+
+  /**
+   * Apply the verified domain rules matching a user's email.
+   * Auto-join domains add the user (via EntityMemberHelper.addMember) with
+   * the domain's default role; request-to-join domains are returned as
+   * joinable. Organizations the user is already active in are skipped.
+   * A failed auto-join is logged and skipped; inside a caller's transaction
+   * it is rolled back to a savepoint so the transaction stays usable.
+   * Only pass an email address the user has proven to own.
+   * @param firebaseUid - The user
+   * @param email - The user's verified email address
+   */
+  async applyDomainRules(
+    firebaseUid: string,
+    email: string,
+    options?: EntityOperationOptions
+  ): Promise<DomainJoinResult> {
+    const domainsTable = this.requireDomainsTable();
+    const result: DomainJoinResult = { joined: [], joinable: [] };
+    const domain = getEmailDomain(email);
+    if (!domain) {
+      return result;
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const matches = await db
+      .select({
+        entityId: domainsTable.entity_id,
+        joinPolicy: domainsTable.join_policy,
+        defaultRole: domainsTable.default_role,
+      })
+      .from(domainsTable)
+      .innerJoin(
+        this.config.entitiesTable,
+        eq(domainsTable.entity_id, this.config.entitiesTable.id)
+      )
+      .where(
+        and(
+          eq(domainsTable.domain, domain),
+          isNotNull(domainsTable.verified_at),
+          isNull(this.config.entitiesTable.deleted_at)
+        )
+      );
+
+    for (const match of matches) {
+      const member = await this.memberHelper.getMember(
+        match.entityId,
+        firebaseUid,
+        false,
+        options
+      );
+      if (member) {
+        continue;
+      }
+
+      if (match.joinPolicy === DomainJoinPolicy.REQUEST_TO_JOIN) {
+        const entity = await this.entityHelper.getEntity(
+          match.entityId,
+          options
+        );
+        if (entity) {
+          result.joinable.push(entity);
+        }
+        continue;
+      }
+
+      const join = (tx?: EntityTransaction) =>
+        this.memberHelper.addMember(
+          match.entityId,
+          firebaseUid,
+          match.defaultRole,
+          { ...options, tx }
+        );
+      try {
+        // A failed statement aborts the caller's transaction, so inside one
+        // each join runs in its own savepoint
+        result.joined.push(
+          await (options?.tx ? options.tx.transaction(join) : join())
+        );
+      } catch (error) {
+        // Log but continue with the other organizations
+        console.error(
+          `Failed to auto-join ${firebaseUid} to entity ${match.entityId}:`,
+          error
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Look up the TXT records of a host, each joined into one string.
+   * A missing host or record yields no records.
+   */
+  private async lookupTxtRecords(hostname: string): Promise<string[]> {
+    const resolver: DnsResolver = this.config.dnsResolver ?? { resolveTxt };
+    try {
+      const records = await resolver.resolveTxt(hostname);
+      return records.map(chunks => chunks.join(""));
+    } catch (error) {
+      if (MISSING_RECORD_CODES.has((error as { code?: string })?.code ?? "")) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check the join policy and default role of a domain.
+   */
+  private validatePolicy(
+    joinPolicy: DomainJoinPolicy,
+    defaultRole: EntityRole
+  ): void {
+    if (!Object.values(DomainJoinPolicy).includes(joinPolicy)) {
+      throw new Error("Invalid join policy");
+    }
+
+    if (
+      defaultRole !== EntityRole.MANAGER &&
+      defaultRole !== EntityRole.MEMBER
+    ) {
+      throw new Error("Domains can only grant the manager or member role");
+    }
+  }
+
+  /**
+   * Get the domains table or fail if domains are not enabled.
+   */
+  private requireDomainsTable(): any {
+    if (!this.config.domainsTable) {
+      throw new Error("Domains table is not configured");
+    }
+    return this.config.domainsTable;
+  }
+
+  /**
+   * Map database record to EntityDomain type.
+   */
+  private mapRecordToDomain(record: any): EntityDomain {
+    return {
+      id: record.id,
+      entityId: record.entity_id,
+      domain: record.domain,
+      joinPolicy: record.join_policy as DomainJoinPolicy,
+      defaultRole: record.default_role as EntityRole,
+      verificationRecord: getDomainVerificationRecord(
+        record.domain,
+        record.verification_token
+      ),
+      verifiedAt: record.verified_at?.toISOString() ?? null,
+      createdByUserId: record.created_by_user_id ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+      updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+    };
+  }
+}
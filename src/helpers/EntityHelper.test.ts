@@ -3,8 +3,12 @@
  */
 
 import { describe, test, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
 import { EntityHelper } from "./EntityHelper";
-import { EntityType, EntityRole } from "../types";
+import { AuditHelper } from "./AuditHelper";
+import { AuditAction, AuditTargetType, EntityType, EntityRole } from "../types";
+import { HookVetoError } from "../utils";
+import { entitySlugHistory } from "../schema/entities";
 
 // Mock data
 const mockFirebaseUid = "test-firebase-uid-123";
@@ -49,12 +53,22 @@ function createMockConfig() {
       }
       return chain;
     });
+    chain.onConflictDoNothing = vi.fn().mockReturnValue(chain);
     chain.returning = vi.fn().mockResolvedValue(returnValue);
     chain.select = vi.fn().mockReturnValue(chain);
     chain.from = vi.fn().mockReturnValue(chain);
     chain.innerJoin = vi.fn().mockReturnValue(chain);
     chain.where = vi.fn().mockReturnValue(chain);
     chain.limit = vi.fn().mockResolvedValue([]);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.delete = vi.fn().mockReturnValue(chain);
+    // Queries awaited without .limit()/.returning() resolve to no rows
+    chain.then = (resolve: any) => resolve([]);
+    // Transactions run their callback against the same chain
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
     return chain;
   };
 
@@ -120,6 +134,42 @@ describe("EntityHelper", () => {
       expect(insertedMembers[0].user_id).toBe(mockFirebaseUid);
     });
 
+    test("records the user as personal owner for the uniqueness guarantee", async () => {
+      const config = createMockConfig();
+      const helper = new EntityHelper(config);
+
+      await helper.createPersonalEntity(mockFirebaseUid, mockEmail);
+
+      expect(insertedEntities[0].personal_owner_id).toBe(mockFirebaseUid);
+      expect(config.db.onConflictDoNothing).toHaveBeenCalledTimes(1);
+    });
+
+    test("returns the existing entity when a concurrent insert wins", async () => {
+      const config = createMockConfig();
+      const existingRecord = {
+        id: "existing-entity-uuid",
+        entity_slug: "existing1",
+        entity_type: EntityType.PERSONAL,
+        display_name: "test",
+        description: null,
+        avatar_url: null,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+      // Insert hits the personal owner conflict and returns no row
+      config.db.returning = vi.fn().mockResolvedValue([]);
+      config.db.limit = vi.fn().mockResolvedValue([{ entity: existingRecord }]);
+      const helper = new EntityHelper(config);
+
+      const entity = await helper.createPersonalEntity(
+        mockFirebaseUid,
+        mockEmail
+      );
+
+      expect(entity.id).toBe("existing-entity-uuid");
+      expect(insertedMembers).toHaveLength(0);
+    });
+
     test("extracts display name from email", async () => {
       const config = createMockConfig();
       const helper = new EntityHelper(config);
@@ -193,6 +243,345 @@ describe("EntityHelper", () => {
     });
   });
 
+  describe("Transactions", () => {
+    test("creates personal entity and owner row in one transaction", async () => {
+      const config = createMockConfig();
+      const helper = new EntityHelper(config);
+
+      await helper.createPersonalEntity(mockFirebaseUid, mockEmail);
+
+      expect(config.db.transaction).toHaveBeenCalledTimes(1);
+      expect(insertedEntities).toHaveLength(1);
+      expect(insertedMembers).toHaveLength(1);
+    });
+
+    test("creates organization entity and owner row in one transaction", async () => {
+      const config = createMockConfig();
+      const helper = new EntityHelper(config);
+
+      await helper.createOrganizationEntity(mockFirebaseUid, {
+        displayName: "My Organization",
+      });
+
+      expect(config.db.transaction).toHaveBeenCalledTimes(1);
+    });
+
+    test("joins a caller-supplied transaction instead of opening one", async () => {
+      const config = createMockConfig();
+      const helper = new EntityHelper(config);
+
+      await helper.createPersonalEntity(mockFirebaseUid, mockEmail, {
+        tx: config.db,
+      });
+
+      expect(config.db.transaction).not.toHaveBeenCalled();
+      expect(insertedEntities).toHaveLength(1);
+      expect(insertedMembers).toHaveLength(1);
+    });
+  });
+
+  describe("Soft delete", () => {
+    const orgRecord = (deletedAt: Date | null) => ({
+      id: mockEntityId,
+      entity_slug: mockEntitySlug,
+      entity_type: EntityType.ORGANIZATION,
+      display_name: "My Org",
+      description: null,
+      avatar_url: null,
+      deleted_at: deletedAt,
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+
+    test("deleteEntity sets deleted_at instead of deleting the row", async () => {
+      const config = createMockConfig();
+      config.db.limit = vi.fn().mockResolvedValue([orgRecord(null)]);
+      const helper = new EntityHelper(config);
+
+      await helper.deleteEntity(mockEntityId);
+
+      expect(config.db.delete).not.toHaveBeenCalled();
+      expect(config.db.set).toHaveBeenCalledWith(
+        expect.objectContaining({ deleted_at: expect.any(Date) })
+      );
+    });
+
+    test("restoreEntity clears deleted_at within the grace period", async () => {
+      const config = createMockConfig();
+      const deletedAt = new Date();
+      deletedAt.setDate(deletedAt.getDate() - 5);
+      config.db.limit = vi.fn().mockResolvedValue([orgRecord(deletedAt)]);
+      config.db.returning = vi.fn().mockResolvedValue([orgRecord(null)]);
+      const helper = new EntityHelper(config);
+
+      await helper.restoreEntity(mockEntityId);
+
+      expect(config.db.set).toHaveBeenCalledWith(
+        expect.objectContaining({ deleted_at: null })
+      );
+    });
+
+    test("restoreEntity refuses entities past the grace period", async () => {
+      const config = {
+        ...createMockConfig(),
+        deletionGracePeriodDays: 7,
+      };
+      const deletedAt = new Date();
+      deletedAt.setDate(deletedAt.getDate() - 8);
+      config.db.limit = vi.fn().mockResolvedValue([orgRecord(deletedAt)]);
+      const helper = new EntityHelper(config);
+
+      await expect(helper.restoreEntity(mockEntityId)).rejects.toThrow(
+        "Entity can no longer be restored"
+      );
+    });
+
+    test("purgeDeletedEntities records each purge in the audit log", async () => {
+      const config = createMockConfig();
+      const deletedAt = new Date("2026-01-01T00:00:00.000Z");
+      config.db.returning = vi
+        .fn()
+        .mockResolvedValue([
+          { id: mockEntityId, entitySlug: mockEntitySlug, deletedAt },
+        ]);
+      const recordEvents = vi
+        .spyOn(AuditHelper.prototype, "recordEvents")
+        .mockResolvedValue();
+      const helper = new EntityHelper(config);
+
+      const purged = await helper.purgeDeletedEntities(new Date(), {
+        actorUserId: "admin-uid",
+      });
+
+      expect(purged).toBe(1);
+      expect(config.db.transaction).toHaveBeenCalledTimes(1);
+      expect(recordEvents).toHaveBeenCalledWith(
+        [
+          {
+            entityId: mockEntityId,
+            actorUserId: "admin-uid",
+            action: AuditAction.ENTITY_PURGED,
+            targetType: AuditTargetType.ENTITY,
+            targetId: mockEntityId,
+            before: {
+              entitySlug: mockEntitySlug,
+              deletedAt: deletedAt.toISOString(),
+            },
+          },
+        ],
+        { tx: config.db }
+      );
+      recordEvents.mockRestore();
+    });
+  });
+
+  describe("Hierarchy", () => {
+    const orgRecord = (id: string, parentId: string | null) => ({
+      id,
+      entity_slug: `${id}slug`,
+      entity_type: EntityType.ORGANIZATION,
+      display_name: id,
+      description: null,
+      avatar_url: null,
+      parent_entity_id: parentId,
+      deleted_at: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+
+    test("getAncestors walks up to the root, nearest parent first", async () => {
+      const config = createMockConfig();
+      config.db.limit = vi
+        .fn()
+        .mockResolvedValueOnce([orgRecord("team", "division")])
+        .mockResolvedValueOnce([orgRecord("division", "company")])
+        .mockResolvedValueOnce([orgRecord("company", null)]);
+      const helper = new EntityHelper(config);
+
+      const ancestors = await helper.getAncestors("team");
+
+      expect(ancestors.map(a => a.id)).toEqual(["division", "company"]);
+      expect(ancestors[0].parentEntityId).toBe("company");
+    });
+
+    test("createChildEntity links the child to its parent", async () => {
+      const config = createMockConfig();
+      config.db.limit = vi
+        .fn()
+        // Parent lookup
+        .mockResolvedValueOnce([orgRecord("company", null)])
+        // Parent record for the depth check
+        .mockResolvedValueOnce([orgRecord("company", null)])
+        // Slug availability
+        .mockResolvedValue([]);
+      config.db.returning = vi
+        .fn()
+        .mockResolvedValue([orgRecord("team", "company")]);
+      const helper = new EntityHelper(config);
+
+      const child = await helper.createChildEntity(mockFirebaseUid, "company", {
+        displayName: "Team",
+      });
+
+      expect(insertedEntities[0].parent_entity_id).toBe("company");
+      expect(insertedMembers[0].role).toBe(EntityRole.OWNER);
+      expect(child.parentEntityId).toBe("company");
+    });
+
+    test("createChildEntity rejects personal parents", async () => {
+      const config = createMockConfig();
+      config.db.limit = vi.fn().mockResolvedValue([
+        {
+          ...orgRecord("personal", null),
+          entity_type: EntityType.PERSONAL,
+        },
+      ]);
+      const helper = new EntityHelper(config);
+
+      await expect(
+        helper.createChildEntity(mockFirebaseUid, "personal", {
+          displayName: "Team",
+        })
+      ).rejects.toThrow("Personal entities cannot have child entities");
+    });
+
+    test("createChildEntity enforces the maximum depth", async () => {
+      const config = { ...createMockConfig(), maxEntityDepth: 1 };
+      config.db.limit = vi
+        .fn()
+        .mockResolvedValueOnce([orgRecord("team", "company")])
+        .mockResolvedValueOnce([orgRecord("team", "company")])
+        .mockResolvedValueOnce([orgRecord("company", null)]);
+      const helper = new EntityHelper(config);
+
+      await expect(
+        helper.createChildEntity(mockFirebaseUid, "team", {
+          displayName: "Squad",
+        })
+      ).rejects.toThrow("Maximum entity nesting depth reached");
+    });
+  });
+
+  describe("Slug history", () => {
+    test("resolves a still-reserved previous slug to the renamed entity", async () => {
+      const config = {
+        ...createMockConfig(),
+        slugHistoryTable: entitySlugHistory,
+      };
+      config.db.limit = vi
+        .fn()
+        // No entity currently uses the slug
+        .mockResolvedValueOnce([])
+        // Slug history points at the renamed entity
+        .mockResolvedValueOnce([{ entityId: mockEntityId }])
+        .mockResolvedValueOnce([
+          {
+            id: mockEntityId,
+            entity_slug: "newslug123",
+            entity_type: EntityType.ORGANIZATION,
+            display_name: "My Org",
+            description: null,
+            avatar_url: null,
+            created_at: new Date(),
+            updated_at: new Date(),
+          },
+        ]);
+      const helper = new EntityHelper(config);
+
+      const resolved = await helper.resolveEntitySlug("oldslug123");
+
+      expect(resolved?.entity.entitySlug).toBe("newslug123");
+      expect(resolved?.isCanonical).toBe(false);
+      const history = new PgDialect().sqlToQuery(
+        config.db.where.mock.calls[1][0]
+      );
+      expect(history.sql).toContain(
+        '"entity_slug_history"."reserved_until" > $2'
+      );
+    });
+
+    test("treats a reserved previous slug as unavailable", async () => {
+      const config = {
+        ...createMockConfig(),
+        slugHistoryTable: { slug: "slug", entity_id: "entity_id" },
+      };
+      config.db.limit = vi
+        .fn()
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: "history-id" }]);
+      const helper = new EntityHelper(config);
+
+      expect(await helper.isSlugAvailable("oldslug123")).toBe(false);
+    });
+  });
+
+  describe("Lifecycle hooks", () => {
+    const orgRecord = {
+      id: mockEntityId,
+      entity_slug: mockEntitySlug,
+      entity_type: EntityType.ORGANIZATION,
+      display_name: "My Org",
+      description: null,
+      avatar_url: null,
+      deleted_at: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    test("a before hook veto stops the change", async () => {
+      const config = createMockConfig();
+      config.db.limit = vi.fn().mockResolvedValue([orgRecord]);
+      const helper = new EntityHelper({
+        ...config,
+        hooks: {
+          beforeEntityDelete: () => {
+            throw new HookVetoError("Entity has an active subscription");
+          },
+        },
+      });
+
+      await expect(helper.deleteEntity(mockEntityId)).rejects.toThrow(
+        HookVetoError
+      );
+      expect(config.db.update).not.toHaveBeenCalled();
+    });
+
+    test("after hooks receive the mapped entity and the actor", async () => {
+      const afterEntityCreate = vi.fn();
+      const helper = new EntityHelper({
+        ...createMockConfig(),
+        hooks: { afterEntityCreate },
+      });
+
+      const entity = await helper.createPersonalEntity(mockFirebaseUid);
+
+      expect(afterEntityCreate).toHaveBeenCalledWith({
+        entity,
+        actorUserId: mockFirebaseUid,
+      });
+    });
+
+    test("after hook errors do not fail the operation", async () => {
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const helper = new EntityHelper({
+        ...createMockConfig(),
+        hooks: {
+          afterEntityCreate: () => {
+            throw new Error("cache unavailable");
+          },
+        },
+      });
+
+      await expect(
+        helper.createPersonalEntity(mockFirebaseUid)
+      ).resolves.toMatchObject({ id: mockEntityId });
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
   describe("Role consistency", () => {
     test("personal entity owner has same role as organization owner", async () => {
       const config1 = createMockConfig();
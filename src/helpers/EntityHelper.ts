@@ -3,55 +3,163 @@
  * @description CRUD operations for entities (personal and organization workspaces)
  */
 
-import { eq, and } from "drizzle-orm";
+import {
+  eq,
+  and,
+  inArray,
+  isNull,
+  isNotNull,
+  lt,
+  gt,
+  ne,
+  desc,
+} from "drizzle-orm";
 import {
   EntityType,
   EntityRole,
+  AuditAction,
+  AuditTargetType,
   type Entity,
   type EntityWithRole,
+  type DeletedEntity,
+  type HierarchicalEntity,
   type CreateEntityRequest,
   type UpdateEntityRequest,
   type EntityHelperConfig,
+  type EntityOperationOptions,
+  type EntityTransaction,
+  type GetEntityOptions,
+  type SlugAvailabilityOptions,
+  type ResolvedEntitySlug,
+  type EntitySlugHistoryEntry,
 } from "../types";
-import { generateEntitySlug, validateSlug, normalizeSlug } from "../utils";
+import {
+  generateEntitySlug,
+  validateSlug,
+  normalizeSlug,
+  runInTransaction,
+  runBeforeHook,
+  runAfterHook,
+} from "../utils";
+import { AuditHelper } from "./AuditHelper";
+
+/** Default number of days a soft-deleted entity can be restored */
+const DEFAULT_DELETION_GRACE_PERIOD_DAYS = 30;
+
+/** Default number of days a previous slug stays reserved for its entity */
+const DEFAULT_SLUG_RESERVATION_DAYS = 90;
+
+/** Default maximum nesting depth of child organizations */
+const DEFAULT_MAX_ENTITY_DEPTH = 5;
+
+/** Entity fields whose changes are recorded in the audit log */
+const AUDITED_ENTITY_FIELDS = [
+  "entitySlug",
+  "displayName",
+  "description",
+  "avatarUrl",
+] as const;
 
 /**
  * Helper class for entity CRUD operations.
  */
 export class EntityHelper {
-  constructor(private readonly config: EntityHelperConfig) {}
+  private readonly auditHelper: AuditHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.auditHelper = new AuditHelper(config);
+  }
 
   /**
    * Create a personal entity for a user.
    * Called automatically when a user first logs in.
+   * If a concurrent request already created the user's personal entity,
+   * that entity is returned instead of a duplicate.
    * @param firebaseUid - The Firebase UID (used as user_id)
    * @param email - Optional email for display name
+   * @param options - Optional caller-supplied transaction
    */
   async createPersonalEntity(
     firebaseUid: string,
-    email?: string
+    email?: string,
+    options?: EntityOperationOptions
   ): Promise<Entity> {
     const slug = generateEntitySlug();
     const displayName = email?.split("@")[0] ?? "Personal";
+    const actorUserId = options?.actorUserId ?? firebaseUid;
 
-    const [entity] = await this.config.db
-      .insert(this.config.entitiesTable)
-      .values({
-        entity_slug: slug,
-        entity_type: EntityType.PERSONAL,
-        display_name: displayName,
-      })
-      .returning();
+    const result = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await runBeforeHook(this.config.hooks, "beforeEntityCreate", {
+          entityType: EntityType.PERSONAL,
+          displayName,
+          entitySlug: null,
+          parentEntityId: null,
+          ownerUserId: firebaseUid,
+          actorUserId,
+          tx,
+        });
 
-    // Add user as owner of their personal entity
-    await this.config.db.insert(this.config.membersTable).values({
-      entity_id: entity.id,
-      user_id: firebaseUid,
-      role: EntityRole.OWNER,
-      is_active: true,
-    });
+        const [entity] = await tx
+          .insert(this.config.entitiesTable)
+          .values({
+            entity_slug: slug,
+            entity_type: EntityType.PERSONAL,
+            display_name: displayName,
+            personal_owner_id: firebaseUid,
+          })
+          .onConflictDoNothing({
+            target: this.config.entitiesTable.personal_owner_id,
+          })
+          .returning();
+
+        // Unique personal_owner_id: another request won the race, reuse its entity
+        if (!entity) {
+          const existing = await this.findPersonalEntity(firebaseUid, { tx });
+          if (!existing) {
+            throw new Error("Failed to create personal entity");
+          }
+          return { entity: existing, created: false };
+        }
+
+        // Add user as owner of their personal entity
+        await tx.insert(this.config.membersTable).values({
+          entity_id: entity.id,
+          user_id: firebaseUid,
+          role: EntityRole.OWNER,
+          is_active: true,
+        });
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: entity.id,
+            actorUserId,
+            action: AuditAction.ENTITY_CREATED,
+            targetType: AuditTargetType.ENTITY,
+            targetId: entity.id,
+            after: {
+              entitySlug: entity.entity_slug,
+              entityType: entity.entity_type,
+              displayName: entity.display_name,
+            },
+          },
+          { tx }
+        );
 
-    return this.mapRecordToEntity(entity);
+        return { entity: this.mapRecordToEntity(entity), created: true };
+      }
+    );
+
+    if (result.created) {
+      await runAfterHook(this.config.hooks, "afterEntityCreate", {
+        entity: result.entity,
+        actorUserId,
+      });
+    }
+
+    return result.entity;
   }
 
   /**
@@ -59,89 +167,186 @@ export class EntityHelper {
    * Ensures exactly one personal entity exists per user.
    * @param firebaseUid - The Firebase UID (used as user_id)
    * @param email - Optional email for display name
+   * @param options - Optional caller-supplied transaction
    */
   async getOrCreatePersonalEntity(
     firebaseUid: string,
-    email?: string
+    email?: string,
+    options?: EntityOperationOptions
   ): Promise<Entity> {
-    // Check for existing personal entity where user is owner
-    const existing = await this.config.db
-      .select({ entity: this.config.entitiesTable })
-      .from(this.config.membersTable)
-      .innerJoin(
-        this.config.entitiesTable,
-        eq(this.config.membersTable.entity_id, this.config.entitiesTable.id)
-      )
-      .where(
-        and(
-          eq(this.config.membersTable.user_id, firebaseUid),
-          eq(this.config.membersTable.role, EntityRole.OWNER),
-          eq(this.config.membersTable.is_active, true),
-          eq(this.config.entitiesTable.entity_type, EntityType.PERSONAL)
-        )
-      )
-      .limit(1);
-
-    if (existing.length > 0) {
-      return this.mapRecordToEntity(existing[0].entity);
+    const existing = await this.findPersonalEntity(firebaseUid, options);
+    if (existing) {
+      return existing;
     }
 
-    return this.createPersonalEntity(firebaseUid, email);
+    return this.createPersonalEntity(firebaseUid, email, options);
   }
 
   /**
    * Create an organization entity.
    * @param firebaseUid - The Firebase UID (used as user_id)
    * @param request - Entity creation request
+   * @param options - Optional caller-supplied transaction
    */
   async createOrganizationEntity(
     firebaseUid: string,
-    request: CreateEntityRequest
+    request: CreateEntityRequest,
+    options?: EntityOperationOptions
   ): Promise<Entity> {
-    // Determine slug
-    let slug: string;
-    if (request.entitySlug) {
-      slug = normalizeSlug(request.entitySlug);
-      if (!validateSlug(slug)) {
-        throw new Error("Invalid entity slug format");
+    const actorUserId = options?.actorUserId ?? firebaseUid;
+    const entity = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const record = await this.insertOrganizationEntity(
+          tx,
+          firebaseUid,
+          request,
+          null,
+          actorUserId
+        );
+        return this.mapRecordToEntity(record);
       }
-      // Check availability
-      if (!(await this.isSlugAvailable(slug))) {
-        throw new Error("Entity slug is already taken");
-      }
-    } else {
-      slug = await this.generateUniqueSlug();
-    }
+    );
 
-    const [entity] = await this.config.db
-      .insert(this.config.entitiesTable)
-      .values({
-        entity_slug: slug,
-        entity_type: EntityType.ORGANIZATION,
-        display_name: request.displayName,
-        description: request.description ?? null,
-      })
-      .returning();
+    await runAfterHook(this.config.hooks, "afterEntityCreate", {
+      entity,
+      actorUserId,
+    });
 
-    // Add creator as owner
-    await this.config.db.insert(this.config.membersTable).values({
-      entity_id: entity.id,
-      user_id: firebaseUid,
-      role: EntityRole.OWNER,
-      is_active: true,
+    return entity;
+  }
+
+  /**
+   * Create a team or sub-organization under an existing organization.
+   * The creator becomes the child's owner; owners and managers of the
+   * parent manage the child through inheritance (see PermissionHelper).
+   * @param firebaseUid - The Firebase UID (used as user_id)
+   * @param parentEntityId - The parent organization
+   * @param request - Entity creation request
+   * @param options - Optional caller-supplied transaction
+   */
+  async createChildEntity(
+    firebaseUid: string,
+    parentEntityId: string,
+    request: CreateEntityRequest,
+    options?: EntityOperationOptions
+  ): Promise<HierarchicalEntity> {
+    const actorUserId = options?.actorUserId ?? firebaseUid;
+    const entity = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const parent = await this.getEntity(parentEntityId, { tx });
+        if (!parent) {
+          throw new Error("Parent entity not found");
+        }
+
+        if (parent.entityType === EntityType.PERSONAL) {
+          throw new Error("Personal entities cannot have child entities");
+        }
+
+        const ancestors = await this.getAncestors(parentEntityId, { tx });
+        if (ancestors.length + 1 > this.getMaxDepth()) {
+          throw new Error("Maximum entity nesting depth reached");
+        }
+
+        const record = await this.insertOrganizationEntity(
+          tx,
+          firebaseUid,
+          request,
+          parentEntityId,
+          actorUserId
+        );
+        return this.mapRecordToHierarchicalEntity(record);
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterEntityCreate", {
+      entity,
+      actorUserId,
     });
 
-    return this.mapRecordToEntity(entity);
+    return entity;
+  }
+
+  /**
+   * Get the direct children (teams / sub-organizations) of an entity.
+   * Soft-deleted children are excluded.
+   */
+  async getChildEntities(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<HierarchicalEntity[]> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(this.config.entitiesTable)
+      .where(
+        and(
+          eq(this.config.entitiesTable.parent_entity_id, entityId),
+          isNull(this.config.entitiesTable.deleted_at)
+        )
+      );
+
+    return results.map((record: any) =>
+      this.mapRecordToHierarchicalEntity(record)
+    );
+  }
+
+  /**
+   * Get the ancestors of an entity, nearest parent first.
+   * Returns an empty array for top-level entities.
+   */
+  async getAncestors(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<HierarchicalEntity[]> {
+    const db = options?.tx ?? this.config.db;
+    const ancestors: HierarchicalEntity[] = [];
+    const visited = new Set<string>([entityId]);
+
+    let parentId = (await this.findEntityRecord(entityId, options))
+      ?.parent_entity_id;
+
+    // Bounded walk; the visited set guards against corrupted cycles
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId);
+      const results = await db
+        .select()
+        .from(this.config.entitiesTable)
+        .where(eq(this.config.entitiesTable.id, parentId))
+        .limit(1);
+
+      if (results.length === 0) {
+        break;
+      }
+
+      ancestors.push(this.mapRecordToHierarchicalEntity(results[0]));
+      parentId = results[0].parent_entity_id;
+    }
+
+    return ancestors;
   }
 
   /**
    * Get entity by ID.
+   * Soft-deleted entities are excluded unless `includeDeleted` is set.
    */
-  async getEntity(entityId: string): Promise<Entity | null> {
-    const results = await this.config.db
+  async getEntity(
+    entityId: string,
+    options?: GetEntityOptions
+  ): Promise<Entity | null> {
+    const db = options?.tx ?? this.config.db;
+    const conditions = [eq(this.config.entitiesTable.id, entityId)];
+    if (!options?.includeDeleted) {
+      conditions.push(isNull(this.config.entitiesTable.deleted_at));
+    }
+
+    const results = await db
       .select()
       .from(this.config.entitiesTable)
-      .where(eq(this.config.entitiesTable.id, entityId))
+      .where(and(...conditions))
       .limit(1);
 
     if (results.length === 0) {
@@ -153,19 +358,93 @@ export class EntityHelper {
 
   /**
    * Get entity by slug.
+   * Previous slugs of renamed entities resolve to the current entity.
+   * Soft-deleted entities are excluded unless `includeDeleted` is set.
+   */
+  async getEntityBySlug(
+    slug: string,
+    options?: GetEntityOptions
+  ): Promise<Entity | null> {
+    const resolved = await this.resolveEntitySlug(slug, options);
+    return resolved?.entity ?? null;
+  }
+
+  /**
+   * Resolve a slug to its entity, reporting whether it is the current slug.
+   * Falls back to the slug history when no entity currently uses the slug;
+   * previous slugs resolve only while they are still reserved.
    */
-  async getEntityBySlug(slug: string): Promise<Entity | null> {
-    const results = await this.config.db
+  async resolveEntitySlug(
+    slug: string,
+    options?: GetEntityOptions
+  ): Promise<ResolvedEntitySlug | null> {
+    const db = options?.tx ?? this.config.db;
+    const conditions = [eq(this.config.entitiesTable.entity_slug, slug)];
+    if (!options?.includeDeleted) {
+      conditions.push(isNull(this.config.entitiesTable.deleted_at));
+    }
+
+    const results = await db
       .select()
       .from(this.config.entitiesTable)
-      .where(eq(this.config.entitiesTable.entity_slug, slug))
+      .where(and(...conditions))
       .limit(1);
 
-    if (results.length === 0) {
+    if (results.length > 0) {
+      return { entity: this.mapRecordToEntity(results[0]), isCanonical: true };
+    }
+
+    if (!this.config.slugHistoryTable) {
       return null;
     }
 
-    return this.mapRecordToEntity(results[0]);
+    const history = await db
+      .select({ entityId: this.config.slugHistoryTable.entity_id })
+      .from(this.config.slugHistoryTable)
+      .where(
+        and(
+          eq(this.config.slugHistoryTable.slug, slug),
+          gt(this.config.slugHistoryTable.reserved_until, new Date())
+        )
+      )
+      .limit(1);
+
+    if (history.length === 0) {
+      return null;
+    }
+
+    const entity = await this.getEntity(history[0].entityId, options);
+    if (!entity) {
+      return null;
+    }
+
+    return { entity, isCanonical: false };
+  }
+
+  /**
+   * Get the previous slugs of an entity, most recent first.
+   */
+  async getSlugHistory(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntitySlugHistoryEntry[]> {
+    if (!this.config.slugHistoryTable) {
+      return [];
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(this.config.slugHistoryTable)
+      .where(eq(this.config.slugHistoryTable.entity_id, entityId))
+      .orderBy(desc(this.config.slugHistoryTable.created_at));
+
+    return results.map((record: any) => ({
+      slug: record.slug,
+      entityId: record.entity_id,
+      reservedUntil: record.reserved_until.toISOString(),
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+    }));
   }
 
   /**
@@ -173,12 +452,15 @@ export class EntityHelper {
    * If the user has no entities, a personal entity is automatically created.
    * @param firebaseUid - The Firebase UID (used as user_id)
    * @param email - Optional email for display name if creating personal entity
+   * @param options - Optional caller-supplied transaction
    */
   async getUserEntities(
     firebaseUid: string,
-    email?: string
+    email?: string,
+    options?: EntityOperationOptions
   ): Promise<EntityWithRole[]> {
-    const results = await this.config.db
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select({
         entity: this.config.entitiesTable,
         role: this.config.membersTable.role,
@@ -191,7 +473,8 @@ export class EntityHelper {
       .where(
         and(
           eq(this.config.membersTable.user_id, firebaseUid),
-          eq(this.config.membersTable.is_active, true)
+          eq(this.config.membersTable.is_active, true),
+          isNull(this.config.entitiesTable.deleted_at)
         )
       );
 
@@ -199,7 +482,8 @@ export class EntityHelper {
     if (results.length === 0) {
       const personalEntity = await this.createPersonalEntity(
         firebaseUid,
-        email
+        email,
+        options
       );
       return [
         {
@@ -220,7 +504,8 @@ export class EntityHelper {
    */
   async updateEntity(
     entityId: string,
-    request: UpdateEntityRequest
+    request: UpdateEntityRequest,
+    options?: EntityOperationOptions
   ): Promise<Entity> {
     const updates: Record<string, any> = {
       updated_at: new Date(),
@@ -238,69 +523,633 @@ export class EntityHelper {
       updates.avatar_url = request.avatarUrl;
     }
 
-    if (request.entitySlug !== undefined) {
-      const slug = normalizeSlug(request.entitySlug);
-      if (!validateSlug(slug)) {
-        throw new Error("Invalid entity slug format");
-      }
-      // Check if changing slug
-      const existing = await this.getEntity(entityId);
-      if (existing && existing.entitySlug !== slug) {
-        if (!(await this.isSlugAvailable(slug))) {
-          throw new Error("Entity slug is already taken");
+    const actorUserId = options?.actorUserId ?? null;
+    const result = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const existing = await this.getEntity(entityId, { tx });
+        if (!existing) {
+          throw new Error("Entity not found");
+        }
+
+        if (request.entitySlug !== undefined) {
+          const slug = normalizeSlug(request.entitySlug);
+          if (!validateSlug(slug)) {
+            throw new Error("Invalid entity slug format");
+          }
+          // Check if changing slug
+          if (existing.entitySlug !== slug) {
+            if (
+              !(await this.isSlugAvailable(slug, { tx, forEntityId: entityId }))
+            ) {
+              throw new Error("Entity slug is already taken");
+            }
+            updates.entity_slug = slug;
+          }
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeEntityUpdate", {
+          entity: existing,
+          request,
+          actorUserId,
+          tx,
+        });
+
+        const [updated] = await tx
+          .update(this.config.entitiesTable)
+          .set(updates)
+          .where(eq(this.config.entitiesTable.id, entityId))
+          .returning();
+
+        // Keep the old slug resolving (and reserved) after a rename
+        if (updates.entity_slug) {
+          await this.recordPreviousSlug(tx, entityId, existing.entitySlug);
+        }
+
+        const entity = this.mapRecordToEntity(updated);
+        const before: Record<string, unknown> = {};
+        const after: Record<string, unknown> = {};
+        for (const field of AUDITED_ENTITY_FIELDS) {
+          if (existing[field] !== entity[field]) {
+            before[field] = existing[field];
+            after[field] = entity[field];
+          }
+        }
+
+        if (Object.keys(after).length > 0) {
+          await this.auditHelper.recordEvent(
+            {
+              entityId,
+              actorUserId,
+              action: AuditAction.ENTITY_UPDATED,
+              targetType: AuditTargetType.ENTITY,
+              targetId: entityId,
+              before,
+              after,
+            },
+            { tx }
+          );
         }
-        updates.entity_slug = slug;
+
+        return { entity, previous: existing };
       }
-    }
+    );
 
-    const [updated] = await this.config.db
-      .update(this.config.entitiesTable)
-      .set(updates)
-      .where(eq(this.config.entitiesTable.id, entityId))
-      .returning();
+    await runAfterHook(this.config.hooks, "afterEntityUpdate", {
+      ...result,
+      actorUserId,
+    });
 
-    return this.mapRecordToEntity(updated);
+    return result.entity;
   }
 
   /**
-   * Delete an entity.
+   * Delete an entity (soft delete).
    * Only organizations can be deleted; personal entities cannot.
+   * The entity keeps its members, invitations and slug until it is purged,
+   * and can be restored within the grace period.
+   * Descendant teams and sub-organizations are deleted along with it.
    */
-  async deleteEntity(entityId: string): Promise<void> {
-    const entity = await this.getEntity(entityId);
-    if (!entity) {
-      throw new Error("Entity not found");
-    }
+  async deleteEntity(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const actorUserId = options?.actorUserId ?? null;
+    const entity = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const entity = await this.getEntity(entityId, { tx });
+        if (!entity) {
+          throw new Error("Entity not found");
+        }
+
+        if (entity.entityType === EntityType.PERSONAL) {
+          throw new Error("Personal entities cannot be deleted");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeEntityDelete", {
+          entity,
+          actorUserId,
+          tx,
+        });
+
+        const descendantIds = await this.getDescendantIds(tx, entityId);
+        const deletedAt = new Date();
+
+        const deleted = await tx
+          .update(this.config.entitiesTable)
+          .set({
+            deleted_at: deletedAt,
+            updated_at: deletedAt,
+          })
+          .where(
+            and(
+              inArray(this.config.entitiesTable.id, [
+                entityId,
+                ...descendantIds,
+              ]),
+              isNull(this.config.entitiesTable.deleted_at)
+            )
+          )
+          .returning({ id: this.config.entitiesTable.id });
+
+        // One event per entity so each team's own log shows the deletion
+        await this.auditHelper.recordEvents(
+          deleted.map(({ id }: { id: string }) => ({
+            entityId: id,
+            actorUserId,
+            action: AuditAction.ENTITY_DELETED,
+            targetType: AuditTargetType.ENTITY,
+            targetId: id,
+            after: {
+              deletedAt: deletedAt.toISOString(),
+              ...(id !== entityId && { deletedWithEntityId: entityId }),
+            },
+          })),
+          { tx }
+        );
+
+        return entity;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterEntityDelete", {
+      entity,
+      actorUserId,
+    });
+  }
+
+  /**
+   * Restore a soft-deleted entity.
+   * Only possible until the grace period has passed, and not while the
+   * parent is still deleted. Descendants deleted together with the entity
+   * are restored too; descendants deleted separately stay deleted.
+   */
+  async restoreEntity(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<Entity> {
+    const actorUserId = options?.actorUserId ?? null;
+    const entity = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const results = await tx
+          .select()
+          .from(this.config.entitiesTable)
+          .where(eq(this.config.entitiesTable.id, entityId))
+          .limit(1);
+
+        if (results.length === 0) {
+          throw new Error("Entity not found");
+        }
+
+        if (!results[0].deleted_at) {
+          throw new Error("Entity is not deleted");
+        }
+
+        if (results[0].deleted_at < this.getPurgeCutoff()) {
+          throw new Error("Entity can no longer be restored");
+        }
+
+        if (
+          results[0].parent_entity_id &&
+          !(await this.getEntity(results[0].parent_entity_id, { tx }))
+        ) {
+          throw new Error("Parent entity is deleted");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeEntityRestore", {
+          entity: this.mapRecordToEntity(results[0]),
+          actorUserId,
+          tx,
+        });
+
+        const descendantIds = await this.getDescendantIds(tx, entityId);
+
+        const restored = await tx
+          .update(this.config.entitiesTable)
+          .set({
+            deleted_at: null,
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              inArray(this.config.entitiesTable.id, [
+                entityId,
+                ...descendantIds,
+              ]),
+              eq(this.config.entitiesTable.deleted_at, results[0].deleted_at)
+            )
+          )
+          .returning();
+
+        await this.auditHelper.recordEvents(
+          restored.map((record: any) => ({
+            entityId: record.id,
+            actorUserId,
+            action: AuditAction.ENTITY_RESTORED,
+            targetType: AuditTargetType.ENTITY,
+            targetId: record.id,
+            before: { deletedAt: results[0].deleted_at.toISOString() },
+            ...(record.id !== entityId && {
+              after: { restoredWithEntityId: entityId },
+            }),
+          })),
+          { tx }
+        );
+
+        return this.mapRecordToEntity(
+          restored.find((record: any) => record.id === entityId)
+        );
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterEntityRestore", {
+      entity,
+      actorUserId,
+    });
+
+    return entity;
+  }
+
+  /**
+   * Get soft-deleted entities the user owns and can still restore.
+   * @param firebaseUid - The Firebase UID (used as user_id)
+   */
+  async getDeletedEntities(
+    firebaseUid: string,
+    options?: EntityOperationOptions
+  ): Promise<DeletedEntity[]> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select({ entity: this.config.entitiesTable })
+      .from(this.config.membersTable)
+      .innerJoin(
+        this.config.entitiesTable,
+        eq(this.config.membersTable.entity_id, this.config.entitiesTable.id)
+      )
+      .where(
+        and(
+          eq(this.config.membersTable.user_id, firebaseUid),
+          eq(this.config.membersTable.role, EntityRole.OWNER),
+          eq(this.config.membersTable.is_active, true),
+          isNotNull(this.config.entitiesTable.deleted_at)
+        )
+      );
+
+    const gracePeriodMs = this.getGracePeriodDays() * 24 * 60 * 60 * 1000;
+
+    return results
+      .filter(({ entity }) => entity.deleted_at >= this.getPurgeCutoff())
+      .map(({ entity }) => ({
+        ...this.mapRecordToEntity(entity),
+        deletedAt: entity.deleted_at.toISOString(),
+        restorableUntil: new Date(
+          entity.deleted_at.getTime() + gracePeriodMs
+        ).toISOString(),
+      }));
+  }
 
-    if (entity.entityType === EntityType.PERSONAL) {
-      throw new Error("Personal entities cannot be deleted");
+  /**
+   * Permanently delete entities whose grace period has passed.
+   * Members, invitations and child entities are removed by ON DELETE
+   * CASCADE; audit events are kept, and each purge is recorded as one.
+   * Should be called periodically (e.g., by a cron job).
+   * @param now - Reference time (default: current time)
+   * @returns Number of purged entities
+   */
+  async purgeDeletedEntities(
+    now: Date = new Date(),
+    options?: EntityOperationOptions
+  ): Promise<number> {
+    const result = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const purged = await tx
+          .delete(this.config.entitiesTable)
+          .where(
+            and(
+              isNotNull(this.config.entitiesTable.deleted_at),
+              lt(this.config.entitiesTable.deleted_at, this.getPurgeCutoff(now))
+            )
+          )
+          .returning({
+            id: this.config.entitiesTable.id,
+            entitySlug: this.config.entitiesTable.entity_slug,
+            deletedAt: this.config.entitiesTable.deleted_at,
+          });
+
+        await this.auditHelper.recordEvents(
+          purged.map(
+            ({
+              id,
+              entitySlug,
+              deletedAt,
+            }: {
+              id: string;
+              entitySlug: string;
+              deletedAt: Date;
+            }) => ({
+              entityId: id,
+              actorUserId: options?.actorUserId ?? null,
+              action: AuditAction.ENTITY_PURGED,
+              targetType: AuditTargetType.ENTITY,
+              targetId: id,
+              before: { entitySlug, deletedAt: deletedAt.toISOString() },
+            })
+          ),
+          { tx }
+        );
+
+        return purged;
+      }
+    );
+
+    if (result.length > 0) {
+      await runAfterHook(this.config.hooks, "afterEntitiesPurge", {
+        entityIds: result.map(({ id }: { id: string }) => id),
+        actorUserId: options?.actorUserId ?? null,
+      });
     }
 
-    await this.config.db
-      .delete(this.config.entitiesTable)
-      .where(eq(this.config.entitiesTable.id, entityId));
+    return result.length;
   }
 
   /**
    * Check if a slug is available.
+   * Slugs of soft-deleted entities stay reserved until the entity is purged,
+   * and previous slugs of renamed entities stay reserved for the cooldown
+   * period (except for the entity that used to own them).
    */
-  async isSlugAvailable(slug: string): Promise<boolean> {
-    const results = await this.config.db
+  async isSlugAvailable(
+    slug: string,
+    options?: SlugAvailabilityOptions
+  ): Promise<boolean> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select({ id: this.config.entitiesTable.id })
       .from(this.config.entitiesTable)
       .where(eq(this.config.entitiesTable.entity_slug, slug))
       .limit(1);
 
-    return results.length === 0;
+    if (results.length > 0) {
+      return false;
+    }
+
+    if (!this.config.slugHistoryTable) {
+      return true;
+    }
+
+    const conditions = [
+      eq(this.config.slugHistoryTable.slug, slug),
+      gt(this.config.slugHistoryTable.reserved_until, new Date()),
+    ];
+    if (options?.forEntityId) {
+      conditions.push(
+        ne(this.config.slugHistoryTable.entity_id, options.forEntityId)
+      );
+    }
+
+    const reserved = await db
+      .select({ id: this.config.slugHistoryTable.id })
+      .from(this.config.slugHistoryTable)
+      .where(and(...conditions))
+      .limit(1);
+
+    return reserved.length === 0;
+  }
+
+  /**
+   * Find the personal entity owned by a user.
+   */
+  private async findPersonalEntity(
+    firebaseUid: string,
+    options?: EntityOperationOptions
+  ): Promise<Entity | null> {
+    const db = options?.tx ?? this.config.db;
+
+    // Check for existing personal entity where user is owner
+    const existing = await db
+      .select({ entity: this.config.entitiesTable })
+      .from(this.config.membersTable)
+      .innerJoin(
+        this.config.entitiesTable,
+        eq(this.config.membersTable.entity_id, this.config.entitiesTable.id)
+      )
+      .where(
+        and(
+          eq(this.config.membersTable.user_id, firebaseUid),
+          eq(this.config.membersTable.role, EntityRole.OWNER),
+          eq(this.config.membersTable.is_active, true),
+          eq(this.config.entitiesTable.entity_type, EntityType.PERSONAL)
+        )
+      )
+      .limit(1);
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordToEntity(existing[0].entity);
+  }
+
+  /**
+   * Insert an organization row (optionally under a parent), make the
+   * creator its owner and record the creation.
+   * Runs the beforeEntityCreate hook; the caller runs the after hook.
+   */
+  private async insertOrganizationEntity(
+    tx: EntityTransaction,
+    firebaseUid: string,
+    request: CreateEntityRequest,
+    parentEntityId: string | null,
+    actorUserId: string
+  ): Promise<any> {
+    // Determine slug
+    let slug: string;
+    if (request.entitySlug) {
+      slug = normalizeSlug(request.entitySlug);
+      if (!validateSlug(slug)) {
+        throw new Error("Invalid entity slug format");
+      }
+      // Check availability
+      if (!(await this.isSlugAvailable(slug, { tx }))) {
+        throw new Error("Entity slug is already taken");
+      }
+    } else {
+      slug = await this.generateUniqueSlug({ tx });
+    }
+
+    await runBeforeHook(this.config.hooks, "beforeEntityCreate", {
+      entityType: EntityType.ORGANIZATION,
+      displayName: request.displayName,
+      entitySlug: request.entitySlug ? slug : null,
+      parentEntityId,
+      ownerUserId: firebaseUid,
+      actorUserId,
+      tx,
+    });
+
+    const [entity] = await tx
+      .insert(this.config.entitiesTable)
+      .values({
+        entity_slug: slug,
+        entity_type: EntityType.ORGANIZATION,
+        display_name: request.displayName,
+        description: request.description ?? null,
+        parent_entity_id: parentEntityId,
+      })
+      .returning();
+
+    // Add creator as owner
+    await tx.insert(this.config.membersTable).values({
+      entity_id: entity.id,
+      user_id: firebaseUid,
+      role: EntityRole.OWNER,
+      is_active: true,
+    });
+
+    await this.auditHelper.recordEvent(
+      {
+        entityId: entity.id,
+        actorUserId,
+        action: AuditAction.ENTITY_CREATED,
+        targetType: AuditTargetType.ENTITY,
+        targetId: entity.id,
+        after: {
+          entitySlug: entity.entity_slug,
+          entityType: entity.entity_type,
+          displayName: entity.display_name,
+          parentEntityId,
+        },
+      },
+      { tx }
+    );
+
+    return entity;
+  }
+
+  /**
+   * Find an entity row by ID, including soft-deleted entities.
+   */
+  private async findEntityRecord(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<any | null> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(this.config.entitiesTable)
+      .where(eq(this.config.entitiesTable.id, entityId))
+      .limit(1);
+
+    return results[0] ?? null;
+  }
+
+  /**
+   * Collect the IDs of all descendants of an entity, deleted or not.
+   */
+  private async getDescendantIds(
+    tx: EntityTransaction,
+    entityId: string
+  ): Promise<string[]> {
+    const descendantIds: string[] = [];
+    const visited = new Set<string>([entityId]);
+    let frontier = [entityId];
+
+    while (frontier.length > 0) {
+      const children = await tx
+        .select({ id: this.config.entitiesTable.id })
+        .from(this.config.entitiesTable)
+        .where(inArray(this.config.entitiesTable.parent_entity_id, frontier));
+
+      frontier = [];
+      for (const { id } of children) {
+        if (!visited.has(id)) {
+          visited.add(id);
+          descendantIds.push(id);
+          frontier.push(id);
+        }
+      }
+    }
+
+    return descendantIds;
+  }
+
+  /**
+   * Maximum nesting depth of child organizations.
+   */
+  private getMaxDepth(): number {
+    return this.config.maxEntityDepth ?? DEFAULT_MAX_ENTITY_DEPTH;
+  }
+
+  /**
+   * Record a slug the entity has been renamed away from.
+   * Replaces any stale history row for the same slug.
+   */
+  private async recordPreviousSlug(
+    tx: EntityTransaction,
+    entityId: string,
+    slug: string
+  ): Promise<void> {
+    if (!this.config.slugHistoryTable) {
+      return;
+    }
+
+    const reservedUntil = new Date();
+    reservedUntil.setDate(
+      reservedUntil.getDate() +
+        (this.config.slugReservationDays ?? DEFAULT_SLUG_RESERVATION_DAYS)
+    );
+
+    await tx
+      .insert(this.config.slugHistoryTable)
+      .values({
+        entity_id: entityId,
+        slug,
+        reserved_until: reservedUntil,
+      })
+      .onConflictDoUpdate({
+        target: this.config.slugHistoryTable.slug,
+        set: {
+          entity_id: entityId,
+          reserved_until: reservedUntil,
+          created_at: new Date(),
+        },
+      });
+  }
+
+  /**
+   * Grace period for restoring soft-deleted entities, in days.
+   */
+  private getGracePeriodDays(): number {
+    return (
+      this.config.deletionGracePeriodDays ?? DEFAULT_DELETION_GRACE_PERIOD_DAYS
+    );
+  }
+
+  /**
+   * Entities deleted before this time are past their grace period.
+   */
+  private getPurgeCutoff(now: Date = new Date()): Date {
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - this.getGracePeriodDays());
+    return cutoff;
   }
 
   /**
    * Generate a unique slug.
    */
-  private async generateUniqueSlug(): Promise<string> {
+  private async generateUniqueSlug(
+    options?: EntityOperationOptions
+  ): Promise<string> {
     for (let attempts = 0; attempts < 10; attempts++) {
       const slug = generateEntitySlug();
-      if (await this.isSlugAvailable(slug)) {
+      if (await this.isSlugAvailable(slug, options)) {
         return slug;
       }
     }
@@ -322,4 +1171,14 @@ export class EntityHelper {
       updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
     };
   }
+
+  /**
+   * Map database record to HierarchicalEntity type.
+   */
+  private mapRecordToHierarchicalEntity(record: any): HierarchicalEntity {
+    return {
+      ...this.mapRecordToEntity(record),
+      parentEntityId: record.parent_entity_id ?? null,
+    };
+  }
 }
@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Tests for EntityMemberHelper ownership transfers
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { EntityMemberHelper } from "./EntityMemberHelper";
+import { AuditHelper } from "./AuditHelper";
+import {
+  AuditAction,
+  EntityRole,
+  OWNERSHIP_TRANSFER_EXPIRY_DAYS,
+  OwnershipTransferStatus,
+} from "../types";
+
+const mockEntityId = "entity-uuid-123";
+const organization = { id: mockEntityId, entity_type: "organization" };
+
+const pendingTransfer = {
+  id: "transfer-uuid-1",
+  entity_id: mockEntityId,
+  from_user_id: "owner-uid",
+  to_user_id: "member-uid",
+  status: "pending",
+  expires_at: new Date(Date.now() + 86400000),
+  responded_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+function createMockConfig() {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.limit = vi.fn();
+  chain.insert = vi.fn().mockReturnValue(chain);
+  chain.values = vi.fn().mockReturnValue(chain);
+  chain.update = vi.fn().mockReturnValue(chain);
+  chain.set = vi.fn().mockReturnValue(chain);
+  chain.returning = vi.fn().mockResolvedValue([pendingTransfer]);
+  chain.transaction = vi.fn().mockImplementation(async (fn: any) => fn(chain));
+
+  return {
+    db: chain,
+    entitiesTable: { id: "id" },
+    membersTable: { entity_id: "entity_id", user_id: "user_id" },
+    usersTable: {},
+    ownershipTransfersTable: {
+      id: "id",
+      entity_id: "entity_id",
+      status: "status",
+    },
+  };
+}
+
+describe("EntityMemberHelper ownership transfer", () => {
+  let recordEvent: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    recordEvent = vi
+      .spyOn(AuditHelper.prototype, "recordEvent")
+      .mockResolvedValue();
+    vi.spyOn(EntityMemberHelper.prototype, "getMember").mockImplementation(
+      async (_entityId, userId) =>
+        ({
+          userId,
+          role: userId === "owner-uid" ? EntityRole.OWNER : EntityRole.MEMBER,
+        }) as any
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("transferring demotes the owner to manager and promotes the member", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValueOnce([organization]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await helper.transferOwnership(mockEntityId, "owner-uid", "member-uid");
+
+    expect(config.db.set).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ role: EntityRole.MANAGER })
+    );
+    expect(config.db.set).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        role: EntityRole.OWNER,
+        expires_at: null,
+        permission_overrides: null,
+      })
+    );
+    expect(recordEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditAction.OWNERSHIP_TRANSFERRED }),
+      expect.anything()
+    );
+  });
+
+  test("personal entities cannot change hands", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValueOnce([
+      { ...organization, entity_type: "personal" },
+    ]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await expect(
+      helper.transferOwnership(mockEntityId, "owner-uid", "member-uid")
+    ).rejects.toThrow("Cannot transfer ownership of personal entities");
+    expect(config.db.update).not.toHaveBeenCalled();
+  });
+
+  test("only the current owner can transfer ownership", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValueOnce([organization]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await expect(
+      helper.transferOwnership(mockEntityId, "member-uid", "other-uid")
+    ).rejects.toThrow("Only the current owner can transfer ownership");
+  });
+
+  test("requested transfers expire after their own window", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValueOnce([organization]).mockResolvedValue([]);
+    const helper = new EntityMemberHelper(config as any);
+
+    const transfer = await helper.requestOwnershipTransfer(
+      mockEntityId,
+      "owner-uid",
+      "member-uid"
+    );
+
+    expect(transfer.status).toBe(OwnershipTransferStatus.PENDING);
+    const { expires_at } = config.db.values.mock.calls[0][0];
+    expect(Math.round((expires_at.getTime() - Date.now()) / 86400000)).toBe(
+      OWNERSHIP_TRANSFER_EXPIRY_DAYS
+    );
+  });
+
+  test("only one transfer can be pending per entity", async () => {
+    const config = createMockConfig();
+    config.db.limit
+      .mockResolvedValueOnce([organization])
+      .mockResolvedValueOnce([pendingTransfer]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await expect(
+      helper.requestOwnershipTransfer(mockEntityId, "owner-uid", "member-uid")
+    ).rejects.toThrow("An ownership transfer is already pending");
+    expect(config.db.insert).not.toHaveBeenCalled();
+  });
+
+  test("accepting closes the transfer and applies it", async () => {
+    const config = createMockConfig();
+    config.db.limit
+      .mockResolvedValueOnce([pendingTransfer])
+      .mockResolvedValueOnce([organization]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await helper.acceptOwnershipTransfer(pendingTransfer.id, "member-uid");
+
+    expect(config.db.set).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ status: OwnershipTransferStatus.ACCEPTED })
+    );
+    expect(config.db.set).toHaveBeenNthCalledWith(
+      3,
+      expect.objectContaining({ role: EntityRole.OWNER })
+    );
+  });
+
+  test("only the proposed new owner can accept or decline", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValue([pendingTransfer]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await expect(
+      helper.acceptOwnershipTransfer(pendingTransfer.id, "other-uid")
+    ).rejects.toThrow("Only the proposed new owner can accept this transfer");
+    await expect(
+      helper.declineOwnershipTransfer(pendingTransfer.id, "other-uid")
+    ).rejects.toThrow("Only the proposed new owner can decline this transfer");
+    expect(config.db.update).not.toHaveBeenCalled();
+  });
+
+  test("declining closes the transfer without changing roles", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValueOnce([pendingTransfer]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await helper.declineOwnershipTransfer(pendingTransfer.id, "member-uid");
+
+    expect(config.db.set).toHaveBeenCalledTimes(1);
+    expect(config.db.set).toHaveBeenCalledWith(
+      expect.objectContaining({ status: OwnershipTransferStatus.DECLINED })
+    );
+  });
+
+  test("an expired transfer is marked expired instead of accepted", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValueOnce([
+      { ...pendingTransfer, expires_at: new Date(Date.now() - 1000) },
+    ]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await expect(
+      helper.acceptOwnershipTransfer(pendingTransfer.id, "member-uid")
+    ).rejects.toThrow("Ownership transfer has expired");
+    expect(config.db.set).toHaveBeenCalledTimes(1);
+    expect(config.db.set).toHaveBeenCalledWith(
+      expect.objectContaining({ status: OwnershipTransferStatus.EXPIRED })
+    );
+  });
+
+  test("expiry is written outside the caller's transaction", async () => {
+    const config = createMockConfig();
+    const callerTx = createMockConfig().db;
+    callerTx.limit.mockResolvedValueOnce([
+      { ...pendingTransfer, expires_at: new Date(Date.now() - 1000) },
+    ]);
+    const helper = new EntityMemberHelper(config as any);
+
+    await expect(
+      helper.acceptOwnershipTransfer(pendingTransfer.id, "member-uid", {
+        tx: callerTx,
+      })
+    ).rejects.toThrow("Ownership transfer has expired");
+    expect(callerTx.update).not.toHaveBeenCalled();
+    expect(config.db.transaction).toHaveBeenCalledTimes(1);
+    expect(config.db.set).toHaveBeenCalledWith(
+      expect.objectContaining({ status: OwnershipTransferStatus.EXPIRED })
+    );
+  });
+});
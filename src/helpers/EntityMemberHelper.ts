@@ -3,20 +3,50 @@
  * @description Operations for managing entity members and their roles
  */
 
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNotNull, lte } from "drizzle-orm";
 import {
   EntityRole,
   EntityType,
+  OwnershipTransferStatus,
+  OWNERSHIP_TRANSFER_EXPIRY_DAYS,
+  AuditAction,
+  AuditTargetType,
+  type AddMemberOptions,
   type EntityMember,
   type EntityHelperConfig,
+  type EntityOperationOptions,
+  type EntityRoleKey,
+  type EntityTransaction,
   type ListMembersOptions,
+  type MemberPermissionOverrides,
+  type MembershipMaintenanceOptions,
+  type OwnershipTransfer,
+  type EntityPermissions,
+  type PermissionOverrides,
+  type PermissionOverridesChangeHookEvent,
 } from "../types";
+import {
+  isPermissionKey,
+  notExpiredMembership,
+  parseMembershipExpiry,
+  runInTransaction,
+  runBeforeHook,
+  runAfterHook,
+} from "../utils";
+import { AuditHelper } from "./AuditHelper";
+import { RoleHelper } from "./RoleHelper";
 
 /**
  * Helper class for entity member operations.
  */
 export class EntityMemberHelper {
-  constructor(private readonly config: EntityHelperConfig) {}
+  private readonly roleHelper: RoleHelper;
+  private readonly auditHelper: AuditHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.roleHelper = new RoleHelper(config);
+    this.auditHelper = new AuditHelper(config);
+  }
 
   /**
    * Get all members of an entity.
@@ -35,7 +65,8 @@ export class EntityMemberHelper {
     const isActive = options?.isActive ?? true;
     conditions.push(eq(this.config.membersTable.is_active, isActive));
 
-    let query = this.config.db
+    const db = options?.tx ?? this.config.db;
+    let query = db
       .select({
         member: this.config.membersTable,
         user: {
@@ -77,7 +108,8 @@ export class EntityMemberHelper {
   async getMember(
     entityId: string,
     userId: string,
-    includeInactive = false
+    includeInactive = false,
+    options?: EntityOperationOptions
   ): Promise<EntityMember | null> {
     const conditions = [
       eq(this.config.membersTable.entity_id, entityId),
@@ -87,7 +119,8 @@ export class EntityMemberHelper {
       conditions.push(eq(this.config.membersTable.is_active, true));
     }
 
-    const results = await this.config.db
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select({
         member: this.config.membersTable,
         user: {
@@ -115,21 +148,25 @@ export class EntityMemberHelper {
   }
 
   /**
-   * Get user's role in an entity.
-   * Only returns role for active members.
+   * Get user's role in an entity (a built-in role or a custom role key).
+   * Only returns role for active, unexpired members. Roles inherited from
+   * parent organizations are not included; see PermissionHelper.getUserRole.
    */
   async getUserRole(
     entityId: string,
-    userId: string
-  ): Promise<EntityRole | null> {
-    const results = await this.config.db
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityRoleKey | null> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select({ role: this.config.membersTable.role })
       .from(this.config.membersTable)
       .where(
         and(
           eq(this.config.membersTable.entity_id, entityId),
           eq(this.config.membersTable.user_id, userId),
-          eq(this.config.membersTable.is_active, true)
+          eq(this.config.membersTable.is_active, true),
+          notExpiredMembership(this.config.membersTable)
         )
       )
       .limit(1);
@@ -138,77 +175,132 @@ export class EntityMemberHelper {
       return null;
     }
 
-    return results[0].role as EntityRole;
+    return results[0].role as EntityRoleKey;
   }
 
   /**
    * Add a member to an entity.
    * @param entityId - The entity ID
    * @param firebaseUid - The Firebase UID (used as user_id)
-   * @param role - The member's role
+   * @param role - The member's role (built-in or a custom role of the entity)
+   * @param options - Optional caller-supplied transaction and membership expiry
    */
   async addMember(
     entityId: string,
     firebaseUid: string,
-    role: EntityRole
+    role: EntityRoleKey,
+    options?: AddMemberOptions
   ): Promise<EntityMember> {
-    // Check if there's an existing inactive membership to reactivate
-    const existing = await this.getMember(entityId, firebaseUid, true);
+    const actorUserId = options?.actorUserId ?? null;
+    const expiresAt = options?.expiresAt
+      ? parseMembershipExpiry(options.expiresAt)
+      : null;
+    if (expiresAt && role === EntityRole.OWNER) {
+      throw new Error("The owner's membership cannot expire");
+    }
 
-    let member;
-    if (existing && !existing.isActive) {
-      // Reactivate existing membership
-      const [updated] = await this.config.db
-        .update(this.config.membersTable)
-        .set({
-          role,
-          is_active: true,
-          updated_at: new Date(),
-        })
-        .where(
-          and(
-            eq(this.config.membersTable.entity_id, entityId),
-            eq(this.config.membersTable.user_id, firebaseUid)
-          )
-        )
-        .returning();
-      member = updated;
-    } else {
-      // Create new membership
-      const [inserted] = await this.config.db
-        .insert(this.config.membersTable)
-        .values({
-          entity_id: entityId,
-          user_id: firebaseUid,
+    const member = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        if (!(await this.roleHelper.roleExists(entityId, role, { tx }))) {
+          throw new Error("Role not found");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeMemberAdd", {
+          entityId,
+          userId: firebaseUid,
           role,
-          is_active: true,
-        })
-        .returning();
-      member = inserted;
-    }
+          actorUserId,
+          tx,
+        });
 
-    // Fetch user info for response
-    const users = await this.config.db
-      .select({
-        id: this.config.usersTable.firebase_uid,
-        email: this.config.usersTable.email,
-        displayName: this.config.usersTable.display_name,
-      })
-      .from(this.config.usersTable)
-      .where(eq(this.config.usersTable.firebase_uid, firebaseUid))
-      .limit(1);
+        // Check if there's an existing inactive membership to reactivate
+        const existing = await this.getMember(entityId, firebaseUid, true, {
+          tx,
+        });
+
+        let member;
+        if (existing && !existing.isActive) {
+          // Reactivate existing membership (overrides from the old membership are dropped)
+          const [updated] = await tx
+            .update(this.config.membersTable)
+            .set({
+              role,
+              is_active: true,
+              permission_overrides: null,
+              expires_at: expiresAt,
+              updated_at: new Date(),
+            })
+            .where(
+              and(
+                eq(this.config.membersTable.entity_id, entityId),
+                eq(this.config.membersTable.user_id, firebaseUid)
+              )
+            )
+            .returning();
+          member = updated;
+        } else {
+          // Create new membership
+          const [inserted] = await tx
+            .insert(this.config.membersTable)
+            .values({
+              entity_id: entityId,
+              user_id: firebaseUid,
+              role,
+              is_active: true,
+              expires_at: expiresAt,
+            })
+            .returning();
+          member = inserted;
+        }
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId,
+            actorUserId,
+            action: AuditAction.MEMBER_ADDED,
+            targetType: AuditTargetType.MEMBER,
+            targetId: firebaseUid,
+            after: expiresAt
+              ? { role, expiresAt: expiresAt.toISOString() }
+              : { role },
+          },
+          { tx }
+        );
+
+        // Fetch user info for response
+        const users = await tx
+          .select({
+            id: this.config.usersTable.firebase_uid,
+            email: this.config.usersTable.email,
+            displayName: this.config.usersTable.display_name,
+          })
+          .from(this.config.usersTable)
+          .where(eq(this.config.usersTable.firebase_uid, firebaseUid))
+          .limit(1);
+
+        return this.mapRecordToMember(member, users[0] ?? null);
+      }
+    );
 
-    return this.mapRecordToMember(member, users[0] ?? null);
+    await runAfterHook(this.config.hooks, "afterMemberAdd", {
+      member,
+      actorUserId,
+    });
+
+    return member;
   }
 
   /**
-   * Update a member's role.
+   * Update a member's role (built-in or a custom role of the entity).
    * Cannot change the owner's role. Cannot set anyone to owner (ownership transfer is separate).
    */
   async updateMemberRole(
     entityId: string,
     userId: string,
-    role: EntityRole
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
   ): Promise<EntityMember> {
     // Cannot assign owner role via this method
     if (role === EntityRole.OWNER) {
@@ -217,87 +309,1075 @@ export class EntityMemberHelper {
       );
     }
 
-    // Check constraints for personal entities
-    const entity = await this.config.db
+    const actorUserId = options?.actorUserId ?? null;
+    const result = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        // Check constraints for personal entities
+        const entity = await tx
+          .select()
+          .from(this.config.entitiesTable)
+          .where(eq(this.config.entitiesTable.id, entityId))
+          .limit(1);
+
+        if (
+          entity.length > 0 &&
+          entity[0].entity_type === EntityType.PERSONAL
+        ) {
+          throw new Error("Cannot change roles in personal entities");
+        }
+
+        if (!(await this.roleHelper.roleExists(entityId, role, { tx }))) {
+          throw new Error("Role not found");
+        }
+
+        // Check if user is the owner - cannot change owner's role
+        const currentMember = await this.getMember(entityId, userId, false, {
+          tx,
+        });
+        if (!currentMember) {
+          throw new Error("Member not found or inactive");
+        }
+
+        if (currentMember.role === EntityRole.OWNER) {
+          throw new Error("Cannot change the owner's role");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeMemberRoleChange", {
+          member: currentMember,
+          role,
+          actorUserId,
+          tx,
+        });
+
+        const [updated] = await tx
+          .update(this.config.membersTable)
+          .set({
+            role,
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(this.config.membersTable.entity_id, entityId),
+              eq(this.config.membersTable.user_id, userId),
+              eq(this.config.membersTable.is_active, true)
+            )
+          )
+          .returning();
+
+        if (!updated) {
+          throw new Error("Member not found or inactive");
+        }
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId,
+            actorUserId,
+            action: AuditAction.MEMBER_ROLE_CHANGED,
+            targetType: AuditTargetType.MEMBER,
+            targetId: userId,
+            before: { role: currentMember.role },
+            after: { role },
+          },
+          { tx }
+        );
+
+        // Fetch user info for response
+        const users = await tx
+          .select({
+            id: this.config.usersTable.firebase_uid,
+            email: this.config.usersTable.email,
+            displayName: this.config.usersTable.display_name,
+          })
+          .from(this.config.usersTable)
+          .where(eq(this.config.usersTable.firebase_uid, userId))
+          .limit(1);
+
+        return {
+          member: this.mapRecordToMember(updated, users[0] ?? null),
+          previousRole: currentMember.role as EntityRoleKey,
+        };
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterMemberRoleChange", {
+      ...result,
+      actorUserId,
+    });
+
+    return result.member;
+  }
+
+  /**
+   * Remove a member from an entity (soft delete).
+   * Sets is_active = false instead of deleting the record.
+   */
+  async removeMember(
+    entityId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const actorUserId = options?.actorUserId ?? null;
+    const member = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        // Check constraints for personal entities
+        const entity = await tx
+          .select()
+          .from(this.config.entitiesTable)
+          .where(eq(this.config.entitiesTable.id, entityId))
+          .limit(1);
+
+        if (
+          entity.length > 0 &&
+          entity[0].entity_type === EntityType.PERSONAL
+        ) {
+          throw new Error("Cannot remove members from personal entities");
+        }
+
+        // Check if user is the owner - cannot remove owner
+        const member = await this.getMember(entityId, userId, false, { tx });
+        if (!member) {
+          throw new Error("Member not found");
+        }
+
+        if (member.role === EntityRole.OWNER) {
+          throw new Error("Cannot remove the entity owner");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeMemberRemove", {
+          member,
+          actorUserId,
+          tx,
+        });
+
+        // Soft delete - set is_active = false
+        await tx
+          .update(this.config.membersTable)
+          .set({
+            is_active: false,
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(this.config.membersTable.entity_id, entityId),
+              eq(this.config.membersTable.user_id, userId)
+            )
+          );
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId,
+            actorUserId,
+            action: AuditAction.MEMBER_REMOVED,
+            targetType: AuditTargetType.MEMBER,
+            targetId: userId,
+            before: { role: member.role },
+          },
+          { tx }
+        );
+
+        return member;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterMemberRemove", {
+      member: { ...member, isActive: false },
+      actorUserId,
+    });
+  }
+
+  /**
+   * Check if a user is a member of an entity.
+   */
+  async isMember(
+    entityId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<boolean> {
+    const role = await this.getUserRole(entityId, userId, options);
+    return role !== null;
+  }
+
+  // ========================================
+  // PERMISSION OVERRIDES
+  // ========================================
+
+  /**
+   * Grant or deny a single permission for one member, regardless of role.
+   * Owners always hold every permission and cannot have overrides.
+   * @param entityId - The entity ID
+   * @param userId - The member (firebase_uid)
+   * @param permission - The permission to override
+   * @param granted - true to grant, false to deny
+   * @param options - Optional caller-supplied transaction
+   * @returns The member's overrides after the change
+   */
+  async setPermissionOverride(
+    entityId: string,
+    userId: string,
+    permission: keyof EntityPermissions,
+    granted: boolean,
+    options?: EntityOperationOptions
+  ): Promise<PermissionOverrides> {
+    if (!isPermissionKey(permission)) {
+      throw new Error(`Unknown permission: ${String(permission)}`);
+    }
+
+    const actorUserId = options?.actorUserId ?? null;
+    const change = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const previous = await this.getOverridableMemberOverrides(
+          tx,
+          entityId,
+          userId
+        );
+        return this.savePermissionOverrides(
+          tx,
+          entityId,
+          userId,
+          previous,
+          { ...previous, [permission]: granted },
+          actorUserId
+        );
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterPermissionOverridesChange", {
+      ...change,
+      actorUserId,
+    });
+
+    return change.overrides;
+  }
+
+  /**
+   * Remove one permission override of a member, or all of them.
+   * @param entityId - The entity ID
+   * @param userId - The member (firebase_uid)
+   * @param permission - The override to remove (omit to remove all)
+   * @param options - Optional caller-supplied transaction
+   * @returns The member's overrides after the change
+   */
+  async clearPermissionOverride(
+    entityId: string,
+    userId: string,
+    permission?: keyof EntityPermissions,
+    options?: EntityOperationOptions
+  ): Promise<PermissionOverrides> {
+    const actorUserId = options?.actorUserId ?? null;
+    const change = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const previous = await this.getOverridableMemberOverrides(
+          tx,
+          entityId,
+          userId
+        );
+
+        const remaining: PermissionOverrides = {};
+        if (permission) {
+          Object.assign(remaining, previous);
+          delete remaining[permission];
+        }
+
+        return this.savePermissionOverrides(
+          tx,
+          entityId,
+          userId,
+          previous,
+          remaining,
+          actorUserId
+        );
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterPermissionOverridesChange", {
+      ...change,
+      actorUserId,
+    });
+
+    return change.overrides;
+  }
+
+  /**
+   * Get a member's permission overrides.
+   * Returns an empty object for members without overrides or non-members.
+   */
+  async getPermissionOverrides(
+    entityId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<PermissionOverrides> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select({ overrides: this.config.membersTable.permission_overrides })
+      .from(this.config.membersTable)
+      .where(
+        and(
+          eq(this.config.membersTable.entity_id, entityId),
+          eq(this.config.membersTable.user_id, userId),
+          eq(this.config.membersTable.is_active, true)
+        )
+      )
+      .limit(1);
+
+    return (results[0]?.overrides ?? {}) as PermissionOverrides;
+  }
+
+  /**
+   * List the active members of an entity that have permission overrides.
+   */
+  async listPermissionOverrides(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<MemberPermissionOverrides[]> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select({
+        userId: this.config.membersTable.user_id,
+        overrides: this.config.membersTable.permission_overrides,
+      })
+      .from(this.config.membersTable)
+      .where(
+        and(
+          eq(this.config.membersTable.entity_id, entityId),
+          eq(this.config.membersTable.is_active, true),
+          isNotNull(this.config.membersTable.permission_overrides)
+        )
+      );
+
+    return results.map(
+      ({
+        userId,
+        overrides,
+      }: {
+        userId: string;
+        overrides: PermissionOverrides;
+      }) => ({ userId, overrides })
+    );
+  }
+
+  // ========================================
+  // MEMBERSHIP EXPIRY
+  // ========================================
+
+  /**
+   * Set when a member's membership ends, e.g. to extend a contractor's
+   * access. Works for members whose expiry has passed but who have not been
+   * deactivated by expireMemberships yet. The owner's membership cannot expire.
+   * @param entityId - The entity ID
+   * @param userId - The member (firebase_uid)
+   * @param expiresAt - ISO 8601 time the membership ends; must be in the future
+   * @param options - Optional caller-supplied transaction
+   * @returns The updated membership
+   */
+  async extendMembership(
+    entityId: string,
+    userId: string,
+    expiresAt: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityMember> {
+    return this.setMembershipExpiry(
+      entityId,
+      userId,
+      parseMembershipExpiry(expiresAt),
+      options
+    );
+  }
+
+  /**
+   * Remove a member's expiry so the membership no longer ends.
+   * @param entityId - The entity ID
+   * @param userId - The member (firebase_uid)
+   * @param options - Optional caller-supplied transaction
+   * @returns The updated membership
+   */
+  async clearMembershipExpiry(
+    entityId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityMember> {
+    return this.setMembershipExpiry(entityId, userId, null, options);
+  }
+
+  /**
+   * Deactivate active memberships whose expiry has passed.
+   * Should be called periodically (e.g., by InvitationScheduler). Each one is
+   * recorded as a member.expired audit event and runs afterMemberExpire; the
+   * memberships keep their expiry and can be re-added with addMember.
+   * @param options - Optional caller-supplied transaction and reference time
+   * @returns Number of memberships deactivated
+   */
+  async expireMemberships(
+    options?: MembershipMaintenanceOptions
+  ): Promise<number> {
+    const actorUserId = options?.actorUserId ?? null;
+    const now = options?.now ?? new Date();
+    const expired = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const result = await tx
+          .update(this.config.membersTable)
+          .set({
+            is_active: false,
+            updated_at: now,
+          })
+          .where(
+            and(
+              eq(this.config.membersTable.is_active, true),
+              lte(this.config.membersTable.expires_at, now)
+            )
+          )
+          .returning();
+
+        await this.auditHelper.recordEvents(
+          result.map((record: any) => ({
+            entityId: record.entity_id,
+            actorUserId,
+            action: AuditAction.MEMBER_EXPIRED,
+            targetType: AuditTargetType.MEMBER,
+            targetId: record.user_id,
+            before: {
+              role: record.role,
+              expiresAt: record.expires_at.toISOString(),
+            },
+          })),
+          { tx }
+        );
+
+        return result.map((record: any) =>
+          this.mapRecordToMember(record, null)
+        );
+      }
+    );
+
+    for (const member of expired) {
+      await runAfterHook(this.config.hooks, "afterMemberExpire", {
+        member,
+        actorUserId,
+      });
+    }
+
+    return expired.length;
+  }
+
+  // ========================================
+  // OWNERSHIP TRANSFER
+  // ========================================
+
+  /**
+   * Transfer ownership of an organization immediately.
+   * The current owner is demoted to manager and the target member is promoted
+   * to owner in a single transaction.
+   * @param entityId - The entity ID
+   * @param fromUserId - The current owner (firebase_uid)
+   * @param toUserId - The active member who becomes owner (firebase_uid)
+   * @param options - Optional caller-supplied transaction
+   * @returns The new owner's membership
+   */
+  async transferOwnership(
+    entityId: string,
+    fromUserId: string,
+    toUserId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityMember> {
+    const actorUserId = options?.actorUserId ?? fromUserId;
+    const newOwner = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await this.validateOwnershipTransfer(
+          tx,
+          entityId,
+          fromUserId,
+          toUserId
+        );
+        await this.applyOwnershipTransfer(
+          tx,
+          entityId,
+          fromUserId,
+          toUserId,
+          actorUserId
+        );
+
+        const member = await this.getMember(entityId, toUserId, false, { tx });
+        return member!;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterOwnershipTransfer", {
+      member: newOwner,
+      previousOwnerUserId: fromUserId,
+      actorUserId,
+    });
+
+    return newOwner;
+  }
+
+  /**
+   * Request an ownership transfer that the new owner must accept.
+   * Only one transfer can be pending per entity; it expires after
+   * OWNERSHIP_TRANSFER_EXPIRY_DAYS days.
+   * @param entityId - The entity ID
+   * @param fromUserId - The current owner (firebase_uid)
+   * @param toUserId - The active member proposed as new owner (firebase_uid)
+   * @param options - Optional caller-supplied transaction
+   */
+  async requestOwnershipTransfer(
+    entityId: string,
+    fromUserId: string,
+    toUserId: string,
+    options?: EntityOperationOptions
+  ): Promise<OwnershipTransfer> {
+    const transfersTable = this.requireOwnershipTransfersTable();
+    const actorUserId = options?.actorUserId ?? fromUserId;
+
+    const transfer = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await this.validateOwnershipTransfer(
+          tx,
+          entityId,
+          fromUserId,
+          toUserId
+        );
+
+        const pending = await this.getPendingOwnershipTransfer(entityId, {
+          tx,
+        });
+        if (pending) {
+          throw new Error(
+            "An ownership transfer is already pending for this entity"
+          );
+        }
+
+        await runBeforeHook(
+          this.config.hooks,
+          "beforeOwnershipTransferRequest",
+          {
+            entityId,
+            fromUserId,
+            toUserId,
+            actorUserId,
+            tx,
+          }
+        );
+
+        const expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + OWNERSHIP_TRANSFER_EXPIRY_DAYS);
+        const [record] = await tx
+          .insert(transfersTable)
+          .values({
+            entity_id: entityId,
+            from_user_id: fromUserId,
+            to_user_id: toUserId,
+            status: OwnershipTransferStatus.PENDING,
+            expires_at: expiresAt,
+          })
+          .returning();
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId,
+            actorUserId,
+            action: AuditAction.OWNERSHIP_TRANSFER_REQUESTED,
+            targetType: AuditTargetType.OWNERSHIP_TRANSFER,
+            targetId: record.id,
+            after: { fromUserId, toUserId },
+          },
+          { tx }
+        );
+
+        return this.mapRecordToOwnershipTransfer(record);
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterOwnershipTransferRequest", {
+      transfer,
+      actorUserId,
+    });
+
+    return transfer;
+  }
+
+  /**
+   * Get the pending ownership transfer for an entity, if any.
+   */
+  async getPendingOwnershipTransfer(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<OwnershipTransfer | null> {
+    const transfersTable = this.requireOwnershipTransfersTable();
+    const db = options?.tx ?? this.config.db;
+
+    const results = await db
+      .select()
+      .from(transfersTable)
+      .where(
+        and(
+          eq(transfersTable.entity_id, entityId),
+          eq(transfersTable.status, OwnershipTransferStatus.PENDING)
+        )
+      )
+      .limit(1);
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordToOwnershipTransfer(results[0]);
+  }
+
+  /**
+   * Accept a pending ownership transfer.
+   * Must be called by the proposed new owner.
+   * @param transferId - The transfer ID
+   * @param userId - The accepting user (firebase_uid)
+   * @param options - Optional caller-supplied transaction
+   * @returns The new owner's membership
+   */
+  async acceptOwnershipTransfer(
+    transferId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityMember> {
+    const transfersTable = this.requireOwnershipTransfersTable();
+    const transfer = await this.getRespondableTransfer(transferId, options);
+
+    if (transfer.toUserId !== userId) {
+      throw new Error("Only the proposed new owner can accept this transfer");
+    }
+
+    const actorUserId = options?.actorUserId ?? userId;
+    const newOwner = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        // Re-check: memberships may have changed since the request was made
+        await this.validateOwnershipTransfer(
+          tx,
+          transfer.entityId,
+          transfer.fromUserId,
+          transfer.toUserId
+        );
+
+        const [closed] = await tx
+          .update(transfersTable)
+          .set({
+            status: OwnershipTransferStatus.ACCEPTED,
+            responded_at: new Date(),
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(transfersTable.id, transfer.id),
+              eq(transfersTable.status, OwnershipTransferStatus.PENDING)
+            )
+          )
+          .returning();
+
+        if (!closed) {
+          throw new Error("Ownership transfer is no longer pending");
+        }
+
+        await this.applyOwnershipTransfer(
+          tx,
+          transfer.entityId,
+          transfer.fromUserId,
+          transfer.toUserId,
+          actorUserId
+        );
+
+        const member = await this.getMember(transfer.entityId, userId, false, {
+          tx,
+        });
+        return member!;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterOwnershipTransfer", {
+      member: newOwner,
+      previousOwnerUserId: transfer.fromUserId,
+      actorUserId,
+    });
+
+    return newOwner;
+  }
+
+  /**
+   * Decline a pending ownership transfer.
+   * Must be called by the proposed new owner.
+   */
+  async declineOwnershipTransfer(
+    transferId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const transfer = await this.getRespondableTransfer(transferId, options);
+
+    if (transfer.toUserId !== userId) {
+      throw new Error("Only the proposed new owner can decline this transfer");
+    }
+
+    await this.setOwnershipTransferStatus(
+      transfer,
+      OwnershipTransferStatus.DECLINED,
+      AuditAction.OWNERSHIP_TRANSFER_DECLINED,
+      options?.actorUserId ?? userId,
+      options
+    );
+  }
+
+  /**
+   * Cancel a pending ownership transfer.
+   * Must be called by the owner who requested it.
+   */
+  async cancelOwnershipTransfer(
+    transferId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const transfer = await this.getRespondableTransfer(transferId, options);
+
+    if (transfer.fromUserId !== userId) {
+      throw new Error("Only the requesting owner can cancel this transfer");
+    }
+
+    await this.setOwnershipTransferStatus(
+      transfer,
+      OwnershipTransferStatus.CANCELLED,
+      AuditAction.OWNERSHIP_TRANSFER_CANCELLED,
+      options?.actorUserId ?? userId,
+      options
+    );
+  }
+
+  /**
+   * Validate that ownership can move from one user to another.
+   * Personal entities cannot change hands.
+   */
+  private async validateOwnershipTransfer(
+    tx: EntityTransaction,
+    entityId: string,
+    fromUserId: string,
+    toUserId: string
+  ): Promise<void> {
+    if (fromUserId === toUserId) {
+      throw new Error("Cannot transfer ownership to the current owner");
+    }
+
+    const entity = await tx
       .select()
       .from(this.config.entitiesTable)
       .where(eq(this.config.entitiesTable.id, entityId))
       .limit(1);
 
-    if (entity.length > 0 && entity[0].entity_type === EntityType.PERSONAL) {
-      throw new Error("Cannot change roles in personal entities");
+    if (entity.length === 0) {
+      throw new Error("Entity not found");
+    }
+
+    if (entity[0].entity_type === EntityType.PERSONAL) {
+      throw new Error("Cannot transfer ownership of personal entities");
+    }
+
+    const currentOwner = await this.getMember(entityId, fromUserId, false, {
+      tx,
+    });
+    if (currentOwner?.role !== EntityRole.OWNER) {
+      throw new Error("Only the current owner can transfer ownership");
     }
 
-    // Check if user is the owner - cannot change owner's role
-    const currentMember = await this.getMember(entityId, userId);
-    if (currentMember?.role === EntityRole.OWNER) {
-      throw new Error("Cannot change the owner's role");
+    const newOwner = await this.getMember(entityId, toUserId, false, { tx });
+    if (!newOwner) {
+      throw new Error("New owner must be an active member of this entity");
     }
+  }
 
-    const [updated] = await this.config.db
+  /**
+   * Demote the current owner to manager, promote the new owner and record
+   * the change. The new owner's permission overrides are cleared: owners
+   * hold every permission, and stale denies would come back if they were
+   * ever demoted. Must run inside a transaction.
+   * Runs the before hook; callers run the after hook.
+   */
+  private async applyOwnershipTransfer(
+    tx: EntityTransaction,
+    entityId: string,
+    fromUserId: string,
+    toUserId: string,
+    actorUserId: string
+  ): Promise<void> {
+    await runBeforeHook(this.config.hooks, "beforeOwnershipTransfer", {
+      entityId,
+      fromUserId,
+      toUserId,
+      actorUserId,
+      tx,
+    });
+
+    await tx
       .update(this.config.membersTable)
       .set({
-        role,
+        role: EntityRole.MANAGER,
         updated_at: new Date(),
       })
       .where(
         and(
           eq(this.config.membersTable.entity_id, entityId),
-          eq(this.config.membersTable.user_id, userId),
-          eq(this.config.membersTable.is_active, true)
+          eq(this.config.membersTable.user_id, fromUserId)
         )
-      )
-      .returning();
-
-    if (!updated) {
-      throw new Error("Member not found or inactive");
-    }
+      );
 
-    // Fetch user info for response
-    const users = await this.config.db
-      .select({
-        id: this.config.usersTable.firebase_uid,
-        email: this.config.usersTable.email,
-        displayName: this.config.usersTable.display_name,
+    await tx
+      .update(this.config.membersTable)
+      .set({
+        role: EntityRole.OWNER,
+        expires_at: null,
+        permission_overrides: null,
+        updated_at: new Date(),
       })
-      .from(this.config.usersTable)
-      .where(eq(this.config.usersTable.firebase_uid, userId))
-      .limit(1);
+      .where(
+        and(
+          eq(this.config.membersTable.entity_id, entityId),
+          eq(this.config.membersTable.user_id, toUserId)
+        )
+      );
 
-    return this.mapRecordToMember(updated, users[0] ?? null);
+    await this.auditHelper.recordEvent(
+      {
+        entityId,
+        actorUserId,
+        action: AuditAction.OWNERSHIP_TRANSFERRED,
+        targetType: AuditTargetType.ENTITY,
+        targetId: entityId,
+        before: { ownerUserId: fromUserId },
+        after: { ownerUserId: toUserId },
+      },
+      { tx }
+    );
   }
 
   /**
-   * Remove a member from an entity (soft delete).
-   * Sets is_active = false instead of deleting the record.
+   * Load a transfer that can still be answered.
+   * Marks the transfer as expired if its window has passed, in a transaction
+   * of its own so that the caller's transaction, rolled back by the error,
+   * does not undo it.
    */
-  async removeMember(entityId: string, userId: string): Promise<void> {
-    // Check constraints for personal entities
-    const entity = await this.config.db
+  private async getRespondableTransfer(
+    transferId: string,
+    options?: EntityOperationOptions
+  ): Promise<OwnershipTransfer> {
+    const transfersTable = this.requireOwnershipTransfersTable();
+    const db = options?.tx ?? this.config.db;
+
+    const results = await db
       .select()
-      .from(this.config.entitiesTable)
-      .where(eq(this.config.entitiesTable.id, entityId))
+      .from(transfersTable)
+      .where(eq(transfersTable.id, transferId))
       .limit(1);
 
-    if (entity.length > 0 && entity[0].entity_type === EntityType.PERSONAL) {
-      throw new Error("Cannot remove members from personal entities");
+    if (results.length === 0) {
+      throw new Error("Ownership transfer not found");
+    }
+
+    const transfer = this.mapRecordToOwnershipTransfer(results[0]);
+
+    if (transfer.status !== OwnershipTransferStatus.PENDING) {
+      throw new Error("Ownership transfer is no longer pending");
+    }
+
+    if (new Date(transfer.expiresAt) < new Date()) {
+      await this.setOwnershipTransferStatus(
+        transfer,
+        OwnershipTransferStatus.EXPIRED,
+        AuditAction.OWNERSHIP_TRANSFER_EXPIRED,
+        null
+      );
+      throw new Error("Ownership transfer has expired");
     }
 
-    // Check if user is the owner - cannot remove owner
-    const member = await this.getMember(entityId, userId);
-    if (!member) {
+    return transfer;
+  }
+
+  /**
+   * Close a transfer with a final status, record the change and run the
+   * close hooks.
+   */
+  private async setOwnershipTransferStatus(
+    transfer: OwnershipTransfer,
+    status: OwnershipTransferStatus,
+    action: AuditAction,
+    actorUserId: string | null,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const transfersTable = this.requireOwnershipTransfersTable();
+
+    const closed = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await runBeforeHook(this.config.hooks, "beforeOwnershipTransferClose", {
+          transfer,
+          status,
+          actorUserId,
+          tx,
+        });
+
+        const [record] = await tx
+          .update(transfersTable)
+          .set({
+            status,
+            responded_at: new Date(),
+            updated_at: new Date(),
+          })
+          .where(eq(transfersTable.id, transfer.id))
+          .returning();
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: transfer.entityId,
+            actorUserId,
+            action,
+            targetType: AuditTargetType.OWNERSHIP_TRANSFER,
+            targetId: transfer.id,
+            before: { status: transfer.status },
+            after: { status },
+          },
+          { tx }
+        );
+
+        return this.mapRecordToOwnershipTransfer(record);
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterOwnershipTransferClose", {
+      transfer: closed,
+      status,
+      actorUserId,
+    });
+  }
+
+  /**
+   * Set or clear the expiry of an active, non-owner member and record the
+   * change.
+   */
+  private async setMembershipExpiry(
+    entityId: string,
+    userId: string,
+    expiresAt: Date | null,
+    options?: EntityOperationOptions
+  ): Promise<EntityMember> {
+    const actorUserId = options?.actorUserId ?? null;
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const member = await this.getMember(entityId, userId, false, { tx });
+      if (!member) {
+        throw new Error("Member not found");
+      }
+
+      if (member.role === EntityRole.OWNER) {
+        throw new Error("The owner's membership cannot expire");
+      }
+
+      await tx
+        .update(this.config.membersTable)
+        .set({
+          expires_at: expiresAt,
+          updated_at: new Date(),
+        })
+        .where(
+          and(
+            eq(this.config.membersTable.entity_id, entityId),
+            eq(this.config.membersTable.user_id, userId)
+          )
+        );
+
+      const updated = {
+        ...member,
+        expiresAt: expiresAt?.toISOString() ?? null,
+      };
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId,
+          action: AuditAction.MEMBER_EXPIRY_CHANGED,
+          targetType: AuditTargetType.MEMBER,
+          targetId: userId,
+          before: { expiresAt: member.expiresAt },
+          after: { expiresAt: updated.expiresAt },
+        },
+        { tx }
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * Get the current overrides of an active, non-owner member.
+   */
+  private async getOverridableMemberOverrides(
+    tx: EntityTransaction,
+    entityId: string,
+    userId: string
+  ): Promise<PermissionOverrides> {
+    const results = await tx
+      .select({
+        role: this.config.membersTable.role,
+        overrides: this.config.membersTable.permission_overrides,
+      })
+      .from(this.config.membersTable)
+      .where(
+        and(
+          eq(this.config.membersTable.entity_id, entityId),
+          eq(this.config.membersTable.user_id, userId),
+          eq(this.config.membersTable.is_active, true)
+        )
+      )
+      .limit(1);
+
+    if (results.length === 0) {
       throw new Error("Member not found");
     }
 
-    if (member.role === EntityRole.OWNER) {
-      throw new Error("Cannot remove the entity owner");
+    if (results[0].role === EntityRole.OWNER) {
+      throw new Error("Cannot override the owner's permissions");
     }
 
-    // Soft delete - set is_active = false
-    await this.config.db
+    return (results[0].overrides ?? {}) as PermissionOverrides;
+  }
+
+  /**
+   * Store a member's overrides and record the change; an empty set is
+   * stored as null. Runs the before hook; callers run the after hook.
+   */
+  private async savePermissionOverrides(
+    tx: EntityTransaction,
+    entityId: string,
+    userId: string,
+    previous: PermissionOverrides,
+    overrides: PermissionOverrides,
+    actorUserId: string | null
+  ): Promise<PermissionOverridesChangeHookEvent> {
+    const change = { entityId, userId, previous, overrides };
+    await runBeforeHook(this.config.hooks, "beforePermissionOverridesChange", {
+      ...change,
+      actorUserId,
+      tx,
+    });
+
+    await tx
       .update(this.config.membersTable)
       .set({
-        is_active: false,
+        permission_overrides:
+          Object.keys(overrides).length > 0 ? overrides : null,
         updated_at: new Date(),
       })
       .where(
@@ -306,14 +1386,48 @@ export class EntityMemberHelper {
           eq(this.config.membersTable.user_id, userId)
         )
       );
+
+    await this.auditHelper.recordEvent(
+      {
+        entityId,
+        actorUserId,
+        action: AuditAction.MEMBER_PERMISSIONS_CHANGED,
+        targetType: AuditTargetType.MEMBER,
+        targetId: userId,
+        before: { permissionOverrides: previous },
+        after: { permissionOverrides: overrides },
+      },
+      { tx }
+    );
+
+    return change;
   }
 
   /**
-   * Check if a user is a member of an entity.
+   * Get the ownership transfers table or fail if it is not configured.
    */
-  async isMember(entityId: string, userId: string): Promise<boolean> {
-    const role = await this.getUserRole(entityId, userId);
-    return role !== null;
+  private requireOwnershipTransfersTable(): any {
+    if (!this.config.ownershipTransfersTable) {
+      throw new Error("Ownership transfers table is not configured");
+    }
+    return this.config.ownershipTransfersTable;
+  }
+
+  /**
+   * Map database record to OwnershipTransfer type.
+   */
+  private mapRecordToOwnershipTransfer(record: any): OwnershipTransfer {
+    return {
+      id: record.id,
+      entityId: record.entity_id,
+      fromUserId: record.from_user_id,
+      toUserId: record.to_user_id,
+      status: record.status as OwnershipTransferStatus,
+      expiresAt: record.expires_at?.toISOString() ?? new Date().toISOString(),
+      respondedAt: record.responded_at?.toISOString() ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+      updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+    };
   }
 
   /**
@@ -336,6 +1450,7 @@ export class EntityMemberHelper {
       joinedAt: record.joined_at?.toISOString() ?? new Date().toISOString(),
       createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
       updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+      expiresAt: record.expires_at?.toISOString() ?? null,
     };
 
     if (user) {
@@ -0,0 +1,978 @@
+/**
+ * @fileoverview Tests for InvitationHelper
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { InvitationHelper } from "./InvitationHelper";
+import { PermissionHelper } from "./PermissionHelper";
+import {
+  BulkInvitationStatus,
+  EntityRole,
+  InvitationAcceptanceErrorCode,
+  InvitationAcceptancePolicy,
+  InvitationPolicyErrorCode,
+  InvitationStatus,
+} from "../types";
+import {
+  hashInvitationToken,
+  InvitationAcceptanceError,
+  InvitationPolicyError,
+} from "../utils";
+import { entityInvitations, entityInviteLinks } from "../schema/entities";
+
+const pendingRecord = {
+  id: "invitation-uuid-1",
+  entity_id: "entity-uuid-123",
+  email: "new@acme.test",
+  role: "member",
+  status: "pending",
+  invited_by_user_id: "owner-uid",
+  token: null,
+  token_hash: "hash",
+  expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  accepted_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+function createMockConfig(
+  policy: InvitationAcceptancePolicy,
+  userEmail: string | null
+) {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.limit = vi
+    .fn()
+    .mockResolvedValueOnce([pendingRecord])
+    .mockResolvedValueOnce(userEmail === null ? [] : [{ email: userEmail }]);
+  chain.transaction = vi.fn();
+
+  return {
+    db: chain,
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: { firebase_uid: "firebase_uid", email: "email" },
+    invitationsTable: { token: "token", token_hash: "token_hash" },
+    invitationTokenSecret: "token-secret",
+    invitationAcceptancePolicy: policy,
+  };
+}
+
+async function acceptError(
+  policy: InvitationAcceptancePolicy,
+  userEmail: string | null,
+  emailVerified?: boolean
+): Promise<InvitationAcceptanceError> {
+  const config = createMockConfig(policy, userEmail);
+  const helper = new InvitationHelper(config as any);
+
+  const error = await helper
+    .acceptInvitation("token-abc", "user-uid", { emailVerified })
+    .catch(e => e);
+
+  expect(error).toBeInstanceOf(InvitationAcceptanceError);
+  expect(config.db.transaction).not.toHaveBeenCalled();
+  return error;
+}
+
+describe("InvitationHelper acceptance policy", () => {
+  test("email policy refuses other and missing emails", async () => {
+    expect(
+      (await acceptError(InvitationAcceptancePolicy.EMAIL, "other@acme.test"))
+        .code
+    ).toBe(InvitationAcceptanceErrorCode.EMAIL_MISMATCH);
+    expect(
+      (await acceptError(InvitationAcceptancePolicy.EMAIL, null)).code
+    ).toBe(InvitationAcceptanceErrorCode.EMAIL_MISSING);
+  });
+
+  test("verified email policy requires a verified matching email", async () => {
+    const error = await acceptError(
+      InvitationAcceptancePolicy.VERIFIED_EMAIL,
+      "New@Acme.test",
+      false
+    );
+    expect(error.code).toBe(InvitationAcceptanceErrorCode.EMAIL_NOT_VERIFIED);
+  });
+
+  test("domain policy refuses emails at other domains", async () => {
+    const error = await acceptError(
+      InvitationAcceptancePolicy.DOMAIN,
+      "new@example.test"
+    );
+    expect(error.code).toBe(InvitationAcceptanceErrorCode.DOMAIN_MISMATCH);
+  });
+});
+
+describe("InvitationHelper expired invitations", () => {
+  function createChain(record: Record<string, unknown>) {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi.fn().mockResolvedValue([record]);
+    chain.insert = vi.fn().mockReturnValue(chain);
+    chain.values = vi.fn().mockResolvedValue(undefined);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.then = (resolve: any) => resolve([]);
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+    return chain;
+  }
+
+  test("expiry on accept is kept when the caller's transaction rolls back", async () => {
+    const expiredRecord = {
+      ...pendingRecord,
+      expires_at: new Date(Date.now() - 1000),
+    };
+    const db = createChain(expiredRecord);
+    const callerTx = createChain(expiredRecord);
+    const helper = new InvitationHelper({
+      db,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: entityInvitations,
+      invitationTokenSecret: "token-secret",
+    } as any);
+
+    await expect(
+      helper.acceptInvitation("token-abc", "user-uid", { tx: callerTx })
+    ).rejects.toThrow("Invitation has expired");
+
+    expect(callerTx.update).not.toHaveBeenCalled();
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(db.set).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "expired" })
+    );
+    const guard = new PgDialect().sqlToQuery(db.where.mock.calls[0][0]);
+    expect(guard.sql).toContain('"status" = $2');
+  });
+});
+
+describe("InvitationHelper declining", () => {
+  test("an invitation answered concurrently is no longer pending", async () => {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi.fn().mockResolvedValue([pendingRecord]);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.returning = vi.fn().mockResolvedValue([]);
+    chain.insert = vi.fn();
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+    const helper = new InvitationHelper({
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: entityInvitations,
+      invitationTokenSecret: "token-secret",
+    } as any);
+
+    await expect(helper.declineInvitation("token-abc")).rejects.toThrow(
+      "Invitation is no longer pending"
+    );
+
+    const update = new PgDialect().sqlToQuery(chain.where.mock.calls[1][0]);
+    expect(update.sql).toContain('"status" = $2');
+    expect(update.params[1]).toBe("pending");
+    expect(chain.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("InvitationHelper.createInvitations", () => {
+  beforeEach(() => {
+    vi.spyOn(PermissionHelper.prototype, "getUserRole").mockResolvedValue(
+      EntityRole.OWNER
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("reports an outcome per row and inserts only new invitees", async () => {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.innerJoin = vi.fn().mockReturnValue(chain);
+    chain.where = vi
+      .fn()
+      .mockResolvedValueOnce([{ email: "member@acme.test" }])
+      .mockResolvedValueOnce([{ email: "invited@acme.test" }]);
+    chain.insert = vi.fn().mockReturnValue(chain);
+    chain.values = vi.fn().mockImplementation((values: any[]) => {
+      chain.inserted = values;
+      return chain;
+    });
+    chain.returning = vi.fn().mockImplementation(async () =>
+      chain.inserted.map((values: any, index: number) => ({
+        id: `invitation-uuid-${index}`,
+        ...values,
+        created_at: new Date(),
+        updated_at: new Date(),
+      }))
+    );
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+    const helper = new InvitationHelper({
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: {},
+      invitationTokenSecret: "token-secret",
+    } as any);
+
+    const results = await helper.createInvitations(
+      "entity-uuid-123",
+      "owner-uid",
+      [
+        { email: " New@Acme.test ", role: EntityRole.MEMBER },
+        { email: "member@acme.test", role: EntityRole.MEMBER },
+        { email: "invited@acme.test", role: EntityRole.MANAGER },
+        { email: "new@acme.test", role: EntityRole.MANAGER },
+        { email: "not-an-email", role: EntityRole.MEMBER },
+        { email: "boss@acme.test", role: EntityRole.OWNER },
+      ]
+    );
+
+    expect(results.map(result => result.status)).toEqual([
+      BulkInvitationStatus.CREATED,
+      BulkInvitationStatus.ALREADY_MEMBER,
+      BulkInvitationStatus.ALREADY_INVITED,
+      BulkInvitationStatus.DUPLICATE,
+      BulkInvitationStatus.INVALID,
+      BulkInvitationStatus.INVALID,
+    ]);
+    expect(results[0].invitation?.email).toBe("new@acme.test");
+    expect(results[0].invitation?.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(results[4].error).toBe("Invalid email address");
+    expect(chain.insert).toHaveBeenCalledTimes(1);
+    expect(chain.inserted).toHaveLength(1);
+    expect(chain.inserted[0].token_hash).not.toBe(results[0].invitation?.token);
+  });
+});
+
+describe("InvitationHelper invitation settings", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createSettingsConfig(settings: Record<string, unknown>) {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi.fn().mockResolvedValue([settings]);
+    chain.insert = vi.fn().mockReturnValue(chain);
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+
+    return {
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: {},
+      invitationTokenSecret: "token-secret",
+      invitationSettingsTable: { entity_id: "entity_id" },
+    };
+  }
+
+  async function createError(
+    settings: Record<string, unknown>,
+    options?: { expiresInDays?: number }
+  ): Promise<InvitationPolicyError> {
+    const config = createSettingsConfig(settings);
+    const helper = new InvitationHelper(config as any);
+
+    const error = await helper
+      .createInvitation(
+        "entity-uuid-123",
+        "manager-uid",
+        { email: "new@acme.test", role: EntityRole.MANAGER },
+        options
+      )
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(InvitationPolicyError);
+    expect(config.db.insert).not.toHaveBeenCalled();
+    return error;
+  }
+
+  test("inviters may only grant the roles allowed for their role", async () => {
+    vi.spyOn(PermissionHelper.prototype, "getUserRole").mockResolvedValue(
+      EntityRole.MANAGER
+    );
+
+    const error = await createError({
+      grantable_roles: { manager: [EntityRole.MEMBER] },
+    });
+    expect(error.code).toBe(InvitationPolicyErrorCode.ROLE_NOT_ALLOWED);
+  });
+
+  test("without settings inviters may grant roles up to their own", async () => {
+    const getUserRole = vi.spyOn(PermissionHelper.prototype, "getUserRole");
+
+    getUserRole.mockResolvedValue(EntityRole.MEMBER);
+    const error = await createError({});
+    expect(error.code).toBe(InvitationPolicyErrorCode.ROLE_NOT_ALLOWED);
+
+    getUserRole.mockResolvedValue(null);
+    expect((await createError({})).code).toBe(
+      InvitationPolicyErrorCode.ROLE_NOT_ALLOWED
+    );
+  });
+
+  test("expiry cannot exceed the entity's maximum", async () => {
+    const error = await createError(
+      { default_expiry_days: 3, max_expiry_days: 7 },
+      { expiresInDays: 30 }
+    );
+    expect(error.code).toBe(InvitationPolicyErrorCode.EXPIRY_TOO_LONG);
+  });
+
+  test("renewing without an actor checks the original inviter", async () => {
+    const getUserRole = vi
+      .spyOn(PermissionHelper.prototype, "getUserRole")
+      .mockResolvedValue(EntityRole.MANAGER);
+    const config = createSettingsConfig({
+      grantable_roles: { manager: [EntityRole.MEMBER] },
+    });
+    config.db.limit.mockResolvedValueOnce([
+      { ...pendingRecord, role: EntityRole.MANAGER },
+    ]);
+    config.db.update = vi.fn();
+    const helper = new InvitationHelper(config as any);
+
+    const error = await helper.renewInvitation(pendingRecord.id).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvitationPolicyError);
+    expect(error.code).toBe(InvitationPolicyErrorCode.ROLE_NOT_ALLOWED);
+    expect(getUserRole).toHaveBeenCalledWith(
+      pendingRecord.entity_id,
+      pendingRecord.invited_by_user_id,
+      { tx: config.db }
+    );
+    expect(config.db.update).not.toHaveBeenCalled();
+  });
+
+  test("the default expiry cannot exceed the maximum", async () => {
+    const config = createSettingsConfig({ max_expiry_days: 7 });
+    const helper = new InvitationHelper(config as any);
+
+    await expect(
+      helper.updateInvitationSettings("entity-uuid-123", "owner-uid", {
+        defaultExpiryDays: 10,
+      })
+    ).rejects.toThrow("Default expiry cannot exceed the maximum expiry");
+    expect(config.db.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("InvitationHelper revocation", () => {
+  test("revoking keeps the invitation and refuses its token", async () => {
+    const revokedRecord = {
+      ...pendingRecord,
+      status: "revoked",
+      revoked_by_user_id: "owner-uid",
+      revoked_at: new Date(),
+    };
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi
+      .fn()
+      .mockResolvedValueOnce([pendingRecord])
+      .mockResolvedValueOnce([revokedRecord]);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.returning = vi.fn().mockResolvedValue([revokedRecord]);
+    chain.delete = vi.fn();
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+    const helper = new InvitationHelper({
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: {},
+      invitationTokenSecret: "token-secret",
+    } as any);
+
+    await helper.cancelInvitation(pendingRecord.id, {
+      actorUserId: "owner-uid",
+    });
+
+    expect(chain.delete).not.toHaveBeenCalled();
+    expect(chain.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: InvitationStatus.REVOKED,
+        revoked_by_user_id: "owner-uid",
+      })
+    );
+    await expect(
+      helper.acceptInvitation("token-abc", "user-uid")
+    ).rejects.toThrow("Invitation has been revoked");
+  });
+});
+
+describe("InvitationHelper invitations by user ID", () => {
+  function createMockConfig(record: Record<string, unknown>, email: string) {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi
+      .fn()
+      .mockResolvedValueOnce([record])
+      .mockResolvedValueOnce([{ email }]);
+    chain.transaction = vi.fn();
+
+    return {
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: {},
+      invitationTokenSecret: "token-secret",
+    };
+  }
+
+  test("only the invited user can answer an invitation by ID", async () => {
+    const config = createMockConfig(
+      { ...pendingRecord, invited_user_id: "invitee-uid" },
+      "new@acme.test"
+    );
+    const helper = new InvitationHelper(config as any);
+
+    const error = await helper
+      .acceptInvitationById(pendingRecord.id, "other-uid")
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(InvitationAcceptanceError);
+    expect(error.code).toBe(InvitationAcceptanceErrorCode.USER_MISMATCH);
+    expect(config.db.transaction).not.toHaveBeenCalled();
+  });
+
+  test("email invitations answered by ID need the invited email", async () => {
+    const config = createMockConfig(pendingRecord, "someone@acme.test");
+    const helper = new InvitationHelper(config as any);
+
+    const error = await helper
+      .declineInvitationById(pendingRecord.id, "user-uid")
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(InvitationAcceptanceError);
+    expect(error.code).toBe(InvitationAcceptanceErrorCode.EMAIL_MISMATCH);
+    expect(config.db.transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("InvitationHelper time-bound memberships", () => {
+  test("invitations whose membership has ended cannot be accepted", async () => {
+    const config = createMockConfig(
+      InvitationAcceptancePolicy.OPEN,
+      "new@acme.test"
+    );
+    config.db.limit = vi.fn().mockResolvedValue([
+      {
+        ...pendingRecord,
+        membership_expires_at: new Date(Date.now() - 60 * 1000),
+      },
+    ]);
+    const helper = new InvitationHelper(config as any);
+
+    await expect(
+      helper.acceptInvitation("token-abc", "user-uid")
+    ).rejects.toThrow("The membership offered by this invitation has ended");
+    expect(config.db.transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("InvitationHelper reminders", () => {
+  const originalToken = "a".repeat(64);
+  const entity = { id: "entity-uuid-123", entitySlug: "acme" };
+
+  async function createReminderConfig(notify: () => Promise<void>) {
+    const originalHash = await hashInvitationToken(
+      originalToken,
+      "token-secret"
+    );
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi
+      .fn()
+      .mockResolvedValueOnce([{ ...pendingRecord, token_hash: originalHash }])
+      .mockResolvedValueOnce([{ token: null, tokenHash: originalHash }])
+      .mockResolvedValueOnce([entity])
+      .mockResolvedValueOnce([]);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.returning = vi
+      .fn()
+      .mockImplementation(async () => [
+        { ...pendingRecord, reminded_at: new Date() },
+      ]);
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+
+    return {
+      originalHash,
+      config: {
+        db: chain,
+        entitiesTable: {},
+        membersTable: {},
+        usersTable: {},
+        invitationsTable: entityInvitations,
+        invitationTokenSecret: "token-secret",
+        invitationNotifier: { notify: vi.fn().mockImplementation(notify) },
+      },
+    };
+  }
+
+  function appendedHash(config: any, call: number) {
+    const query = new PgDialect().sqlToQuery(
+      config.db.set.mock.calls[call][0].previous_token_hashes
+    );
+    expect(query.sql).toBe(
+      '"entity_invitations"."previous_token_hashes" || $1::jsonb'
+    );
+    return JSON.parse(query.params[0] as string);
+  }
+
+  test("every token sent before a reminder still finds the invitation", async () => {
+    const { originalHash, config } = await createReminderConfig(async () => {});
+    const helper = new InvitationHelper(config as any);
+
+    await helper.sendInvitationReminder(pendingRecord.id);
+
+    const notification = config.invitationNotifier.notify.mock.calls[0][0];
+    expect(notification.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(notification.token).not.toBe(originalToken);
+    const firstReminderHash = await hashInvitationToken(
+      notification.token,
+      "token-secret"
+    );
+    expect(config.db.set.mock.calls[0][0].token_hash).toBe(firstReminderHash);
+    expect(appendedHash(config, 0)).toEqual([originalHash]);
+
+    // A second reminder adds the first reminder's token instead of replacing
+    config.db.limit
+      .mockResolvedValueOnce([
+        { ...pendingRecord, token_hash: firstReminderHash },
+      ])
+      .mockResolvedValueOnce([{ token: null, tokenHash: firstReminderHash }])
+      .mockResolvedValueOnce([entity])
+      .mockResolvedValueOnce([]);
+    await helper.sendInvitationReminder(pendingRecord.id);
+    expect(appendedHash(config, 1)).toEqual([firstReminderHash]);
+
+    config.db.limit.mockResolvedValueOnce([pendingRecord]);
+    await helper.getInvitationByToken(originalToken);
+    const lookup = new PgDialect().sqlToQuery(
+      config.db.where.mock.calls.at(-1)[0]
+    );
+    expect(lookup.sql).toContain('"previous_token_hashes" @> $2::jsonb');
+    expect(lookup.params[1]).toBe(JSON.stringify([originalHash]));
+  });
+
+  test("a reminder that fails to send is rolled back with its transaction", async () => {
+    const { config } = await createReminderConfig(async () => {
+      throw new Error("SMTP down");
+    });
+    const helper = new InvitationHelper(config as any);
+
+    await expect(
+      helper.sendInvitationReminder(pendingRecord.id)
+    ).rejects.toThrow("SMTP down");
+    expect(config.db.transaction).toHaveBeenCalledTimes(1);
+    expect(config.db.update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("InvitationHelper re-joining", () => {
+  test("a removed member re-joining by invitation loses old overrides", async () => {
+    const removedMember = {
+      id: "member-uuid-1",
+      entity_id: pendingRecord.entity_id,
+      user_id: "user-uid",
+      role: "manager",
+      is_active: false,
+      permission_overrides: { canManageApiKeys: true },
+    };
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.leftJoin = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi
+      .fn()
+      .mockResolvedValueOnce([pendingRecord])
+      .mockResolvedValueOnce([{ id: pendingRecord.entity_id }])
+      .mockResolvedValueOnce([removedMember])
+      .mockResolvedValueOnce([
+        {
+          member: { ...removedMember, role: "member", is_active: true },
+          user: null,
+        },
+      ]);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.returning = vi
+      .fn()
+      .mockResolvedValue([{ ...pendingRecord, status: "accepted" }]);
+    chain.insert = vi.fn();
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+    const helper = new InvitationHelper({
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: {},
+      invitationTokenSecret: "token-secret",
+    } as any);
+
+    await helper.acceptInvitation("token-abc", "user-uid");
+
+    expect(chain.insert).not.toHaveBeenCalled();
+    expect(chain.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        role: EntityRole.MEMBER,
+        is_active: true,
+        permission_overrides: null,
+        updated_at: expect.any(Date),
+      })
+    );
+  });
+});
+
+describe("InvitationHelper email normalization", () => {
+  beforeEach(() => {
+    vi.spyOn(PermissionHelper.prototype, "getUserRole").mockResolvedValue(
+      EntityRole.OWNER
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("single invitations store and match emails in lowercase", async () => {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.innerJoin = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi.fn().mockResolvedValue([]);
+    chain.insert = vi.fn().mockReturnValue(chain);
+    chain.values = vi.fn().mockReturnValue(chain);
+    chain.returning = vi.fn().mockResolvedValue([pendingRecord]);
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+    const helper = new InvitationHelper({
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: entityInvitations,
+      invitationTokenSecret: "token-secret",
+    } as any);
+
+    await helper.createInvitation("entity-uuid-123", "owner-uid", {
+      email: " New@Acme.TEST ",
+      role: EntityRole.MEMBER,
+    });
+
+    expect(chain.values).toHaveBeenCalledWith(
+      expect.objectContaining({ email: "new@acme.test" })
+    );
+    const pendingLookup = new PgDialect().sqlToQuery(
+      chain.where.mock.calls[1][0]
+    );
+    expect(pendingLookup.sql).toContain(
+      'lower("entity_invitations"."email") = $2'
+    );
+    expect(pendingLookup.params[1]).toBe("new@acme.test");
+  });
+});
+
+describe("InvitationHelper token hashing", () => {
+  const token = "b".repeat(64);
+
+  function createHashingConfig(invitationTokenSecret = "token-secret") {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi.fn().mockResolvedValue([pendingRecord]);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.returning = vi.fn().mockResolvedValue([]);
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+
+    return {
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: entityInvitations,
+      invitationTokenSecret,
+    };
+  }
+
+  test("tokens are looked up by their keyed hash", async () => {
+    const config = createHashingConfig("token-secret");
+    const helper = new InvitationHelper(config as any);
+
+    await helper.getInvitationByToken(token);
+
+    const lookup = new PgDialect().sqlToQuery(config.db.where.mock.calls[0][0]);
+    expect(lookup.sql).toContain('"token_hash" = $1');
+    expect(lookup.params[0]).toBe(
+      await hashInvitationToken(token, "token-secret")
+    );
+    expect(lookup.params[0]).not.toBe(
+      await hashInvitationToken(token, "other-secret")
+    );
+  });
+
+  test("helpers cannot be created without a secret", () => {
+    expect(() => new InvitationHelper(createHashingConfig("") as any)).toThrow(
+      "invitationTokenSecret is required"
+    );
+  });
+
+  test("legacy plaintext tokens are replaced by their hash in one transaction", async () => {
+    const config = createHashingConfig("token-secret");
+    config.db.where.mockResolvedValueOnce([
+      { id: "invitation-uuid-1", token },
+      { id: "invitation-uuid-2", token: "c".repeat(64) },
+    ]);
+    config.db.returning
+      .mockResolvedValueOnce([{ id: "invitation-uuid-1" }])
+      .mockResolvedValueOnce([]);
+    const helper = new InvitationHelper(config as any);
+
+    const converted = await helper.hashLegacyInvitationTokens();
+
+    expect(config.db.transaction).toHaveBeenCalledTimes(1);
+    expect(converted).toBe(1);
+    const legacy = new PgDialect().sqlToQuery(config.db.where.mock.calls[0][0]);
+    expect(legacy.sql).toContain('"token_hash" is null');
+    expect(legacy.sql).toContain('"token" is not null');
+    expect(config.db.set).toHaveBeenNthCalledWith(1, {
+      token: null,
+      token_hash: await hashInvitationToken(token, "token-secret"),
+    });
+    expect(config.db.set).toHaveBeenCalledTimes(2);
+    const guard = new PgDialect().sqlToQuery(config.db.where.mock.calls[1][0]);
+    expect(guard.sql).toContain('"token" is not null');
+  });
+});
+
+describe("InvitationHelper invite links", () => {
+  const token = "d".repeat(64);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const linkRecord = {
+    id: "link-uuid-1",
+    entity_id: "entity-uuid-123",
+    token_hash: "hash",
+    role: "member",
+    max_uses: 2,
+    use_count: 0,
+    allowed_email_domain: null,
+    created_by_user_id: "owner-uid",
+    expires_at: null,
+    revoked_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  function createLinkConfig() {
+    const chain: any = {};
+    chain.select = vi.fn().mockReturnValue(chain);
+    chain.from = vi.fn().mockReturnValue(chain);
+    chain.leftJoin = vi.fn().mockReturnValue(chain);
+    chain.where = vi.fn().mockReturnValue(chain);
+    chain.limit = vi.fn();
+    chain.insert = vi.fn().mockReturnValue(chain);
+    chain.values = vi.fn().mockReturnValue(chain);
+    chain.update = vi.fn().mockReturnValue(chain);
+    chain.set = vi.fn().mockReturnValue(chain);
+    chain.returning = vi.fn().mockResolvedValue([linkRecord]);
+    chain.transaction = vi
+      .fn()
+      .mockImplementation(async (fn: any) => fn(chain));
+
+    return {
+      db: chain,
+      entitiesTable: {},
+      membersTable: {},
+      usersTable: {},
+      invitationsTable: entityInvitations,
+      inviteLinksTable: entityInviteLinks,
+      invitationTokenSecret: "token-secret",
+    };
+  }
+
+  test("created links return the token once and store its hash", async () => {
+    vi.spyOn(PermissionHelper.prototype, "getUserRole").mockResolvedValue(
+      EntityRole.OWNER
+    );
+    const config = createLinkConfig();
+    config.db.limit.mockResolvedValueOnce([{ id: linkRecord.entity_id }]);
+    const helper = new InvitationHelper(config as any);
+
+    const link = await helper.createInviteLink(
+      linkRecord.entity_id,
+      "owner-uid",
+      { role: EntityRole.MEMBER, maxUses: 2 }
+    );
+
+    expect(link.token).toMatch(/^[0-9a-f]{64}$/);
+    const stored = config.db.values.mock.calls[0][0];
+    expect(stored.token_hash).toBe(
+      await hashInvitationToken(link.token, "token-secret")
+    );
+    expect(Object.values(stored)).not.toContain(link.token);
+
+    config.db.limit.mockResolvedValueOnce([linkRecord]);
+    expect(await helper.getInviteLinkByToken(link.token)).not.toHaveProperty(
+      "token"
+    );
+  });
+
+  test("links are looked up by the hash of their token", async () => {
+    const config = createLinkConfig();
+    config.db.limit.mockResolvedValueOnce([]);
+    const helper = new InvitationHelper(config as any);
+
+    expect(await helper.getInviteLinkByToken(token)).toBeNull();
+
+    const lookup = new PgDialect().sqlToQuery(config.db.where.mock.calls[0][0]);
+    expect(lookup.sql).toContain('"token_hash" = $1');
+    expect(lookup.params[0]).toBe(
+      await hashInvitationToken(token, "token-secret")
+    );
+  });
+
+  test("redeeming counts the use and adds the member", async () => {
+    const config = createLinkConfig();
+    config.db.limit
+      .mockResolvedValueOnce([linkRecord])
+      .mockResolvedValueOnce([{ id: linkRecord.entity_id }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        {
+          member: {
+            id: "member-uuid-1",
+            entity_id: linkRecord.entity_id,
+            user_id: "user-uid",
+            role: "member",
+            is_active: true,
+          },
+          user: null,
+        },
+      ]);
+    config.db.returning.mockResolvedValueOnce([
+      { ...linkRecord, use_count: 1 },
+    ]);
+    const helper = new InvitationHelper(config as any);
+
+    const member = await helper.redeemInviteLink(token, "user-uid");
+
+    expect(member.role).toBe(EntityRole.MEMBER);
+    expect(config.db.values).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: "user-uid", role: EntityRole.MEMBER })
+    );
+  });
+
+  test("used-up links cannot be redeemed", async () => {
+    const config = createLinkConfig();
+    config.db.limit
+      .mockResolvedValueOnce([{ ...linkRecord, use_count: 2 }])
+      .mockResolvedValueOnce([{ id: linkRecord.entity_id }])
+      .mockResolvedValueOnce([]);
+    config.db.returning.mockResolvedValueOnce([]);
+    const helper = new InvitationHelper(config as any);
+
+    await expect(helper.redeemInviteLink(token, "user-uid")).rejects.toThrow(
+      "Invite link has reached its maximum uses"
+    );
+    const guard = new PgDialect().sqlToQuery(
+      config.db.where.mock.calls.at(-1)[0]
+    );
+    expect(guard.sql).toContain(
+      '"entity_invite_links"."use_count" < "entity_invite_links"."max_uses"'
+    );
+    expect(config.db.insert).not.toHaveBeenCalled();
+  });
+
+  test("expired and revoked links cannot be redeemed", async () => {
+    const config = createLinkConfig();
+    config.db.limit
+      .mockResolvedValueOnce([
+        { ...linkRecord, expires_at: new Date(Date.now() - 1000) },
+      ])
+      .mockResolvedValueOnce([{ ...linkRecord, revoked_at: new Date() }]);
+    const helper = new InvitationHelper(config as any);
+
+    await expect(helper.redeemInviteLink(token, "user-uid")).rejects.toThrow(
+      "Invite link has expired"
+    );
+    await expect(helper.redeemInviteLink(token, "user-uid")).rejects.toThrow(
+      "Invite link has been revoked"
+    );
+    expect(config.db.transaction).not.toHaveBeenCalled();
+  });
+
+  test("revoking marks the link revoked once", async () => {
+    const config = createLinkConfig();
+    const revokedAt = new Date();
+    config.db.limit
+      .mockResolvedValueOnce([linkRecord])
+      .mockResolvedValueOnce([{ ...linkRecord, revoked_at: revokedAt }]);
+    config.db.returning.mockResolvedValueOnce([
+      { ...linkRecord, revoked_at: revokedAt },
+    ]);
+    const helper = new InvitationHelper(config as any);
+
+    const revoked = await helper.revokeInviteLink(
+      linkRecord.entity_id,
+      linkRecord.id
+    );
+
+    expect(revoked.revokedAt).toBe(revokedAt.toISOString());
+    await expect(
+      helper.revokeInviteLink(linkRecord.entity_id, linkRecord.id)
+    ).rejects.toThrow("Invite link is already revoked");
+  });
+});
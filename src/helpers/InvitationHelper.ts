@@ -3,100 +3,560 @@
  * @description Operations for managing entity invitations
  */
 
-import { eq, and, lt } from "drizzle-orm";
+import {
+  eq,
+  and,
+  desc,
+  gt,
+  lt,
+  lte,
+  inArray,
+  isNull,
+  isNotNull,
+  or,
+  sql,
+} from "drizzle-orm";
 import {
   EntityRole,
   InvitationStatus,
+  AuditAction,
+  AuditTargetType,
+  InvitationNotificationType,
+  InvitationAcceptancePolicy,
+  InvitationAcceptanceErrorCode,
+  BulkInvitationStatus,
+  InvitationPolicyErrorCode,
+  BUILT_IN_ROLE_RANKS,
+  type AcceptInvitationOptions,
+  type BulkInvitationResult,
+  type CreatedInvitation,
+  type CreateInviteLinkRequest,
+  type CreatedInviteLink,
+  type DomainJoinResult,
   type EntityInvitation,
+  type EntityMember,
+  type EntityTransaction,
+  type InvitationNotification,
+  type InviteLink,
   type InviteMemberRequest,
+  type InviteUserRequest,
   type InvitationHelperConfig,
+  type InvitationExpiryOptions,
+  type InvitationMaintenanceOptions,
+  type InvitationSettings,
+  type InvitationNotifier,
+  type EntityOperationOptions,
   type ListInvitationsOptions,
+  type UpdateInvitationSettingsRequest,
 } from "../types";
-import { generateInvitationToken, calculateInvitationExpiry } from "../utils";
+import {
+  generateInvitationToken,
+  hashInvitationToken,
+  calculateInvitationExpiry,
+  INVITATION_EXPIRY_DAYS,
+  runInTransaction,
+  runBeforeHook,
+  runAfterHook,
+  normalizeEmailDomain,
+  getEmailDomain,
+  normalizeEmail,
+  parseMembershipExpiry,
+  InvitationAcceptanceError,
+  InvitationPolicyError,
+  HookVetoError,
+} from "../utils";
+import { AuditHelper } from "./AuditHelper";
+import { DomainHelper } from "./DomainHelper";
+import { EntityMemberHelper } from "./EntityMemberHelper";
+import { PermissionHelper } from "./PermissionHelper";
+
+/** Maximum number of rows of one createInvitations call */
+const MAX_BULK_INVITATIONS = 1000;
+
+/** Number of invitations inserted per statement by createInvitations */
+const BULK_INVITATION_BATCH_SIZE = 100;
+
+/** Loose email format check for bulk invitations */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Roles an invitation can grant */
+const INVITABLE_ROLES: string[] = [EntityRole.MANAGER, EntityRole.MEMBER];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Helper class for entity invitation operations.
  */
 export class InvitationHelper {
-  constructor(private readonly config: InvitationHelperConfig) {}
+  private readonly auditHelper: AuditHelper;
+  private readonly memberHelper: EntityMemberHelper;
+  private readonly domainHelper: DomainHelper;
+  private readonly permissionHelper: PermissionHelper;
+
+  constructor(private readonly config: InvitationHelperConfig) {
+    if (!config.invitationTokenSecret) {
+      throw new Error("invitationTokenSecret is required");
+    }
+    this.auditHelper = new AuditHelper(config);
+    this.memberHelper = new EntityMemberHelper(config);
+    this.domainHelper = new DomainHelper(config);
+    this.permissionHelper = new PermissionHelper(config);
+  }
 
   /**
    * Create an invitation to join an entity.
+   * The returned token is shown once; only its hash is stored. The email is
+   * trimmed and lowercased, as in createInvitations, and compared with
+   * members and pending invitations case-insensitively.
+   * @throws InvitationPolicyError if the entity's invitation settings refuse
+   * the role, the expiry or another pending invitation
    */
   async createInvitation(
     entityId: string,
     invitedByUserId: string,
-    request: InviteMemberRequest
+    request: InviteMemberRequest,
+    options?: InvitationExpiryOptions
+  ): Promise<CreatedInvitation> {
+    return (await this.insertInvitation(
+      entityId,
+      invitedByUserId,
+      request,
+      null,
+      options
+    )) as CreatedInvitation;
+  }
+
+  /**
+   * Invite an existing user by ID.
+   * The invitation has no token: it shows up in the user's inbox
+   * (getUserInvitationInbox) and only that user can answer it, with
+   * acceptInvitationById or declineInvitationById, whatever their email is
+   * by then. The invite notification goes to their current email, without an
+   * accept link.
+   * @throws InvitationPolicyError if the entity's invitation settings refuse
+   * the role, the expiry or another pending invitation
+   */
+  async inviteUser(
+    entityId: string,
+    invitedByUserId: string,
+    request: InviteUserRequest,
+    options?: InvitationExpiryOptions
   ): Promise<EntityInvitation> {
-    // Check if user is already an active member
-    // Note: We only check active members so previously removed users can be re-invited
-    const existingMember = await this.config.db
-      .select()
-      .from(this.config.membersTable)
-      .innerJoin(
-        this.config.usersTable,
-        eq(
-          this.config.membersTable.user_id,
-          this.config.usersTable.firebase_uid
-        )
-      )
-      .where(
-        and(
-          eq(this.config.membersTable.entity_id, entityId),
-          eq(this.config.usersTable.email, request.email),
-          eq(this.config.membersTable.is_active, true)
-        )
-      )
+    const db = options?.tx ?? this.config.db;
+    const [user] = await db
+      .select({ email: this.config.usersTable.email })
+      .from(this.config.usersTable)
+      .where(eq(this.config.usersTable.firebase_uid, request.userId))
       .limit(1);
 
-    if (existingMember.length > 0) {
-      throw new Error("User is already an active member of this entity");
+    if (!user) {
+      throw new Error("User not found");
     }
 
-    // Check for existing pending invitation
-    const existingInvite = await this.config.db
-      .select()
-      .from(this.config.invitationsTable)
-      .where(
-        and(
-          eq(this.config.invitationsTable.entity_id, entityId),
-          eq(this.config.invitationsTable.email, request.email),
-          eq(this.config.invitationsTable.status, InvitationStatus.PENDING)
-        )
-      )
-      .limit(1);
+    if (!user.email) {
+      throw new Error("User has no email address");
+    }
+
+    return this.insertInvitation(
+      entityId,
+      invitedByUserId,
+      { email: user.email, role: request.role },
+      request.userId,
+      options
+    );
+  }
+
+  /**
+   * Create one invitation: for an email with a new token, or for a known
+   * user (`invitedUserId`) without one.
+   */
+  private async insertInvitation(
+    entityId: string,
+    invitedByUserId: string,
+    request: InviteMemberRequest,
+    invitedUserId: string | null,
+    options?: InvitationExpiryOptions
+  ): Promise<EntityInvitation | CreatedInvitation> {
+    const actorUserId = options?.actorUserId ?? invitedByUserId;
+    const email = normalizeEmail(request.email);
+    const membershipExpiresAt = this.resolveMembershipExpiry(options);
+    const token = invitedUserId ? null : generateInvitationToken();
+    const tokenHash = token ? await this.hashToken(token) : null;
+    const invitation = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const settings = await this.getInvitationSettings(entityId, { tx });
+        const expiresAt = this.resolveExpiry(settings, options?.expiresInDays);
+        await this.requireGrantableRole(
+          settings,
+          invitedByUserId,
+          request.role,
+          tx
+        );
+
+        // Check if user is already an active member
+        // Note: We only check active members so previously removed users can be re-invited
+        const existingMember = await tx
+          .select()
+          .from(this.config.membersTable)
+          .innerJoin(
+            this.config.usersTable,
+            eq(
+              this.config.membersTable.user_id,
+              this.config.usersTable.firebase_uid
+            )
+          )
+          .where(
+            and(
+              eq(this.config.membersTable.entity_id, entityId),
+              invitedUserId
+                ? eq(this.config.membersTable.user_id, invitedUserId)
+                : eq(sql`lower(${this.config.usersTable.email})`, email),
+              eq(this.config.membersTable.is_active, true)
+            )
+          )
+          .limit(1);
+
+        if (existingMember.length > 0) {
+          throw new Error("User is already an active member of this entity");
+        }
+
+        // Check for existing pending invitation
+        const existingInvite = await tx
+          .select()
+          .from(this.config.invitationsTable)
+          .where(
+            and(
+              eq(this.config.invitationsTable.entity_id, entityId),
+              or(
+                eq(sql`lower(${this.config.invitationsTable.email})`, email),
+                invitedUserId
+                  ? eq(
+                      this.config.invitationsTable.invited_user_id,
+                      invitedUserId
+                    )
+                  : undefined
+              ),
+              eq(this.config.invitationsTable.status, InvitationStatus.PENDING)
+            )
+          )
+          .limit(1);
+
+        if (existingInvite.length > 0) {
+          throw new Error(
+            invitedUserId
+              ? "An invitation is already pending for this user"
+              : "An invitation is already pending for this email"
+          );
+        }
+
+        if (
+          settings.maxPendingInvitations !== null &&
+          (await this.countPendingInvitations(entityId, tx)) >=
+            settings.maxPendingInvitations
+        ) {
+          throw new InvitationPolicyError(
+            "The entity has reached its limit of pending invitations",
+            InvitationPolicyErrorCode.PENDING_LIMIT_REACHED
+          );
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeInvitationCreate", {
+          entityId,
+          invitedByUserId,
+          request: { ...request, email },
+          invitedUserId: invitedUserId ?? undefined,
+          actorUserId,
+          tx,
+        });
+
+        const [record] = await tx
+          .insert(this.config.invitationsTable)
+          .values({
+            entity_id: entityId,
+            email,
+            invited_user_id: invitedUserId,
+            role: request.role,
+            status: InvitationStatus.PENDING,
+            invited_by_user_id: invitedByUserId,
+            token_hash: tokenHash,
+            expires_at: expiresAt,
+            membership_expires_at: membershipExpiresAt,
+          })
+          .returning();
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId,
+            actorUserId,
+            action: AuditAction.INVITATION_CREATED,
+            targetType: AuditTargetType.INVITATION,
+            targetId: record.id,
+            after: { email, role: request.role, invitedUserId },
+          },
+          { tx }
+        );
+
+        const created = this.mapRecordToInvitation(record);
+        return token ? { ...created, token } : created;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterInvitationCreate", {
+      invitation,
+      actorUserId,
+    });
+    await this.notify(InvitationNotificationType.INVITE, invitation, options);
+
+    return invitation;
+  }
+
+  /**
+   * Invite many emails at once, e.g. rows from parseInvitationCsv.
+   * Emails are trimmed and lowercased; invalid rows, repeated emails, active
+   * members and emails with a pending invitation are skipped. Existing
+   * members and invitations are checked with one query each, and the new
+   * invitations are inserted in batches, all in one transaction. A
+   * HookVetoError from beforeInvitationCreate refuses only its row, as do
+   * the entity's invitation settings for roles the inviter may not grant and
+   * rows beyond its pending invitation limit.
+   * @param entityId - The entity to invite to
+   * @param invitedByUserId - The inviting member (firebase_uid)
+   * @param rows - Emails and roles to invite
+   * @param options - Optional caller-supplied transaction and expiry
+   * @returns One result per row, in input order; created rows carry their token
+   * @throws InvitationPolicyError if the expiry exceeds the entity's maximum
+   */
+  async createInvitations(
+    entityId: string,
+    invitedByUserId: string,
+    rows: InviteMemberRequest[],
+    options?: InvitationExpiryOptions
+  ): Promise<BulkInvitationResult[]> {
+    if (rows.length > MAX_BULK_INVITATIONS) {
+      throw new Error(
+        `Cannot create more than ${MAX_BULK_INVITATIONS} invitations at once`
+      );
+    }
+
+    const results: BulkInvitationResult[] = [];
+    const candidates: BulkInvitationResult[] = [];
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const result: BulkInvitationResult = {
+        email: normalizeEmail(row.email ?? ""),
+        role: row.role,
+        status: BulkInvitationStatus.INVALID,
+        invitation: null,
+        error: null,
+      };
+      results.push(result);
 
-    if (existingInvite.length > 0) {
-      throw new Error("An invitation is already pending for this email");
+      if (!EMAIL_PATTERN.test(result.email)) {
+        result.error = "Invalid email address";
+      } else if (!INVITABLE_ROLES.includes(result.role)) {
+        result.error = "Invitations can only grant the manager or member role";
+      } else if (seen.has(result.email)) {
+        result.status = BulkInvitationStatus.DUPLICATE;
+      } else {
+        seen.add(result.email);
+        candidates.push(result);
+      }
     }
 
-    const token = generateInvitationToken();
-    const expiresAt = calculateInvitationExpiry();
+    if (candidates.length === 0) {
+      return results;
+    }
 
-    const [invitation] = await this.config.db
-      .insert(this.config.invitationsTable)
-      .values({
-        entity_id: entityId,
-        email: request.email,
-        role: request.role,
-        status: InvitationStatus.PENDING,
-        invited_by_user_id: invitedByUserId,
-        token,
-        expires_at: new Date(expiresAt),
-      })
-      .returning();
+    const actorUserId = options?.actorUserId ?? invitedByUserId;
+    const membershipExpiresAt = this.resolveMembershipExpiry(options);
+    const created = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const settings = await this.getInvitationSettings(entityId, { tx });
+        const expiresAt = this.resolveExpiry(settings, options?.expiresInDays);
+        const grantable = await this.getGrantableRoles(
+          settings,
+          invitedByUserId,
+          tx
+        );
+        const available =
+          settings.maxPendingInvitations === null
+            ? Infinity
+            : settings.maxPendingInvitations -
+              (await this.countPendingInvitations(entityId, tx));
+
+        const emails = candidates.map(candidate => candidate.email);
+        const members = await tx
+          .select({
+            email: sql<string>`lower(${this.config.usersTable.email})`,
+          })
+          .from(this.config.membersTable)
+          .innerJoin(
+            this.config.usersTable,
+            eq(
+              this.config.membersTable.user_id,
+              this.config.usersTable.firebase_uid
+            )
+          )
+          .where(
+            and(
+              eq(this.config.membersTable.entity_id, entityId),
+              eq(this.config.membersTable.is_active, true),
+              inArray(sql`lower(${this.config.usersTable.email})`, emails)
+            )
+          );
+        const memberEmails = new Set(members.map(({ email }) => email));
+
+        const pending = await tx
+          .select({
+            email: sql<string>`lower(${this.config.invitationsTable.email})`,
+          })
+          .from(this.config.invitationsTable)
+          .where(
+            and(
+              eq(this.config.invitationsTable.entity_id, entityId),
+              eq(this.config.invitationsTable.status, InvitationStatus.PENDING),
+              inArray(sql`lower(${this.config.invitationsTable.email})`, emails)
+            )
+          );
+        const pendingEmails = new Set(pending.map(({ email }) => email));
+
+        const accepted: BulkInvitationResult[] = [];
+        for (const candidate of candidates) {
+          if (memberEmails.has(candidate.email)) {
+            candidate.status = BulkInvitationStatus.ALREADY_MEMBER;
+            continue;
+          }
 
-    return this.mapRecordToInvitation(invitation);
+          if (pendingEmails.has(candidate.email)) {
+            candidate.status = BulkInvitationStatus.ALREADY_INVITED;
+            continue;
+          }
+
+          if (!grantable.includes(candidate.role)) {
+            candidate.error = `Your role cannot invite ${candidate.role}s`;
+            continue;
+          }
+
+          if (accepted.length >= available) {
+            candidate.error =
+              "The entity has reached its limit of pending invitations";
+            continue;
+          }
+
+          try {
+            await runBeforeHook(this.config.hooks, "beforeInvitationCreate", {
+              entityId,
+              invitedByUserId,
+              request: { email: candidate.email, role: candidate.role },
+              actorUserId,
+              tx,
+            });
+          } catch (error) {
+            if (!(error instanceof HookVetoError)) {
+              throw error;
+            }
+            candidate.error = error.message;
+            continue;
+          }
+
+          accepted.push(candidate);
+        }
+
+        const invitations: CreatedInvitation[] = [];
+        for (let i = 0; i < accepted.length; i += BULK_INVITATION_BATCH_SIZE) {
+          const batch = accepted.slice(i, i + BULK_INVITATION_BATCH_SIZE);
+          const tokens = batch.map(() => generateInvitationToken());
+          const values = await Promise.all(
+            batch.map(async (candidate, index) => ({
+              entity_id: entityId,
+              email: candidate.email,
+              role: candidate.role,
+              status: InvitationStatus.PENDING,
+              invited_by_user_id: invitedByUserId,
+              token_hash: await this.hashToken(tokens[index]),
+              expires_at: expiresAt,
+              membership_expires_at: membershipExpiresAt,
+            }))
+          );
+
+          const records = await tx
+            .insert(this.config.invitationsTable)
+            .values(values)
+            .returning();
+
+          // Emails are unique within the call, so they identify the records
+          const recordsByEmail = new Map<string, any>(
+            records.map((record: any) => [record.email, record])
+          );
+          batch.forEach((candidate, index) => {
+            candidate.status = BulkInvitationStatus.CREATED;
+            candidate.invitation = {
+              ...this.mapRecordToInvitation(
+                recordsByEmail.get(candidate.email)
+              ),
+              token: tokens[index],
+            };
+            invitations.push(candidate.invitation);
+          });
+
+          await this.auditHelper.recordEvents(
+            records.map((record: any) => ({
+              entityId,
+              actorUserId,
+              action: AuditAction.INVITATION_CREATED,
+              targetType: AuditTargetType.INVITATION,
+              targetId: record.id,
+              after: { email: record.email, role: record.role },
+            })),
+            { tx }
+          );
+        }
+
+        return invitations;
+      }
+    );
+
+    for (const invitation of created) {
+      await runAfterHook(this.config.hooks, "afterInvitationCreate", {
+        invitation,
+        actorUserId,
+      });
+      await this.notify(InvitationNotificationType.INVITE, invitation, options);
+    }
+
+    return results;
   }
 
   /**
    * Get an invitation by token.
+   * Looks the token up by its hash; invitations created before tokens were
+   * hashed still match their plaintext token until hashLegacyInvitationTokens
+   * converts them. Revoked invitations are returned with status `revoked`;
+   * null means the token is unknown.
    */
-  async getInvitationByToken(token: string): Promise<EntityInvitation | null> {
-    const results = await this.config.db
+  async getInvitationByToken(
+    token: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityInvitation | null> {
+    const tokenHash = await this.hashToken(token);
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select()
       .from(this.config.invitationsTable)
-      .where(eq(this.config.invitationsTable.token, token))
+      .where(
+        or(
+          eq(this.config.invitationsTable.token_hash, tokenHash),
+          sql`${this.config.invitationsTable.previous_token_hashes} @> ${JSON.stringify([tokenHash])}::jsonb`,
+          and(
+            isNull(this.config.invitationsTable.token_hash),
+            eq(this.config.invitationsTable.token, token)
+          )
+        )
+      )
       .limit(1);
 
     if (results.length === 0) {
@@ -109,8 +569,12 @@ export class InvitationHelper {
   /**
    * Get an invitation by ID.
    */
-  async getInvitation(invitationId: string): Promise<EntityInvitation | null> {
-    const results = await this.config.db
+  async getInvitation(
+    invitationId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityInvitation | null> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select()
       .from(this.config.invitationsTable)
       .where(eq(this.config.invitationsTable.id, invitationId))
@@ -136,7 +600,8 @@ export class InvitationHelper {
       conditions.push(eq(this.config.invitationsTable.status, options.status));
     }
 
-    let query = this.config.db
+    const db = options?.tx ?? this.config.db;
+    let query = db
       .select()
       .from(this.config.invitationsTable)
       .where(and(...conditions))
@@ -155,10 +620,14 @@ export class InvitationHelper {
   }
 
   /**
-   * Get all pending invitations for a user email.
+   * Get all pending invitations for a user email (case-insensitive).
    */
-  async getUserPendingInvitations(email: string): Promise<EntityInvitation[]> {
-    const results = await this.config.db
+  async getUserPendingInvitations(
+    email: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityInvitation[]> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select({
         invitation: this.config.invitationsTable,
         entity: this.config.entitiesTable,
@@ -170,210 +639,1788 @@ export class InvitationHelper {
       )
       .where(
         and(
-          eq(this.config.invitationsTable.email, email),
-          eq(this.config.invitationsTable.status, InvitationStatus.PENDING)
+          eq(
+            sql`lower(${this.config.invitationsTable.email})`,
+            normalizeEmail(email)
+          ),
+          eq(this.config.invitationsTable.status, InvitationStatus.PENDING),
+          isNull(this.config.entitiesTable.deleted_at)
         )
       );
 
-    return results.map(({ invitation, entity }) => ({
-      ...this.mapRecordToInvitation(invitation),
-      entity: {
-        id: entity.id,
-        entitySlug: entity.entity_slug,
-        entityType: entity.entity_type as any,
-        displayName: entity.display_name,
-        description: entity.description,
-        avatarUrl: entity.avatar_url,
-        createdAt: entity.created_at?.toISOString() ?? new Date().toISOString(),
-        updatedAt: entity.updated_at?.toISOString() ?? new Date().toISOString(),
-      },
-    }));
+    return results.map(({ invitation, entity }) =>
+      this.mapRecordToInvitationWithEntity(invitation, entity)
+    );
+  }
+
+  /**
+   * Get the invitations a user can answer in the app: pending invitations
+   * of their user ID, and email invitations sent to their current email.
+   * Newest first; expired invitations and deleted entities are left out.
+   * @param userId - The user (firebase_uid)
+   * @param options - Optional caller-supplied transaction
+   */
+  async getUserInvitationInbox(
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityInvitation[]> {
+    const email = await this.getUserEmail(userId, options);
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select({
+        invitation: this.config.invitationsTable,
+        entity: this.config.entitiesTable,
+      })
+      .from(this.config.invitationsTable)
+      .innerJoin(
+        this.config.entitiesTable,
+        eq(this.config.invitationsTable.entity_id, this.config.entitiesTable.id)
+      )
+      .where(
+        and(
+          or(
+            eq(this.config.invitationsTable.invited_user_id, userId),
+            email
+              ? and(
+                  isNull(this.config.invitationsTable.invited_user_id),
+                  eq(sql`lower(${this.config.invitationsTable.email})`, email)
+                )
+              : undefined
+          ),
+          eq(this.config.invitationsTable.status, InvitationStatus.PENDING),
+          gt(this.config.invitationsTable.expires_at, new Date()),
+          isNull(this.config.entitiesTable.deleted_at)
+        )
+      )
+      .orderBy(desc(this.config.invitationsTable.created_at));
+
+    return results.map(({ invitation, entity }) =>
+      this.mapRecordToInvitationWithEntity(invitation, entity)
+    );
   }
 
   /**
    * Accept an invitation.
+   * The membership write and the status change commit together.
    * @param token - The invitation token
    * @param firebaseUid - The Firebase UID of the user accepting
+   * @param options - Whether the user's email is verified, and an optional
+   * caller-supplied transaction
+   * @throws InvitationAcceptanceError if the acceptance policy refuses the user
    */
-  async acceptInvitation(token: string, firebaseUid: string): Promise<void> {
-    const invitation = await this.getInvitationByToken(token);
+  async acceptInvitation(
+    token: string,
+    firebaseUid: string,
+    options?: AcceptInvitationOptions
+  ): Promise<void> {
+    const invitation = await this.getInvitationByToken(token, options);
 
     if (!invitation) {
       throw new Error("Invitation not found");
     }
 
-    if (invitation.status !== InvitationStatus.PENDING) {
-      throw new Error("Invitation is no longer pending");
+    await this.acceptFoundInvitation(invitation, firebaseUid, options);
+  }
+
+  /**
+   * Accept an invitation by ID, e.g. from the inbox.
+   * Instead of a token, the caller's identity is checked: an invitation of a
+   * user ID only for that user, an email invitation only for the user whose
+   * email it was sent to. The acceptance policy applies to email invitations.
+   * @param invitationId - The invitation to accept
+   * @param firebaseUid - The Firebase UID of the user accepting
+   * @param options - Whether the user's email is verified, and an optional
+   * caller-supplied transaction
+   * @throws InvitationAcceptanceError if the invitation is for someone else
+   * or the acceptance policy refuses the user
+   */
+  async acceptInvitationById(
+    invitationId: string,
+    firebaseUid: string,
+    options?: AcceptInvitationOptions
+  ): Promise<void> {
+    const invitation = await this.getInvitation(invitationId, options);
+    if (!invitation) {
+      throw new Error("Invitation not found");
     }
 
+    await this.requireInvitee(invitation, firebaseUid, options);
+    await this.acceptFoundInvitation(invitation, firebaseUid, options);
+  }
+
+  /**
+   * Accept an invitation that has been looked up already.
+   */
+  private async acceptFoundInvitation(
+    invitation: EntityInvitation,
+    firebaseUid: string,
+    options?: AcceptInvitationOptions
+  ): Promise<void> {
+    this.requirePending(invitation);
+
     if (new Date(invitation.expiresAt) < new Date()) {
-      // Mark as expired
-      await this.config.db
-        .update(this.config.invitationsTable)
-        .set({
-          status: InvitationStatus.EXPIRED,
-          updated_at: new Date(),
-        })
-        .where(eq(this.config.invitationsTable.id, invitation.id));
+      // Mark as expired in a transaction of its own: the error below rolls
+      // back the caller's transaction, which would undo the status change
+      await runInTransaction(this.config.db, undefined, async tx => {
+        await tx
+          .update(this.config.invitationsTable)
+          .set({
+            status: InvitationStatus.EXPIRED,
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(this.config.invitationsTable.id, invitation.id),
+              eq(this.config.invitationsTable.status, InvitationStatus.PENDING)
+            )
+          );
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: invitation.entityId,
+            action: AuditAction.INVITATION_EXPIRED,
+            targetType: AuditTargetType.INVITATION,
+            targetId: invitation.id,
+            before: { status: InvitationStatus.PENDING },
+            after: { status: InvitationStatus.EXPIRED },
+          },
+          { tx }
+        );
+      });
+
+      const expired = { ...invitation, status: InvitationStatus.EXPIRED };
+      await runAfterHook(this.config.hooks, "afterInvitationExpire", {
+        invitation: expired,
+        actorUserId: null,
+      });
+      await this.notify(InvitationNotificationType.EXPIRED, expired);
 
       throw new Error("Invitation has expired");
     }
 
-    // Check if user is already a member
-    const existingMember = await this.config.db
-      .select()
-      .from(this.config.membersTable)
-      .where(
-        and(
-          eq(this.config.membersTable.entity_id, invitation.entityId),
-          eq(this.config.membersTable.user_id, firebaseUid)
-        )
-      )
-      .limit(1);
+    if (
+      invitation.membershipExpiresAt &&
+      new Date(invitation.membershipExpiresAt) <= new Date()
+    ) {
+      throw new Error("The membership offered by this invitation has ended");
+    }
 
-    if (existingMember.length > 0) {
-      // Reactivate if previously removed
-      await this.config.db
-        .update(this.config.membersTable)
-        .set({
+    await this.checkAcceptancePolicy(invitation, firebaseUid, options);
+
+    const actorUserId = options?.actorUserId ?? firebaseUid;
+    const result = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await this.requireJoinableEntity(tx, invitation.entityId);
+
+        await runBeforeHook(this.config.hooks, "beforeInvitationAccept", {
+          invitation,
+          userId: firebaseUid,
+          actorUserId,
+          tx,
+        });
+        await runBeforeHook(this.config.hooks, "beforeMemberAdd", {
+          entityId: invitation.entityId,
+          userId: firebaseUid,
           role: invitation.role,
-          is_active: true,
-        })
-        .where(
-          and(
-            eq(this.config.membersTable.entity_id, invitation.entityId),
-            eq(this.config.membersTable.user_id, firebaseUid)
+          actorUserId,
+          tx,
+        });
+
+        // Mark invitation as accepted; the status guard stops a concurrent
+        // accept of the same invitation from adding the member twice
+        const [accepted] = await tx
+          .update(this.config.invitationsTable)
+          .set({
+            status: InvitationStatus.ACCEPTED,
+            accepted_at: new Date(),
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(this.config.invitationsTable.id, invitation.id),
+              eq(this.config.invitationsTable.status, InvitationStatus.PENDING)
+            )
           )
+          .returning();
+
+        if (!accepted) {
+          throw new Error("Invitation is no longer pending");
+        }
+
+        await this.activateMembership(
+          tx,
+          invitation.entityId,
+          firebaseUid,
+          invitation.role,
+          invitation.membershipExpiresAt
         );
-    } else {
-      // Add user as member with active status
-      await this.config.db.insert(this.config.membersTable).values({
-        entity_id: invitation.entityId,
-        user_id: firebaseUid,
-        role: invitation.role,
-        is_active: true,
-      });
-    }
 
-    // Mark invitation as accepted
-    await this.config.db
-      .update(this.config.invitationsTable)
-      .set({
-        status: InvitationStatus.ACCEPTED,
-        accepted_at: new Date(),
-        updated_at: new Date(),
-      })
-      .where(eq(this.config.invitationsTable.id, invitation.id));
+        await this.auditHelper.recordEvents(
+          [
+            {
+              entityId: invitation.entityId,
+              actorUserId,
+              action: AuditAction.INVITATION_ACCEPTED,
+              targetType: AuditTargetType.INVITATION,
+              targetId: invitation.id,
+              before: { status: InvitationStatus.PENDING },
+              after: { status: InvitationStatus.ACCEPTED, userId: firebaseUid },
+            },
+            {
+              entityId: invitation.entityId,
+              actorUserId,
+              action: AuditAction.MEMBER_ADDED,
+              targetType: AuditTargetType.MEMBER,
+              targetId: firebaseUid,
+              after: {
+                role: invitation.role,
+                invitationId: invitation.id,
+                ...(invitation.membershipExpiresAt && {
+                  expiresAt: invitation.membershipExpiresAt,
+                }),
+              },
+            },
+          ],
+          { tx }
+        );
+
+        const member = await this.memberHelper.getMember(
+          invitation.entityId,
+          firebaseUid,
+          false,
+          { tx }
+        );
+        return {
+          invitation: this.mapRecordToInvitation(accepted),
+          member: member!,
+        };
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterInvitationAccept", {
+      ...result,
+      actorUserId,
+    });
+    await runAfterHook(this.config.hooks, "afterMemberAdd", {
+      member: result.member,
+      actorUserId,
+    });
+    await this.notify(
+      InvitationNotificationType.ACCEPTED,
+      result.invitation,
+      options
+    );
   }
 
   /**
    * Decline an invitation.
    */
-  async declineInvitation(token: string): Promise<void> {
-    const invitation = await this.getInvitationByToken(token);
+  async declineInvitation(
+    token: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const invitation = await this.getInvitationByToken(token, options);
 
     if (!invitation) {
       throw new Error("Invitation not found");
     }
 
-    if (invitation.status !== InvitationStatus.PENDING) {
-      throw new Error("Invitation is no longer pending");
-    }
-
-    await this.config.db
-      .update(this.config.invitationsTable)
-      .set({
-        status: InvitationStatus.DECLINED,
-        updated_at: new Date(),
-      })
-      .where(eq(this.config.invitationsTable.id, invitation.id));
+    await this.declineFoundInvitation(invitation, options);
   }
 
   /**
-   * Cancel an invitation (by entity owner).
+   * Decline an invitation by ID, e.g. from the inbox. The caller's identity
+   * is checked as by acceptInvitationById.
+   * @param invitationId - The invitation to decline
+   * @param firebaseUid - The Firebase UID of the user declining
+   * @param options - Optional caller-supplied transaction
+   * @throws InvitationAcceptanceError if the invitation is for someone else
    */
-  async cancelInvitation(invitationId: string): Promise<void> {
-    await this.config.db
-      .delete(this.config.invitationsTable)
-      .where(eq(this.config.invitationsTable.id, invitationId));
+  async declineInvitationById(
+    invitationId: string,
+    firebaseUid: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const invitation = await this.getInvitation(invitationId, options);
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+
+    await this.requireInvitee(invitation, firebaseUid, options);
+    await this.declineFoundInvitation(invitation, {
+      ...options,
+      actorUserId: options?.actorUserId ?? firebaseUid,
+    });
   }
 
   /**
-   * Renew an invitation with a new expiration date.
-   * Only pending invitations can be renewed.
-   * @param invitationId - The invitation ID to renew
-   * @returns The renewed invitation
+   * Decline an invitation that has been looked up already.
    */
-  async renewInvitation(invitationId: string): Promise<EntityInvitation> {
-    const invitation = await this.getInvitation(invitationId);
+  private async declineFoundInvitation(
+    invitation: EntityInvitation,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    this.requirePending(invitation);
 
-    if (!invitation) {
-      throw new Error("Invitation not found");
-    }
+    const actorUserId = options?.actorUserId ?? null;
+    const declined = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await runBeforeHook(this.config.hooks, "beforeInvitationDecline", {
+          invitation,
+          actorUserId,
+          tx,
+        });
 
-    if (invitation.status !== InvitationStatus.PENDING) {
-      throw new Error("Only pending invitations can be renewed");
-    }
+        // The status guard stops a concurrent accept or cancel from being
+        // overwritten
+        const [record] = await tx
+          .update(this.config.invitationsTable)
+          .set({
+            status: InvitationStatus.DECLINED,
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(this.config.invitationsTable.id, invitation.id),
+              eq(this.config.invitationsTable.status, InvitationStatus.PENDING)
+            )
+          )
+          .returning();
 
-    const newExpiresAt = calculateInvitationExpiry();
+        if (!record) {
+          throw new Error("Invitation is no longer pending");
+        }
 
-    const [renewed] = await this.config.db
-      .update(this.config.invitationsTable)
-      .set({
-        expires_at: new Date(newExpiresAt),
-        updated_at: new Date(),
-      })
-      .where(eq(this.config.invitationsTable.id, invitationId))
-      .returning();
+        await this.auditHelper.recordEvent(
+          {
+            entityId: invitation.entityId,
+            actorUserId,
+            action: AuditAction.INVITATION_DECLINED,
+            targetType: AuditTargetType.INVITATION,
+            targetId: invitation.id,
+            before: { status: InvitationStatus.PENDING },
+            after: { status: InvitationStatus.DECLINED },
+          },
+          { tx }
+        );
+
+        return this.mapRecordToInvitation(record);
+      }
+    );
 
-    return this.mapRecordToInvitation(renewed);
+    await runAfterHook(this.config.hooks, "afterInvitationDecline", {
+      invitation: declined,
+      actorUserId,
+    });
   }
 
   /**
-   * Process pending invitations for a new user.
-   * Called when a user signs up to auto-accept any pending invitations.
-   * @param firebaseUid - The Firebase UID of the new user
-   * @param email - The user's email to match invitations
+   * Cancel an invitation (by entity owner).
+   * The invitation is kept with status `revoked`, recording `actorUserId` as
+   * the user who revoked it; its token then fails with "Invitation has been
+   * revoked". Only pending invitations can be revoked.
    */
-  async processNewUserInvitations(
-    firebaseUid: string,
-    email: string
+  async cancelInvitation(
+    invitationId: string,
+    options?: EntityOperationOptions
   ): Promise<void> {
-    const pendingInvitations = await this.getUserPendingInvitations(email);
+    const actorUserId = options?.actorUserId ?? null;
+    const cancelled = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const invitation = await this.getInvitation(invitationId, { tx });
+        if (!invitation) {
+          return null;
+        }
 
-    for (const invitation of pendingInvitations) {
-      try {
-        await this.acceptInvitation(invitation.token, firebaseUid);
-      } catch (error) {
-        // Log but don't fail - user account creation is more important
-        console.error(
-          `Failed to auto-accept invitation ${invitation.id}:`,
-          error
+        if (invitation.status !== InvitationStatus.PENDING) {
+          throw new Error("Only pending invitations can be revoked");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeInvitationCancel", {
+          invitation,
+          actorUserId,
+          tx,
+        });
+
+        const now = new Date();
+        const [record] = await tx
+          .update(this.config.invitationsTable)
+          .set({
+            status: InvitationStatus.REVOKED,
+            revoked_by_user_id: actorUserId,
+            revoked_at: now,
+            updated_at: now,
+          })
+          .where(eq(this.config.invitationsTable.id, invitationId))
+          .returning();
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: invitation.entityId,
+            actorUserId,
+            action: AuditAction.INVITATION_CANCELLED,
+            targetType: AuditTargetType.INVITATION,
+            targetId: invitationId,
+            before: {
+              email: invitation.email,
+              role: invitation.role,
+              status: invitation.status,
+            },
+            after: { status: InvitationStatus.REVOKED },
+          },
+          { tx }
         );
+
+        return this.mapRecordToInvitation(record);
       }
+    );
+
+    if (cancelled) {
+      await runAfterHook(this.config.hooks, "afterInvitationCancel", {
+        invitation: cancelled,
+        actorUserId,
+      });
     }
   }
 
   /**
-   * Expire old invitations.
-   * Should be called periodically (e.g., by a cron job).
+   * Renew an invitation with a new expiration date.
+   * Only pending invitations can be renewed. The role of `actorUserId`, or
+   * of the original inviter without one, must be allowed to grant the
+   * invitation's role.
+   * @param invitationId - The invitation ID to renew
+   * @param options - Optional caller-supplied transaction and expiry
+   * @returns The renewed invitation
+   * @throws InvitationPolicyError if the entity's invitation settings refuse
+   * the role or the expiry
    */
-  async expireOldInvitations(): Promise<number> {
-    const result = await this.config.db
-      .update(this.config.invitationsTable)
-      .set({
-        status: InvitationStatus.EXPIRED,
-        updated_at: new Date(),
-      })
-      .where(
-        and(
-          eq(this.config.invitationsTable.status, InvitationStatus.PENDING),
-          lt(this.config.invitationsTable.expires_at, new Date())
-        )
+  async renewInvitation(
+    invitationId: string,
+    options?: InvitationExpiryOptions
+  ): Promise<EntityInvitation> {
+    const actorUserId = options?.actorUserId ?? null;
+    const renewed = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const invitation = await this.getInvitation(invitationId, { tx });
+
+        if (!invitation) {
+          throw new Error("Invitation not found");
+        }
+
+        if (invitation.status !== InvitationStatus.PENDING) {
+          throw new Error("Only pending invitations can be renewed");
+        }
+
+        const settings = await this.getInvitationSettings(invitation.entityId, {
+          tx,
+        });
+        const newExpiresAt = this.resolveExpiry(
+          settings,
+          options?.expiresInDays
+        ).toISOString();
+        await this.requireGrantableRole(
+          settings,
+          actorUserId ?? invitation.invitedByUserId,
+          invitation.role,
+          tx
+        );
+
+        await runBeforeHook(this.config.hooks, "beforeInvitationRenew", {
+          invitation,
+          actorUserId,
+          tx,
+        });
+
+        const [record] = await tx
+          .update(this.config.invitationsTable)
+          .set({
+            expires_at: new Date(newExpiresAt),
+            reminded_at: null,
+            updated_at: new Date(),
+          })
+          .where(eq(this.config.invitationsTable.id, invitationId))
+          .returning();
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: invitation.entityId,
+            actorUserId,
+            action: AuditAction.INVITATION_RENEWED,
+            targetType: AuditTargetType.INVITATION,
+            targetId: invitationId,
+            before: { expiresAt: invitation.expiresAt },
+            after: { expiresAt: newExpiresAt },
+          },
+          { tx }
+        );
+
+        return this.mapRecordToInvitation(record);
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterInvitationRenew", {
+      invitation: renewed,
+      actorUserId,
+    });
+
+    return renewed;
+  }
+
+  /**
+   * Send a reminder email for a pending invitation.
+   * Only the hash of the original token is stored, so the reminder carries a
+   * new token; every token sent before it keeps working until the invitation
+   * expires. Unlike the automatic notifications, delivery errors are thrown,
+   * and the reminder is then undone.
+   * @param invitationId - The invitation to remind the invitee of
+   * @param options - Optional caller-supplied transaction
+   */
+  async sendInvitationReminder(
+    invitationId: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const notifier = this.config.invitationNotifier;
+    if (!notifier) {
+      throw new Error("Invitation notifier is not configured");
+    }
+
+    const invitation = await this.getInvitation(invitationId, options);
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new Error("Only pending invitations can be reminded");
+    }
+
+    if (new Date(invitation.expiresAt) < new Date()) {
+      throw new Error("Invitation has expired");
+    }
+
+    await this.sendReminder(notifier, invitation, false, options);
+  }
+
+  /**
+   * Remind invitees whose pending invitation expires within the given number
+   * of days and who have not been reminded since it was created or renewed.
+   * Each invitation is claimed before its reminder is sent, so concurrent
+   * runs do not send it twice; a failed reminder is undone, logged and
+   * retried by the next run.
+   * @param daysBeforeExpiry - How close to expiry an invitation must be
+   * @param options - Optional caller-supplied transaction and reference time
+   * @returns Number of reminders sent
+   */
+  async sendDueReminders(
+    daysBeforeExpiry: number,
+    options?: InvitationMaintenanceOptions
+  ): Promise<number> {
+    const notifier = this.config.invitationNotifier;
+    if (!notifier) {
+      throw new Error("Invitation notifier is not configured");
+    }
+
+    if (daysBeforeExpiry <= 0) {
+      throw new Error("Reminder days must be positive");
+    }
+
+    const now = options?.now ?? new Date();
+    const db = options?.tx ?? this.config.db;
+    const due = await db
+      .select()
+      .from(this.config.invitationsTable)
+      .where(
+        and(
+          eq(this.config.invitationsTable.status, InvitationStatus.PENDING),
+          isNull(this.config.invitationsTable.reminded_at),
+          gt(this.config.invitationsTable.expires_at, now),
+          lte(
+            this.config.invitationsTable.expires_at,
+            new Date(now.getTime() + daysBeforeExpiry * DAY_MS)
+          )
+        )
+      );
+
+    let sent = 0;
+    for (const record of due) {
+      const invitation = this.mapRecordToInvitation(record);
+      try {
+        if (await this.sendReminder(notifier, invitation, true, options)) {
+          sent++;
+        }
+      } catch (error) {
+        console.error(
+          `Reminder for invitation ${invitation.id} failed:`,
+          error
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Process pending invitations for a new user.
+   * Called when a user signs up to auto-accept any pending invitations.
+   * When domains are configured, also joins organizations that verified the
+   * email's domain (see DomainHelper.applyDomainRules).
+   * @param firebaseUid - The Firebase UID of the new user
+   * @param email - The user's verified email to match invitations and domains
+   * @returns Memberships created and organizations open to a join request
+   * through domain rules
+   */
+  async processNewUserInvitations(
+    firebaseUid: string,
+    email: string
+  ): Promise<DomainJoinResult> {
+    const pendingInvitations = await this.getUserPendingInvitations(email);
+
+    for (const invitation of pendingInvitations) {
+      // Invitations of a user ID name an existing user, not this one
+      if (invitation.invitedUserId) {
+        continue;
+      }
+
+      try {
+        // Callers pass a verified email, which satisfies the verified email policy
+        await this.acceptFoundInvitation(invitation, firebaseUid, {
+          emailVerified: true,
+        });
+      } catch (error) {
+        // Log but don't fail - user account creation is more important
+        console.error(
+          `Failed to auto-accept invitation ${invitation.id}:`,
+          error
+        );
+      }
+    }
+
+    if (!this.config.domainsTable) {
+      return { joined: [], joinable: [] };
+    }
+
+    try {
+      return await this.domainHelper.applyDomainRules(firebaseUid, email);
+    } catch (error) {
+      console.error(`Failed to apply domain rules for ${firebaseUid}:`, error);
+      return { joined: [], joinable: [] };
+    }
+  }
+
+  /**
+   * Hash the plaintext tokens of invitations created before tokens were
+   * stored hashed. Required once after upgrading: until it runs, those
+   * invitations keep their plaintext token. Their links keep working.
+   * Converts every row in one transaction, so a failure leaves none half done.
+   * @param options - Optional caller-supplied transaction
+   * @returns Number of invitations converted
+   */
+  async hashLegacyInvitationTokens(
+    options?: EntityOperationOptions
+  ): Promise<number> {
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const legacy = await tx
+        .select({
+          id: this.config.invitationsTable.id,
+          token: this.config.invitationsTable.token,
+        })
+        .from(this.config.invitationsTable)
+        .where(
+          and(
+            isNull(this.config.invitationsTable.token_hash),
+            isNotNull(this.config.invitationsTable.token)
+          )
+        );
+
+      let converted = 0;
+      for (const { id, token } of legacy) {
+        // Skip rows a concurrent run already converted
+        const updated = await tx
+          .update(this.config.invitationsTable)
+          .set({ token: null, token_hash: await this.hashToken(token) })
+          .where(
+            and(
+              eq(this.config.invitationsTable.id, id),
+              isNotNull(this.config.invitationsTable.token)
+            )
+          )
+          .returning({ id: this.config.invitationsTable.id });
+        converted += updated.length;
+      }
+
+      return converted;
+    });
+  }
+
+  /**
+   * Expire old invitations.
+   * Should be called periodically (e.g., by a cron job or InvitationScheduler).
+   */
+  async expireOldInvitations(
+    options?: InvitationMaintenanceOptions
+  ): Promise<number> {
+    const actorUserId = options?.actorUserId ?? null;
+    const now = options?.now ?? new Date();
+    const expired = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const result = await tx
+          .update(this.config.invitationsTable)
+          .set({
+            status: InvitationStatus.EXPIRED,
+            updated_at: now,
+          })
+          .where(
+            and(
+              eq(this.config.invitationsTable.status, InvitationStatus.PENDING),
+              lt(this.config.invitationsTable.expires_at, now)
+            )
+          )
+          .returning();
+
+        await this.auditHelper.recordEvents(
+          result.map((record: any) => ({
+            entityId: record.entity_id,
+            actorUserId,
+            action: AuditAction.INVITATION_EXPIRED,
+            targetType: AuditTargetType.INVITATION,
+            targetId: record.id,
+            before: { status: InvitationStatus.PENDING },
+            after: { status: InvitationStatus.EXPIRED },
+          })),
+          { tx }
+        );
+
+        return result.map((record: any) => this.mapRecordToInvitation(record));
+      }
+    );
+
+    for (const invitation of expired) {
+      await runAfterHook(this.config.hooks, "afterInvitationExpire", {
+        invitation,
+        actorUserId,
+      });
+      await this.notify(
+        InvitationNotificationType.EXPIRED,
+        invitation,
+        options
+      );
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Delete declined and expired invitations closed longer ago than the
+   * retention window. Their audit events are kept.
+   * @param retentionDays - Days a closed invitation is kept
+   * @param options - Optional caller-supplied transaction and reference time
+   * @returns Number of invitations deleted
+   */
+  async purgeClosedInvitations(
+    retentionDays: number,
+    options?: InvitationMaintenanceOptions
+  ): Promise<number> {
+    if (retentionDays < 0) {
+      throw new Error("Retention days cannot be negative");
+    }
+
+    const now = options?.now ?? new Date();
+    const db = options?.tx ?? this.config.db;
+    const purged = await db
+      .delete(this.config.invitationsTable)
+      .where(
+        and(
+          inArray(this.config.invitationsTable.status, [
+            InvitationStatus.DECLINED,
+            InvitationStatus.EXPIRED,
+          ]),
+          lt(
+            this.config.invitationsTable.updated_at,
+            new Date(now.getTime() - retentionDays * DAY_MS)
+          )
+        )
       )
-      .returning();
+      .returning({ id: this.config.invitationsTable.id });
+
+    return purged.length;
+  }
+
+  /**
+   * Get an entity's invitation settings, with defaults for anything it does
+   * not set. Without `invitationSettingsTable` every entity uses the defaults.
+   */
+  async getInvitationSettings(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<InvitationSettings> {
+    if (!this.config.invitationSettingsTable) {
+      return this.mapRecordToInvitationSettings(entityId, null);
+    }
 
-    return result.length;
+    const db = options?.tx ?? this.config.db;
+    const [record] = await db
+      .select()
+      .from(this.config.invitationSettingsTable)
+      .where(eq(this.config.invitationSettingsTable.entity_id, entityId))
+      .limit(1);
+
+    return this.mapRecordToInvitationSettings(entityId, record ?? null);
+  }
+
+  /**
+   * Change an entity's invitation settings.
+   * Omitted fields keep their value and null restores the default. Pending
+   * invitations keep their expiry.
+   * @param entityId - The entity to configure
+   * @param userId - The member making the change (firebase_uid)
+   * @param request - The settings to change
+   * @param options - Optional caller-supplied transaction
+   * @returns The updated settings
+   */
+  async updateInvitationSettings(
+    entityId: string,
+    userId: string,
+    request: UpdateInvitationSettingsRequest,
+    options?: EntityOperationOptions
+  ): Promise<InvitationSettings> {
+    const settingsTable = this.requireInvitationSettingsTable();
+    const actorUserId = options?.actorUserId ?? userId;
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [existing] = await tx
+        .select()
+        .from(settingsTable)
+        .where(eq(settingsTable.entity_id, entityId))
+        .limit(1);
+
+      const values = {
+        default_expiry_days:
+          request.defaultExpiryDays === undefined
+            ? (existing?.default_expiry_days ?? null)
+            : request.defaultExpiryDays,
+        max_expiry_days:
+          request.maxExpiryDays === undefined
+            ? (existing?.max_expiry_days ?? null)
+            : request.maxExpiryDays,
+        max_pending_invitations:
+          request.maxPendingInvitations === undefined
+            ? (existing?.max_pending_invitations ?? null)
+            : request.maxPendingInvitations,
+        grantable_roles:
+          request.grantableRoles === undefined
+            ? (existing?.grantable_roles ?? null)
+            : request.grantableRoles,
+        updated_by_user_id: userId,
+        updated_at: new Date(),
+      };
+      const before = this.mapRecordToInvitationSettings(
+        entityId,
+        existing ?? null
+      );
+      const after = this.mapRecordToInvitationSettings(entityId, values);
+      this.validateInvitationSettings(after);
+
+      const [record] = await tx
+        .insert(settingsTable)
+        .values({ entity_id: entityId, ...values })
+        .onConflictDoUpdate({ target: settingsTable.entity_id, set: values })
+        .returning();
+
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId,
+          action: AuditAction.INVITATION_SETTINGS_UPDATED,
+          targetType: AuditTargetType.ENTITY,
+          targetId: entityId,
+          before: {
+            defaultExpiryDays: before.defaultExpiryDays,
+            maxExpiryDays: before.maxExpiryDays,
+            maxPendingInvitations: before.maxPendingInvitations,
+            grantableRoles: before.grantableRoles,
+          },
+          after: {
+            defaultExpiryDays: after.defaultExpiryDays,
+            maxExpiryDays: after.maxExpiryDays,
+            maxPendingInvitations: after.maxPendingInvitations,
+            grantableRoles: after.grantableRoles,
+          },
+        },
+        { tx }
+      );
+
+      return this.mapRecordToInvitationSettings(entityId, record);
+    });
+  }
+
+  /**
+   * Create a shareable invite link.
+   * The returned token is shown once; only its hash is stored.
+   * @param entityId - The entity the link joins
+   * @param createdByUserId - The member creating the link (firebase_uid)
+   * @param request - Role and optional limits (max uses, expiry, email domain)
+   * @param options - Optional caller-supplied transaction
+   * @throws InvitationPolicyError if the creator's role may not grant the role
+   */
+  async createInviteLink(
+    entityId: string,
+    createdByUserId: string,
+    request: CreateInviteLinkRequest,
+    options?: EntityOperationOptions
+  ): Promise<CreatedInviteLink> {
+    const inviteLinksTable = this.requireInviteLinksTable();
+
+    if (
+      request.role !== EntityRole.MANAGER &&
+      request.role !== EntityRole.MEMBER
+    ) {
+      throw new Error("Invite links can only grant the manager or member role");
+    }
+
+    if (
+      request.maxUses !== undefined &&
+      (!Number.isInteger(request.maxUses) || request.maxUses < 1)
+    ) {
+      throw new Error("Max uses must be a positive integer");
+    }
+
+    if (request.expiresAt && new Date(request.expiresAt) <= new Date()) {
+      throw new Error("Invite link expiry must be in the future");
+    }
+
+    const allowedEmailDomain = request.allowedEmailDomain
+      ? normalizeEmailDomain(request.allowedEmailDomain)
+      : null;
+
+    const token = generateInvitationToken();
+    const tokenHash = await this.hashToken(token);
+    const actorUserId = options?.actorUserId ?? createdByUserId;
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      await this.requireJoinableEntity(tx, entityId);
+
+      await this.requireGrantableRole(
+        await this.getInvitationSettings(entityId, { tx }),
+        createdByUserId,
+        request.role,
+        tx
+      );
+
+      const [record] = await tx
+        .insert(inviteLinksTable)
+        .values({
+          entity_id: entityId,
+          token_hash: tokenHash,
+          role: request.role,
+          max_uses: request.maxUses ?? null,
+          allowed_email_domain: allowedEmailDomain,
+          created_by_user_id: createdByUserId,
+          expires_at: request.expiresAt ? new Date(request.expiresAt) : null,
+        })
+        .returning();
+
+      const link = this.mapRecordToInviteLink(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId,
+          action: AuditAction.INVITE_LINK_CREATED,
+          targetType: AuditTargetType.INVITE_LINK,
+          targetId: link.id,
+          after: {
+            role: link.role,
+            maxUses: link.maxUses,
+            expiresAt: link.expiresAt,
+            allowedEmailDomain: link.allowedEmailDomain,
+          },
+        },
+        { tx }
+      );
+
+      return { ...link, token };
+    });
+  }
+
+  /**
+   * List the invite links of an entity, newest first.
+   * Revoked, expired and used-up links are included.
+   */
+  async listInviteLinks(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<InviteLink[]> {
+    const inviteLinksTable = this.requireInviteLinksTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(inviteLinksTable)
+      .where(eq(inviteLinksTable.entity_id, entityId))
+      .orderBy(desc(inviteLinksTable.created_at));
+
+    return results.map((record: any) => this.mapRecordToInviteLink(record));
+  }
+
+  /**
+   * Get an invite link by token (looked up by its hash).
+   */
+  async getInviteLinkByToken(
+    token: string,
+    options?: EntityOperationOptions
+  ): Promise<InviteLink | null> {
+    const inviteLinksTable = this.requireInviteLinksTable();
+    const tokenHash = await this.hashToken(token);
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(inviteLinksTable)
+      .where(eq(inviteLinksTable.token_hash, tokenHash))
+      .limit(1);
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordToInviteLink(results[0]);
+  }
+
+  /**
+   * Revoke an invite link. Revoked links cannot be redeemed.
+   */
+  async revokeInviteLink(
+    entityId: string,
+    inviteLinkId: string,
+    options?: EntityOperationOptions
+  ): Promise<InviteLink> {
+    const inviteLinksTable = this.requireInviteLinksTable();
+    const actorUserId = options?.actorUserId ?? null;
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [existing] = await tx
+        .select()
+        .from(inviteLinksTable)
+        .where(
+          and(
+            eq(inviteLinksTable.id, inviteLinkId),
+            eq(inviteLinksTable.entity_id, entityId)
+          )
+        )
+        .limit(1);
+
+      if (!existing) {
+        throw new Error("Invite link not found");
+      }
+
+      if (existing.revoked_at) {
+        throw new Error("Invite link is already revoked");
+      }
+
+      const [record] = await tx
+        .update(inviteLinksTable)
+        .set({
+          revoked_at: new Date(),
+          updated_at: new Date(),
+        })
+        .where(eq(inviteLinksTable.id, inviteLinkId))
+        .returning();
+
+      const revoked = this.mapRecordToInviteLink(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId,
+          action: AuditAction.INVITE_LINK_REVOKED,
+          targetType: AuditTargetType.INVITE_LINK,
+          targetId: inviteLinkId,
+          before: { revokedAt: null },
+          after: { revokedAt: revoked.revokedAt },
+        },
+        { tx }
+      );
+
+      return revoked;
+    });
+  }
+
+  /**
+   * Join an entity through an invite link.
+   * Counting the use and adding the member commit together; a previously
+   * removed member is reactivated the same way as by acceptInvitation.
+   * @param token - The invite link token
+   * @param firebaseUid - The Firebase UID of the user joining
+   * @param options - Optional caller-supplied transaction
+   * @returns The new membership
+   */
+  async redeemInviteLink(
+    token: string,
+    firebaseUid: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityMember> {
+    const inviteLinksTable = this.requireInviteLinksTable();
+    const link = await this.getInviteLinkByToken(token, options);
+
+    if (!link) {
+      throw new Error("Invite link not found");
+    }
+
+    if (link.revokedAt) {
+      throw new Error("Invite link has been revoked");
+    }
+
+    if (link.expiresAt && new Date(link.expiresAt) <= new Date()) {
+      throw new Error("Invite link has expired");
+    }
+
+    if (link.allowedEmailDomain) {
+      const db = options?.tx ?? this.config.db;
+      const [user] = await db
+        .select({ email: this.config.usersTable.email })
+        .from(this.config.usersTable)
+        .where(eq(this.config.usersTable.firebase_uid, firebaseUid))
+        .limit(1);
+      const domain = user?.email ? getEmailDomain(user.email) : null;
+
+      if (domain !== link.allowedEmailDomain) {
+        throw new Error("Invite link is restricted to another email domain");
+      }
+    }
+
+    const actorUserId = options?.actorUserId ?? firebaseUid;
+    const member = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await this.requireJoinableEntity(tx, link.entityId);
+
+        const existing = await this.memberHelper.getMember(
+          link.entityId,
+          firebaseUid,
+          false,
+          { tx }
+        );
+        if (existing) {
+          throw new Error("User is already an active member of this entity");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeMemberAdd", {
+          entityId: link.entityId,
+          userId: firebaseUid,
+          role: link.role,
+          actorUserId,
+          tx,
+        });
+
+        // The guard stops concurrent redemptions from exceeding max uses
+        const [counted] = await tx
+          .update(inviteLinksTable)
+          .set({
+            use_count: sql`${inviteLinksTable.use_count} + 1`,
+            updated_at: new Date(),
+          })
+          .where(
+            and(
+              eq(inviteLinksTable.id, link.id),
+              isNull(inviteLinksTable.revoked_at),
+              or(
+                isNull(inviteLinksTable.max_uses),
+                lt(inviteLinksTable.use_count, inviteLinksTable.max_uses)
+              )
+            )
+          )
+          .returning();
+
+        if (!counted) {
+          throw new Error("Invite link has reached its maximum uses");
+        }
+
+        await this.activateMembership(
+          tx,
+          link.entityId,
+          firebaseUid,
+          link.role
+        );
+
+        await this.auditHelper.recordEvents(
+          [
+            {
+              entityId: link.entityId,
+              actorUserId,
+              action: AuditAction.INVITE_LINK_REDEEMED,
+              targetType: AuditTargetType.INVITE_LINK,
+              targetId: link.id,
+              after: { userId: firebaseUid, useCount: counted.use_count },
+            },
+            {
+              entityId: link.entityId,
+              actorUserId,
+              action: AuditAction.MEMBER_ADDED,
+              targetType: AuditTargetType.MEMBER,
+              targetId: firebaseUid,
+              after: { role: link.role, inviteLinkId: link.id },
+            },
+          ],
+          { tx }
+        );
+
+        const member = await this.memberHelper.getMember(
+          link.entityId,
+          firebaseUid,
+          false,
+          { tx }
+        );
+        return member!;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterMemberAdd", {
+      member,
+      actorUserId,
+    });
+
+    return member;
+  }
+
+  /**
+   * Fail unless the entity exists and is not soft-deleted
+   * (soft-deleted entities cannot gain members).
+   */
+  private async requireJoinableEntity(
+    tx: EntityTransaction,
+    entityId: string
+  ): Promise<void> {
+    const entity = await tx
+      .select({ id: this.config.entitiesTable.id })
+      .from(this.config.entitiesTable)
+      .where(
+        and(
+          eq(this.config.entitiesTable.id, entityId),
+          isNull(this.config.entitiesTable.deleted_at)
+        )
+      )
+      .limit(1);
+
+    if (entity.length === 0) {
+      throw new Error("Entity not found");
+    }
+  }
+
+  /**
+   * Make a user an active member with the given role and expiry (null:
+   * never), reactivating their previous membership if they were removed.
+   * Like EntityMemberHelper.addMember, a reactivated membership starts
+   * without permission overrides.
+   */
+  private async activateMembership(
+    tx: EntityTransaction,
+    entityId: string,
+    userId: string,
+    role: EntityRole,
+    expiresAt: string | null = null
+  ): Promise<void> {
+    const existingMember = await tx
+      .select()
+      .from(this.config.membersTable)
+      .where(
+        and(
+          eq(this.config.membersTable.entity_id, entityId),
+          eq(this.config.membersTable.user_id, userId)
+        )
+      )
+      .limit(1);
+
+    if (existingMember.length > 0) {
+      // Reactivate if previously removed (overrides from the old membership are dropped)
+      await tx
+        .update(this.config.membersTable)
+        .set({
+          role,
+          is_active: true,
+          permission_overrides: null,
+          expires_at: expiresAt ? new Date(expiresAt) : null,
+          updated_at: new Date(),
+        })
+        .where(
+          and(
+            eq(this.config.membersTable.entity_id, entityId),
+            eq(this.config.membersTable.user_id, userId)
+          )
+        );
+    } else {
+      // Add user as member with active status
+      await tx.insert(this.config.membersTable).values({
+        entity_id: entityId,
+        user_id: userId,
+        role,
+        is_active: true,
+        expires_at: expiresAt ? new Date(expiresAt) : null,
+      });
+    }
+  }
+
+  /**
+   * Refuse invitations that can no longer be answered, telling revoked ones
+   * apart from those already answered or expired.
+   */
+  private requirePending(invitation: EntityInvitation): void {
+    if (invitation.status === InvitationStatus.REVOKED) {
+      throw new Error("Invitation has been revoked");
+    }
+
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new Error("Invitation is no longer pending");
+    }
+  }
+
+  /**
+   * Get the invitation settings table or fail if it is not configured.
+   */
+  private requireInvitationSettingsTable(): any {
+    if (!this.config.invitationSettingsTable) {
+      throw new Error("Invitation settings table is not configured");
+    }
+    return this.config.invitationSettingsTable;
+  }
+
+  /**
+   * Check settings before they are saved.
+   */
+  private validateInvitationSettings(settings: InvitationSettings): void {
+    const { defaultExpiryDays, maxExpiryDays, maxPendingInvitations } =
+      settings;
+    if (!Number.isInteger(defaultExpiryDays) || defaultExpiryDays < 1) {
+      throw new Error("Default expiry must be a positive number of days");
+    }
+
+    if (
+      maxExpiryDays !== null &&
+      (!Number.isInteger(maxExpiryDays) || maxExpiryDays < 1)
+    ) {
+      throw new Error("Maximum expiry must be a positive number of days");
+    }
+
+    if (maxExpiryDays !== null && defaultExpiryDays > maxExpiryDays) {
+      throw new Error("Default expiry cannot exceed the maximum expiry");
+    }
+
+    if (
+      maxPendingInvitations !== null &&
+      (!Number.isInteger(maxPendingInvitations) || maxPendingInvitations < 0)
+    ) {
+      throw new Error("Pending invitation limit cannot be negative");
+    }
+
+    for (const roles of Object.values(settings.grantableRoles)) {
+      if (
+        !Array.isArray(roles) ||
+        roles.some(role => !INVITABLE_ROLES.includes(role))
+      ) {
+        throw new Error(
+          "Invitations can only grant the manager or member role"
+        );
+      }
+    }
+  }
+
+  /**
+   * Expiry of a new or renewed invitation under the entity's settings.
+   * @throws InvitationPolicyError if it exceeds the entity's maximum
+   */
+  private resolveExpiry(
+    settings: InvitationSettings,
+    expiresInDays?: number
+  ): Date {
+    const days = expiresInDays ?? settings.defaultExpiryDays;
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error("Expiry must be a positive number of days");
+    }
+
+    if (settings.maxExpiryDays !== null && days > settings.maxExpiryDays) {
+      throw new InvitationPolicyError(
+        `Invitations cannot be valid for more than ${settings.maxExpiryDays} days`,
+        InvitationPolicyErrorCode.EXPIRY_TOO_LONG
+      );
+    }
+
+    return new Date(calculateInvitationExpiry(days));
+  }
+
+  /**
+   * End of the membership new invitations grant (null: never).
+   */
+  private resolveMembershipExpiry(
+    options?: InvitationExpiryOptions
+  ): Date | null {
+    return options?.membershipExpiresAt
+      ? parseMembershipExpiry(options.membershipExpiresAt)
+      : null;
+  }
+
+  /**
+   * Roles a user may grant under the entity's settings. Roles the settings
+   * do not list may grant the invitable roles ranked at or below their own;
+   * users with no role in the entity may grant none.
+   */
+  private async getGrantableRoles(
+    settings: InvitationSettings,
+    userId: string,
+    tx: EntityTransaction
+  ): Promise<string[]> {
+    const role = await this.permissionHelper.getUserRole(
+      settings.entityId,
+      userId,
+      { tx }
+    );
+    if (!role) {
+      return [];
+    }
+
+    const listed = settings.grantableRoles[role];
+    if (listed) {
+      return listed;
+    }
+
+    const rank = await this.permissionHelper.getRoleRank(
+      settings.entityId,
+      role,
+      { tx }
+    );
+    return INVITABLE_ROLES.filter(
+      invitable => BUILT_IN_ROLE_RANKS[invitable as EntityRole] <= rank
+    );
+  }
+
+  /**
+   * Refuse a role the user may not grant under the entity's settings.
+   * @throws InvitationPolicyError
+   */
+  private async requireGrantableRole(
+    settings: InvitationSettings,
+    userId: string,
+    role: string,
+    tx: EntityTransaction
+  ): Promise<void> {
+    if (!(await this.getGrantableRoles(settings, userId, tx)).includes(role)) {
+      throw new InvitationPolicyError(
+        `Your role cannot invite ${role}s`,
+        InvitationPolicyErrorCode.ROLE_NOT_ALLOWED
+      );
+    }
+  }
+
+  /**
+   * Number of pending invitations of an entity.
+   */
+  private async countPendingInvitations(
+    entityId: string,
+    tx: EntityTransaction
+  ): Promise<number> {
+    const [{ count }] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(this.config.invitationsTable)
+      .where(
+        and(
+          eq(this.config.invitationsTable.entity_id, entityId),
+          eq(this.config.invitationsTable.status, InvitationStatus.PENDING)
+        )
+      );
+    return count;
+  }
+
+  /**
+   * Get the invite links table or fail if invite links are not enabled.
+   */
+  private requireInviteLinksTable(): any {
+    if (!this.config.inviteLinksTable) {
+      throw new Error("Invite links table is not configured");
+    }
+    return this.config.inviteLinksTable;
+  }
+
+  /**
+   * Check that the accepting user satisfies the acceptance policy.
+   * @throws InvitationAcceptanceError naming the failed check
+   */
+  private async checkAcceptancePolicy(
+    invitation: EntityInvitation,
+    firebaseUid: string,
+    options?: AcceptInvitationOptions
+  ): Promise<void> {
+    // An invitation of a user ID names the user exactly, whatever their email
+    if (invitation.invitedUserId) {
+      if (invitation.invitedUserId !== firebaseUid) {
+        throw new InvitationAcceptanceError(
+          "This invitation is for another user",
+          InvitationAcceptanceErrorCode.USER_MISMATCH
+        );
+      }
+      return;
+    }
+
+    const policy =
+      this.config.invitationAcceptancePolicy ?? InvitationAcceptancePolicy.OPEN;
+    if (policy === InvitationAcceptancePolicy.OPEN) {
+      return;
+    }
+
+    const email = await this.getUserEmail(firebaseUid, options);
+    if (!email) {
+      throw new InvitationAcceptanceError(
+        "Your account has no email address",
+        InvitationAcceptanceErrorCode.EMAIL_MISSING
+      );
+    }
+
+    const invitedEmail = normalizeEmail(invitation.email);
+    if (policy === InvitationAcceptancePolicy.DOMAIN) {
+      if (getEmailDomain(email) !== getEmailDomain(invitedEmail)) {
+        throw new InvitationAcceptanceError(
+          `This invitation is for an email address at ${getEmailDomain(invitedEmail)}`,
+          InvitationAcceptanceErrorCode.DOMAIN_MISMATCH
+        );
+      }
+      return;
+    }
+
+    if (email !== invitedEmail) {
+      throw new InvitationAcceptanceError(
+        "This invitation was sent to a different email address",
+        InvitationAcceptanceErrorCode.EMAIL_MISMATCH
+      );
+    }
+
+    if (
+      policy === InvitationAcceptancePolicy.VERIFIED_EMAIL &&
+      !options?.emailVerified
+    ) {
+      throw new InvitationAcceptanceError(
+        "Verify your email address to accept this invitation",
+        InvitationAcceptanceErrorCode.EMAIL_NOT_VERIFIED
+      );
+    }
+  }
+
+  /**
+   * Check that the caller is the invitee of an invitation answered by ID.
+   * @throws InvitationAcceptanceError if it is for someone else
+   */
+  private async requireInvitee(
+    invitation: EntityInvitation,
+    firebaseUid: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    if (invitation.invitedUserId) {
+      if (invitation.invitedUserId !== firebaseUid) {
+        throw new InvitationAcceptanceError(
+          "This invitation is for another user",
+          InvitationAcceptanceErrorCode.USER_MISMATCH
+        );
+      }
+      return;
+    }
+
+    const email = await this.getUserEmail(firebaseUid, options);
+    if (!email) {
+      throw new InvitationAcceptanceError(
+        "Your account has no email address",
+        InvitationAcceptanceErrorCode.EMAIL_MISSING
+      );
+    }
+
+    if (email !== normalizeEmail(invitation.email)) {
+      throw new InvitationAcceptanceError(
+        "This invitation was sent to a different email address",
+        InvitationAcceptanceErrorCode.EMAIL_MISMATCH
+      );
+    }
+  }
+
+  /**
+   * A user's email, trimmed and lowercased; undefined if they have none.
+   */
+  private async getUserEmail(
+    firebaseUid: string,
+    options?: EntityOperationOptions
+  ): Promise<string | undefined> {
+    const db = options?.tx ?? this.config.db;
+    const [user] = await db
+      .select({ email: this.config.usersTable.email })
+      .from(this.config.usersTable)
+      .where(eq(this.config.usersTable.firebase_uid, firebaseUid))
+      .limit(1);
+
+    return user?.email ? normalizeEmail(user.email) || undefined : undefined;
+  }
+
+  /**
+   * Issue a new token for an invitation, mark it reminded and send the
+   * reminder with the new token. Every replaced token is kept in
+   * `previous_token_hashes`, so all links sent before keep working.
+   * Invitations of a user ID stay without a token. With `onlyOnce`, an
+   * invitation already reminded (e.g. by a concurrent run) is skipped.
+   * The change and the send share a transaction (a savepoint inside the
+   * caller's), so a failed send leaves the invitation untouched.
+   * @returns Whether the reminder was sent
+   */
+  private async sendReminder(
+    notifier: InvitationNotifier,
+    invitation: EntityInvitation,
+    onlyOnce: boolean,
+    options?: InvitationMaintenanceOptions
+  ): Promise<boolean> {
+    const token = invitation.invitedUserId ? null : generateInvitationToken();
+    const now = options?.now ?? new Date();
+    const db = options?.tx ?? this.config.db;
+
+    return db.transaction(async tx => {
+      const [stored] = token
+        ? await tx
+            .select({
+              token: this.config.invitationsTable.token,
+              tokenHash: this.config.invitationsTable.token_hash,
+            })
+            .from(this.config.invitationsTable)
+            .where(eq(this.config.invitationsTable.id, invitation.id))
+            .limit(1)
+        : [];
+      // Legacy rows still hold their token in plaintext
+      const currentTokenHash =
+        stored?.tokenHash ??
+        (stored?.token ? await this.hashToken(stored.token) : null);
+
+      const [record] = await tx
+        .update(this.config.invitationsTable)
+        .set({
+          ...(token
+            ? {
+                token: null,
+                token_hash: await this.hashToken(token),
+                ...(currentTokenHash
+                  ? {
+                      previous_token_hashes: sql`${this.config.invitationsTable.previous_token_hashes} || ${JSON.stringify([currentTokenHash])}::jsonb`,
+                    }
+                  : {}),
+              }
+            : {}),
+          reminded_at: now,
+          updated_at: now,
+        })
+        .where(
+          and(
+            eq(this.config.invitationsTable.id, invitation.id),
+            onlyOnce
+              ? isNull(this.config.invitationsTable.reminded_at)
+              : undefined
+          )
+        )
+        .returning();
+
+      if (!record) {
+        return false;
+      }
+
+      await notifier.notify(
+        await this.buildNotification(
+          InvitationNotificationType.REMINDER,
+          token
+            ? { ...this.mapRecordToInvitation(record), token }
+            : this.mapRecordToInvitation(record),
+          { ...options, tx }
+        )
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Hash an invitation or invite link token with the configured secret.
+   */
+  private hashToken(token: string): Promise<string> {
+    return hashInvitationToken(token, this.config.invitationTokenSecret);
+  }
+
+  /**
+   * Send an invitation notification if a notifier is configured.
+   * Runs after the change; failures are logged and never undo it.
+   */
+  private async notify(
+    type: InvitationNotificationType,
+    invitation: EntityInvitation | CreatedInvitation,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    if (!this.config.invitationNotifier) {
+      return;
+    }
+
+    try {
+      await this.config.invitationNotifier.notify(
+        await this.buildNotification(type, invitation, options)
+      );
+    } catch (error) {
+      console.error(
+        `Invitation ${type} notification for ${invitation.id} failed:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Load the entity and inviter details a notification is rendered with.
+   * The token is only known right after it is generated, so only a
+   * CreatedInvitation yields a notification with an accept link.
+   */
+  private async buildNotification(
+    type: InvitationNotificationType,
+    invitation: EntityInvitation | CreatedInvitation,
+    options?: EntityOperationOptions
+  ): Promise<InvitationNotification> {
+    const db = options?.tx ?? this.config.db;
+    const [entity] = await db
+      .select({
+        id: this.config.entitiesTable.id,
+        entitySlug: this.config.entitiesTable.entity_slug,
+        displayName: this.config.entitiesTable.display_name,
+      })
+      .from(this.config.entitiesTable)
+      .where(eq(this.config.entitiesTable.id, invitation.entityId))
+      .limit(1);
+
+    if (!entity) {
+      throw new Error("Entity not found");
+    }
+
+    const [inviter] = await db
+      .select({
+        userId: this.config.usersTable.firebase_uid,
+        email: this.config.usersTable.email,
+        displayName: this.config.usersTable.display_name,
+      })
+      .from(this.config.usersTable)
+      .where(
+        eq(this.config.usersTable.firebase_uid, invitation.invitedByUserId)
+      )
+      .limit(1);
+
+    const { token = null, ...rest } = invitation as CreatedInvitation;
+    return {
+      type,
+      invitation: rest,
+      token,
+      entity,
+      inviter: inviter
+        ? {
+            userId: inviter.userId,
+            email: inviter.email ?? null,
+            displayName: inviter.displayName ?? null,
+          }
+        : null,
+    };
   }
 
   /**
@@ -386,10 +2433,73 @@ export class InvitationHelper {
       email: record.email,
       role: record.role as EntityRole,
       status: record.status as InvitationStatus,
+      invitedUserId: record.invited_user_id ?? null,
       invitedByUserId: record.invited_by_user_id,
-      token: record.token,
       expiresAt: record.expires_at?.toISOString() ?? new Date().toISOString(),
       acceptedAt: record.accepted_at?.toISOString() ?? null,
+      remindedAt: record.reminded_at?.toISOString() ?? null,
+      revokedByUserId: record.revoked_by_user_id ?? null,
+      revokedAt: record.revoked_at?.toISOString() ?? null,
+      membershipExpiresAt: record.membership_expires_at?.toISOString() ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+      updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Map a settings record, or its absence, to InvitationSettings.
+   */
+  private mapRecordToInvitationSettings(
+    entityId: string,
+    record: any
+  ): InvitationSettings {
+    return {
+      entityId,
+      defaultExpiryDays: record?.default_expiry_days ?? INVITATION_EXPIRY_DAYS,
+      maxExpiryDays: record?.max_expiry_days ?? null,
+      maxPendingInvitations: record?.max_pending_invitations ?? null,
+      grantableRoles: record?.grantable_roles ?? {},
+      updatedByUserId: record?.updated_by_user_id ?? null,
+      updatedAt: record?.updated_at?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Map an invitation record joined with its entity record.
+   */
+  private mapRecordToInvitationWithEntity(
+    invitation: any,
+    entity: any
+  ): EntityInvitation {
+    return {
+      ...this.mapRecordToInvitation(invitation),
+      entity: {
+        id: entity.id,
+        entitySlug: entity.entity_slug,
+        entityType: entity.entity_type as any,
+        displayName: entity.display_name,
+        description: entity.description,
+        avatarUrl: entity.avatar_url,
+        createdAt: entity.created_at?.toISOString() ?? new Date().toISOString(),
+        updatedAt: entity.updated_at?.toISOString() ?? new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Map database record to InviteLink type.
+   */
+  private mapRecordToInviteLink(record: any): InviteLink {
+    return {
+      id: record.id,
+      entityId: record.entity_id,
+      role: record.role as EntityRole,
+      maxUses: record.max_uses ?? null,
+      useCount: record.use_count ?? 0,
+      allowedEmailDomain: record.allowed_email_domain ?? null,
+      createdByUserId: record.created_by_user_id ?? null,
+      expiresAt: record.expires_at?.toISOString() ?? null,
+      revokedAt: record.revoked_at?.toISOString() ?? null,
       createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
       updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
     };
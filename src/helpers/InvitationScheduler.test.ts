@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Tests for InvitationScheduler
+ */
+
+import { describe, test, expect, vi, afterEach } from "vitest";
+import { InvitationScheduler } from "./InvitationScheduler";
+import { InvitationHelper } from "./InvitationHelper";
+import { EntityMemberHelper } from "./EntityMemberHelper";
+
+const now = new Date("2026-01-10T00:00:00.000Z");
+
+function createMockConfig() {
+  return {
+    db: {},
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: {},
+    invitationsTable: {},
+    invitationTokenSecret: "token-secret",
+    invitationNotifier: { notify: vi.fn() },
+  };
+}
+
+function spyOnSteps() {
+  return {
+    expire: vi
+      .spyOn(InvitationHelper.prototype, "expireOldInvitations")
+      .mockResolvedValue(3),
+    remind: vi
+      .spyOn(InvitationHelper.prototype, "sendDueReminders")
+      .mockResolvedValue(2),
+    purge: vi
+      .spyOn(InvitationHelper.prototype, "purgeClosedInvitations")
+      .mockResolvedValue(1),
+    expireMemberships: vi
+      .spyOn(EntityMemberHelper.prototype, "expireMemberships")
+      .mockResolvedValue(4),
+  };
+}
+
+describe("InvitationScheduler", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  test("runs every step at the given time", async () => {
+    const steps = spyOnSteps();
+    const scheduler = new InvitationScheduler(createMockConfig() as any, {
+      reminderDaysBeforeExpiry: 3,
+    });
+
+    const result = await scheduler.runMaintenance(now);
+
+    expect(result).toEqual({
+      expired: 3,
+      reminded: 2,
+      purged: 1,
+      expiredMemberships: 4,
+    });
+    expect(steps.expire).toHaveBeenCalledWith({ now });
+    expect(steps.remind).toHaveBeenCalledWith(3, { now });
+    expect(steps.purge).toHaveBeenCalledWith(90, { now });
+    expect(steps.expireMemberships).toHaveBeenCalledWith({ now });
+  });
+
+  test("skips disabled steps and reminders without a notifier", async () => {
+    const steps = spyOnSteps();
+    const { invitationNotifier: _, ...config } = createMockConfig();
+    const scheduler = new InvitationScheduler(config as any, {
+      retentionDays: null,
+    });
+
+    const result = await scheduler.runMaintenance(now);
+
+    expect(result).toEqual({
+      expired: 3,
+      reminded: 0,
+      purged: 0,
+      expiredMemberships: 4,
+    });
+    expect(steps.remind).not.toHaveBeenCalled();
+    expect(steps.purge).not.toHaveBeenCalled();
+  });
+
+  test("timer runs do not overlap and stop ends them", async () => {
+    vi.useFakeTimers();
+    const steps = spyOnSteps();
+    let finish: (value: number) => void = () => {};
+    steps.expire.mockImplementation(
+      () => new Promise<number>(resolve => (finish = resolve))
+    );
+    const scheduler = new InvitationScheduler(createMockConfig() as any, {
+      intervalMs: 1000,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(steps.expire).toHaveBeenCalledTimes(1);
+
+    finish(0);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(steps.expire).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(steps.expire).toHaveBeenCalledTimes(2);
+  });
+});
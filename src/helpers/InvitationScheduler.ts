@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Entity Invitation Scheduler Class
+ * @description Periodic invitation expiry, reminders and cleanup, and
+ * membership expiry
+ */
+
+import {
+  type InvitationHelperConfig,
+  type InvitationMaintenanceResult,
+  type InvitationSchedulerOptions,
+} from "../types";
+import { EntityMemberHelper } from "./EntityMemberHelper";
+import { InvitationHelper } from "./InvitationHelper";
+
+/** Default number of days before expiry a reminder is sent */
+const DEFAULT_REMINDER_DAYS_BEFORE_EXPIRY = 2;
+
+/** Default number of days declined and expired invitations are kept */
+const DEFAULT_RETENTION_DAYS = 90;
+
+/** Default interval between runs started by start() */
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Runs invitation maintenance: expires pending invitations past their expiry,
+ * reminds invitees shortly before expiry and deletes long-closed invitations.
+ * It also deactivates memberships past their expiry. Either call
+ * `runMaintenance` from an existing job runner or let `start` run it on an
+ * interval timer. Reminders are skipped without an `invitationNotifier` in
+ * the config.
+ */
+export class InvitationScheduler {
+  private readonly invitationHelper: InvitationHelper;
+  private readonly memberHelper: EntityMemberHelper;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly config: InvitationHelperConfig,
+    private readonly options: InvitationSchedulerOptions = {}
+  ) {
+    this.invitationHelper = new InvitationHelper(config);
+    this.memberHelper = new EntityMemberHelper(config);
+  }
+
+  /**
+   * Run every maintenance step once.
+   * Expiry runs first, so invitations expiring by `now` are not reminded.
+   * @param now - Time the run is evaluated at (default: the current time)
+   */
+  async runMaintenance(
+    now: Date = new Date()
+  ): Promise<InvitationMaintenanceResult> {
+    const reminderDays =
+      this.options.reminderDaysBeforeExpiry === undefined
+        ? DEFAULT_REMINDER_DAYS_BEFORE_EXPIRY
+        : this.options.reminderDaysBeforeExpiry;
+    const retentionDays =
+      this.options.retentionDays === undefined
+        ? DEFAULT_RETENTION_DAYS
+        : this.options.retentionDays;
+
+    const expired = await this.invitationHelper.expireOldInvitations({ now });
+    const reminded =
+      reminderDays !== null && this.config.invitationNotifier
+        ? await this.invitationHelper.sendDueReminders(reminderDays, { now })
+        : 0;
+    const purged =
+      retentionDays !== null
+        ? await this.invitationHelper.purgeClosedInvitations(retentionDays, {
+            now,
+          })
+        : 0;
+    const expiredMemberships = await this.memberHelper.expireMemberships({
+      now,
+    });
+
+    return { expired, reminded, purged, expiredMemberships };
+  }
+
+  /**
+   * Run maintenance now and then every `intervalMs`.
+   * A run still in progress when the next one is due is not overlapped, and
+   * failures are logged. The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(
+      () => void this.tick(),
+      this.options.intervalMs ?? DEFAULT_INTERVAL_MS
+    );
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  /**
+   * Stop the interval timer. A run in progress is allowed to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One timer-driven run.
+   */
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runMaintenance();
+    } catch (error) {
+      console.error("Invitation maintenance failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
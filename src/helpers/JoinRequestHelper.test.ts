@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Tests for JoinRequestHelper
+ */
+
+import { describe, test, expect, vi, afterEach } from "vitest";
+import { JoinRequestHelper } from "./JoinRequestHelper";
+import { EntityHelper } from "./EntityHelper";
+import { PermissionHelper } from "./PermissionHelper";
+import { RoleHelper } from "./RoleHelper";
+import { EntityRole, EntityType, JoinRequestStatus } from "../types";
+
+const pendingRecord = {
+  id: "request-uuid-1",
+  entity_id: "entity-uuid-123",
+  user_id: "requester-uid",
+  message: "Hi, I'm on the design team",
+  status: "pending",
+  reviewed_by_user_id: null,
+  reviewed_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+function createMockConfig() {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.limit = vi.fn().mockResolvedValue([pendingRecord]);
+  chain.update = vi.fn().mockReturnValue(chain);
+  chain.set = vi.fn().mockReturnValue(chain);
+  chain.returning = vi
+    .fn()
+    .mockResolvedValue([{ ...pendingRecord, status: "denied" }]);
+  chain.transaction = vi.fn().mockImplementation(async (fn: any) => fn(chain));
+
+  return {
+    db: chain,
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: {},
+    joinRequestsTable: {
+      id: "id",
+      entity_id: "entity_id",
+      user_id: "user_id",
+      status: "status",
+    },
+  };
+}
+
+describe("JoinRequestHelper", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("personal entities do not accept join requests", async () => {
+    vi.spyOn(EntityHelper.prototype, "getEntityBySlug").mockResolvedValue({
+      id: "entity-uuid-123",
+      entityType: EntityType.PERSONAL,
+    } as any);
+    const helper = new JoinRequestHelper(createMockConfig() as any);
+
+    await expect(
+      helper.requestToJoin("someone", "requester-uid")
+    ).rejects.toThrow("Only organizations accept join requests");
+  });
+
+  test("reviewers need canManageMembers", async () => {
+    vi.spyOn(PermissionHelper.prototype, "canManageMembers").mockResolvedValue(
+      false
+    );
+    const config = createMockConfig();
+    const helper = new JoinRequestHelper(config as any);
+
+    await expect(
+      helper.approveJoinRequest(pendingRecord.id, "member-uid")
+    ).rejects.toThrow("Insufficient permissions to review join requests");
+    await expect(
+      helper.denyJoinRequest(pendingRecord.id, "member-uid")
+    ).rejects.toThrow("Insufficient permissions to review join requests");
+    expect(config.db.update).not.toHaveBeenCalled();
+  });
+
+  test("denying records the reviewer", async () => {
+    vi.spyOn(PermissionHelper.prototype, "canManageMembers").mockResolvedValue(
+      true
+    );
+    const config = createMockConfig();
+    const helper = new JoinRequestHelper(config as any);
+
+    const denied = await helper.denyJoinRequest(pendingRecord.id, "owner-uid");
+
+    expect(denied.status).toBe(JoinRequestStatus.DENIED);
+    expect(config.db.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: JoinRequestStatus.DENIED,
+        reviewed_by_user_id: "owner-uid",
+      })
+    );
+  });
+
+  test("approval cannot grant the owner role", async () => {
+    const config = createMockConfig();
+    const helper = new JoinRequestHelper(config as any);
+
+    await expect(
+      helper.approveJoinRequest(pendingRecord.id, "owner-uid", EntityRole.OWNER)
+    ).rejects.toThrow("Cannot grant the owner role");
+    expect(config.db.select).not.toHaveBeenCalled();
+  });
+
+  describe("granted roles", () => {
+    function mockReviewer(ranks: Record<string, number>) {
+      vi.spyOn(
+        PermissionHelper.prototype,
+        "canManageMembers"
+      ).mockResolvedValue(true);
+      vi.spyOn(PermissionHelper.prototype, "getUserRole").mockResolvedValue(
+        EntityRole.MANAGER
+      );
+      vi.spyOn(RoleHelper.prototype, "getRoleRank").mockImplementation(
+        async (_entityId, role) => ranks[role] ?? null
+      );
+    }
+
+    test("reviewers cannot grant a role ranked above their own", async () => {
+      mockReviewer({ manager: 50, auditor: 60 });
+      const config = createMockConfig();
+      const helper = new JoinRequestHelper(config as any);
+
+      await expect(
+        helper.approveJoinRequest(pendingRecord.id, "manager-uid", "auditor")
+      ).rejects.toThrow("Cannot grant a role ranked above your own");
+      expect(config.db.update).not.toHaveBeenCalled();
+    });
+
+    test("the entity's grantable roles apply to approvals", async () => {
+      mockReviewer({ manager: 50, member: 10 });
+      const config = {
+        ...createMockConfig(),
+        invitationSettingsTable: { entity_id: "entity_id" },
+      };
+      config.db.limit
+        .mockResolvedValueOnce([pendingRecord])
+        .mockResolvedValueOnce([{ grantableRoles: { manager: [] } }]);
+      const helper = new JoinRequestHelper(config as any);
+
+      await expect(
+        helper.approveJoinRequest(pendingRecord.id, "manager-uid")
+      ).rejects.toThrow("Your role cannot grant the member role");
+      expect(config.db.update).not.toHaveBeenCalled();
+    });
+  });
+});
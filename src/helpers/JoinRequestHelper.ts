@@ -0,0 +1,603 @@
+/**
+ * @fileoverview Join Request Helper Class
+ * @description Requests of users to join organizations and their review
+ */
+
+import { eq, and, desc } from "drizzle-orm";
+import {
+  AuditAction,
+  AuditTargetType,
+  EntityRole,
+  EntityType,
+  JoinRequestStatus,
+  type EntityHelperConfig,
+  type EntityMember,
+  type EntityOperationOptions,
+  type EntityRoleKey,
+  type EntityTransaction,
+  type JoinRequest,
+  type ListJoinRequestsOptions,
+} from "../types";
+import { runInTransaction, runBeforeHook, runAfterHook } from "../utils";
+import { AuditHelper } from "./AuditHelper";
+import { EntityHelper } from "./EntityHelper";
+import { EntityMemberHelper } from "./EntityMemberHelper";
+import { PermissionHelper } from "./PermissionHelper";
+import { RoleHelper } from "./RoleHelper";
+
+/** Maximum length of the note attached to a join request */
+const MAX_JOIN_REQUEST_MESSAGE_LENGTH = 1000;
+
+/**
+ * Helper class for requests to join organizations.
+ * Users ask to join; members with `canManageMembers` approve or deny.
+ * Requires `joinRequestsTable` in the config.
+ */
+export class JoinRequestHelper {
+  private readonly entityHelper: EntityHelper;
+  private readonly memberHelper: EntityMemberHelper;
+  private readonly permissionHelper: PermissionHelper;
+  private readonly roleHelper: RoleHelper;
+  private readonly auditHelper: AuditHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.entityHelper = new EntityHelper(config);
+    this.memberHelper = new EntityMemberHelper(config);
+    this.permissionHelper = new PermissionHelper(config);
+    this.roleHelper = new RoleHelper(config);
+    this.auditHelper = new AuditHelper(config);
+  }
+
+  /**
+   * Ask to join an organization.
+   * @param entitySlug - Slug of the organization
+   * @param userId - The requesting user (firebase_uid)
+   * @param message - Optional note to the reviewers
+   * @param options - Optional caller-supplied transaction
+   */
+  async requestToJoin(
+    entitySlug: string,
+    userId: string,
+    message?: string | null,
+    options?: EntityOperationOptions
+  ): Promise<JoinRequest> {
+    const joinRequestsTable = this.requireJoinRequestsTable();
+    const note = message?.trim() || null;
+    if (note && note.length > MAX_JOIN_REQUEST_MESSAGE_LENGTH) {
+      throw new Error(
+        `Join request message cannot exceed ${MAX_JOIN_REQUEST_MESSAGE_LENGTH} characters`
+      );
+    }
+
+    const entity = await this.entityHelper.getEntityBySlug(entitySlug, options);
+    if (!entity) {
+      throw new Error("Entity not found");
+    }
+
+    if (entity.entityType !== EntityType.ORGANIZATION) {
+      throw new Error("Only organizations accept join requests");
+    }
+
+    const actorUserId = options?.actorUserId ?? userId;
+    const joinRequest = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const member = await this.memberHelper.getMember(
+          entity.id,
+          userId,
+          false,
+          { tx }
+        );
+        if (member) {
+          throw new Error("User is already a member of this entity");
+        }
+
+        const pending = await tx
+          .select({ id: joinRequestsTable.id })
+          .from(joinRequestsTable)
+          .where(
+            and(
+              eq(joinRequestsTable.entity_id, entity.id),
+              eq(joinRequestsTable.user_id, userId),
+              eq(joinRequestsTable.status, JoinRequestStatus.PENDING)
+            )
+          )
+          .limit(1);
+
+        if (pending.length > 0) {
+          throw new Error("A join request is already pending");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeJoinRequestCreate", {
+          entity,
+          userId,
+          message: note,
+          actorUserId,
+          tx,
+        });
+
+        const [record] = await tx
+          .insert(joinRequestsTable)
+          .values({
+            entity_id: entity.id,
+            user_id: userId,
+            message: note,
+          })
+          .returning();
+
+        const created = this.mapRecordToJoinRequest(record);
+        await this.auditHelper.recordEvent(
+          {
+            entityId: entity.id,
+            actorUserId,
+            action: AuditAction.JOIN_REQUEST_CREATED,
+            targetType: AuditTargetType.JOIN_REQUEST,
+            targetId: created.id,
+            after: { userId, message: note },
+          },
+          { tx }
+        );
+
+        return created;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterJoinRequestCreate", {
+      joinRequest,
+      actorUserId,
+    });
+
+    return joinRequest;
+  }
+
+  /**
+   * List the join requests of an organization, newest first.
+   * @param entityId - The organization
+   * @param reviewerUserId - The member listing them (needs canManageMembers)
+   * @param options - Status filter (default: pending) and transaction
+   */
+  async listJoinRequests(
+    entityId: string,
+    reviewerUserId: string,
+    options?: ListJoinRequestsOptions
+  ): Promise<JoinRequest[]> {
+    const joinRequestsTable = this.requireJoinRequestsTable();
+    await this.requireReviewer(entityId, reviewerUserId);
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select({
+        joinRequest: joinRequestsTable,
+        user: {
+          id: this.config.usersTable.firebase_uid,
+          email: this.config.usersTable.email,
+          displayName: this.config.usersTable.display_name,
+        },
+      })
+      .from(joinRequestsTable)
+      .leftJoin(
+        this.config.usersTable,
+        eq(joinRequestsTable.user_id, this.config.usersTable.firebase_uid)
+      )
+      .where(
+        and(
+          eq(joinRequestsTable.entity_id, entityId),
+          eq(
+            joinRequestsTable.status,
+            options?.status ?? JoinRequestStatus.PENDING
+          )
+        )
+      )
+      .orderBy(desc(joinRequestsTable.created_at));
+
+    return results.map(({ joinRequest, user }: any) =>
+      this.mapRecordToJoinRequest(joinRequest, user)
+    );
+  }
+
+  /**
+   * List a user's own join requests, newest first.
+   */
+  async getUserJoinRequests(
+    userId: string,
+    options?: ListJoinRequestsOptions
+  ): Promise<JoinRequest[]> {
+    const joinRequestsTable = this.requireJoinRequestsTable();
+    const conditions = [eq(joinRequestsTable.user_id, userId)];
+    if (options?.status) {
+      conditions.push(eq(joinRequestsTable.status, options.status));
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(joinRequestsTable)
+      .where(and(...conditions))
+      .orderBy(desc(joinRequestsTable.created_at));
+
+    return results.map((record: any) => this.mapRecordToJoinRequest(record));
+  }
+
+  /**
+   * Get a join request by ID.
+   */
+  async getJoinRequest(
+    requestId: string,
+    options?: EntityOperationOptions
+  ): Promise<JoinRequest | null> {
+    const joinRequestsTable = this.requireJoinRequestsTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(joinRequestsTable)
+      .where(eq(joinRequestsTable.id, requestId))
+      .limit(1);
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordToJoinRequest(results[0]);
+  }
+
+  /**
+   * Approve a join request, adding the user through EntityMemberHelper.addMember.
+   * The reviewer cannot grant a role ranked above their own, nor one the
+   * entity's invitation settings do not let their role invite.
+   * @param requestId - The request
+   * @param reviewerUserId - The member approving it (needs canManageMembers)
+   * @param role - Role of the new member (default: member; not owner)
+   * @param options - Optional caller-supplied transaction
+   * @returns The new membership
+   */
+  async approveJoinRequest(
+    requestId: string,
+    reviewerUserId: string,
+    role: EntityRoleKey = EntityRole.MEMBER,
+    options?: EntityOperationOptions
+  ): Promise<EntityMember> {
+    if (role === EntityRole.OWNER) {
+      throw new Error("Cannot grant the owner role through a join request");
+    }
+
+    const request = await this.getPendingRequest(requestId, options);
+    await this.requireReviewer(request.entityId, reviewerUserId);
+    await this.requireGrantableRole(
+      request.entityId,
+      reviewerUserId,
+      role,
+      options
+    );
+
+    const actorUserId = options?.actorUserId ?? reviewerUserId;
+    const { joinRequest, member } = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        const existing = await this.memberHelper.getMember(
+          request.entityId,
+          request.userId,
+          false,
+          { tx }
+        );
+        if (existing) {
+          throw new Error("User is already a member of this entity");
+        }
+
+        await runBeforeHook(this.config.hooks, "beforeJoinRequestApprove", {
+          joinRequest: request,
+          role,
+          actorUserId,
+          tx,
+        });
+
+        const joinRequest = await this.closeRequest(
+          tx,
+          request,
+          JoinRequestStatus.APPROVED,
+          reviewerUserId
+        );
+
+        const member = await this.memberHelper.addMember(
+          request.entityId,
+          request.userId,
+          role,
+          { tx, actorUserId }
+        );
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: request.entityId,
+            actorUserId,
+            action: AuditAction.JOIN_REQUEST_APPROVED,
+            targetType: AuditTargetType.JOIN_REQUEST,
+            targetId: requestId,
+            before: { status: request.status },
+            after: { status: joinRequest.status, role },
+          },
+          { tx }
+        );
+
+        return { joinRequest, member };
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterJoinRequestApprove", {
+      joinRequest,
+      member,
+      actorUserId,
+    });
+
+    return member;
+  }
+
+  /**
+   * Deny a join request. The user may ask again later.
+   * @param requestId - The request
+   * @param reviewerUserId - The member denying it (needs canManageMembers)
+   */
+  async denyJoinRequest(
+    requestId: string,
+    reviewerUserId: string,
+    options?: EntityOperationOptions
+  ): Promise<JoinRequest> {
+    const request = await this.getPendingRequest(requestId, options);
+    await this.requireReviewer(request.entityId, reviewerUserId);
+
+    const actorUserId = options?.actorUserId ?? reviewerUserId;
+    const joinRequest = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await runBeforeHook(this.config.hooks, "beforeJoinRequestDeny", {
+          joinRequest: request,
+          actorUserId,
+          tx,
+        });
+
+        const denied = await this.closeRequest(
+          tx,
+          request,
+          JoinRequestStatus.DENIED,
+          reviewerUserId
+        );
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: request.entityId,
+            actorUserId,
+            action: AuditAction.JOIN_REQUEST_DENIED,
+            targetType: AuditTargetType.JOIN_REQUEST,
+            targetId: requestId,
+            before: { status: request.status },
+            after: { status: denied.status },
+          },
+          { tx }
+        );
+
+        return denied;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterJoinRequestDeny", {
+      joinRequest,
+      actorUserId,
+    });
+
+    return joinRequest;
+  }
+
+  /**
+   * Withdraw a pending join request.
+   * @param requestId - The request
+   * @param userId - The user who made it
+   */
+  async cancelJoinRequest(
+    requestId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<JoinRequest> {
+    const request = await this.getPendingRequest(requestId, options);
+    if (request.userId !== userId) {
+      throw new Error("Join request not found");
+    }
+
+    const actorUserId = options?.actorUserId ?? userId;
+    const joinRequest = await runInTransaction(
+      this.config.db,
+      options?.tx,
+      async tx => {
+        await runBeforeHook(this.config.hooks, "beforeJoinRequestCancel", {
+          joinRequest: request,
+          actorUserId,
+          tx,
+        });
+
+        const cancelled = await this.closeRequest(
+          tx,
+          request,
+          JoinRequestStatus.CANCELLED,
+          null
+        );
+
+        await this.auditHelper.recordEvent(
+          {
+            entityId: request.entityId,
+            actorUserId,
+            action: AuditAction.JOIN_REQUEST_CANCELLED,
+            targetType: AuditTargetType.JOIN_REQUEST,
+            targetId: requestId,
+            before: { status: request.status },
+            after: { status: cancelled.status },
+          },
+          { tx }
+        );
+
+        return cancelled;
+      }
+    );
+
+    await runAfterHook(this.config.hooks, "afterJoinRequestCancel", {
+      joinRequest,
+      actorUserId,
+    });
+
+    return joinRequest;
+  }
+
+  /**
+   * Get a join request that is still pending.
+   */
+  private async getPendingRequest(
+    requestId: string,
+    options?: EntityOperationOptions
+  ): Promise<JoinRequest> {
+    const request = await this.getJoinRequest(requestId, options);
+    if (!request) {
+      throw new Error("Join request not found");
+    }
+
+    if (request.status !== JoinRequestStatus.PENDING) {
+      throw new Error("Join request is no longer pending");
+    }
+
+    return request;
+  }
+
+  /**
+   * Move a pending request to its final status.
+   * The status guard makes concurrent reviews fail instead of both applying.
+   */
+  private async closeRequest(
+    tx: EntityTransaction,
+    request: JoinRequest,
+    status: JoinRequestStatus,
+    reviewedByUserId: string | null
+  ): Promise<JoinRequest> {
+    const joinRequestsTable = this.requireJoinRequestsTable();
+    const reviewed = status !== JoinRequestStatus.CANCELLED;
+    const [record] = await tx
+      .update(joinRequestsTable)
+      .set({
+        status,
+        reviewed_by_user_id: reviewedByUserId,
+        reviewed_at: reviewed ? new Date() : null,
+        updated_at: new Date(),
+      })
+      .where(
+        and(
+          eq(joinRequestsTable.id, request.id),
+          eq(joinRequestsTable.status, JoinRequestStatus.PENDING)
+        )
+      )
+      .returning();
+
+    if (!record) {
+      throw new Error("Join request is no longer pending");
+    }
+
+    return this.mapRecordToJoinRequest(record);
+  }
+
+  /**
+   * Check that a user may review the join requests of an entity.
+   */
+  private async requireReviewer(
+    entityId: string,
+    userId: string
+  ): Promise<void> {
+    if (!(await this.permissionHelper.canManageMembers(entityId, userId))) {
+      throw new Error("Insufficient permissions to review join requests");
+    }
+  }
+
+  /**
+   * Ensure a reviewer may grant a role: it may not outrank the reviewer's
+   * own role, and when the entity's invitation settings list the roles the
+   * reviewer's role may invite, it must be one of them.
+   */
+  private async requireGrantableRole(
+    entityId: string,
+    reviewerUserId: string,
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const reviewerRole = await this.permissionHelper.getUserRole(
+      entityId,
+      reviewerUserId,
+      options
+    );
+    const reviewerRank = reviewerRole
+      ? await this.roleHelper.getRoleRank(entityId, reviewerRole, options)
+      : null;
+    const rank = await this.roleHelper.getRoleRank(entityId, role, options);
+    if (rank === null) {
+      throw new Error("Role not found");
+    }
+
+    if (reviewerRank === null || rank > reviewerRank) {
+      throw new Error("Cannot grant a role ranked above your own");
+    }
+
+    const settingsTable = this.config.invitationSettingsTable;
+    if (!settingsTable) {
+      return;
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const [settings] = await db
+      .select({ grantableRoles: settingsTable.grantable_roles })
+      .from(settingsTable)
+      .where(eq(settingsTable.entity_id, entityId))
+      .limit(1);
+    const grantable = settings?.grantableRoles?.[reviewerRole!];
+    if (grantable && !grantable.includes(role)) {
+      throw new Error(`Your role cannot grant the ${role} role`);
+    }
+  }
+
+  /**
+   * Get the join requests table or fail if join requests are not enabled.
+   */
+  private requireJoinRequestsTable(): any {
+    if (!this.config.joinRequestsTable) {
+      throw new Error("Join requests table is not configured");
+    }
+    return this.config.joinRequestsTable;
+  }
+
+  /**
+   * Map database record to JoinRequest type.
+   */
+  private mapRecordToJoinRequest(
+    record: any,
+    user?: {
+      id: string | null;
+      email: string | null;
+      displayName: string | null;
+    } | null
+  ): JoinRequest {
+    const joinRequest: JoinRequest = {
+      id: record.id,
+      entityId: record.entity_id,
+      userId: record.user_id,
+      message: record.message ?? null,
+      status: record.status as JoinRequestStatus,
+      reviewedByUserId: record.reviewed_by_user_id ?? null,
+      reviewedAt: record.reviewed_at?.toISOString() ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+      updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+    };
+
+    if (user?.id) {
+      joinRequest.user = {
+        id: user.id,
+        email: user.email,
+        displayName: user.displayName,
+      };
+    }
+
+    return joinRequest;
+  }
+}
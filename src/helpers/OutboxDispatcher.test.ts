@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Tests for OutboxDispatcher
+ */
+
+import { describe, test, expect, vi } from "vitest";
+import { OutboxDispatcher } from "./OutboxDispatcher";
+import { AuditAction, AuditTargetType, OutboxEventStatus } from "../types";
+import { createHandlerSink } from "../utils";
+
+const event = {
+  idempotencyKey: "key-1",
+  type: AuditAction.MEMBER_ADDED,
+  entityId: "entity-uuid-123",
+  actorUserId: "owner-uid",
+  targetType: AuditTargetType.MEMBER,
+  targetId: "member-uid",
+  before: null,
+  after: { role: "member" },
+  occurredAt: "2026-01-01T00:00:00.000Z",
+};
+
+function createMockConfig(attempts = 1) {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.orderBy = vi.fn().mockReturnValue(chain);
+  chain.limit = vi.fn().mockReturnValue(chain);
+  chain.for = vi.fn().mockResolvedValue([{ id: "outbox-uuid-1" }]);
+  chain.update = vi.fn().mockReturnValue(chain);
+  chain.set = vi.fn().mockReturnValue(chain);
+  chain.returning = vi
+    .fn()
+    .mockResolvedValue([{ id: "outbox-uuid-1", attempts, payload: event }]);
+  chain.then = (resolve: any) => resolve([]);
+  chain.transaction = vi.fn().mockImplementation(async (fn: any) => fn(chain));
+
+  return {
+    db: chain,
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: {},
+    outboxTable: {
+      id: "id",
+      status: "status",
+      attempts: "attempts",
+      next_attempt_at: "next_attempt_at",
+      created_at: "created_at",
+    },
+  };
+}
+
+describe("OutboxDispatcher", () => {
+  test("marks events delivered once every sink accepts them", async () => {
+    const config = createMockConfig();
+    const handler = vi.fn();
+    const dispatcher = new OutboxDispatcher(config as any, {
+      sinks: [createHandlerSink("cache", handler)],
+    });
+
+    const result = await dispatcher.dispatchPending();
+
+    expect(handler).toHaveBeenCalledWith(event);
+    expect(result).toEqual({ delivered: 1, retried: 0, failed: 0 });
+    expect(config.db.set).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: OutboxEventStatus.DELIVERED })
+    );
+  });
+
+  test("schedules a retry with backoff when a sink fails", async () => {
+    const config = createMockConfig(3);
+    const dispatcher = new OutboxDispatcher(config as any, {
+      sinks: [
+        createHandlerSink("email", () => {
+          throw new Error("SMTP unavailable");
+        }),
+      ],
+      retryBaseDelayMs: 1000,
+    });
+
+    const before = Date.now();
+    const result = await dispatcher.dispatchPending();
+
+    expect(result).toEqual({ delivered: 0, retried: 1, failed: 0 });
+    const update = config.db.set.mock.lastCall[0];
+    expect(update.status).toBe(OutboxEventStatus.PENDING);
+    expect(update.last_error).toBe("email: SMTP unavailable");
+    expect(update.next_attempt_at.getTime()).toBeGreaterThanOrEqual(
+      before + 4000
+    );
+  });
+
+  test("gives up after the maximum number of attempts", async () => {
+    const config = createMockConfig(5);
+    const dispatcher = new OutboxDispatcher(config as any, {
+      sinks: [
+        createHandlerSink("email", () => {
+          throw new Error("SMTP unavailable");
+        }),
+      ],
+      maxAttempts: 5,
+    });
+
+    const result = await dispatcher.dispatchPending();
+
+    expect(result).toEqual({ delivered: 0, retried: 0, failed: 1 });
+    expect(config.db.set).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: OutboxEventStatus.FAILED })
+    );
+  });
+});
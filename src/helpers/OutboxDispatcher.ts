@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Entity Outbox Dispatcher Class
+ * @description Delivering queued lifecycle events to sinks with retries
+ */
+
+import { eq, and, asc, inArray, lte, sql } from "drizzle-orm";
+import {
+  OutboxEventStatus,
+  type EntityHelperConfig,
+  type EntityLifecycleEvent,
+  type OutboxDispatchResult,
+  type OutboxDispatcherOptions,
+} from "../types";
+import { calculateRetryDelay } from "../utils";
+
+/** Default number of events claimed per dispatch */
+const DEFAULT_BATCH_SIZE = 50;
+
+/** Default number of attempts before an event is marked failed */
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+/** Default delay before the first retry */
+const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+
+/** Default upper bound for the retry delay */
+const DEFAULT_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** Default time a claimed event stays hidden from other dispatchers */
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Delivers outbox events to sinks.
+ * Delivery is at-least-once: an event is retried until every sink accepts it,
+ * so sinks may see it more than once and should dedupe on `idempotencyKey`.
+ * Requires `outboxTable` in the config.
+ */
+export class OutboxDispatcher {
+  constructor(
+    private readonly config: EntityHelperConfig,
+    private readonly options: OutboxDispatcherOptions
+  ) {}
+
+  /**
+   * Deliver one batch of due events.
+   * Claimed events are leased so concurrent dispatchers skip them; if the
+   * process dies mid-batch they become due again when the lease runs out.
+   * Should be called periodically (e.g., by a cron job or a polling loop).
+   */
+  async dispatchPending(): Promise<OutboxDispatchResult> {
+    const outboxTable = this.requireOutboxTable();
+    const result: OutboxDispatchResult = {
+      delivered: 0,
+      retried: 0,
+      failed: 0,
+    };
+    const claimed = await this.claimDueEvents(outboxTable);
+
+    for (const record of claimed) {
+      const error = await this.deliver(record.payload as EntityLifecycleEvent);
+      const now = new Date();
+
+      if (!error) {
+        await this.config.db
+          .update(outboxTable)
+          .set({
+            status: OutboxEventStatus.DELIVERED,
+            delivered_at: now,
+            last_error: null,
+            updated_at: now,
+          })
+          .where(eq(outboxTable.id, record.id));
+        result.delivered++;
+        continue;
+      }
+
+      const exhausted =
+        record.attempts >= (this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+      const delayMs = calculateRetryDelay(
+        record.attempts,
+        this.options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+        this.options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS
+      );
+
+      await this.config.db
+        .update(outboxTable)
+        .set({
+          status: exhausted
+            ? OutboxEventStatus.FAILED
+            : OutboxEventStatus.PENDING,
+          next_attempt_at: new Date(now.getTime() + delayMs),
+          last_error: error,
+          updated_at: now,
+        })
+        .where(eq(outboxTable.id, record.id));
+
+      if (exhausted) {
+        result.failed++;
+      } else {
+        result.retried++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Lease a batch of due events, oldest first, and count the attempt.
+   */
+  private async claimDueEvents(outboxTable: any): Promise<any[]> {
+    const now = new Date();
+
+    return this.config.db.transaction(async tx => {
+      const due = await tx
+        .select({ id: outboxTable.id })
+        .from(outboxTable)
+        .where(
+          and(
+            eq(outboxTable.status, OutboxEventStatus.PENDING),
+            lte(outboxTable.next_attempt_at, now)
+          )
+        )
+        .orderBy(asc(outboxTable.created_at))
+        .limit(this.options.batchSize ?? DEFAULT_BATCH_SIZE)
+        .for("update", { skipLocked: true });
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      return tx
+        .update(outboxTable)
+        .set({
+          attempts: sql`${outboxTable.attempts} + 1`,
+          next_attempt_at: new Date(
+            now.getTime() + (this.options.leaseMs ?? DEFAULT_LEASE_MS)
+          ),
+          updated_at: now,
+        })
+        .where(
+          inArray(
+            outboxTable.id,
+            due.map(({ id }: { id: string }) => id)
+          )
+        )
+        .returning();
+    });
+  }
+
+  /**
+   * Deliver an event to every sink.
+   * @returns The error message of the first failing sink, or null on success
+   */
+  private async deliver(event: EntityLifecycleEvent): Promise<string | null> {
+    for (const sink of this.options.sinks) {
+      try {
+        await sink.deliver(event);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return `${sink.name}: ${message}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the outbox table or fail if the outbox is not enabled.
+   */
+  private requireOutboxTable(): any {
+    if (!this.config.outboxTable) {
+      throw new Error("Outbox table is not configured");
+    }
+    return this.config.outboxTable;
+  }
+}
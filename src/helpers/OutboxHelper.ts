@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Entity Outbox Helper Class
+ * @description Queuing lifecycle events in the transactional outbox
+ */
+
+import { eq } from "drizzle-orm";
+import {
+  OutboxEventStatus,
+  type EntityHelperConfig,
+  type EntityLifecycleEvent,
+  type EntityOperationOptions,
+  type RecordAuditEventRequest,
+} from "../types";
+
+/**
+ * Helper class for the transactional outbox.
+ * Queuing is a no-op unless `outboxTable` is in the config.
+ * Events are delivered by OutboxDispatcher.
+ */
+export class OutboxHelper {
+  constructor(private readonly config: EntityHelperConfig) {}
+
+  /**
+   * Check if the outbox is enabled.
+   */
+  isEnabled(): boolean {
+    return Boolean(this.config.outboxTable);
+  }
+
+  /**
+   * Queue lifecycle events for delivery.
+   * Pass the transaction of the change so the events only exist if it commits.
+   */
+  async enqueueEvents(
+    events: RecordAuditEventRequest[],
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    if (!this.config.outboxTable || events.length === 0) {
+      return;
+    }
+
+    const occurredAt = new Date().toISOString();
+    const db = options?.tx ?? this.config.db;
+    await db.insert(this.config.outboxTable).values(
+      events.map(event => {
+        const payload: EntityLifecycleEvent = {
+          idempotencyKey: crypto.randomUUID(),
+          type: event.action,
+          entityId: event.entityId,
+          actorUserId: event.actorUserId ?? null,
+          targetType: event.targetType,
+          targetId: event.targetId ?? null,
+          before: event.before ?? null,
+          after: event.after ?? null,
+          occurredAt,
+        };
+        return {
+          idempotency_key: payload.idempotencyKey,
+          entity_id: event.entityId,
+          event_type: event.action,
+          payload,
+        };
+      })
+    );
+  }
+
+  /**
+   * Put events that exhausted their attempts back in the queue.
+   * @returns Number of requeued events
+   */
+  async retryFailedEvents(options?: EntityOperationOptions): Promise<number> {
+    const outboxTable = this.requireOutboxTable();
+    const db = options?.tx ?? this.config.db;
+    const result = await db
+      .update(outboxTable)
+      .set({
+        status: OutboxEventStatus.PENDING,
+        attempts: 0,
+        next_attempt_at: new Date(),
+        updated_at: new Date(),
+      })
+      .where(eq(outboxTable.status, OutboxEventStatus.FAILED))
+      .returning({ id: outboxTable.id });
+
+    return result.length;
+  }
+
+  /**
+   * Get the outbox table or fail if the outbox is not enabled.
+   */
+  private requireOutboxTable(): any {
+    if (!this.config.outboxTable) {
+      throw new Error("Outbox table is not configured");
+    }
+    return this.config.outboxTable;
+  }
+}
@@ -3,37 +3,89 @@
  * @description Permission checking for entity operations
  */
 
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import {
   EntityRole,
   EntityType,
+  BUILT_IN_ROLE_RANKS,
   getPermissionsForRole as getPermissionsForRoleFromTypes,
   type EntityPermissions,
   type EntityHelperConfig,
+  type EntityOperationOptions,
+  type EntityRoleKey,
+  type PermissionOverrides,
 } from "../types";
+import { applyPermissionOverrides, notExpiredMembership } from "../utils";
+import { EntityHelper } from "./EntityHelper";
+import { RoleHelper } from "./RoleHelper";
 
 /**
  * Helper class for entity permission checks.
  */
 export class PermissionHelper {
-  constructor(private readonly config: EntityHelperConfig) {}
+  private readonly entityHelper: EntityHelper;
+  private readonly roleHelper: RoleHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.entityHelper = new EntityHelper(config);
+    this.roleHelper = new RoleHelper(config);
+  }
 
   /**
-   * Get a user's role in an entity.
-   * Only returns role for active members.
+   * Get a user's effective role in an entity.
+   * Combines the user's own active membership with roles inherited from
+   * ancestor organizations: owners and managers of an ancestor hold the same
+   * role in every team / sub-organization below it. Plain members of an
+   * ancestor inherit nothing. The higher-ranked role wins.
+   * The direct role may be a custom role key. Expired memberships (direct
+   * or in an ancestor) count as none, even before expireMemberships
+   * deactivates them.
+   * @param options - Optional caller-supplied transaction
    */
   async getUserRole(
     entityId: string,
-    userId: string
-  ): Promise<EntityRole | null> {
-    const results = await this.config.db
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityRoleKey | null> {
+    const directRole = await this.getDirectUserRole(entityId, userId, options);
+    if (directRole === EntityRole.OWNER) {
+      return directRole;
+    }
+
+    const inheritedRole = await this.getInheritedUserRole(
+      entityId,
+      userId,
+      options
+    );
+    if (!directRole || !inheritedRole) {
+      return directRole ?? inheritedRole;
+    }
+
+    const directRank = await this.getRoleRank(entityId, directRole, options);
+    return directRank >= BUILT_IN_ROLE_RANKS[inheritedRole]
+      ? directRole
+      : inheritedRole;
+  }
+
+  /**
+   * Get a user's role from their own membership in an entity, ignoring
+   * inheritance. Only returns role for active, unexpired members.
+   */
+  async getDirectUserRole(
+    entityId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityRoleKey | null> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
       .select({ role: this.config.membersTable.role })
       .from(this.config.membersTable)
       .where(
         and(
           eq(this.config.membersTable.entity_id, entityId),
           eq(this.config.membersTable.user_id, userId),
-          eq(this.config.membersTable.is_active, true)
+          eq(this.config.membersTable.is_active, true),
+          notExpiredMembership(this.config.membersTable)
         )
       )
       .limit(1);
@@ -42,28 +94,146 @@ export class PermissionHelper {
       return null;
     }
 
-    return results[0].role as EntityRole;
+    return results[0].role as EntityRoleKey;
+  }
+
+  /**
+   * Get the strongest role a user inherits from ancestor organizations.
+   * Only owner and manager roles are inherited.
+   */
+  async getInheritedUserRole(
+    entityId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<EntityRole | null> {
+    const ancestors = await this.entityHelper.getAncestors(entityId, options);
+    if (ancestors.length === 0) {
+      return null;
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select({ role: this.config.membersTable.role })
+      .from(this.config.membersTable)
+      .where(
+        and(
+          inArray(
+            this.config.membersTable.entity_id,
+            ancestors.map(ancestor => ancestor.id)
+          ),
+          eq(this.config.membersTable.user_id, userId),
+          eq(this.config.membersTable.is_active, true),
+          notExpiredMembership(this.config.membersTable),
+          inArray(this.config.membersTable.role, [
+            EntityRole.OWNER,
+            EntityRole.MANAGER,
+          ])
+        )
+      );
+
+    return results.reduce(
+      (strongest: EntityRole | null, { role }: { role: EntityRole }) =>
+        !strongest || BUILT_IN_ROLE_RANKS[role] > BUILT_IN_ROLE_RANKS[strongest]
+          ? role
+          : strongest,
+      null
+    );
+  }
+
+  /**
+   * Get the rank of a role in an entity (built-in or custom).
+   * Unknown roles rank below every real role.
+   */
+  async getRoleRank(
+    entityId: string,
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
+  ): Promise<number> {
+    return (await this.roleHelper.getRoleRank(entityId, role, options)) ?? -1;
   }
 
   /**
-   * Get permissions for a role.
+   * Get permissions for a built-in role.
    */
   getPermissionsForRole(role: EntityRole): EntityPermissions {
     return getPermissionsForRoleFromTypes(role);
   }
 
+  /**
+   * Get permissions for a role in an entity (built-in or custom).
+   */
+  async getRolePermissions(
+    entityId: string,
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
+  ): Promise<EntityPermissions> {
+    return this.roleHelper.getPermissionsForRole(entityId, role, options);
+  }
+
   /**
    * Get a user's permissions for an entity.
+   * The role's permissions are merged with the member's overrides.
    */
   async getUserPermissions(
     entityId: string,
-    userId: string
+    userId: string,
+    options?: EntityOperationOptions
   ): Promise<EntityPermissions | null> {
-    const role = await this.getUserRole(entityId, userId);
+    const role = await this.getUserRole(entityId, userId, options);
     if (!role) {
       return null;
     }
-    return this.getPermissionsForRole(role);
+    return this.getEffectivePermissions(entityId, userId, role, options);
+  }
+
+  /**
+   * Get the permissions of a user holding a known role in an entity:
+   * the role's permissions with the member's grant/deny overrides applied.
+   * Owners always hold every permission.
+   */
+  async getEffectivePermissions(
+    entityId: string,
+    userId: string,
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
+  ): Promise<EntityPermissions> {
+    const permissions = await this.getRolePermissions(entityId, role, options);
+    if (role === EntityRole.OWNER) {
+      return permissions;
+    }
+
+    const overrides = await this.getPermissionOverrides(
+      entityId,
+      userId,
+      options
+    );
+    return applyPermissionOverrides(permissions, overrides);
+  }
+
+  /**
+   * Get the permission overrides of a user's own active membership.
+   * Inherited roles carry no overrides.
+   */
+  async getPermissionOverrides(
+    entityId: string,
+    userId: string,
+    options?: EntityOperationOptions
+  ): Promise<PermissionOverrides | null> {
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select({ overrides: this.config.membersTable.permission_overrides })
+      .from(this.config.membersTable)
+      .where(
+        and(
+          eq(this.config.membersTable.entity_id, entityId),
+          eq(this.config.membersTable.user_id, userId),
+          eq(this.config.membersTable.is_active, true),
+          notExpiredMembership(this.config.membersTable)
+        )
+      )
+      .limit(1);
+
+    return results[0]?.overrides ?? null;
   }
 
   /**
@@ -210,9 +380,14 @@ export class PermissionHelper {
     entityId: string,
     userId: string,
     permission: keyof EntityPermissions,
-    errorMessage?: string
+    errorMessage?: string,
+    options?: EntityOperationOptions
   ): Promise<void> {
-    const permissions = await this.getUserPermissions(entityId, userId);
+    const permissions = await this.getUserPermissions(
+      entityId,
+      userId,
+      options
+    );
 
     if (!permissions) {
       throw new Error(errorMessage ?? "User is not a member of this entity");
@@ -226,7 +401,7 @@ export class PermissionHelper {
   }
 
   /**
-   * Get the minimum role required for a permission.
+   * Get the minimum built-in role required for a permission.
    */
   getMinimumRoleForPermission(
     permission: keyof EntityPermissions
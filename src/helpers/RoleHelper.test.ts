@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Tests for RoleHelper
+ */
+
+import { describe, test, expect, vi } from "vitest";
+import { RoleHelper } from "./RoleHelper";
+import { EntityRole, EntityType, MANAGER_PERMISSIONS } from "../types";
+
+const mockEntityId = "entity-uuid-123";
+
+const reviewerRecord = {
+  id: "role-uuid-1",
+  entity_id: mockEntityId,
+  role_key: "reviewer",
+  display_name: "Reviewer",
+  description: null,
+  permissions: ["canViewEntity", "canViewProjects", "canManageProjects"],
+  rank: 30,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+function createMockConfig(withRolesTable = true) {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.limit = vi.fn().mockResolvedValue([]);
+  chain.insert = vi.fn().mockReturnValue(chain);
+  chain.values = vi.fn().mockReturnValue(chain);
+  chain.returning = vi.fn().mockResolvedValue([reviewerRecord]);
+  chain.transaction = vi.fn().mockImplementation(async (fn: any) => fn(chain));
+
+  return {
+    db: chain,
+    entitiesTable: { id: "id", entity_type: "entity_type" },
+    membersTable: {},
+    usersTable: {},
+    rolesTable: withRolesTable
+      ? { entity_id: "entity_id", role_key: "role_key" }
+      : undefined,
+  };
+}
+
+describe("RoleHelper", () => {
+  test("built-in roles resolve without querying the roles table", async () => {
+    const config = createMockConfig();
+    const helper = new RoleHelper(config as any);
+
+    const permissions = await helper.getPermissionsForRole(
+      mockEntityId,
+      EntityRole.MANAGER
+    );
+
+    expect(permissions).toEqual(MANAGER_PERMISSIONS);
+    expect(await helper.getRoleRank(mockEntityId, EntityRole.OWNER)).toBe(100);
+    expect(config.db.select).not.toHaveBeenCalled();
+  });
+
+  test("custom roles grant exactly their listed permissions", async () => {
+    const config = createMockConfig();
+    config.db.limit = vi.fn().mockResolvedValue([reviewerRecord]);
+    const helper = new RoleHelper(config as any);
+
+    const permissions = await helper.getPermissionsForRole(
+      mockEntityId,
+      "reviewer"
+    );
+
+    expect(permissions.canManageProjects).toBe(true);
+    expect(permissions.canViewProjects).toBe(true);
+    expect(permissions.canManageMembers).toBe(false);
+    expect(permissions.canDeleteEntity).toBe(false);
+    expect(await helper.getRoleRank(mockEntityId, "reviewer")).toBe(30);
+  });
+
+  test("unknown roles grant nothing and have no rank", async () => {
+    const config = createMockConfig();
+    const helper = new RoleHelper(config as any);
+
+    const permissions = await helper.getPermissionsForRole(
+      mockEntityId,
+      "ghost"
+    );
+
+    expect(Object.values(permissions).every(value => !value)).toBe(true);
+    expect(await helper.getRoleRank(mockEntityId, "ghost")).toBeNull();
+    expect(await helper.roleExists(mockEntityId, "ghost")).toBe(false);
+  });
+
+  test("createRole rejects built-in keys, bad ranks and unknown permissions", async () => {
+    const helper = new RoleHelper(createMockConfig() as any);
+    const base = {
+      roleKey: "reviewer",
+      displayName: "Reviewer",
+      permissions: ["canViewEntity" as const],
+      rank: 30,
+    };
+
+    await expect(
+      helper.createRole(mockEntityId, { ...base, roleKey: "owner" })
+    ).rejects.toThrow("Role key is reserved for a built-in role");
+    await expect(
+      helper.createRole(mockEntityId, { ...base, rank: 100 })
+    ).rejects.toThrow("Role rank must be an integer between 0 and 99");
+    await expect(
+      helper.createRole(mockEntityId, {
+        ...base,
+        permissions: ["canLaunchRockets" as any],
+      })
+    ).rejects.toThrow("Unknown permissions: canLaunchRockets");
+  });
+
+  test("createRole refuses personal entities", async () => {
+    const config = createMockConfig();
+    config.db.limit = vi
+      .fn()
+      .mockResolvedValue([{ entityType: EntityType.PERSONAL }]);
+    const helper = new RoleHelper(config as any);
+
+    await expect(
+      helper.createRole(mockEntityId, {
+        roleKey: "reviewer",
+        displayName: "Reviewer",
+        permissions: ["canViewEntity"],
+        rank: 30,
+      })
+    ).rejects.toThrow("Personal entities cannot have custom roles");
+  });
+
+  test("createRole requires the roles table", async () => {
+    const helper = new RoleHelper(createMockConfig(false) as any);
+
+    await expect(
+      helper.createRole(mockEntityId, {
+        roleKey: "reviewer",
+        displayName: "Reviewer",
+        permissions: ["canViewEntity"],
+        rank: 30,
+      })
+    ).rejects.toThrow("Roles table is not configured");
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * @fileoverview Entity Role Helper Class
+ * @description Custom per-entity roles and role resolution
+ */
+
+import { eq, and, asc, desc } from "drizzle-orm";
+import {
+  EntityRole,
+  EntityType,
+  AuditAction,
+  AuditTargetType,
+  API_KEY_ROLE,
+  BUILT_IN_ROLE_RANKS,
+  MAX_CUSTOM_ROLE_RANK,
+  getPermissionsForRole,
+  type EntityPermissions,
+  type EntityHelperConfig,
+  type EntityOperationOptions,
+  type EntityRoleKey,
+  type CustomRole,
+  type CreateCustomRoleRequest,
+  type UpdateCustomRoleRequest,
+} from "../types";
+import { buildPermissions, isPermissionKey, runInTransaction } from "../utils";
+import { AuditHelper } from "./AuditHelper";
+
+/** Allowed format for custom role keys */
+const ROLE_KEY_PATTERN = /^[a-z][a-z0-9_-]{1,19}$/;
+
+/**
+ * Helper class for custom entity roles.
+ * Built-in roles (owner, manager, member) are always available; custom roles
+ * require `rolesTable` in the config.
+ */
+export class RoleHelper {
+  private readonly auditHelper: AuditHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.auditHelper = new AuditHelper(config);
+  }
+
+  /**
+   * Check if a role is one of the built-in roles.
+   */
+  isBuiltInRole(role: EntityRoleKey): role is EntityRole {
+    return Object.values(EntityRole).includes(role as EntityRole);
+  }
+
+  /**
+   * Get all custom roles of an entity, highest rank first.
+   */
+  async getRoles(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<CustomRole[]> {
+    if (!this.config.rolesTable) {
+      return [];
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(this.config.rolesTable)
+      .where(eq(this.config.rolesTable.entity_id, entityId))
+      .orderBy(
+        desc(this.config.rolesTable.rank),
+        asc(this.config.rolesTable.role_key)
+      );
+
+    return results.map((record: any) => this.mapRecordToRole(record));
+  }
+
+  /**
+   * Get a custom role by key.
+   */
+  async getRole(
+    entityId: string,
+    roleKey: string,
+    options?: EntityOperationOptions
+  ): Promise<CustomRole | null> {
+    if (!this.config.rolesTable) {
+      return null;
+    }
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(this.config.rolesTable)
+      .where(
+        and(
+          eq(this.config.rolesTable.entity_id, entityId),
+          eq(this.config.rolesTable.role_key, roleKey)
+        )
+      )
+      .limit(1);
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordToRole(results[0]);
+  }
+
+  /**
+   * Check if a role can be assigned in an entity
+   * (a built-in role or a custom role defined for the entity).
+   */
+  async roleExists(
+    entityId: string,
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
+  ): Promise<boolean> {
+    if (this.isBuiltInRole(role)) {
+      return true;
+    }
+    return (await this.getRole(entityId, role, options)) !== null;
+  }
+
+  /**
+   * Get the permissions a role grants in an entity.
+   * Unknown roles grant nothing.
+   */
+  async getPermissionsForRole(
+    entityId: string,
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
+  ): Promise<EntityPermissions> {
+    if (this.isBuiltInRole(role)) {
+      return getPermissionsForRole(role);
+    }
+
+    const customRole = await this.getRole(entityId, role, options);
+    return buildPermissions(customRole?.permissions ?? []);
+  }
+
+  /**
+   * Get the rank of a role in an entity, or null for unknown roles.
+   */
+  async getRoleRank(
+    entityId: string,
+    role: EntityRoleKey,
+    options?: EntityOperationOptions
+  ): Promise<number | null> {
+    if (this.isBuiltInRole(role)) {
+      return BUILT_IN_ROLE_RANKS[role];
+    }
+
+    const customRole = await this.getRole(entityId, role, options);
+    return customRole?.rank ?? null;
+  }
+
+  /**
+   * Create a custom role for an organization.
+   */
+  async createRole(
+    entityId: string,
+    request: CreateCustomRoleRequest,
+    options?: EntityOperationOptions
+  ): Promise<CustomRole> {
+    const rolesTable = this.requireRolesTable();
+    const roleKey = request.roleKey.toLowerCase();
+
+    if (!ROLE_KEY_PATTERN.test(roleKey)) {
+      throw new Error("Invalid role key format");
+    }
+
+    if (this.isBuiltInRole(roleKey) || roleKey === API_KEY_ROLE) {
+      throw new Error("Role key is reserved for a built-in role");
+    }
+
+    this.validateRank(request.rank);
+    this.validatePermissions(request.permissions);
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const entity = await tx
+        .select({ entityType: this.config.entitiesTable.entity_type })
+        .from(this.config.entitiesTable)
+        .where(eq(this.config.entitiesTable.id, entityId))
+        .limit(1);
+
+      if (entity.length === 0) {
+        throw new Error("Entity not found");
+      }
+
+      if (entity[0].entityType === EntityType.PERSONAL) {
+        throw new Error("Personal entities cannot have custom roles");
+      }
+
+      if (await this.getRole(entityId, roleKey, { tx })) {
+        throw new Error("Role already exists");
+      }
+
+      const [role] = await tx
+        .insert(rolesTable)
+        .values({
+          entity_id: entityId,
+          role_key: roleKey,
+          display_name: request.displayName,
+          description: request.description ?? null,
+          permissions: [...new Set(request.permissions)],
+          rank: request.rank,
+        })
+        .returning();
+
+      const created = this.mapRecordToRole(role);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.ROLE_CREATED,
+          targetType: AuditTargetType.ROLE,
+          targetId: roleKey,
+          after: {
+            displayName: created.displayName,
+            permissions: created.permissions,
+            rank: created.rank,
+          },
+        },
+        { tx }
+      );
+
+      return created;
+    });
+  }
+
+  /**
+   * Update a custom role.
+   * Members holding the role pick up the change on their next request.
+   */
+  async updateRole(
+    entityId: string,
+    roleKey: string,
+    request: UpdateCustomRoleRequest,
+    options?: EntityOperationOptions
+  ): Promise<CustomRole> {
+    const rolesTable = this.requireRolesTable();
+    const updates: Record<string, any> = {
+      updated_at: new Date(),
+    };
+
+    if (request.displayName !== undefined) {
+      updates.display_name = request.displayName;
+    }
+
+    if (request.description !== undefined) {
+      updates.description = request.description;
+    }
+
+    if (request.permissions !== undefined) {
+      this.validatePermissions(request.permissions);
+      updates.permissions = [...new Set(request.permissions)];
+    }
+
+    if (request.rank !== undefined) {
+      this.validateRank(request.rank);
+      updates.rank = request.rank;
+    }
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const existing = await this.getRole(entityId, roleKey, { tx });
+      if (!existing) {
+        throw new Error("Role not found");
+      }
+
+      const [record] = await tx
+        .update(rolesTable)
+        .set(updates)
+        .where(
+          and(
+            eq(rolesTable.entity_id, entityId),
+            eq(rolesTable.role_key, roleKey)
+          )
+        )
+        .returning();
+
+      const updated = this.mapRecordToRole(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.ROLE_UPDATED,
+          targetType: AuditTargetType.ROLE,
+          targetId: roleKey,
+          before: {
+            displayName: existing.displayName,
+            description: existing.description,
+            permissions: existing.permissions,
+            rank: existing.rank,
+          },
+          after: {
+            displayName: updated.displayName,
+            description: updated.description,
+            permissions: updated.permissions,
+            rank: updated.rank,
+          },
+        },
+        { tx }
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * Delete a custom role.
+   * Fails while any active member still holds the role.
+   */
+  async deleteRole(
+    entityId: string,
+    roleKey: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const rolesTable = this.requireRolesTable();
+
+    await runInTransaction(this.config.db, options?.tx, async tx => {
+      const assigned = await tx
+        .select({ id: this.config.membersTable.id })
+        .from(this.config.membersTable)
+        .where(
+          and(
+            eq(this.config.membersTable.entity_id, entityId),
+            eq(this.config.membersTable.role, roleKey),
+            eq(this.config.membersTable.is_active, true)
+          )
+        )
+        .limit(1);
+
+      if (assigned.length > 0) {
+        throw new Error("Role is assigned to members");
+      }
+
+      const deleted = await tx
+        .delete(rolesTable)
+        .where(
+          and(
+            eq(rolesTable.entity_id, entityId),
+            eq(rolesTable.role_key, roleKey)
+          )
+        )
+        .returning();
+
+      if (deleted.length === 0) {
+        throw new Error("Role not found");
+      }
+
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.ROLE_DELETED,
+          targetType: AuditTargetType.ROLE,
+          targetId: roleKey,
+          before: {
+            displayName: deleted[0].display_name,
+            permissions: deleted[0].permissions,
+            rank: deleted[0].rank,
+          },
+        },
+        { tx }
+      );
+    });
+  }
+
+  /**
+   * Ensure a custom role rank stays below the owner.
+   */
+  private validateRank(rank: number): void {
+    if (!Number.isInteger(rank) || rank < 0 || rank > MAX_CUSTOM_ROLE_RANK) {
+      throw new Error(
+        `Role rank must be an integer between 0 and ${MAX_CUSTOM_ROLE_RANK}`
+      );
+    }
+  }
+
+  /**
+   * Ensure every permission is a known EntityPermissions key.
+   */
+  private validatePermissions(permissions: string[]): void {
+    const unknown = permissions.filter(
+      permission => !isPermissionKey(permission)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown permissions: ${unknown.join(", ")}`);
+    }
+  }
+
+  /**
+   * Get the roles table or fail if custom roles are not enabled.
+   */
+  private requireRolesTable(): any {
+    if (!this.config.rolesTable) {
+      throw new Error("Roles table is not configured");
+    }
+    return this.config.rolesTable;
+  }
+
+  /**
+   * Map database record to CustomRole type.
+   */
+  private mapRecordToRole(record: any): CustomRole {
+    return {
+      id: record.id,
+      entityId: record.entity_id,
+      roleKey: record.role_key,
+      displayName: record.display_name,
+      description: record.description ?? null,
+      permissions: (record.permissions ?? []) as Array<keyof EntityPermissions>,
+      rank: record.rank,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+      updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+    };
+  }
+}
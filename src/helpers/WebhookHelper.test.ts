@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Tests for WebhookHelper
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { WebhookHelper } from "./WebhookHelper";
+import { AuditHelper } from "./AuditHelper";
+import { EntityHelper } from "./EntityHelper";
+import {
+  entityWebhookDeliveries,
+  entityWebhookEndpoints,
+} from "../schema/entities";
+import { AuditAction, AuditTargetType, WebhookDeliveryStatus } from "../types";
+
+const mockEntityId = "entity-uuid-123";
+
+const endpointRecord = {
+  id: "endpoint-uuid-1",
+  entity_id: mockEntityId,
+  url: "https://hooks.acme.test/entity",
+  description: null,
+  secret: "whsec_test",
+  event_types: [],
+  is_active: true,
+  created_by_user_id: "owner-uid",
+  disabled_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const event = {
+  idempotencyKey: "key-1",
+  type: AuditAction.MEMBER_ADDED,
+  entityId: mockEntityId,
+  actorUserId: "owner-uid",
+  targetType: AuditTargetType.MEMBER,
+  targetId: "member-uid",
+  before: null,
+  after: { role: "member" },
+  occurredAt: "2026-01-01T00:00:00.000Z",
+};
+
+function createMockConfig() {
+  const chain: any = {};
+  chain.select = vi.fn().mockReturnValue(chain);
+  chain.from = vi.fn().mockReturnValue(chain);
+  chain.innerJoin = vi.fn().mockReturnValue(chain);
+  chain.where = vi.fn().mockReturnValue(chain);
+  chain.orderBy = vi.fn().mockReturnValue(chain);
+  chain.limit = vi.fn().mockReturnValue(chain);
+  chain.for = vi.fn().mockResolvedValue([]);
+  chain.insert = vi.fn().mockReturnValue(chain);
+  chain.values = vi.fn().mockReturnValue(chain);
+  chain.onConflictDoNothing = vi.fn().mockResolvedValue(undefined);
+  chain.update = vi.fn().mockReturnValue(chain);
+  chain.set = vi.fn().mockReturnValue(chain);
+  chain.delete = vi.fn().mockReturnValue(chain);
+  chain.returning = vi.fn().mockResolvedValue([endpointRecord]);
+  chain.then = (resolve: any) => resolve([]);
+  chain.transaction = vi.fn().mockImplementation(async (fn: any) => fn(chain));
+
+  return {
+    db: chain,
+    entitiesTable: {},
+    membersTable: {},
+    usersTable: {},
+    webhookEndpointsTable: entityWebhookEndpoints,
+    webhookDeliveriesTable: entityWebhookDeliveries,
+  };
+}
+
+describe("WebhookHelper", () => {
+  let recordEvent: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    recordEvent = vi
+      .spyOn(AuditHelper.prototype, "recordEvent")
+      .mockResolvedValue();
+    vi.spyOn(EntityHelper.prototype, "getEntity").mockResolvedValue({
+      id: mockEntityId,
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  test("endpoints need a public HTTPS URL and known event types", async () => {
+    const helper = new WebhookHelper(createMockConfig() as any);
+
+    await expect(
+      helper.createEndpoint(mockEntityId, "owner-uid", {
+        url: "http://hooks.acme.test",
+      })
+    ).rejects.toThrow("Webhook URL must use HTTPS");
+    await expect(
+      helper.createEndpoint(mockEntityId, "owner-uid", {
+        url: "https://169.254.169.254/latest/meta-data",
+      })
+    ).rejects.toThrow(
+      "Webhook URL must not point at a private or local address"
+    );
+    await expect(
+      helper.createEndpoint(mockEntityId, "owner-uid", {
+        url: endpointRecord.url,
+        eventTypes: ["member.teleported" as AuditAction],
+      })
+    ).rejects.toThrow("Unknown event types: member.teleported");
+  });
+
+  test("created endpoints return the secret once and never audit it", async () => {
+    const config = createMockConfig();
+    const helper = new WebhookHelper(config as any);
+
+    const endpoint = await helper.createEndpoint(mockEntityId, "owner-uid", {
+      url: endpointRecord.url,
+      eventTypes: [AuditAction.MEMBER_ADDED, AuditAction.MEMBER_ADDED],
+    });
+
+    expect(endpoint.secret).toBe(config.db.values.mock.calls[0][0].secret);
+    expect(config.db.values.mock.calls[0][0].event_types).toEqual([
+      AuditAction.MEMBER_ADDED,
+    ]);
+    expect(JSON.stringify(recordEvent.mock.calls[0][0])).not.toContain(
+      endpoint.secret
+    );
+  });
+
+  test("endpoints can be updated, disabled and deleted", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValue([endpointRecord]);
+    const helper = new WebhookHelper(config as any);
+
+    await helper.updateEndpoint(mockEntityId, endpointRecord.id, {
+      description: " Billing sync ",
+    });
+    expect(config.db.set).toHaveBeenLastCalledWith(
+      expect.objectContaining({ description: "Billing sync" })
+    );
+
+    await helper.disableEndpoint(mockEntityId, endpointRecord.id);
+    expect(config.db.set).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        is_active: false,
+        disabled_at: expect.any(Date),
+      })
+    );
+
+    await helper.deleteEndpoint(mockEntityId, endpointRecord.id);
+    expect(config.db.delete).toHaveBeenCalledWith(entityWebhookEndpoints);
+    expect(recordEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: AuditAction.WEBHOOK_DELETED }),
+      expect.anything()
+    );
+  });
+
+  test("missing endpoints are reported as not found", async () => {
+    const config = createMockConfig();
+    config.db.limit.mockResolvedValue([]);
+    const helper = new WebhookHelper(config as any);
+
+    await expect(
+      helper.disableEndpoint(mockEntityId, "missing")
+    ).rejects.toThrow("Webhook endpoint not found");
+  });
+
+  test("the outbox sink queues events for subscribed active endpoints", async () => {
+    const config = createMockConfig();
+    config.db.where.mockResolvedValueOnce([
+      { ...endpointRecord, id: "all-events" },
+      {
+        ...endpointRecord,
+        id: "member-events",
+        event_types: [AuditAction.MEMBER_ADDED],
+      },
+      {
+        ...endpointRecord,
+        id: "entity-events",
+        event_types: [AuditAction.ENTITY_UPDATED],
+      },
+    ]);
+    const helper = new WebhookHelper(config as any);
+
+    await helper.createOutboxSink().deliver(event);
+
+    const lookup = new PgDialect().sqlToQuery(config.db.where.mock.calls[0][0]);
+    expect(lookup.sql).toContain('"is_active" = $2');
+    expect(lookup.params[1]).toBe(true);
+    expect(
+      config.db.values.mock.calls[0][0].map((row: any) => row.endpoint_id)
+    ).toEqual(["all-events", "member-events"]);
+    expect(config.db.onConflictDoNothing).toHaveBeenCalled();
+  });
+
+  test("the outbox sink queues nothing without subscribed endpoints", async () => {
+    const config = createMockConfig();
+    config.db.where.mockResolvedValueOnce([
+      { ...endpointRecord, event_types: [AuditAction.ENTITY_UPDATED] },
+    ]);
+    const helper = new WebhookHelper(config as any);
+
+    await helper.createOutboxSink().deliver(event);
+
+    expect(config.db.insert).not.toHaveBeenCalled();
+  });
+
+  test("dispatch delivers, retries with backoff and gives up", async () => {
+    const config = createMockConfig();
+    config.db.for.mockResolvedValueOnce([
+      { id: "ok" },
+      { id: "retry" },
+      { id: "exhausted" },
+      { id: "disabled" },
+    ]);
+    config.db.returning.mockResolvedValueOnce([
+      { id: "ok", endpoint_id: endpointRecord.id, attempts: 1, payload: event },
+      {
+        id: "retry",
+        endpoint_id: endpointRecord.id,
+        attempts: 3,
+        payload: event,
+      },
+      {
+        id: "exhausted",
+        endpoint_id: endpointRecord.id,
+        attempts: 5,
+        payload: event,
+      },
+      {
+        id: "disabled",
+        endpoint_id: "disabled-endpoint",
+        attempts: 1,
+        payload: event,
+      },
+    ]);
+    config.db.where
+      .mockReturnValueOnce(config.db)
+      .mockReturnValueOnce(config.db)
+      .mockResolvedValueOnce([endpointRecord]);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 200 }))
+      .mockResolvedValue(new Response(null, { status: 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const helper = new WebhookHelper(config as any);
+
+    const before = Date.now();
+    const result = await helper.dispatchPendingDeliveries({
+      maxAttempts: 5,
+      retryBaseDelayMs: 1000,
+    });
+
+    expect(result).toEqual({ delivered: 1, retried: 1, failed: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const claim = new PgDialect().sqlToQuery(config.db.where.mock.calls[0][0]);
+    expect(claim.sql).toContain('"entity_webhook_endpoints"."is_active" = $');
+
+    const [, delivered, retried, failed] = config.db.set.mock.calls.map(
+      (call: any[]) => call[0]
+    );
+    expect(delivered.status).toBe(WebhookDeliveryStatus.DELIVERED);
+    expect(retried.status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(retried.next_attempt_at.getTime() - before).toBeGreaterThanOrEqual(
+      4000
+    );
+    expect(retried.attempt_history[0].responseStatus).toBe(500);
+    expect(failed.status).toBe(WebhookDeliveryStatus.FAILED);
+  });
+});
@@ -0,0 +1,793 @@
+/**
+ * @fileoverview Entity Webhook Helper Class
+ * @description Registration of webhook endpoints and signed event delivery
+ */
+
+import { eq, and, asc, desc, inArray, lte, sql } from "drizzle-orm";
+import {
+  AuditAction,
+  AuditTargetType,
+  WebhookDeliveryStatus,
+  WebhookErrorCode,
+  WEBHOOK_TEST_EVENT,
+  type CreateWebhookEndpointRequest,
+  type CreatedWebhookEndpoint,
+  type EntityHelperConfig,
+  type EntityOperationOptions,
+  type ListWebhookDeliveriesOptions,
+  type OutboxDispatchResult,
+  type OutboxSink,
+  type UpdateWebhookEndpointRequest,
+  type WebhookDelivery,
+  type WebhookDeliveryAttempt,
+  type WebhookDispatchOptions,
+  type WebhookEndpoint,
+  type WebhookPayload,
+} from "../types";
+import {
+  calculateRetryDelay,
+  generateWebhookSecret,
+  isPrivateWebhookHost,
+  runInTransaction,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookError,
+} from "../utils";
+import { AuditHelper } from "./AuditHelper";
+import { EntityHelper } from "./EntityHelper";
+
+/** Default page size for delivery listings */
+const DEFAULT_DELIVERY_PAGE_SIZE = 50;
+
+/** Maximum page size for delivery listings */
+const MAX_DELIVERY_PAGE_SIZE = 200;
+
+/** Default number of deliveries claimed per dispatch */
+const DEFAULT_BATCH_SIZE = 50;
+
+/** Default number of attempts before a delivery is marked failed */
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+/** Default delay before the first retry */
+const DEFAULT_RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/** Default upper bound for the retry delay */
+const DEFAULT_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/** Default time a claimed delivery stays hidden from other dispatchers */
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+/** Default timeout of a webhook request */
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+/** Event types endpoints can subscribe to */
+const SUBSCRIBABLE_EVENT_TYPES = new Set<string>(Object.values(AuditAction));
+
+/**
+ * Helper class for per-entity webhooks.
+ * Lifecycle events reach endpoints through the outbox: register
+ * `createOutboxSink()` with the OutboxDispatcher, then call
+ * `dispatchPendingDeliveries()` periodically to send them.
+ * Requires `webhookEndpointsTable` and `webhookDeliveriesTable` in the config.
+ */
+export class WebhookHelper {
+  private readonly entityHelper: EntityHelper;
+  private readonly auditHelper: AuditHelper;
+
+  constructor(private readonly config: EntityHelperConfig) {
+    this.entityHelper = new EntityHelper(config);
+    this.auditHelper = new AuditHelper(config);
+  }
+
+  /**
+   * Register a webhook endpoint for an entity.
+   * The returned signing secret is shown once.
+   * @param entityId - The entity whose events are delivered
+   * @param createdByUserId - The member registering the endpoint (firebase_uid),
+   *   or null when registered through an API key
+   * @param request - URL, event types and optional description
+   * @param options - Optional caller-supplied transaction
+   */
+  async createEndpoint(
+    entityId: string,
+    createdByUserId: string | null,
+    request: CreateWebhookEndpointRequest,
+    options?: EntityOperationOptions
+  ): Promise<CreatedWebhookEndpoint> {
+    const endpointsTable = this.requireEndpointsTable();
+    const url = this.validateUrl(request.url);
+    const eventTypes = this.validateEventTypes(request.eventTypes ?? []);
+
+    const entity = await this.entityHelper.getEntity(entityId, options);
+    if (!entity) {
+      throw new WebhookError(
+        "Entity not found",
+        WebhookErrorCode.ENTITY_NOT_FOUND
+      );
+    }
+
+    const secret = generateWebhookSecret();
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [record] = await tx
+        .insert(endpointsTable)
+        .values({
+          entity_id: entityId,
+          url,
+          description: request.description?.trim() || null,
+          secret,
+          event_types: eventTypes,
+          created_by_user_id: createdByUserId,
+        })
+        .returning();
+
+      const endpoint = this.mapRecordToEndpoint(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId ?? createdByUserId,
+          action: AuditAction.WEBHOOK_CREATED,
+          targetType: AuditTargetType.WEBHOOK,
+          targetId: endpoint.id,
+          after: this.toAuditState(endpoint),
+        },
+        { tx }
+      );
+
+      return { ...endpoint, secret };
+    });
+  }
+
+  /**
+   * List the webhook endpoints of an entity, newest first.
+   */
+  async listEndpoints(
+    entityId: string,
+    options?: EntityOperationOptions
+  ): Promise<WebhookEndpoint[]> {
+    const endpointsTable = this.requireEndpointsTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(endpointsTable)
+      .where(eq(endpointsTable.entity_id, entityId))
+      .orderBy(desc(endpointsTable.created_at));
+
+    return results.map((record: any) => this.mapRecordToEndpoint(record));
+  }
+
+  /**
+   * Get a webhook endpoint of an entity by ID.
+   */
+  async getEndpoint(
+    entityId: string,
+    endpointId: string,
+    options?: EntityOperationOptions
+  ): Promise<WebhookEndpoint | null> {
+    const record = await this.findEndpointRecord(entityId, endpointId, options);
+    return record ? this.mapRecordToEndpoint(record) : null;
+  }
+
+  /**
+   * Change the URL, event types or description of an endpoint.
+   */
+  async updateEndpoint(
+    entityId: string,
+    endpointId: string,
+    request: UpdateWebhookEndpointRequest,
+    options?: EntityOperationOptions
+  ): Promise<WebhookEndpoint> {
+    const endpointsTable = this.requireEndpointsTable();
+    const updates: Record<string, any> = {};
+
+    if (request.url !== undefined) {
+      updates.url = this.validateUrl(request.url);
+    }
+
+    if (request.eventTypes !== undefined) {
+      updates.event_types = this.validateEventTypes(request.eventTypes);
+    }
+
+    if (request.description !== undefined) {
+      updates.description = request.description?.trim() || null;
+    }
+
+    const existing = await this.getEndpoint(entityId, endpointId, options);
+    if (!existing) {
+      throw new WebhookError(
+        "Webhook endpoint not found",
+        WebhookErrorCode.ENDPOINT_NOT_FOUND
+      );
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return existing;
+    }
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [record] = await tx
+        .update(endpointsTable)
+        .set({ ...updates, updated_at: new Date() })
+        .where(eq(endpointsTable.id, endpointId))
+        .returning();
+
+      const updated = this.mapRecordToEndpoint(record);
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.WEBHOOK_UPDATED,
+          targetType: AuditTargetType.WEBHOOK,
+          targetId: endpointId,
+          before: this.toAuditState(existing),
+          after: this.toAuditState(updated),
+        },
+        { tx }
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * Stop delivering events to an endpoint.
+   * Deliveries already queued wait until the endpoint is enabled again.
+   */
+  async disableEndpoint(
+    entityId: string,
+    endpointId: string,
+    options?: EntityOperationOptions
+  ): Promise<WebhookEndpoint> {
+    return this.setEndpointActive(entityId, endpointId, false, options);
+  }
+
+  /**
+   * Resume delivering events to a disabled endpoint.
+   */
+  async enableEndpoint(
+    entityId: string,
+    endpointId: string,
+    options?: EntityOperationOptions
+  ): Promise<WebhookEndpoint> {
+    return this.setEndpointActive(entityId, endpointId, true, options);
+  }
+
+  /**
+   * Delete an endpoint together with its delivery history.
+   */
+  async deleteEndpoint(
+    entityId: string,
+    endpointId: string,
+    options?: EntityOperationOptions
+  ): Promise<void> {
+    const endpointsTable = this.requireEndpointsTable();
+    const existing = await this.getEndpoint(entityId, endpointId, options);
+    if (!existing) {
+      throw new WebhookError(
+        "Webhook endpoint not found",
+        WebhookErrorCode.ENDPOINT_NOT_FOUND
+      );
+    }
+
+    await runInTransaction(this.config.db, options?.tx, async tx => {
+      await tx.delete(endpointsTable).where(eq(endpointsTable.id, endpointId));
+
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: AuditAction.WEBHOOK_DELETED,
+          targetType: AuditTargetType.WEBHOOK,
+          targetId: endpointId,
+          before: this.toAuditState(existing),
+        },
+        { tx }
+      );
+    });
+  }
+
+  /**
+   * Send a signed test event to an endpoint right away.
+   * Works for disabled endpoints too, so they can be checked before enabling.
+   * The test is not queued or retried.
+   */
+  async testEndpoint(
+    entityId: string,
+    endpointId: string,
+    options?: EntityOperationOptions & { timeoutMs?: number }
+  ): Promise<WebhookDeliveryAttempt> {
+    const record = await this.findEndpointRecord(entityId, endpointId, options);
+    if (!record) {
+      throw new WebhookError(
+        "Webhook endpoint not found",
+        WebhookErrorCode.ENDPOINT_NOT_FOUND
+      );
+    }
+
+    const payload: WebhookPayload = {
+      idempotencyKey: crypto.randomUUID(),
+      type: WEBHOOK_TEST_EVENT,
+      entityId,
+      actorUserId: options?.actorUserId ?? null,
+      targetType: AuditTargetType.WEBHOOK,
+      targetId: endpointId,
+      before: null,
+      after: null,
+      occurredAt: new Date().toISOString(),
+    };
+
+    return this.sendPayload(
+      record,
+      payload,
+      options?.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+  }
+
+  /**
+   * List the deliveries of an endpoint, newest first.
+   */
+  async listDeliveries(
+    entityId: string,
+    endpointId: string,
+    options?: ListWebhookDeliveriesOptions
+  ): Promise<WebhookDelivery[]> {
+    const deliveriesTable = this.requireDeliveriesTable();
+    const conditions = [
+      eq(deliveriesTable.entity_id, entityId),
+      eq(deliveriesTable.endpoint_id, endpointId),
+    ];
+
+    if (options?.status) {
+      conditions.push(eq(deliveriesTable.status, options.status));
+    }
+
+    const limit = Math.min(
+      options?.limit ?? DEFAULT_DELIVERY_PAGE_SIZE,
+      MAX_DELIVERY_PAGE_SIZE
+    );
+
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(deliveriesTable)
+      .where(and(...conditions))
+      .orderBy(desc(deliveriesTable.created_at))
+      .limit(limit)
+      .offset(options?.offset ?? 0);
+
+    return results.map((record: any) => this.mapRecordToDelivery(record));
+  }
+
+  /**
+   * Create an outbox sink that queues each event for the entity's active
+   * endpoints subscribed to it.
+   * Queuing is idempotent, so outbox retries never duplicate deliveries.
+   */
+  createOutboxSink(): OutboxSink {
+    return {
+      name: "webhooks",
+      deliver: async event => {
+        const endpointsTable = this.requireEndpointsTable();
+        const deliveriesTable = this.requireDeliveriesTable();
+
+        const endpoints = await this.config.db
+          .select()
+          .from(endpointsTable)
+          .where(
+            and(
+              eq(endpointsTable.entity_id, event.entityId),
+              eq(endpointsTable.is_active, true)
+            )
+          );
+
+        const subscribed = endpoints.filter((endpoint: any) => {
+          const eventTypes: string[] = endpoint.event_types ?? [];
+          return eventTypes.length === 0 || eventTypes.includes(event.type);
+        });
+
+        if (subscribed.length === 0) {
+          return;
+        }
+
+        await this.config.db
+          .insert(deliveriesTable)
+          .values(
+            subscribed.map((endpoint: any) => ({
+              endpoint_id: endpoint.id,
+              entity_id: event.entityId,
+              event_type: event.type,
+              idempotency_key: event.idempotencyKey,
+              payload: event,
+            }))
+          )
+          .onConflictDoNothing();
+      },
+    };
+  }
+
+  /**
+   * Send one batch of due deliveries.
+   * Failed requests are retried with exponential backoff; every attempt is
+   * kept in the delivery's history. Deliveries of disabled endpoints are
+   * skipped. Should be called periodically (e.g., by a cron job).
+   */
+  async dispatchPendingDeliveries(
+    options?: WebhookDispatchOptions
+  ): Promise<OutboxDispatchResult> {
+    const endpointsTable = this.requireEndpointsTable();
+    const deliveriesTable = this.requireDeliveriesTable();
+    const result: OutboxDispatchResult = {
+      delivered: 0,
+      retried: 0,
+      failed: 0,
+    };
+
+    const claimed = await this.claimDueDeliveries(options);
+    if (claimed.length === 0) {
+      return result;
+    }
+
+    const endpointIds = [
+      ...new Set(claimed.map((record: any) => record.endpoint_id)),
+    ];
+    const endpoints = await this.config.db
+      .select()
+      .from(endpointsTable)
+      .where(inArray(endpointsTable.id, endpointIds));
+    const endpointsById = new Map(
+      endpoints.map((endpoint: any) => [endpoint.id, endpoint])
+    );
+
+    for (const record of claimed) {
+      const endpoint = endpointsById.get(record.endpoint_id);
+      if (!endpoint) {
+        continue;
+      }
+
+      const attempt = await this.sendPayload(
+        endpoint,
+        record.payload as WebhookPayload,
+        options?.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      );
+      const attemptHistory = [...(record.attempt_history ?? []), attempt];
+      const now = new Date();
+
+      if (!attempt.error) {
+        await this.config.db
+          .update(deliveriesTable)
+          .set({
+            status: WebhookDeliveryStatus.DELIVERED,
+            attempt_history: attemptHistory,
+            delivered_at: now,
+            updated_at: now,
+          })
+          .where(eq(deliveriesTable.id, record.id));
+        result.delivered++;
+        continue;
+      }
+
+      const exhausted =
+        record.attempts >= (options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+      const delayMs = calculateRetryDelay(
+        record.attempts,
+        options?.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+        options?.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS
+      );
+
+      await this.config.db
+        .update(deliveriesTable)
+        .set({
+          status: exhausted
+            ? WebhookDeliveryStatus.FAILED
+            : WebhookDeliveryStatus.PENDING,
+          next_attempt_at: new Date(now.getTime() + delayMs),
+          attempt_history: attemptHistory,
+          updated_at: now,
+        })
+        .where(eq(deliveriesTable.id, record.id));
+
+      if (exhausted) {
+        result.failed++;
+      } else {
+        result.retried++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Lease a batch of due deliveries of active endpoints, oldest first, and
+   * count the attempt.
+   */
+  private async claimDueDeliveries(
+    options?: WebhookDispatchOptions
+  ): Promise<any[]> {
+    const endpointsTable = this.requireEndpointsTable();
+    const deliveriesTable = this.requireDeliveriesTable();
+    const now = new Date();
+
+    return this.config.db.transaction(async tx => {
+      const due = await tx
+        .select({ id: deliveriesTable.id })
+        .from(deliveriesTable)
+        .innerJoin(
+          endpointsTable,
+          eq(endpointsTable.id, deliveriesTable.endpoint_id)
+        )
+        .where(
+          and(
+            eq(deliveriesTable.status, WebhookDeliveryStatus.PENDING),
+            lte(deliveriesTable.next_attempt_at, now),
+            eq(endpointsTable.is_active, true)
+          )
+        )
+        .orderBy(asc(deliveriesTable.created_at))
+        .limit(options?.batchSize ?? DEFAULT_BATCH_SIZE)
+        .for("update", { of: deliveriesTable, skipLocked: true });
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      return tx
+        .update(deliveriesTable)
+        .set({
+          attempts: sql`${deliveriesTable.attempts} + 1`,
+          next_attempt_at: new Date(
+            now.getTime() + (options?.leaseMs ?? DEFAULT_LEASE_MS)
+          ),
+          updated_at: now,
+        })
+        .where(
+          inArray(
+            deliveriesTable.id,
+            due.map(({ id }: { id: string }) => id)
+          )
+        )
+        .returning();
+    });
+  }
+
+  /**
+   * POST a signed payload to an endpoint.
+   * Never throws; failures are reported in the returned attempt.
+   */
+  private async sendPayload(
+    endpoint: any,
+    payload: WebhookPayload,
+    timeoutMs: number
+  ): Promise<WebhookDeliveryAttempt> {
+    const body = JSON.stringify(payload);
+    const attemptedAt = new Date();
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": payload.idempotencyKey,
+          "X-Webhook-Event": payload.type,
+          [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(
+            endpoint.secret,
+            body
+          ),
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      return {
+        attemptedAt: attemptedAt.toISOString(),
+        responseStatus: response.status,
+        error: response.ok
+          ? null
+          : `Endpoint responded with status ${response.status}`,
+        durationMs: Date.now() - attemptedAt.getTime(),
+      };
+    } catch (error) {
+      return {
+        attemptedAt: attemptedAt.toISOString(),
+        responseStatus: null,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - attemptedAt.getTime(),
+      };
+    }
+  }
+
+  /**
+   * Enable or disable an endpoint.
+   */
+  private async setEndpointActive(
+    entityId: string,
+    endpointId: string,
+    isActive: boolean,
+    options?: EntityOperationOptions
+  ): Promise<WebhookEndpoint> {
+    const endpointsTable = this.requireEndpointsTable();
+    const existing = await this.getEndpoint(entityId, endpointId, options);
+    if (!existing) {
+      throw new WebhookError(
+        "Webhook endpoint not found",
+        WebhookErrorCode.ENDPOINT_NOT_FOUND
+      );
+    }
+
+    if (existing.isActive === isActive) {
+      return existing;
+    }
+
+    return runInTransaction(this.config.db, options?.tx, async tx => {
+      const [record] = await tx
+        .update(endpointsTable)
+        .set({
+          is_active: isActive,
+          disabled_at: isActive ? null : new Date(),
+          updated_at: new Date(),
+        })
+        .where(eq(endpointsTable.id, endpointId))
+        .returning();
+
+      await this.auditHelper.recordEvent(
+        {
+          entityId,
+          actorUserId: options?.actorUserId,
+          action: isActive
+            ? AuditAction.WEBHOOK_ENABLED
+            : AuditAction.WEBHOOK_DISABLED,
+          targetType: AuditTargetType.WEBHOOK,
+          targetId: endpointId,
+          before: { isActive: existing.isActive },
+          after: { isActive },
+        },
+        { tx }
+      );
+
+      return this.mapRecordToEndpoint(record);
+    });
+  }
+
+  /**
+   * Load the raw endpoint record (including the secret).
+   */
+  private async findEndpointRecord(
+    entityId: string,
+    endpointId: string,
+    options?: EntityOperationOptions
+  ): Promise<any | null> {
+    const endpointsTable = this.requireEndpointsTable();
+    const db = options?.tx ?? this.config.db;
+    const results = await db
+      .select()
+      .from(endpointsTable)
+      .where(
+        and(
+          eq(endpointsTable.id, endpointId),
+          eq(endpointsTable.entity_id, entityId)
+        )
+      )
+      .limit(1);
+
+    return results[0] ?? null;
+  }
+
+  /**
+   * Check that a webhook URL is absolute, uses HTTPS and does not point at a
+   * loopback, private, link-local or metadata address (see
+   * isPrivateWebhookHost).
+   * @returns The normalized URL
+   */
+  private validateUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      throw new WebhookError(
+        "Invalid webhook URL",
+        WebhookErrorCode.INVALID_URL
+      );
+    }
+
+    if (parsed.protocol !== "https:") {
+      throw new WebhookError(
+        "Webhook URL must use HTTPS",
+        WebhookErrorCode.INVALID_URL
+      );
+    }
+
+    if (isPrivateWebhookHost(parsed.hostname)) {
+      throw new WebhookError(
+        "Webhook URL must not point at a private or local address",
+        WebhookErrorCode.INVALID_URL
+      );
+    }
+
+    return parsed.toString();
+  }
+
+  /**
+   * Check that every event type is known.
+   * @returns The event types without duplicates
+   */
+  private validateEventTypes(eventTypes: AuditAction[]): AuditAction[] {
+    const unknown = eventTypes.filter(
+      type => !SUBSCRIBABLE_EVENT_TYPES.has(type)
+    );
+    if (unknown.length > 0) {
+      throw new WebhookError(
+        `Unknown event types: ${unknown.join(", ")}`,
+        WebhookErrorCode.UNKNOWN_EVENT_TYPE
+      );
+    }
+    return [...new Set(eventTypes)];
+  }
+
+  /**
+   * Endpoint fields recorded in the audit log (never the secret).
+   */
+  private toAuditState(endpoint: WebhookEndpoint): Record<string, unknown> {
+    return {
+      url: endpoint.url,
+      eventTypes: endpoint.eventTypes,
+      description: endpoint.description,
+    };
+  }
+
+  /**
+   * Get the webhook endpoints table or fail if webhooks are not enabled.
+   */
+  private requireEndpointsTable(): any {
+    if (!this.config.webhookEndpointsTable) {
+      throw new Error("Webhook endpoints table is not configured");
+    }
+    return this.config.webhookEndpointsTable;
+  }
+
+  /**
+   * Get the webhook deliveries table or fail if webhooks are not enabled.
+   */
+  private requireDeliveriesTable(): any {
+    if (!this.config.webhookDeliveriesTable) {
+      throw new Error("Webhook deliveries table is not configured");
+    }
+    return this.config.webhookDeliveriesTable;
+  }
+
+  /**
+   * Map database record to WebhookEndpoint type.
+   */
+  private mapRecordToEndpoint(record: any): WebhookEndpoint {
+    return {
+      id: record.id,
+      entityId: record.entity_id,
+      url: record.url,
+      description: record.description ?? null,
+      eventTypes: (record.event_types ?? []) as AuditAction[],
+      isActive: record.is_active,
+      createdByUserId: record.created_by_user_id ?? null,
+      disabledAt: record.disabled_at?.toISOString() ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+      updatedAt: record.updated_at?.toISOString() ?? new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Map database record to WebhookDelivery type.
+   */
+  private mapRecordToDelivery(record: any): WebhookDelivery {
+    return {
+      id: record.id,
+      endpointId: record.endpoint_id,
+      entityId: record.entity_id,
+      eventType: record.event_type as AuditAction,
+      idempotencyKey: record.idempotency_key,
+      status: record.status as WebhookDeliveryStatus,
+      attempts: record.attempts,
+      nextAttemptAt:
+        record.next_attempt_at?.toISOString() ?? new Date().toISOString(),
+      attemptHistory: record.attempt_history ?? [],
+      deliveredAt: record.delivered_at?.toISOString() ?? null,
+      createdAt: record.created_at?.toISOString() ?? new Date().toISOString(),
+    };
+  }
+}
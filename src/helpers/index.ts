@@ -5,4 +5,13 @@
 export { EntityHelper } from "./EntityHelper";
 export { EntityMemberHelper } from "./EntityMemberHelper";
 export { InvitationHelper } from "./InvitationHelper";
+export { InvitationScheduler } from "./InvitationScheduler";
 export { PermissionHelper } from "./PermissionHelper";
+export { RoleHelper } from "./RoleHelper";
+export { ApiKeyHelper } from "./ApiKeyHelper";
+export { AuditHelper } from "./AuditHelper";
+export { OutboxHelper } from "./OutboxHelper";
+export { OutboxDispatcher } from "./OutboxDispatcher";
+export { WebhookHelper } from "./WebhookHelper";
+export { DomainHelper } from "./DomainHelper";
+export { JoinRequestHelper } from "./JoinRequestHelper";
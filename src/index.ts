@@ -36,10 +36,46 @@ export {
   createEntityMembersTablePublic,
   createEntityInvitationsTable,
   createEntityInvitationsTablePublic,
+  createEntityOwnershipTransfersTable,
+  createEntityOwnershipTransfersTablePublic,
+  createEntitySlugHistoryTable,
+  createEntitySlugHistoryTablePublic,
+  createEntityRolesTable,
+  createEntityRolesTablePublic,
+  createEntityApiKeysTable,
+  createEntityApiKeysTablePublic,
+  createEntityAuditEventsTable,
+  createEntityAuditEventsTablePublic,
+  createEntityOutboxEventsTable,
+  createEntityOutboxEventsTablePublic,
+  createEntityWebhookEndpointsTable,
+  createEntityWebhookEndpointsTablePublic,
+  createEntityWebhookDeliveriesTable,
+  createEntityWebhookDeliveriesTablePublic,
+  createEntityInviteLinksTable,
+  createEntityInviteLinksTablePublic,
+  createEntityDomainsTable,
+  createEntityDomainsTablePublic,
+  createEntityJoinRequestsTable,
+  createEntityJoinRequestsTablePublic,
+  createEntityInvitationSettingsTable,
+  createEntityInvitationSettingsTablePublic,
   // Default tables (public schema)
   entities,
   entityMembers,
   entityInvitations,
+  entityOwnershipTransfers,
+  entitySlugHistory,
+  entityRoles,
+  entityApiKeys,
+  entityAuditEvents,
+  entityOutboxEvents,
+  entityWebhookEndpoints,
+  entityWebhookDeliveries,
+  entityInviteLinks,
+  entityDomains,
+  entityJoinRequests,
+  entityInvitationSettings,
   // Type exports
   type EntityRecord,
   type NewEntityRecord,
@@ -47,6 +83,30 @@ export {
   type NewEntityMemberRecord,
   type EntityInvitationRecord,
   type NewEntityInvitationRecord,
+  type EntityOwnershipTransferRecord,
+  type NewEntityOwnershipTransferRecord,
+  type EntitySlugHistoryRecord,
+  type NewEntitySlugHistoryRecord,
+  type EntityRoleRecord,
+  type NewEntityRoleRecord,
+  type EntityApiKeyRecord,
+  type NewEntityApiKeyRecord,
+  type EntityAuditEventRecord,
+  type NewEntityAuditEventRecord,
+  type EntityOutboxEventRecord,
+  type NewEntityOutboxEventRecord,
+  type EntityWebhookEndpointRecord,
+  type NewEntityWebhookEndpointRecord,
+  type EntityWebhookDeliveryRecord,
+  type NewEntityWebhookDeliveryRecord,
+  type EntityInviteLinkRecord,
+  type NewEntityInviteLinkRecord,
+  type EntityDomainRecord,
+  type NewEntityDomainRecord,
+  type EntityJoinRequestRecord,
+  type NewEntityJoinRequestRecord,
+  type EntityInvitationSettingsRecord,
+  type NewEntityInvitationSettingsRecord,
   // Initialization
   initEntityTables,
 } from "./schema/entities";
@@ -56,28 +116,77 @@ export {
   EntityHelper,
   EntityMemberHelper,
   InvitationHelper,
+  InvitationScheduler,
   PermissionHelper,
+  RoleHelper,
+  ApiKeyHelper,
+  AuditHelper,
+  OutboxHelper,
+  OutboxDispatcher,
+  WebhookHelper,
+  DomainHelper,
+  JoinRequestHelper,
 } from "./helpers";
 
 // Middleware exports
 export {
   createEntityContextMiddleware,
+  createApiKeyAuthMiddleware,
   createRequirePermissionMiddleware,
   createRequireRoleMiddleware,
   createEntityHelpers,
+  createWebhookRoutes,
   type EntityContext,
   type EntityContextMiddlewareOptions,
+  type ApiKeyAuthMiddlewareOptions,
+  type WebhookRoutesOptions,
 } from "./middleware";
 
 // Utility exports
 export {
   generateEntitySlug,
   generateInvitationToken,
+  hashInvitationToken,
+  parseInvitationCsv,
   normalizeSlug,
   validateSlug,
   calculateInvitationExpiry,
+  applyPermissionOverrides,
+  generateApiKey,
+  hashApiKey,
+  isApiKey,
+  API_KEY_PREFIX,
+  HookVetoError,
+  InvitationAcceptanceError,
+  InvitationPolicyError,
+  WebhookError,
+  createHandlerSink,
+  createWebhookSink,
+  type WebhookSinkOptions,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SECRET_PREFIX,
+  WEBHOOK_SIGNATURE_HEADER,
+  normalizeEmail,
+  normalizeEmailDomain,
+  getEmailDomain,
+  getDomainVerificationRecord,
+  DOMAIN_VERIFICATION_HOST_PREFIX,
+  parseMembershipExpiry,
+  notExpiredMembership,
 } from "./utils";
 
+// Notification exports
+export {
+  createEmailInvitationNotifier,
+  createMemoryTransport,
+  createConsoleTransport,
+  createSmtpTransport,
+  DEFAULT_INVITATION_TEMPLATES,
+  type MemoryEmailTransport,
+} from "./notifications";
+
 // Migration exports
 export {
   runEntityMigration,
@@ -85,7 +194,7 @@ export {
   type MigrationConfig,
 } from "./migrations";
 
-// Type exports (re-exported from @sudobility/types)
+// Type exports (re-exported from @sudobility/types; permissions, members and invitation statuses extended locally)
 export {
   EntityType,
   EntityRole,
@@ -98,7 +207,25 @@ export {
   type Entity,
   type EntityWithRole,
   type EntityMember,
+  type AddMemberOptions,
+  type MembershipMaintenanceOptions,
   type EntityInvitation,
+  type CreatedInvitation,
+  type InviteUserRequest,
+  InvitationAcceptancePolicy,
+  InvitationAcceptanceErrorCode,
+  type AcceptInvitationOptions,
+  type InvitationSettings,
+  type UpdateInvitationSettingsRequest,
+  InvitationPolicyErrorCode,
+  type InvitationExpiryOptions,
+  type InvitationMaintenanceOptions,
+  type InvitationSchedulerOptions,
+  type InvitationMaintenanceResult,
+  BulkInvitationStatus,
+  type BulkInvitationResult,
+  type InvitationCsvError,
+  type InvitationCsvParseResult,
   type EntityPermissions,
   type CreateEntityRequest,
   type UpdateEntityRequest,
@@ -106,11 +233,156 @@ export {
   type UpdateMemberRoleRequest,
 } from "./types";
 
+// Ownership transfer types
+export {
+  OwnershipTransferStatus,
+  OWNERSHIP_TRANSFER_EXPIRY_DAYS,
+  type OwnershipTransfer,
+} from "./types";
+
+// Custom role types
+export {
+  BUILT_IN_ROLE_RANKS,
+  MAX_CUSTOM_ROLE_RANK,
+  type EntityRoleKey,
+  type CustomRole,
+  type CreateCustomRoleRequest,
+  type UpdateCustomRoleRequest,
+} from "./types";
+
+// API key types
+export {
+  API_KEY_ROLE,
+  type ApiKey,
+  type CreatedApiKey,
+  type CreateApiKeyRequest,
+  type ApiKeyAuthentication,
+} from "./types";
+
+// Invite link types
+export type {
+  InviteLink,
+  CreatedInviteLink,
+  CreateInviteLinkRequest,
+} from "./types";
+
+// Domain types
+export {
+  DomainJoinPolicy,
+  type DnsResolver,
+  type EntityDomain,
+  type AddEntityDomainRequest,
+  type UpdateEntityDomainRequest,
+  type DomainJoinResult,
+} from "./types";
+
+// Join request types
+export {
+  JoinRequestStatus,
+  type JoinRequest,
+  type ListJoinRequestsOptions,
+} from "./types";
+
+// Audit log types
+export {
+  AuditAction,
+  AuditTargetType,
+  type AuditEvent,
+  type RecordAuditEventRequest,
+  type ListAuditEventsOptions,
+} from "./types";
+
+// Outbox types
+export {
+  OutboxEventStatus,
+  type EntityLifecycleEvent,
+  type OutboxSink,
+  type OutboxDispatcherOptions,
+  type OutboxDispatchResult,
+} from "./types";
+
+// Webhook types
+export {
+  WebhookDeliveryStatus,
+  WebhookErrorCode,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEventType,
+  type WebhookPayload,
+  type WebhookEndpoint,
+  type CreatedWebhookEndpoint,
+  type CreateWebhookEndpointRequest,
+  type UpdateWebhookEndpointRequest,
+  type WebhookDelivery,
+  type WebhookDeliveryAttempt,
+  type ListWebhookDeliveriesOptions,
+  type WebhookDispatchOptions,
+} from "./types";
+
+// Notification types
+export {
+  InvitationNotificationType,
+  type InvitationNotification,
+  type InvitationNotifier,
+  type EmailMessage,
+  type EmailTransport,
+  type InvitationEmailContext,
+  type InvitationEmailTemplate,
+  type RenderedEmail,
+  type EmailInvitationNotifierOptions,
+  type SmtpTransportOptions,
+} from "./types";
+
+// Lifecycle hook types
+export type {
+  EntityHooks,
+  BeforeHook,
+  AfterHook,
+  HookContext,
+  BeforeHookContext,
+  EntityCreateHookEvent,
+  EntityHookEvent,
+  EntityUpdateHookEvent,
+  EntityUpdatedHookEvent,
+  EntitiesPurgedHookEvent,
+  MemberAddHookEvent,
+  MemberHookEvent,
+  MemberRoleChangeHookEvent,
+  MemberRoleChangedHookEvent,
+  PermissionOverridesChangeHookEvent,
+  OwnershipTransferHookEvent,
+  OwnershipTransferredHookEvent,
+  OwnershipTransferRequestHookEvent,
+  OwnershipTransferCloseHookEvent,
+  InvitationCreateHookEvent,
+  InvitationHookEvent,
+  InvitationCreatedHookEvent,
+  InvitationAcceptHookEvent,
+  InvitationAcceptedHookEvent,
+  JoinRequestCreateHookEvent,
+  JoinRequestHookEvent,
+  JoinRequestApproveHookEvent,
+  JoinRequestApprovedHookEvent,
+} from "./types";
+
+// Permission override types
+export {
+  type PermissionOverrides,
+  type MemberPermissionOverrides,
+} from "./types";
+
 // Internal config types
 export type {
   EntityHelperConfig,
   InvitationHelperConfig,
+  EntityTransaction,
+  EntityOperationOptions,
   EntityOperationResult,
+  GetEntityOptions,
+  DeletedEntity,
+  HierarchicalEntity,
+  SlugAvailabilityOptions,
+  ResolvedEntitySlug,
+  EntitySlugHistoryEntry,
   ListEntitiesOptions,
   ListMembersOptions,
   ListInvitationsOptions,
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Tests for the API key Hono middleware
+ */
+
+import { describe, test, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import {
+  createApiKeyAuthMiddleware,
+  createRequirePermissionMiddleware,
+  createRequireRoleMiddleware,
+} from "./hono";
+import { ApiKeyHelper } from "../helpers/ApiKeyHelper";
+import { EntityHelper } from "../helpers/EntityHelper";
+import { EntityRole } from "../types";
+import { buildPermissions, generateApiKey } from "../utils";
+
+const mockEntity = { id: "entity-uuid-123", entitySlug: "acme" };
+const apiKey = { id: "key-uuid-1", entityId: mockEntity.id };
+
+function createApp() {
+  const app = new Hono();
+  app.use(
+    "/entities/:entitySlug/*",
+    createApiKeyAuthMiddleware({} as any, { allowMissingKey: false })
+  );
+  app.get(
+    "/entities/:entitySlug/members",
+    createRequirePermissionMiddleware("canManageMembers"),
+    c => c.json({ role: c.get("userRole"), rank: c.get("roleRank") })
+  );
+  app.get(
+    "/entities/:entitySlug/webhooks",
+    createRequirePermissionMiddleware("canManageWebhooks"),
+    c => c.json({ ok: true })
+  );
+  app.get(
+    "/entities/:entitySlug/settings",
+    createRequireRoleMiddleware(EntityRole.MEMBER),
+    c => c.json({ ok: true })
+  );
+  return app;
+}
+
+function request(app: Hono, path: string, key = generateApiKey()) {
+  return app.request(path, { headers: { Authorization: `Bearer ${key}` } });
+}
+
+describe("createApiKeyAuthMiddleware", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function authenticateAs(scopes: string[]) {
+    vi.spyOn(ApiKeyHelper.prototype, "authenticateApiKey").mockResolvedValue({
+      apiKey,
+      entity: mockEntity,
+      permissions: buildPermissions(scopes as any),
+    } as any);
+    vi.spyOn(EntityHelper.prototype, "resolveEntitySlug").mockResolvedValue({
+      entity: mockEntity,
+      isCanonical: true,
+    } as any);
+  }
+
+  test("keys act with role api_key, rank -1 and only their scopes", async () => {
+    authenticateAs(["canManageMembers"]);
+    const app = createApp();
+
+    const allowed = await request(app, "/entities/acme/members");
+    expect(allowed.status).toBe(200);
+    expect(await allowed.json()).toEqual({ role: "api_key", rank: -1 });
+
+    const denied = await request(app, "/entities/acme/webhooks");
+    expect(denied.status).toBe(403);
+  });
+
+  test("role requirements never pass for keys", async () => {
+    authenticateAs(["canManageMembers"]);
+    const app = createApp();
+
+    const response = await request(app, "/entities/acme/settings");
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: "Insufficient role" });
+  });
+
+  test("keys only work for their own entity", async () => {
+    authenticateAs(["canManageMembers"]);
+    vi.spyOn(EntityHelper.prototype, "resolveEntitySlug").mockResolvedValue({
+      entity: { id: "other-entity" },
+      isCanonical: true,
+    } as any);
+    const app = createApp();
+
+    const response = await request(app, "/entities/other/members");
+
+    expect(response.status).toBe(403);
+  });
+
+  test("missing and unknown keys are rejected", async () => {
+    vi.spyOn(ApiKeyHelper.prototype, "authenticateApiKey").mockResolvedValue(
+      null
+    );
+    const app = createApp();
+
+    const missing = await app.request("/entities/acme/members");
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ error: "API key required" });
+
+    const unknown = await request(app, "/entities/acme/members");
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toEqual({ error: "Invalid API key" });
+  });
+});
@@ -4,24 +4,42 @@
  */
 
 import type { Context, MiddlewareHandler } from "hono";
+import { ApiKeyHelper } from "../helpers/ApiKeyHelper";
+import { AuditHelper } from "../helpers/AuditHelper";
 import { EntityHelper } from "../helpers/EntityHelper";
 import { EntityMemberHelper } from "../helpers/EntityMemberHelper";
 import { InvitationHelper } from "../helpers/InvitationHelper";
+import { OutboxHelper } from "../helpers/OutboxHelper";
 import { PermissionHelper } from "../helpers/PermissionHelper";
+import { RoleHelper } from "../helpers/RoleHelper";
+import { WebhookHelper } from "../helpers/WebhookHelper";
+import { DomainHelper } from "../helpers/DomainHelper";
+import { JoinRequestHelper } from "../helpers/JoinRequestHelper";
 import {
-  EntityRole,
+  API_KEY_ROLE,
+  BUILT_IN_ROLE_RANKS,
+  type ApiKey,
+  type EntityRole,
   type Entity,
   type EntityPermissions,
+  type EntityRoleKey,
+  type EntityHooks,
   type InvitationHelperConfig,
 } from "../types";
+import { isApiKey } from "../utils";
 
 /**
  * Entity context available in Hono handlers.
  */
 export interface EntityContext {
   entity: Entity;
-  userRole: EntityRole;
+  /** Effective role: a built-in role or a custom role key */
+  userRole: EntityRoleKey;
+  /** Rank of the effective role, used for hierarchy checks */
+  roleRank: number;
   permissions: EntityPermissions;
+  /** The API key that authenticated the request (API key requests only) */
+  apiKey?: ApiKey;
 }
 
 /**
@@ -34,6 +52,32 @@ export interface EntityContextMiddlewareOptions {
   entitySlugParam?: string;
   /** Whether to allow unauthenticated access (default: false) */
   allowUnauthenticated?: boolean;
+  /** Status returned for soft-deleted entities: 404 hides them, 410 reports them as gone (default: 404) */
+  deletedEntityStatus?: 404 | 410;
+  /**
+   * How to handle a previous slug of a renamed entity:
+   * 'resolve' serves the current entity transparently, 'redirect' sends the
+   * client to the same URL with the current slug (default: 'resolve')
+   */
+  previousSlugHandling?: "resolve" | "redirect";
+  /** Redirect status used when previousSlugHandling is 'redirect' (default: 308) */
+  previousSlugRedirectStatus?: 301 | 308;
+}
+
+/**
+ * Options for API key authentication middleware.
+ */
+export interface ApiKeyAuthMiddlewareOptions {
+  /**
+   * Parameter name for entity slug in URL (default: 'entitySlug').
+   * When the route has this parameter, the key must belong to that entity.
+   */
+  entitySlugParam?: string;
+  /**
+   * Continue without entity context when the request carries no API key,
+   * e.g. to fall back to user authentication (default: false)
+   */
+  allowMissingKey?: boolean;
 }
 
 /**
@@ -63,6 +107,12 @@ export function createEntityContextMiddleware(
   const slugParam = options.entitySlugParam ?? "entitySlug";
 
   return async (c, next) => {
+    // Requests authenticated by createApiKeyAuthMiddleware already have their context
+    if (c.get("apiKey")) {
+      await next();
+      return;
+    }
+
     const entitySlug = c.req.param(slugParam);
 
     if (!entitySlug) {
@@ -75,13 +125,29 @@ export function createEntityContextMiddleware(
       return c.json({ error: "Authentication required" }, 401);
     }
 
-    // Get entity by slug
-    const entity = await entityHelper.getEntityBySlug(entitySlug);
+    // Get entity by slug (previous slugs resolve to the renamed entity)
+    const resolved = await entityHelper.resolveEntitySlug(entitySlug);
+    const entity = resolved?.entity;
 
     if (!entity) {
+      if (options.deletedEntityStatus === 410) {
+        const deleted = await entityHelper.getEntityBySlug(entitySlug, {
+          includeDeleted: true,
+        });
+        if (deleted) {
+          return c.json({ error: "Entity has been deleted" }, 410);
+        }
+      }
       return c.json({ error: "Entity not found" }, 404);
     }
 
+    if (!resolved.isCanonical && options.previousSlugHandling === "redirect") {
+      return c.redirect(
+        replaceSlugInUrl(c.req.url, entitySlug, entity.entitySlug),
+        options.previousSlugRedirectStatus ?? 308
+      );
+    }
+
     // If unauthenticated access is allowed and no user, continue without role
     if (!userId && options.allowUnauthenticated) {
       c.set("entity", entity);
@@ -96,24 +162,132 @@ export function createEntityContextMiddleware(
       return c.json({ error: "Access denied" }, 403);
     }
 
-    const permissions = permissionHelper.getPermissionsForRole(userRole);
+    const permissions = await permissionHelper.getEffectivePermissions(
+      entity.id,
+      userId!,
+      userRole
+    );
+    const roleRank = await permissionHelper.getRoleRank(entity.id, userRole);
 
     // Set entity context
     const entityContext: EntityContext = {
       entity,
       userRole,
+      roleRank,
       permissions,
     };
 
     c.set("entityContext", entityContext);
     c.set("entity", entity);
     c.set("userRole", userRole);
+    c.set("roleRank", roleRank);
     c.set("permissions", permissions);
 
     await next();
   };
 }
 
+/**
+ * Create middleware that authenticates an entity API key.
+ * Expects `Authorization: Bearer esk_...` and populates the same entity
+ * context as createEntityContextMiddleware. The context role is 'api_key'
+ * with rank -1, so role requirements never pass; guard machine-accessible
+ * routes with createRequirePermissionMiddleware, which checks the key's scopes.
+ *
+ * Usage:
+ * ```typescript
+ * const apiKeyAuth = createApiKeyAuthMiddleware(config, { allowMissingKey: true });
+ *
+ * // API key requests skip the user-based entity context middleware
+ * app.use('/api/v1/entities/:entitySlug/*', apiKeyAuth, entityContext);
+ * ```
+ */
+export function createApiKeyAuthMiddleware(
+  config: InvitationHelperConfig,
+  options: ApiKeyAuthMiddlewareOptions = {}
+): MiddlewareHandler {
+  const apiKeyHelper = new ApiKeyHelper(config);
+  const entityHelper = new EntityHelper(config);
+  const slugParam = options.entitySlugParam ?? "entitySlug";
+
+  return async (c, next) => {
+    const key = extractBearerApiKey(c.req.header("Authorization"));
+
+    if (!key) {
+      if (options.allowMissingKey) {
+        await next();
+        return;
+      }
+      return c.json({ error: "API key required" }, 401);
+    }
+
+    const authentication = await apiKeyHelper.authenticateApiKey(key);
+
+    if (!authentication) {
+      return c.json({ error: "Invalid API key" }, 401);
+    }
+
+    const { apiKey, entity, permissions } = authentication;
+
+    // A key only works for its own entity
+    const entitySlug = c.req.param(slugParam);
+    if (entitySlug) {
+      const resolved = await entityHelper.resolveEntitySlug(entitySlug);
+      if (resolved?.entity.id !== entity.id) {
+        return c.json({ error: "Access denied" }, 403);
+      }
+    }
+
+    const entityContext: EntityContext = {
+      entity,
+      userRole: API_KEY_ROLE,
+      roleRank: -1,
+      permissions,
+      apiKey,
+    };
+
+    c.set("entityContext", entityContext);
+    c.set("entity", entity);
+    c.set("userRole", API_KEY_ROLE);
+    c.set("roleRank", -1);
+    c.set("permissions", permissions);
+    c.set("apiKey", apiKey);
+
+    await next();
+  };
+}
+
+/**
+ * Extract an API key from a bearer Authorization header.
+ * Bearer tokens that are not API keys (e.g. user JWTs) are ignored.
+ */
+function extractBearerApiKey(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !isApiKey(match[1])) {
+    return null;
+  }
+  return match[1];
+}
+
+/**
+ * Replace the first path segment matching a previous slug with the current slug.
+ * Query string and remaining path are preserved.
+ */
+function replaceSlugInUrl(
+  requestUrl: string,
+  previousSlug: string,
+  currentSlug: string
+): string {
+  const url = new URL(requestUrl);
+  const segments = url.pathname.split("/");
+  const index = segments.indexOf(previousSlug);
+  if (index !== -1) {
+    segments[index] = currentSlug;
+  }
+  url.pathname = segments.join("/");
+  return url.toString();
+}
+
 /**
  * Create middleware that requires a specific permission.
  *
@@ -146,33 +320,35 @@ export function createRequirePermissionMiddleware(
 
 /**
  * Create middleware that requires a minimum role.
+ * Accepts a built-in role or a raw rank; custom roles are compared by the
+ * rank stored with them (built-in ranks: member 10, manager 50, owner 100).
  *
  * Usage:
  * ```typescript
  * const requireManager = createRequireRoleMiddleware(EntityRole.MANAGER);
  *
  * app.post('/api/v1/entities/:entitySlug/projects', requireManager, (c) => {
- *   // Only managers and owners can reach here
+ *   // Only managers, owners and custom roles ranked 50+ can reach here
  * });
  * ```
  */
 export function createRequireRoleMiddleware(
-  minimumRole: EntityRole
+  minimumRole: EntityRole | number
 ): MiddlewareHandler {
-  const roleHierarchy: Record<EntityRole, number> = {
-    [EntityRole.MEMBER]: 0,
-    [EntityRole.MANAGER]: 1,
-    [EntityRole.OWNER]: 2,
-  };
+  const minimumRank =
+    typeof minimumRole === "number"
+      ? minimumRole
+      : BUILT_IN_ROLE_RANKS[minimumRole];
 
   return async (c, next) => {
-    const userRole = c.get("userRole") as EntityRole | undefined;
+    const userRole = c.get("userRole") as EntityRoleKey | undefined;
+    const roleRank = c.get("roleRank") as number | undefined;
 
-    if (!userRole) {
+    if (!userRole || roleRank === undefined) {
       return c.json({ error: "Entity context not found" }, 500);
     }
 
-    if (roleHierarchy[userRole] < roleHierarchy[minimumRole]) {
+    if (roleRank < minimumRank) {
       return c.json({ error: "Insufficient role" }, 403);
     }
 
@@ -182,20 +358,37 @@ export function createRequireRoleMiddleware(
 
 /**
  * Create all entity helpers with shared config.
+ * Hooks passed here are added to the config's hooks (overriding hooks of the same name).
  *
  * Usage:
  * ```typescript
- * const helpers = createEntityHelpers(config);
+ * const helpers = createEntityHelpers(config, {
+ *   afterMemberAdd: ({ member }) => sendWelcomeEmail(member),
+ * });
  * const entity = await helpers.entity.getEntity(entityId);
  * const members = await helpers.members.getMembers(entityId);
  * ```
  */
-export function createEntityHelpers(config: InvitationHelperConfig) {
+export function createEntityHelpers(
+  baseConfig: InvitationHelperConfig,
+  hooks?: EntityHooks
+) {
+  const config = hooks
+    ? { ...baseConfig, hooks: { ...baseConfig.hooks, ...hooks } }
+    : baseConfig;
+
   return {
     entity: new EntityHelper(config),
     members: new EntityMemberHelper(config),
     invitations: new InvitationHelper(config),
     permissions: new PermissionHelper(config),
+    roles: new RoleHelper(config),
+    apiKeys: new ApiKeyHelper(config),
+    audit: new AuditHelper(config),
+    outbox: new OutboxHelper(config),
+    webhooks: new WebhookHelper(config),
+    domains: new DomainHelper(config),
+    joinRequests: new JoinRequestHelper(config),
   };
 }
 
@@ -206,7 +399,9 @@ declare module "hono" {
   interface ContextVariableMap {
     entityContext: EntityContext;
     entity: Entity;
-    userRole: EntityRole;
+    userRole: EntityRoleKey;
+    roleRank: number;
     permissions: EntityPermissions;
+    apiKey: ApiKey;
   }
 }
@@ -4,9 +4,13 @@
 
 export {
   createEntityContextMiddleware,
+  createApiKeyAuthMiddleware,
   createRequirePermissionMiddleware,
   createRequireRoleMiddleware,
   createEntityHelpers,
   type EntityContext,
   type EntityContextMiddlewareOptions,
+  type ApiKeyAuthMiddlewareOptions,
 } from "./hono";
+
+export { createWebhookRoutes, type WebhookRoutesOptions } from "./webhooks";
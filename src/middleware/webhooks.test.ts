@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Tests for the webhook routes
+ */
+
+import { describe, test, expect, vi, afterEach } from "vitest";
+import { Hono } from "hono";
+import { createWebhookRoutes } from "./webhooks";
+import { WebhookHelper } from "../helpers/WebhookHelper";
+import {
+  OWNER_PERMISSIONS,
+  WebhookDeliveryStatus,
+  WebhookErrorCode,
+} from "../types";
+import { WebhookError } from "../utils";
+
+function createApp() {
+  const app = new Hono();
+  app.use("*", async (c, next) => {
+    c.set("entity", { id: "entity-uuid-123" } as any);
+    c.set("permissions", OWNER_PERMISSIONS);
+    await next();
+  });
+  app.route(
+    "/webhooks",
+    createWebhookRoutes({} as any, { getUserId: () => "owner-uid" })
+  );
+  return app;
+}
+
+describe("createWebhookRoutes", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("malformed request bodies are rejected with 400", async () => {
+    const app = createApp();
+
+    for (const [method, path] of [
+      ["POST", "/webhooks"],
+      ["PATCH", "/webhooks/endpoint-uuid-1"],
+    ]) {
+      const response = await app.request(path, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: "{",
+      });
+      expect(response.status).toBe(400);
+    }
+  });
+
+  test("refused requests map to their status and other errors to 500", async () => {
+    vi.spyOn(WebhookHelper.prototype, "disableEndpoint")
+      .mockRejectedValueOnce(
+        new WebhookError(
+          "Webhook endpoint not found",
+          WebhookErrorCode.ENDPOINT_NOT_FOUND
+        )
+      )
+      .mockRejectedValueOnce(
+        new WebhookError("Invalid webhook URL", WebhookErrorCode.INVALID_URL)
+      )
+      .mockRejectedValueOnce(new Error('relation "secret_table" not found'));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const app = createApp();
+    const disable = () =>
+      app.request("/webhooks/endpoint-uuid-1/disable", { method: "POST" });
+
+    const missing = await disable();
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      error: "Webhook endpoint not found",
+      code: WebhookErrorCode.ENDPOINT_NOT_FOUND,
+    });
+
+    expect((await disable()).status).toBe(400);
+
+    const failed = await disable();
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ error: "Internal server error" });
+  });
+
+  test("invalid delivery query parameters are rejected with 400", async () => {
+    vi.spyOn(WebhookHelper.prototype, "getEndpoint").mockResolvedValue({
+      id: "endpoint-uuid-1",
+    } as any);
+    const listDeliveries = vi
+      .spyOn(WebhookHelper.prototype, "listDeliveries")
+      .mockResolvedValue([]);
+    const app = createApp();
+    const path = "/webhooks/endpoint-uuid-1/deliveries";
+
+    for (const query of [
+      "limit=abc",
+      "limit=0",
+      "limit=2.5",
+      "offset=-1",
+      "offset=",
+      "status=lost",
+    ]) {
+      expect((await app.request(`${path}?${query}`)).status).toBe(400);
+    }
+    expect(listDeliveries).not.toHaveBeenCalled();
+
+    const response = await app.request(
+      `${path}?status=failed&limit=10&offset=20`
+    );
+    expect(response.status).toBe(200);
+    expect(listDeliveries).toHaveBeenCalledWith(
+      "entity-uuid-123",
+      "endpoint-uuid-1",
+      { status: WebhookDeliveryStatus.FAILED, limit: 10, offset: 20 }
+    );
+  });
+});
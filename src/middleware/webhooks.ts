@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Hono Routes for Entity Webhooks
+ * @description Routes to register, test, disable and inspect webhook endpoints
+ */
+
+import { Hono, type Context } from "hono";
+import { WebhookHelper } from "../helpers/WebhookHelper";
+import {
+  WebhookDeliveryStatus,
+  WebhookErrorCode,
+  type CreateWebhookEndpointRequest,
+  type EntityHelperConfig,
+  type ListWebhookDeliveriesOptions,
+  type UpdateWebhookEndpointRequest,
+} from "../types";
+import { WebhookError } from "../utils";
+import { createRequirePermissionMiddleware } from "./hono";
+
+/**
+ * Options for webhook routes.
+ */
+export interface WebhookRoutesOptions {
+  /** Function to get the user ID from the request context (null for API keys) */
+  getUserId: (c: Context) => string | null;
+}
+
+/**
+ * Create routes for managing the webhook endpoints of an entity.
+ * Mount them below a path covered by the entity context (or API key)
+ * middleware; every route requires the `canManageWebhooks` permission.
+ *
+ * Routes (relative to the mount point):
+ * - `GET /` list endpoints
+ * - `POST /` register an endpoint (the response includes the secret)
+ * - `PATCH /:endpointId` change URL, event types or description
+ * - `POST /:endpointId/test` send a signed test event
+ * - `POST /:endpointId/disable`, `POST /:endpointId/enable`
+ * - `DELETE /:endpointId` delete an endpoint
+ * - `GET /:endpointId/deliveries` list deliveries with attempt history
+ *
+ * Usage:
+ * ```typescript
+ * app.use('/api/v1/entities/:entitySlug/*', entityContext);
+ * app.route(
+ *   '/api/v1/entities/:entitySlug/webhooks',
+ *   createWebhookRoutes(config, { getUserId: (c) => c.get('userId') })
+ * );
+ * ```
+ */
+export function createWebhookRoutes(
+  config: EntityHelperConfig,
+  options: WebhookRoutesOptions
+): Hono {
+  const webhookHelper = new WebhookHelper(config);
+  const app = new Hono();
+
+  const actorOptions = (c: Context) => ({
+    actorUserId: options.getUserId(c) ?? undefined,
+  });
+
+  app.use("*", createRequirePermissionMiddleware("canManageWebhooks"));
+
+  app.get("/", async c => {
+    const endpoints = await webhookHelper.listEndpoints(c.get("entity").id);
+    return c.json({ endpoints });
+  });
+
+  app.post("/", async c => {
+    const userId = options.getUserId(c);
+    return handleErrors(c, async () => {
+      const body = await c.req.json<CreateWebhookEndpointRequest>();
+      const endpoint = await webhookHelper.createEndpoint(
+        c.get("entity").id,
+        userId,
+        body,
+        actorOptions(c)
+      );
+      return c.json({ endpoint }, 201);
+    });
+  });
+
+  app.patch("/:endpointId", async c =>
+    handleErrors(c, async () => {
+      const body = await c.req.json<UpdateWebhookEndpointRequest>();
+      const endpoint = await webhookHelper.updateEndpoint(
+        c.get("entity").id,
+        c.req.param("endpointId"),
+        body,
+        actorOptions(c)
+      );
+      return c.json({ endpoint });
+    })
+  );
+
+  app.post("/:endpointId/test", async c =>
+    handleErrors(c, async () => {
+      const attempt = await webhookHelper.testEndpoint(
+        c.get("entity").id,
+        c.req.param("endpointId"),
+        actorOptions(c)
+      );
+      return c.json({ attempt });
+    })
+  );
+
+  app.post("/:endpointId/disable", async c =>
+    handleErrors(c, async () => {
+      const endpoint = await webhookHelper.disableEndpoint(
+        c.get("entity").id,
+        c.req.param("endpointId"),
+        actorOptions(c)
+      );
+      return c.json({ endpoint });
+    })
+  );
+
+  app.post("/:endpointId/enable", async c =>
+    handleErrors(c, async () => {
+      const endpoint = await webhookHelper.enableEndpoint(
+        c.get("entity").id,
+        c.req.param("endpointId"),
+        actorOptions(c)
+      );
+      return c.json({ endpoint });
+    })
+  );
+
+  app.delete("/:endpointId", async c =>
+    handleErrors(c, async () => {
+      await webhookHelper.deleteEndpoint(
+        c.get("entity").id,
+        c.req.param("endpointId"),
+        actorOptions(c)
+      );
+      return c.body(null, 204);
+    })
+  );
+
+  app.get("/:endpointId/deliveries", async c => {
+    const entityId = c.get("entity").id;
+    const endpointId = c.req.param("endpointId");
+    const endpoint = await webhookHelper.getEndpoint(entityId, endpointId);
+    if (!endpoint) {
+      return c.json({ error: "Webhook endpoint not found" }, 404);
+    }
+
+    const query = parseDeliveriesQuery(c);
+    if (typeof query === "string") {
+      return c.json({ error: query }, 400);
+    }
+
+    const deliveries = await webhookHelper.listDeliveries(
+      entityId,
+      endpointId,
+      query
+    );
+    return c.json({ deliveries });
+  });
+
+  return app;
+}
+
+/**
+ * Read the `status`, `limit` and `offset` query parameters of the deliveries
+ * route.
+ * @returns The list options, or an error message for invalid values
+ */
+function parseDeliveriesQuery(
+  c: Context
+): ListWebhookDeliveriesOptions | string {
+  const status = c.req.query("status");
+  if (
+    status !== undefined &&
+    !Object.values(WebhookDeliveryStatus).includes(
+      status as WebhookDeliveryStatus
+    )
+  ) {
+    return `status must be one of: ${Object.values(WebhookDeliveryStatus).join(", ")}`;
+  }
+
+  const limit = parseIntegerQuery(c.req.query("limit"), 1);
+  if (Number.isNaN(limit)) {
+    return "limit must be a positive integer";
+  }
+
+  const offset = parseIntegerQuery(c.req.query("offset"), 0);
+  if (Number.isNaN(offset)) {
+    return "offset must be a non-negative integer";
+  }
+
+  return {
+    status: status as WebhookDeliveryStatus | undefined,
+    limit,
+    offset,
+  };
+}
+
+/**
+ * Parse an optional integer query parameter.
+ * @returns The value (undefined when absent), or NaN below `min` or not an
+ * integer
+ */
+function parseIntegerQuery(
+  value: string | undefined,
+  min: number
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = /^\d+$/.test(value) ? Number(value) : NaN;
+  return parsed >= min ? parsed : NaN;
+}
+
+/** Response status for each refused webhook request */
+const WEBHOOK_ERROR_STATUS = {
+  [WebhookErrorCode.ENTITY_NOT_FOUND]: 404,
+  [WebhookErrorCode.ENDPOINT_NOT_FOUND]: 404,
+  [WebhookErrorCode.INVALID_URL]: 400,
+  [WebhookErrorCode.UNKNOWN_EVENT_TYPE]: 400,
+} as const satisfies Record<WebhookErrorCode, number>;
+
+/**
+ * Turn refused requests and malformed request bodies into JSON error
+ * responses. Any other error is logged and answered with a generic 500, so
+ * internal messages never reach the client.
+ */
+async function handleErrors(
+  c: Context,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return c.json(
+        { error: error.message, code: error.code },
+        WEBHOOK_ERROR_STATUS[error.code]
+      );
+    }
+    if (error instanceof SyntaxError) {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+    console.error("Webhook route failed:", error);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+}
@@ -3,7 +3,12 @@
  * @description Creates entity tables and migrates existing data
  *
  * This migration:
- * 1. Creates entities, entity_members, entity_invitations tables
+ * 1. Creates entities, entity_members, entity_invitations,
+ *    entity_ownership_transfers, entity_slug_history, entity_roles,
+ *    entity_api_keys, entity_audit_events, entity_outbox_events,
+ *    entity_webhook_endpoints, entity_webhook_deliveries,
+ *    entity_invite_links, entity_domains, entity_join_requests and
+ *    entity_invitation_settings tables
  * 2. Adds entity_id column to projects table (nullable for backward compatibility)
  * 3. Creates personal entities for existing users
  * 4. Populates entity_id for existing projects
@@ -80,6 +85,9 @@ async function createEntityTables(
       display_name VARCHAR(255) NOT NULL,
       description TEXT,
       avatar_url TEXT,
+      personal_owner_id VARCHAR(128),
+      deleted_at TIMESTAMPTZ,
+      parent_entity_id UUID REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
       created_at TIMESTAMPTZ DEFAULT NOW(),
       updated_at TIMESTAMPTZ DEFAULT NOW()
     )
@@ -95,14 +103,39 @@ async function createEntityTables(
     ON ${prefix}entities (entity_type)
   `);
 
+  // Soft delete marker for organizations awaiting purge
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entities",
+    "deleted_at",
+    "TIMESTAMPTZ"
+  );
+
+  // Parent organization for teams / sub-organizations
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entities",
+    "parent_entity_id",
+    `UUID REFERENCES ${prefix}entities(id) ON DELETE CASCADE`
+  );
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entities_parent_idx
+    ON ${prefix}entities (parent_entity_id)
+  `);
+
   // Create entity_members table (tracks all user-entity relationships including ownership)
   await client.unsafe(`
     CREATE TABLE IF NOT EXISTS ${prefix}entity_members (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
       user_id VARCHAR(128) NOT NULL,
-      role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'manager', 'member')),
+      role VARCHAR(20) NOT NULL,
       is_active BOOLEAN NOT NULL DEFAULT true,
+      permission_overrides JSONB,
+      expires_at TIMESTAMPTZ,
       joined_at TIMESTAMPTZ DEFAULT NOW(),
       created_at TIMESTAMPTZ DEFAULT NOW(),
       updated_at TIMESTAMPTZ DEFAULT NOW(),
@@ -111,19 +144,36 @@ async function createEntityTables(
   `);
 
   // Add is_active column if it doesn't exist (for upgrading existing tables)
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_members",
+    "is_active",
+    "BOOLEAN NOT NULL DEFAULT true"
+  );
+
+  // Per-member permission overrides
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_members",
+    "permission_overrides",
+    "JSONB"
+  );
+
+  // Time-bound memberships
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_members",
+    "expires_at",
+    "TIMESTAMPTZ"
+  );
+
+  // Roles may be custom role keys; drop the built-in-only check from older tables
   await client.unsafe(`
-    DO $$
-    BEGIN
-      IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns
-        WHERE table_schema = '${prefix.replace(".", "")}'
-        AND table_name = 'entity_members'
-        AND column_name = 'is_active'
-      ) THEN
-        ALTER TABLE ${prefix}entity_members
-        ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
-      END IF;
-    END $$;
+    ALTER TABLE ${prefix}entity_members
+    DROP CONSTRAINT IF EXISTS entity_members_role_check
   `);
 
   await client.unsafe(`
@@ -146,18 +196,40 @@ async function createEntityTables(
     ON ${prefix}entity_members (is_active)
   `);
 
+  // Add personal_owner_id and backfill it before enforcing one personal entity per user
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entities",
+    "personal_owner_id",
+    "VARCHAR(128)"
+  );
+  await backfillPersonalOwners(client, prefix);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entities_personal_owner_idx
+    ON ${prefix}entities (personal_owner_id)
+  `);
+
   // Create entity_invitations table
   await client.unsafe(`
     CREATE TABLE IF NOT EXISTS ${prefix}entity_invitations (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
       email VARCHAR(255) NOT NULL,
+      invited_user_id VARCHAR(128),
       role VARCHAR(20) NOT NULL CHECK (role IN ('manager', 'member')),
-      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired')),
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'revoked')),
       invited_by_user_id VARCHAR(128) NOT NULL,
-      token VARCHAR(64) NOT NULL UNIQUE,
+      token VARCHAR(64) UNIQUE,
+      token_hash VARCHAR(64),
+      previous_token_hashes JSONB NOT NULL DEFAULT '[]',
       expires_at TIMESTAMPTZ NOT NULL,
+      membership_expires_at TIMESTAMPTZ,
       accepted_at TIMESTAMPTZ,
+      reminded_at TIMESTAMPTZ,
+      revoked_by_user_id VARCHAR(128),
+      revoked_at TIMESTAMPTZ,
       created_at TIMESTAMPTZ DEFAULT NOW(),
       updated_at TIMESTAMPTZ DEFAULT NOW()
     )
@@ -168,6 +240,95 @@ async function createEntityTables(
     ON ${prefix}entity_invitations (token)
   `);
 
+  // Tokens are stored hashed. The hash is keyed with a secret only the
+  // application knows, so existing plaintext tokens are not converted here:
+  // calling InvitationHelper.hashLegacyInvitationTokens once after this
+  // migration is required
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_invitations",
+    "token_hash",
+    "VARCHAR(64)"
+  );
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ALTER COLUMN token DROP NOT NULL
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_token_hash_idx
+    ON ${prefix}entity_invitations (token_hash)
+  `);
+
+  // Reminders' new tokens do not invalidate the ones sent before them
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_invitations",
+    "previous_token_hashes",
+    "JSONB NOT NULL DEFAULT '[]'"
+  );
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_previous_token_hashes_idx
+    ON ${prefix}entity_invitations USING GIN (previous_token_hashes)
+  `);
+
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_invitations",
+    "reminded_at",
+    "TIMESTAMPTZ"
+  );
+
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_invitations",
+    "revoked_by_user_id",
+    "VARCHAR(128)"
+  );
+
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_invitations",
+    "revoked_at",
+    "TIMESTAMPTZ"
+  );
+
+  // Revoked invitations are kept (upgrades tables created without the status)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    DROP CONSTRAINT IF EXISTS entity_invitations_status_check
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD CONSTRAINT entity_invitations_status_check
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'revoked'))
+  `);
+
+  // Invitations may name a known user instead of relying on the email
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_invitations",
+    "invited_user_id",
+    "VARCHAR(128)"
+  );
+
+  await addColumnIfMissing(
+    client,
+    prefix,
+    "entity_invitations",
+    "membership_expires_at",
+    "TIMESTAMPTZ"
+  );
+
   await client.unsafe(`
     CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_entity_idx
     ON ${prefix}entity_invitations (entity_id)
@@ -178,14 +339,389 @@ async function createEntityTables(
     ON ${prefix}entity_invitations (email)
   `);
 
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_invited_user_idx
+    ON ${prefix}entity_invitations (invited_user_id)
+  `);
+
   await client.unsafe(`
     CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_status_idx
     ON ${prefix}entity_invitations (status)
   `);
 
+  // Create entity_ownership_transfers table (two-step ownership hand-offs)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_ownership_transfers (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      from_user_id VARCHAR(128) NOT NULL,
+      to_user_id VARCHAR(128) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'expired')),
+      expires_at TIMESTAMPTZ NOT NULL,
+      responded_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_ownership_transfers_entity_idx
+    ON ${prefix}entity_ownership_transfers (entity_id)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_ownership_transfers_to_user_idx
+    ON ${prefix}entity_ownership_transfers (to_user_id)
+  `);
+
+  // Create entity_slug_history table (previous slugs of renamed entities)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_slug_history (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      slug VARCHAR(12) NOT NULL UNIQUE,
+      reserved_until TIMESTAMPTZ NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_slug_history_slug_idx
+    ON ${prefix}entity_slug_history (slug)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_slug_history_entity_idx
+    ON ${prefix}entity_slug_history (entity_id)
+  `);
+
+  // Create entity_roles table (custom per-entity roles)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_roles (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      role_key VARCHAR(20) NOT NULL,
+      display_name VARCHAR(255) NOT NULL,
+      description TEXT,
+      permissions JSONB NOT NULL DEFAULT '[]',
+      rank INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE(entity_id, role_key)
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_roles_entity_role_key_idx
+    ON ${prefix}entity_roles (entity_id, role_key)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_roles_entity_idx
+    ON ${prefix}entity_roles (entity_id)
+  `);
+
+  // Create entity_api_keys table (hashed API keys for machine clients)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_api_keys (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      name VARCHAR(255) NOT NULL,
+      key_prefix VARCHAR(16) NOT NULL,
+      key_hash VARCHAR(64) NOT NULL UNIQUE,
+      scopes JSONB NOT NULL DEFAULT '[]',
+      created_by_user_id VARCHAR(128) NOT NULL,
+      expires_at TIMESTAMPTZ,
+      last_used_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_api_keys_key_hash_idx
+    ON ${prefix}entity_api_keys (key_hash)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_api_keys_entity_idx
+    ON ${prefix}entity_api_keys (entity_id)
+  `);
+
+  // Create entity_audit_events table (who changed what). entity_id has no
+  // foreign key, so the log outlives purged entities
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_audit_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL,
+      actor_user_id VARCHAR(128),
+      action VARCHAR(64) NOT NULL,
+      target_type VARCHAR(32) NOT NULL,
+      target_id VARCHAR(128),
+      before JSONB,
+      after JSONB,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_audit_events
+    DROP CONSTRAINT IF EXISTS entity_audit_events_entity_id_fkey
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_audit_events_entity_created_idx
+    ON ${prefix}entity_audit_events (entity_id, created_at)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_audit_events_actor_idx
+    ON ${prefix}entity_audit_events (actor_user_id)
+  `);
+
+  // Create entity_outbox_events table (lifecycle events awaiting delivery)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_outbox_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      idempotency_key VARCHAR(64) NOT NULL,
+      entity_id UUID NOT NULL,
+      event_type VARCHAR(64) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      delivered_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_outbox_events_idempotency_key_idx
+    ON ${prefix}entity_outbox_events (idempotency_key)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_outbox_events_pending_idx
+    ON ${prefix}entity_outbox_events (status, next_attempt_at)
+  `);
+
+  // Create entity_webhook_endpoints table (per-entity HTTP callbacks)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_webhook_endpoints (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      url TEXT NOT NULL,
+      description TEXT,
+      secret VARCHAR(128) NOT NULL,
+      event_types JSONB NOT NULL DEFAULT '[]',
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_by_user_id VARCHAR(128),
+      disabled_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_webhook_endpoints_entity_idx
+    ON ${prefix}entity_webhook_endpoints (entity_id)
+  `);
+
+  // Create entity_webhook_deliveries table (one row per event and endpoint)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_webhook_deliveries (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      endpoint_id UUID NOT NULL REFERENCES ${prefix}entity_webhook_endpoints(id) ON DELETE CASCADE,
+      entity_id UUID NOT NULL,
+      event_type VARCHAR(64) NOT NULL,
+      idempotency_key VARCHAR(64) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      attempt_history JSONB NOT NULL DEFAULT '[]',
+      delivered_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_webhook_deliveries_endpoint_event_idx
+    ON ${prefix}entity_webhook_deliveries (endpoint_id, idempotency_key)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_webhook_deliveries_pending_idx
+    ON ${prefix}entity_webhook_deliveries (status, next_attempt_at)
+  `);
+
+  // Create entity_invite_links table (shareable multi-use join links)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_invite_links (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      token_hash VARCHAR(64) NOT NULL,
+      role VARCHAR(20) NOT NULL CHECK (role IN ('manager', 'member')),
+      max_uses INTEGER CHECK (max_uses > 0),
+      use_count INTEGER NOT NULL DEFAULT 0,
+      allowed_email_domain VARCHAR(255),
+      created_by_user_id VARCHAR(128),
+      expires_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_invite_links_token_hash_idx
+    ON ${prefix}entity_invite_links (token_hash)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invite_links_entity_idx
+    ON ${prefix}entity_invite_links (entity_id)
+  `);
+
+  // Create entity_domains table (email domains organizations can claim)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_domains (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      domain VARCHAR(255) NOT NULL,
+      verification_token VARCHAR(64) NOT NULL,
+      verified_at TIMESTAMPTZ,
+      join_policy VARCHAR(20) NOT NULL DEFAULT 'auto_join' CHECK (join_policy IN ('auto_join', 'request_to_join')),
+      default_role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (default_role IN ('manager', 'member')),
+      created_by_user_id VARCHAR(128),
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_domains_entity_domain_idx
+    ON ${prefix}entity_domains (entity_id, domain)
+  `);
+
+  // A domain can be verified by one entity only
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_domains_verified_idx
+    ON ${prefix}entity_domains (domain)
+    WHERE verified_at IS NOT NULL
+  `);
+
+  // Create entity_join_requests table (users asking to join an organization)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_join_requests (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      user_id VARCHAR(128) NOT NULL,
+      message TEXT,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied', 'cancelled')),
+      reviewed_by_user_id VARCHAR(128),
+      reviewed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_join_requests_entity_status_idx
+    ON ${prefix}entity_join_requests (entity_id, status)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_join_requests_user_idx
+    ON ${prefix}entity_join_requests (user_id)
+  `);
+
+  // A user can have one pending request per entity
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_join_requests_pending_idx
+    ON ${prefix}entity_join_requests (entity_id, user_id)
+    WHERE status = 'pending'
+  `);
+
+  // Create entity_invitation_settings table (per-entity invitation policy)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_invitation_settings (
+      entity_id UUID PRIMARY KEY REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      default_expiry_days INTEGER CHECK (default_expiry_days > 0),
+      max_expiry_days INTEGER CHECK (max_expiry_days > 0),
+      max_pending_invitations INTEGER CHECK (max_pending_invitations >= 0),
+      grantable_roles JSONB,
+      updated_by_user_id VARCHAR(128),
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
   console.log("Entity tables created");
 }
 
+/**
+ * Add a column to an existing table if it doesn't exist yet.
+ * Used to upgrade tables created by earlier versions of this migration.
+ */
+async function addColumnIfMissing(
+  client: ReturnType<typeof import("postgres")>,
+  prefix: string,
+  tableName: string,
+  columnName: string,
+  definition: string
+): Promise<void> {
+  await client.unsafe(`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = '${prefix.replace(".", "")}'
+        AND table_name = '${tableName}'
+        AND column_name = '${columnName}'
+      ) THEN
+        ALTER TABLE ${prefix}${tableName}
+        ADD COLUMN ${columnName} ${definition};
+      END IF;
+    END $$;
+  `);
+}
+
+/**
+ * Set personal_owner_id on existing personal entities.
+ * If a user already has duplicate personal entities, only the oldest one is
+ * claimed; the others are left untouched so no data is lost.
+ */
+async function backfillPersonalOwners(
+  client: ReturnType<typeof import("postgres")>,
+  prefix: string
+): Promise<void> {
+  const result = await client.unsafe(`
+    UPDATE ${prefix}entities e
+    SET personal_owner_id = oldest.user_id
+    FROM (
+      SELECT DISTINCT ON (em.user_id) em.user_id, em.entity_id
+      FROM ${prefix}entity_members em
+      INNER JOIN ${prefix}entities pe ON pe.id = em.entity_id
+      WHERE em.role = 'owner'
+      AND pe.entity_type = 'personal'
+      ORDER BY em.user_id, pe.created_at ASC
+    ) oldest
+    WHERE e.id = oldest.entity_id
+    AND e.personal_owner_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM ${prefix}entities claimed
+      WHERE claimed.personal_owner_id = oldest.user_id
+    )
+  `);
+
+  console.log(`Backfilled personal owner for ${result.count || 0} entities`);
+}
+
 /**
  * Add entity_id column to projects table.
  */
@@ -314,13 +850,19 @@ async function migrateUsersToPersonalEntities(
       // Create personal entity
       const [entity] = await client.unsafe(
         `
-        INSERT INTO ${prefix}entities (entity_slug, entity_type, display_name)
-        VALUES ($1, 'personal', $2)
+        INSERT INTO ${prefix}entities (entity_slug, entity_type, display_name, personal_owner_id)
+        VALUES ($1, 'personal', $2, $3)
+        ON CONFLICT (personal_owner_id) DO NOTHING
         RETURNING id
       `,
-        [slug, displayName]
+        [slug, displayName, firebaseUid]
       );
 
+      // Personal entity was created concurrently (e.g., by a first login)
+      if (!entity) {
+        continue;
+      }
+
       // Add user as owner of their personal entity
       await client.unsafe(
         `
@@ -337,13 +879,18 @@ async function migrateUsersToPersonalEntities(
         const newSlug = generateSlug();
         const [entity] = await client.unsafe(
           `
-          INSERT INTO ${prefix}entities (entity_slug, entity_type, display_name)
-          VALUES ($1, 'personal', $2)
+          INSERT INTO ${prefix}entities (entity_slug, entity_type, display_name, personal_owner_id)
+          VALUES ($1, 'personal', $2, $3)
+          ON CONFLICT (personal_owner_id) DO NOTHING
           RETURNING id
         `,
-          [newSlug, displayName]
+          [newSlug, displayName, firebaseUid]
         );
 
+        if (!entity) {
+          continue;
+        }
+
         await client.unsafe(
           `
           INSERT INTO ${prefix}entity_members (entity_id, user_id, role, is_active)
@@ -429,6 +976,24 @@ export async function rollbackEntityMigration(
   }
 
   // Drop tables in reverse order
+  await client.unsafe(
+    `DROP TABLE IF EXISTS ${prefix}entity_invitation_settings`
+  );
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_join_requests`);
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_domains`);
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_invite_links`);
+  await client.unsafe(
+    `DROP TABLE IF EXISTS ${prefix}entity_webhook_deliveries`
+  );
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_webhook_endpoints`);
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_outbox_events`);
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_audit_events`);
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_api_keys`);
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_roles`);
+  await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_slug_history`);
+  await client.unsafe(
+    `DROP TABLE IF EXISTS ${prefix}entity_ownership_transfers`
+  );
   await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_invitations`);
   await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entity_members`);
   await client.unsafe(`DROP TABLE IF EXISTS ${prefix}entities`);
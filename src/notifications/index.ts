@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Notification Exports
+ */
+
+export * from "./templates";
+export * from "./transports";
+export * from "./notifier";
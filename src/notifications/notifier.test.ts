@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Tests for invitation email notifications
+ */
+
+import { createServer, type AddressInfo } from "node:net";
+import { describe, test, expect } from "vitest";
+import { createEmailInvitationNotifier } from "./notifier";
+import { createMemoryTransport, createSmtpTransport } from "./transports";
+import {
+  EntityRole,
+  InvitationNotificationType,
+  InvitationStatus,
+  type InvitationNotification,
+} from "../types";
+
+function createNotification(
+  type: InvitationNotificationType,
+  inviterEmail: string | null = "owner@acme.test"
+): InvitationNotification {
+  return {
+    type,
+    invitation: {
+      id: "invitation-uuid-1",
+      entityId: "entity-uuid-123",
+      email: "new@acme.test",
+      role: EntityRole.MANAGER,
+      status: InvitationStatus.PENDING,
+      invitedByUserId: "owner-uid",
+      expiresAt: "2026-01-08T00:00:00.000Z",
+      acceptedAt: null,
+      invitedUserId: null,
+      remindedAt: null,
+      revokedByUserId: null,
+      revokedAt: null,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    },
+    token: "token-abc",
+    entity: {
+      id: "entity-uuid-123",
+      entitySlug: "acme",
+      displayName: "Acme <Labs>",
+    },
+    inviter: {
+      userId: "owner-uid",
+      email: inviterEmail,
+      displayName: "Olivia Owner",
+    },
+  };
+}
+
+function createNotifier() {
+  const transport = createMemoryTransport();
+  const notifier = createEmailInvitationNotifier({
+    transport,
+    from: "Acme <no-reply@acme.test>",
+    acceptUrl: token => `https://app.acme.test/invite/${token}`,
+  });
+  return { transport, notifier };
+}
+
+describe("createEmailInvitationNotifier", () => {
+  test("sends invites to the invitee with entity, inviter and accept URL", async () => {
+    const { transport, notifier } = createNotifier();
+
+    await notifier.notify(
+      createNotification(InvitationNotificationType.INVITE)
+    );
+
+    expect(transport.messages).toHaveLength(1);
+    const [message] = transport.messages;
+    expect(message.to).toBe("new@acme.test");
+    expect(message.replyTo).toBe("owner@acme.test");
+    expect(message.subject).toBe(
+      "Olivia Owner invited you to join Acme <Labs>"
+    );
+    expect(message.text).toContain("https://app.acme.test/invite/token-abc");
+    expect(message.html).toContain("Acme &lt;Labs&gt;");
+  });
+
+  test("sends accepted and expired notices to the inviter", async () => {
+    const { transport, notifier } = createNotifier();
+
+    await notifier.notify(
+      createNotification(InvitationNotificationType.ACCEPTED)
+    );
+    await notifier.notify(
+      createNotification(InvitationNotificationType.EXPIRED, null)
+    );
+
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0].to).toBe("owner@acme.test");
+    expect(transport.messages[0].subject).toBe(
+      "new@acme.test joined Acme <Labs>"
+    );
+  });
+});
+
+describe("createSmtpTransport", () => {
+  test("delivers a message through an SMTP conversation", async () => {
+    const commands: string[] = [];
+    let data = "";
+    const server = createServer(socket => {
+      let inData = false;
+      let buffer = "";
+      socket.write("220 test ESMTP\r\n");
+      socket.on("data", chunk => {
+        buffer += chunk.toString();
+        let end: number;
+        while ((end = buffer.indexOf("\r\n")) !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            } else {
+              data += `${line}\n`;
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith("EHLO")) {
+            socket.write("250-test\r\n250 8BITMIME\r\n");
+          } else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") {
+            socket.end("221 bye\r\n");
+          } else {
+            socket.write("250 ok\r\n");
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const transport = createSmtpTransport({
+        host: "127.0.0.1",
+        port: (server.address() as AddressInfo).port,
+        timeoutMs: 2000,
+      });
+
+      await transport.send({
+        from: "Acme <no-reply@acme.test>",
+        to: "new@acme.test",
+        subject: "Welcome to Café",
+        text: "Hello",
+        html: "<p>Hello</p>",
+      });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(commands).toEqual([
+      "EHLO localhost",
+      "MAIL FROM:<no-reply@acme.test>",
+      "RCPT TO:<new@acme.test>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(data).toContain("To: new@acme.test");
+    expect(data).toContain("Subject: =?UTF-8?B?");
+    expect(data).toContain(Buffer.from("Hello").toString("base64"));
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Email Invitation Notifier
+ * @description Invitation notifier that renders templates and sends emails
+ */
+
+import {
+  InvitationNotificationType,
+  type EmailInvitationNotifierOptions,
+  type InvitationNotification,
+  type InvitationNotifier,
+} from "../types";
+import { DEFAULT_INVITATION_TEMPLATES } from "./templates";
+
+/**
+ * Get the address a notification is sent to: the invitee for invites and
+ * reminders, the inviter for accepted and expired invitations.
+ * @returns The address, or null if the inviter has no known email
+ */
+export function getNotificationRecipient(
+  notification: InvitationNotification
+): string | null {
+  switch (notification.type) {
+    case InvitationNotificationType.INVITE:
+    case InvitationNotificationType.REMINDER:
+      return notification.invitation.email;
+    case InvitationNotificationType.ACCEPTED:
+    case InvitationNotificationType.EXPIRED:
+      return notification.inviter?.email ?? null;
+  }
+}
+
+/**
+ * Create an invitation notifier that sends emails through a transport.
+ * Notifications without a recipient (inviter without email) are skipped.
+ *
+ * Usage:
+ * ```typescript
+ * const invitationNotifier = createEmailInvitationNotifier({
+ *   transport: createSmtpTransport({ host: 'localhost', port: 1025 }),
+ *   from: 'Acme <no-reply@acme.test>',
+ *   acceptUrl: token => `https://app.acme.test/invite/${token}`,
+ * });
+ * ```
+ */
+export function createEmailInvitationNotifier(
+  options: EmailInvitationNotifierOptions
+): InvitationNotifier {
+  const templates = { ...DEFAULT_INVITATION_TEMPLATES, ...options.templates };
+
+  return {
+    async notify(notification) {
+      const to = getNotificationRecipient(notification);
+      if (!to) {
+        return;
+      }
+
+      const email = templates[notification.type]({
+        ...notification,
+        acceptUrl: notification.token
+          ? options.acceptUrl(notification.token, notification.invitation)
+          : null,
+      });
+
+      await options.transport.send({
+        from: options.from,
+        to,
+        replyTo:
+          notification.type === InvitationNotificationType.INVITE ||
+          notification.type === InvitationNotificationType.REMINDER
+            ? (notification.inviter?.email ?? undefined)
+            : undefined,
+        ...email,
+      });
+    },
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Invitation Email Templates
+ * @description Built-in subjects and bodies for invitation emails
+ */
+
+import {
+  InvitationNotificationType,
+  type InvitationEmailContext,
+  type InvitationEmailTemplate,
+  type RenderedEmail,
+} from "../types";
+
+/**
+ * Escape text for inclusion in HTML.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Name of the inviter as shown in emails.
+ */
+function inviterName(context: InvitationEmailContext): string {
+  return (
+    context.inviter?.displayName ?? context.inviter?.email ?? "A team member"
+  );
+}
+
+/**
+ * Format an ISO 8601 timestamp as a date for email bodies.
+ */
+function formatDate(iso: string): string {
+  return new Date(iso).toUTCString().slice(0, 16);
+}
+
+/**
+ * Button to the accept link, if the notification has one.
+ */
+function acceptLink(
+  context: InvitationEmailContext
+): { label: string; url: string } | undefined {
+  return context.acceptUrl
+    ? { label: "Accept the invitation", url: context.acceptUrl }
+    : undefined;
+}
+
+/**
+ * Build an email from plain-text paragraphs.
+ * The HTML body holds the same paragraphs, with the link (if any) as a button.
+ */
+function buildEmail(
+  subject: string,
+  paragraphs: string[],
+  link?: { label: string; url: string }
+): RenderedEmail {
+  const text = [
+    ...paragraphs,
+    ...(link ? [`${link.label}: ${link.url}`] : []),
+  ].join("\n\n");
+
+  const html = [
+    ...paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+    ...(link
+      ? [
+          `<p><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></p>`,
+        ]
+      : []),
+  ].join("\n");
+
+  return { subject, text: `${text}\n`, html: `${html}\n` };
+}
+
+/**
+ * Built-in invitation email templates.
+ */
+export const DEFAULT_INVITATION_TEMPLATES: Record<
+  InvitationNotificationType,
+  InvitationEmailTemplate
+> = {
+  [InvitationNotificationType.INVITE]: context =>
+    buildEmail(
+      `${inviterName(context)} invited you to join ${context.entity.displayName}`,
+      [
+        `${inviterName(context)} invited you to join ${context.entity.displayName} as a ${context.invitation.role}.`,
+        `This invitation expires on ${formatDate(context.invitation.expiresAt)}.`,
+      ],
+      acceptLink(context)
+    ),
+
+  [InvitationNotificationType.REMINDER]: context =>
+    buildEmail(
+      `Reminder: your invitation to join ${context.entity.displayName}`,
+      [
+        `${inviterName(context)} invited you to join ${context.entity.displayName} as a ${context.invitation.role}, and the invitation is still waiting for you.`,
+        `It expires on ${formatDate(context.invitation.expiresAt)}.`,
+      ],
+      acceptLink(context)
+    ),
+
+  [InvitationNotificationType.ACCEPTED]: context =>
+    buildEmail(
+      `${context.invitation.email} joined ${context.entity.displayName}`,
+      [
+        `${context.invitation.email} accepted your invitation and is now a ${context.invitation.role} of ${context.entity.displayName}.`,
+      ]
+    ),
+
+  [InvitationNotificationType.EXPIRED]: context =>
+    buildEmail(`Your invitation to ${context.invitation.email} expired`, [
+      `Your invitation for ${context.invitation.email} to join ${context.entity.displayName} expired before it was accepted.`,
+      "You can send a new invitation at any time.",
+    ]),
+};
@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Email Transports
+ * @description In-memory, console and SMTP transports for outgoing email
+ */
+
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+import type {
+  EmailMessage,
+  EmailTransport,
+  SmtpTransportOptions,
+} from "../types";
+
+/** Default timeout of each SMTP server reply */
+const DEFAULT_SMTP_TIMEOUT_MS = 10 * 1000;
+
+/** Maximum line length of base64 bodies (RFC 2045) */
+const BASE64_LINE_LENGTH = 76;
+
+/**
+ * Transport that keeps sent emails in memory, for tests.
+ */
+export interface MemoryEmailTransport extends EmailTransport {
+  /** Emails sent so far, oldest first */
+  readonly messages: EmailMessage[];
+  /** Forget all sent emails */
+  clear(): void;
+}
+
+/**
+ * Create a transport that stores emails in memory instead of sending them.
+ */
+export function createMemoryTransport(): MemoryEmailTransport {
+  const messages: EmailMessage[] = [];
+
+  return {
+    messages,
+    async send(message) {
+      messages.push(message);
+    },
+    clear() {
+      messages.length = 0;
+    },
+  };
+}
+
+/**
+ * Create a transport that logs emails to the console instead of sending them,
+ * for local development.
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    async send(message) {
+      console.log(
+        `[email] To: ${message.to}\n[email] Subject: ${message.subject}\n\n${message.text}`
+      );
+    },
+  };
+}
+
+/**
+ * Create a transport that sends emails over SMTP.
+ * Opens one connection per email. Supports plain connections (e.g. a local
+ * mail catcher such as Mailpit on port 1025) and implicit TLS with
+ * `secure: true`; STARTTLS is not supported.
+ */
+export function createSmtpTransport(
+  options: SmtpTransportOptions
+): EmailTransport {
+  return {
+    async send(message) {
+      const timeoutMs = options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+      const session = new SmtpSession(
+        await openSocket(options, timeoutMs),
+        timeoutMs
+      );
+
+      try {
+        await session.expect(220);
+        await session.command(`EHLO ${options.clientName ?? "localhost"}`, 250);
+
+        if (options.auth) {
+          const credentials = Buffer.from(
+            `\u0000${options.auth.user}\u0000${options.auth.pass}`
+          ).toString("base64");
+          await session.command(`AUTH PLAIN ${credentials}`, 235);
+        }
+
+        await session.command(
+          `MAIL FROM:<${extractAddress(message.from)}>`,
+          250
+        );
+        await session.command(`RCPT TO:<${extractAddress(message.to)}>`, 250);
+        await session.command("DATA", 354);
+        await session.command(`${formatEmailMessage(message)}\r\n.`, 250);
+        await session.command("QUIT", 221);
+      } finally {
+        session.close();
+      }
+    },
+  };
+}
+
+/**
+ * Format an email as a MIME message with text and HTML alternatives.
+ * Lines starting with a dot are escaped for the SMTP DATA command.
+ */
+export function formatEmailMessage(
+  message: EmailMessage,
+  date: Date = new Date()
+): string {
+  const boundary = `entity-service-${crypto.randomUUID()}`;
+  const domain = extractAddress(message.from).split("@")[1] ?? "localhost";
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const part = (contentType: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBase64Lines(body),
+    ].join("\r\n");
+
+  return [
+    ...headers,
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+  ]
+    .join("\r\n")
+    .replace(/^\./gm, "..");
+}
+
+/**
+ * Get the bare address from `"Name <address>"` or `address`.
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it is not plain ASCII.
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+/**
+ * Encode text as base64 split into lines of at most 76 characters.
+ */
+function encodeBase64Lines(value: string): string {
+  const encoded = Buffer.from(value).toString("base64");
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join("\r\n");
+}
+
+/**
+ * Connect to the SMTP server.
+ */
+function openSocket(
+  options: SmtpTransportOptions,
+  timeoutMs: number
+): Promise<Socket> {
+  const port = options.port ?? (options.secure ? 465 : 25);
+
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? connectTls({ host: options.host, port, servername: options.host })
+      : connectTcp({ host: options.host, port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error("SMTP connection timed out"));
+    }, timeoutMs);
+
+    socket.once(options.secure ? "secureConnect" : "connect", () => {
+      clearTimeout(timer);
+      socket.removeListener("error", onError);
+      resolve(socket);
+    });
+
+    const onError = (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    };
+    socket.once("error", onError);
+  });
+}
+
+/**
+ * A reply of the SMTP server.
+ */
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+/**
+ * Minimal SMTP client session: sends commands and reads (multi-line) replies.
+ */
+class SmtpSession {
+  private buffer = "";
+  private error: Error | null = null;
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  constructor(
+    private readonly socket: Socket,
+    private readonly timeoutMs: number
+  ) {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      this.deliverReply();
+    });
+    socket.on("error", error => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  /**
+   * Send a command and check the reply code.
+   */
+  async command(line: string, expectedCode: number): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCode);
+  }
+
+  /**
+   * Read the next reply and check its code.
+   */
+  async expect(expectedCode: number): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (reply.code !== expectedCode) {
+      throw new Error(`SMTP server replied ${reply.code}: ${reply.message}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    const reply = this.takeReply();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = null;
+        reject(new Error("SMTP server did not reply in time"));
+      }, this.timeoutMs);
+
+      this.waiting = {
+        resolve: value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+    });
+  }
+
+  /**
+   * Remove one complete reply from the buffer.
+   * Continuation lines look like `250-...`; the last line like `250 ...`.
+   */
+  private takeReply(): SmtpReply | null {
+    const lines: string[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf("\r\n", offset);
+      if (end === -1) {
+        return null;
+      }
+
+      const line = this.buffer.slice(offset, end);
+      lines.push(line.slice(4));
+      offset = end + 2;
+
+      if (/^\d{3}( |$)/.test(line)) {
+        this.buffer = this.buffer.slice(offset);
+        return { code: Number(line.slice(0, 3)), message: lines.join("\n") };
+      }
+    }
+  }
+
+  private deliverReply(): void {
+    if (!this.waiting) {
+      return;
+    }
+
+    const reply = this.takeReply();
+    if (reply) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.resolve(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.reject(error);
+    }
+  }
+}
@@ -16,9 +16,12 @@ import {
   text,
   timestamp,
   boolean,
+  integer,
+  jsonb,
   uniqueIndex,
   index,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 // ========================================
 // ENTITIES TABLE
@@ -27,6 +30,11 @@ import {
 /**
  * Create an entities table for a specific PostgreSQL schema.
  * Note: Ownership is tracked via entity_members table (role = 'owner').
+ * personal_owner_id is set only on personal entities; its unique index
+ * guarantees one personal entity per user.
+ * deleted_at marks a soft-deleted organization; the row (and its slug) is kept
+ * until the grace period ends and it is purged.
+ * parent_entity_id nests an organization (team or sub-organization) under another.
  *
  * @param schema - The Drizzle pgSchema object
  * @param indexPrefix - Prefix for index names to avoid conflicts
@@ -42,6 +50,9 @@ export function createEntitiesTable(schema: PgSchema, indexPrefix: string) {
       display_name: varchar("display_name", { length: 255 }).notNull(),
       description: text("description"),
       avatar_url: text("avatar_url"),
+      personal_owner_id: varchar("personal_owner_id", { length: 128 }), // firebase_uid, personal entities only
+      deleted_at: timestamp("deleted_at", { withTimezone: true }), // soft delete
+      parent_entity_id: uuid("parent_entity_id"), // parent organization for teams / sub-organizations
       created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
       updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
     },
@@ -50,6 +61,12 @@ export function createEntitiesTable(schema: PgSchema, indexPrefix: string) {
         table.entity_slug
       ),
       typeIdx: index(`${indexPrefix}_entities_type_idx`).on(table.entity_type),
+      personalOwnerIdx: uniqueIndex(
+        `${indexPrefix}_entities_personal_owner_idx`
+      ).on(table.personal_owner_id),
+      parentIdx: index(`${indexPrefix}_entities_parent_idx`).on(
+        table.parent_entity_id
+      ),
     })
   );
 }
@@ -68,6 +85,9 @@ export function createEntitiesTablePublic(indexPrefix: string) {
       display_name: varchar("display_name", { length: 255 }).notNull(),
       description: text("description"),
       avatar_url: text("avatar_url"),
+      personal_owner_id: varchar("personal_owner_id", { length: 128 }), // firebase_uid, personal entities only
+      deleted_at: timestamp("deleted_at", { withTimezone: true }), // soft delete
+      parent_entity_id: uuid("parent_entity_id"), // parent organization for teams / sub-organizations
       created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
       updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
     },
@@ -76,6 +96,12 @@ export function createEntitiesTablePublic(indexPrefix: string) {
         table.entity_slug
       ),
       typeIdx: index(`${indexPrefix}_entities_type_idx`).on(table.entity_type),
+      personalOwnerIdx: uniqueIndex(
+        `${indexPrefix}_entities_personal_owner_idx`
+      ).on(table.personal_owner_id),
+      parentIdx: index(`${indexPrefix}_entities_parent_idx`).on(
+        table.parent_entity_id
+      ),
     })
   );
 }
@@ -87,7 +113,9 @@ export function createEntitiesTablePublic(indexPrefix: string) {
 /**
  * Create an entity_members table for a specific PostgreSQL schema.
  * This table manages all user-entity relationships including ownership.
- * Role can be: owner, manager, member
+ * Role can be: owner, manager, member, or a custom role key of the entity.
+ * permission_overrides holds per-member grants/denies on top of the role.
+ * expires_at ends the membership (see EntityMemberHelper.expireMemberships).
  */
 export function createEntityMembersTable(
   schema: PgSchema,
@@ -101,6 +129,10 @@ export function createEntityMembersTable(
       user_id: varchar("user_id", { length: 128 }).notNull(), // firebase_uid
       role: varchar("role", { length: 20 }).notNull(),
       is_active: boolean("is_active").notNull().default(true),
+      permission_overrides: jsonb("permission_overrides").$type<
+        Record<string, boolean>
+      >(), // per-member grant (true) / deny (false) by EntityPermissions key
+      expires_at: timestamp("expires_at", { withTimezone: true }), // null = never expires
       joined_at: timestamp("joined_at", { withTimezone: true }).defaultNow(),
       created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
       updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
@@ -125,7 +157,9 @@ export function createEntityMembersTable(
 /**
  * Create an entity_members table for the public schema.
  * This table manages all user-entity relationships including ownership.
- * Role can be: owner, manager, member
+ * Role can be: owner, manager, member, or a custom role key of the entity.
+ * permission_overrides holds per-member grants/denies on top of the role.
+ * expires_at ends the membership (see EntityMemberHelper.expireMemberships).
  */
 export function createEntityMembersTablePublic(indexPrefix: string) {
   return pgTable(
@@ -136,6 +170,10 @@ export function createEntityMembersTablePublic(indexPrefix: string) {
       user_id: varchar("user_id", { length: 128 }).notNull(), // firebase_uid
       role: varchar("role", { length: 20 }).notNull(),
       is_active: boolean("is_active").notNull().default(true),
+      permission_overrides: jsonb("permission_overrides").$type<
+        Record<string, boolean>
+      >(), // per-member grant (true) / deny (false) by EntityPermissions key
+      expires_at: timestamp("expires_at", { withTimezone: true }), // null = never expires
       joined_at: timestamp("joined_at", { withTimezone: true }).defaultNow(),
       created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
       updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
@@ -174,14 +212,26 @@ export function createEntityInvitationsTable(
       id: uuid("id").primaryKey().defaultRandom(),
       entity_id: uuid("entity_id").notNull(),
       email: varchar("email", { length: 255 }).notNull(),
+      invited_user_id: varchar("invited_user_id", { length: 128 }), // firebase_uid, invitations of a known user
       role: varchar("role", { length: 20 }).notNull(),
       status: varchar("status", { length: 20 }).notNull().default("pending"),
       invited_by_user_id: varchar("invited_by_user_id", {
         length: 128,
       }).notNull(), // firebase_uid
-      token: varchar("token", { length: 64 }).notNull().unique(),
+      token: varchar("token", { length: 64 }).unique(), // legacy plaintext, null once hashed
+      token_hash: varchar("token_hash", { length: 64 }),
+      previous_token_hashes: jsonb("previous_token_hashes")
+        .$type<string[]>()
+        .notNull()
+        .default([]), // tokens replaced by reminders, still accepted
       expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+      membership_expires_at: timestamp("membership_expires_at", {
+        withTimezone: true,
+      }), // end of the membership granted on accept
       accepted_at: timestamp("accepted_at", { withTimezone: true }),
+      reminded_at: timestamp("reminded_at", { withTimezone: true }),
+      revoked_by_user_id: varchar("revoked_by_user_id", { length: 128 }), // firebase_uid
+      revoked_at: timestamp("revoked_at", { withTimezone: true }),
       created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
       updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
     },
@@ -189,12 +239,21 @@ export function createEntityInvitationsTable(
       tokenIdx: uniqueIndex(`${indexPrefix}_entity_invitations_token_idx`).on(
         table.token
       ),
+      tokenHashIdx: uniqueIndex(
+        `${indexPrefix}_entity_invitations_token_hash_idx`
+      ).on(table.token_hash),
+      previousTokenHashesIdx: index(
+        `${indexPrefix}_entity_invitations_previous_token_hashes_idx`
+      ).using("gin", table.previous_token_hashes),
       entityIdx: index(`${indexPrefix}_entity_invitations_entity_idx`).on(
         table.entity_id
       ),
       emailIdx: index(`${indexPrefix}_entity_invitations_email_idx`).on(
         table.email
       ),
+      invitedUserIdx: index(
+        `${indexPrefix}_entity_invitations_invited_user_idx`
+      ).on(table.invited_user_id),
       statusIdx: index(`${indexPrefix}_entity_invitations_status_idx`).on(
         table.status
       ),
@@ -212,14 +271,26 @@ export function createEntityInvitationsTablePublic(indexPrefix: string) {
       id: uuid("id").primaryKey().defaultRandom(),
       entity_id: uuid("entity_id").notNull(),
       email: varchar("email", { length: 255 }).notNull(),
+      invited_user_id: varchar("invited_user_id", { length: 128 }), // firebase_uid, invitations of a known user
       role: varchar("role", { length: 20 }).notNull(),
       status: varchar("status", { length: 20 }).notNull().default("pending"),
       invited_by_user_id: varchar("invited_by_user_id", {
         length: 128,
       }).notNull(), // firebase_uid
-      token: varchar("token", { length: 64 }).notNull().unique(),
+      token: varchar("token", { length: 64 }).unique(), // legacy plaintext, null once hashed
+      token_hash: varchar("token_hash", { length: 64 }),
+      previous_token_hashes: jsonb("previous_token_hashes")
+        .$type<string[]>()
+        .notNull()
+        .default([]), // tokens replaced by reminders, still accepted
       expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+      membership_expires_at: timestamp("membership_expires_at", {
+        withTimezone: true,
+      }), // end of the membership granted on accept
       accepted_at: timestamp("accepted_at", { withTimezone: true }),
+      reminded_at: timestamp("reminded_at", { withTimezone: true }),
+      revoked_by_user_id: varchar("revoked_by_user_id", { length: 128 }), // firebase_uid
+      revoked_at: timestamp("revoked_at", { withTimezone: true }),
       created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
       updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
     },
@@ -227,12 +298,21 @@ export function createEntityInvitationsTablePublic(indexPrefix: string) {
       tokenIdx: uniqueIndex(`${indexPrefix}_entity_invitations_token_idx`).on(
         table.token
       ),
+      tokenHashIdx: uniqueIndex(
+        `${indexPrefix}_entity_invitations_token_hash_idx`
+      ).on(table.token_hash),
+      previousTokenHashesIdx: index(
+        `${indexPrefix}_entity_invitations_previous_token_hashes_idx`
+      ).using("gin", table.previous_token_hashes),
       entityIdx: index(`${indexPrefix}_entity_invitations_entity_idx`).on(
         table.entity_id
       ),
       emailIdx: index(`${indexPrefix}_entity_invitations_email_idx`).on(
         table.email
       ),
+      invitedUserIdx: index(
+        `${indexPrefix}_entity_invitations_invited_user_idx`
+      ).on(table.invited_user_id),
       statusIdx: index(`${indexPrefix}_entity_invitations_status_idx`).on(
         table.status
       ),
@@ -241,145 +321,1378 @@ export function createEntityInvitationsTablePublic(indexPrefix: string) {
 }
 
 // ========================================
-// DEFAULT TABLES (Public Schema)
+// ENTITY OWNERSHIP TRANSFERS TABLE
 // ========================================
 
-/** Default entities table for public schema */
-export const entities = pgTable(
-  "entities",
-  {
-    id: uuid("id").primaryKey().defaultRandom(),
-    entity_slug: varchar("entity_slug", { length: 12 }).notNull().unique(),
-    entity_type: varchar("entity_type", { length: 20 }).notNull(),
-    display_name: varchar("display_name", { length: 255 }).notNull(),
-    description: text("description"),
-    avatar_url: text("avatar_url"),
-    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
-    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
-  },
-  table => ({
-    slugIdx: uniqueIndex("entities_slug_idx").on(table.entity_slug),
-    typeIdx: index("entities_type_idx").on(table.entity_type),
-  })
-);
-
-/** Default entity_members table for public schema */
-export const entityMembers = pgTable(
-  "entity_members",
-  {
-    id: uuid("id").primaryKey().defaultRandom(),
-    entity_id: uuid("entity_id").notNull(),
-    user_id: varchar("user_id", { length: 128 }).notNull(), // firebase_uid
-    role: varchar("role", { length: 20 }).notNull(),
-    is_active: boolean("is_active").notNull().default(true),
-    joined_at: timestamp("joined_at", { withTimezone: true }).defaultNow(),
-    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
-    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
-  },
-  table => ({
-    entityUserUniqueIdx: uniqueIndex("entity_members_entity_user_idx").on(
-      table.entity_id,
-      table.user_id
-    ),
-    entityIdx: index("entity_members_entity_idx").on(table.entity_id),
-    userIdx: index("entity_members_user_idx").on(table.user_id),
-    activeIdx: index("entity_members_active_idx").on(table.is_active),
-  })
-);
+/**
+ * Create an entity_ownership_transfers table for a specific PostgreSQL schema.
+ * Tracks two-step ownership hand-offs awaiting the new owner's confirmation.
+ */
+export function createEntityOwnershipTransfersTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_ownership_transfers",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      from_user_id: varchar("from_user_id", { length: 128 }).notNull(), // firebase_uid
+      to_user_id: varchar("to_user_id", { length: 128 }).notNull(), // firebase_uid
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+      responded_at: timestamp("responded_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      entityIdx: index(
+        `${indexPrefix}_entity_ownership_transfers_entity_idx`
+      ).on(table.entity_id),
+      toUserIdx: index(
+        `${indexPrefix}_entity_ownership_transfers_to_user_idx`
+      ).on(table.to_user_id),
+    })
+  );
+}
 
-/** Default entity_invitations table for public schema */
-export const entityInvitations = pgTable(
-  "entity_invitations",
-  {
-    id: uuid("id").primaryKey().defaultRandom(),
-    entity_id: uuid("entity_id").notNull(),
-    email: varchar("email", { length: 255 }).notNull(),
-    role: varchar("role", { length: 20 }).notNull(),
-    status: varchar("status", { length: 20 }).notNull().default("pending"),
-    invited_by_user_id: varchar("invited_by_user_id", {
-      length: 128,
-    }).notNull(), // firebase_uid
-    token: varchar("token", { length: 64 }).notNull().unique(),
-    expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
-    accepted_at: timestamp("accepted_at", { withTimezone: true }),
-    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
-    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
-  },
-  table => ({
-    tokenIdx: uniqueIndex("entity_invitations_token_idx").on(table.token),
-    entityIdx: index("entity_invitations_entity_idx").on(table.entity_id),
-    emailIdx: index("entity_invitations_email_idx").on(table.email),
-    statusIdx: index("entity_invitations_status_idx").on(table.status),
-  })
-);
+/**
+ * Create an entity_ownership_transfers table for the public schema.
+ * Tracks two-step ownership hand-offs awaiting the new owner's confirmation.
+ */
+export function createEntityOwnershipTransfersTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_ownership_transfers",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      from_user_id: varchar("from_user_id", { length: 128 }).notNull(), // firebase_uid
+      to_user_id: varchar("to_user_id", { length: 128 }).notNull(), // firebase_uid
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+      responded_at: timestamp("responded_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      entityIdx: index(
+        `${indexPrefix}_entity_ownership_transfers_entity_idx`
+      ).on(table.entity_id),
+      toUserIdx: index(
+        `${indexPrefix}_entity_ownership_transfers_to_user_idx`
+      ).on(table.to_user_id),
+    })
+  );
+}
 
 // ========================================
-// TYPE EXPORTS
+// ENTITY SLUG HISTORY TABLE
 // ========================================
 
-/** TypeScript type for entities table row */
-export type EntityRecord = typeof entities.$inferSelect;
-export type NewEntityRecord = typeof entities.$inferInsert;
+/**
+ * Create an entity_slug_history table for a specific PostgreSQL schema.
+ * Records previous slugs of renamed entities so old URLs keep resolving.
+ * A slug stays reserved for its former entity until reserved_until.
+ */
+export function createEntitySlugHistoryTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_slug_history",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      slug: varchar("slug", { length: 12 }).notNull().unique(),
+      reserved_until: timestamp("reserved_until", {
+        withTimezone: true,
+      }).notNull(),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      slugIdx: uniqueIndex(`${indexPrefix}_entity_slug_history_slug_idx`).on(
+        table.slug
+      ),
+      entityIdx: index(`${indexPrefix}_entity_slug_history_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
 
-/** TypeScript type for entity_members table row */
-export type EntityMemberRecord = typeof entityMembers.$inferSelect;
-export type NewEntityMemberRecord = typeof entityMembers.$inferInsert;
+/**
+ * Create an entity_slug_history table for the public schema.
+ * Records previous slugs of renamed entities so old URLs keep resolving.
+ * A slug stays reserved for its former entity until reserved_until.
+ */
+export function createEntitySlugHistoryTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_slug_history",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      slug: varchar("slug", { length: 12 }).notNull().unique(),
+      reserved_until: timestamp("reserved_until", {
+        withTimezone: true,
+      }).notNull(),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      slugIdx: uniqueIndex(`${indexPrefix}_entity_slug_history_slug_idx`).on(
+        table.slug
+      ),
+      entityIdx: index(`${indexPrefix}_entity_slug_history_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
 
-/** TypeScript type for entity_invitations table row */
-export type EntityInvitationRecord = typeof entityInvitations.$inferSelect;
-export type NewEntityInvitationRecord = typeof entityInvitations.$inferInsert;
+// ========================================
+// ENTITY ROLES TABLE
+// ========================================
+
+/**
+ * Create an entity_roles table for a specific PostgreSQL schema.
+ * Defines custom roles of an entity alongside the built-in owner/manager/member.
+ * permissions lists the EntityPermissions keys the role grants; rank orders
+ * the role against the built-in roles for hierarchy checks.
+ */
+export function createEntityRolesTable(schema: PgSchema, indexPrefix: string) {
+  return schema.table(
+    "entity_roles",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      role_key: varchar("role_key", { length: 20 }).notNull(),
+      display_name: varchar("display_name", { length: 255 }).notNull(),
+      description: text("description"),
+      permissions: jsonb("permissions").$type<string[]>().notNull().default([]), // EntityPermissions keys
+      rank: integer("rank").notNull().default(0),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      entityRoleKeyIdx: uniqueIndex(
+        `${indexPrefix}_entity_roles_entity_role_key_idx`
+      ).on(table.entity_id, table.role_key),
+      entityIdx: index(`${indexPrefix}_entity_roles_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
+
+/**
+ * Create an entity_roles table for the public schema.
+ * Defines custom roles of an entity alongside the built-in owner/manager/member.
+ */
+export function createEntityRolesTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_roles",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      role_key: varchar("role_key", { length: 20 }).notNull(),
+      display_name: varchar("display_name", { length: 255 }).notNull(),
+      description: text("description"),
+      permissions: jsonb("permissions").$type<string[]>().notNull().default([]), // EntityPermissions keys
+      rank: integer("rank").notNull().default(0),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      entityRoleKeyIdx: uniqueIndex(
+        `${indexPrefix}_entity_roles_entity_role_key_idx`
+      ).on(table.entity_id, table.role_key),
+      entityIdx: index(`${indexPrefix}_entity_roles_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
 
 // ========================================
-// INITIALIZATION FUNCTIONS
+// ENTITY API KEYS TABLE
 // ========================================
 
 /**
- * Initialize all entity tables in the database.
- * Note: Ownership is tracked via entity_members table (role = 'owner').
- *
- * @param client - postgres-js client instance
- * @param schemaName - PostgreSQL schema name (null for public)
- * @param indexPrefix - Prefix for index names
+ * Create an entity_api_keys table for a specific PostgreSQL schema.
+ * Stores API keys for machine clients of an entity. Only a SHA-256 hash of
+ * each key is kept; scopes list the EntityPermissions keys the key grants.
  */
-export async function initEntityTables(
-  client: ReturnType<typeof import("postgres")>,
-  schemaName: string | null,
+export function createEntityApiKeysTable(
+  schema: PgSchema,
   indexPrefix: string
-): Promise<void> {
-  const prefix = schemaName ? `${schemaName}.` : "";
-
-  // Create entities table (ownership tracked via entity_members)
-  await client.unsafe(`
-    CREATE TABLE IF NOT EXISTS ${prefix}entities (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      entity_slug VARCHAR(12) NOT NULL UNIQUE,
-      entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('personal', 'organization')),
-      display_name VARCHAR(255) NOT NULL,
-      description TEXT,
-      avatar_url TEXT,
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW()
-    )
-  `);
+) {
+  return schema.table(
+    "entity_api_keys",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      name: varchar("name", { length: 255 }).notNull(),
+      key_prefix: varchar("key_prefix", { length: 16 }).notNull(), // shown to identify the key
+      key_hash: varchar("key_hash", { length: 64 }).notNull().unique(), // SHA-256 of the full key
+      scopes: jsonb("scopes").$type<string[]>().notNull().default([]), // EntityPermissions keys
+      created_by_user_id: varchar("created_by_user_id", {
+        length: 128,
+      }).notNull(), // firebase_uid
+      expires_at: timestamp("expires_at", { withTimezone: true }),
+      last_used_at: timestamp("last_used_at", { withTimezone: true }),
+      revoked_at: timestamp("revoked_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      keyHashIdx: uniqueIndex(`${indexPrefix}_entity_api_keys_key_hash_idx`).on(
+        table.key_hash
+      ),
+      entityIdx: index(`${indexPrefix}_entity_api_keys_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
 
-  await client.unsafe(`
-    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entities_slug_idx
-    ON ${prefix}entities (entity_slug)
-  `);
+/**
+ * Create an entity_api_keys table for the public schema.
+ * Stores API keys for machine clients of an entity.
+ */
+export function createEntityApiKeysTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_api_keys",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      name: varchar("name", { length: 255 }).notNull(),
+      key_prefix: varchar("key_prefix", { length: 16 }).notNull(), // shown to identify the key
+      key_hash: varchar("key_hash", { length: 64 }).notNull().unique(), // SHA-256 of the full key
+      scopes: jsonb("scopes").$type<string[]>().notNull().default([]), // EntityPermissions keys
+      created_by_user_id: varchar("created_by_user_id", {
+        length: 128,
+      }).notNull(), // firebase_uid
+      expires_at: timestamp("expires_at", { withTimezone: true }),
+      last_used_at: timestamp("last_used_at", { withTimezone: true }),
+      revoked_at: timestamp("revoked_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      keyHashIdx: uniqueIndex(`${indexPrefix}_entity_api_keys_key_hash_idx`).on(
+        table.key_hash
+      ),
+      entityIdx: index(`${indexPrefix}_entity_api_keys_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
 
-  await client.unsafe(`
-    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entities_type_idx
-    ON ${prefix}entities (entity_type)
-  `);
+// ========================================
+// ENTITY AUDIT EVENTS TABLE
+// ========================================
 
-  // Create entity_members table (tracks all user-entity relationships including ownership)
+/**
+ * Create an entity_audit_events table for a specific PostgreSQL schema.
+ * Append-only record of who changed what in an entity; before/after hold
+ * the changed values.
+ */
+export function createEntityAuditEventsTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_audit_events",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      actor_user_id: varchar("actor_user_id", { length: 128 }), // firebase_uid, null for system actions
+      action: varchar("action", { length: 64 }).notNull(),
+      target_type: varchar("target_type", { length: 32 }).notNull(),
+      target_id: varchar("target_id", { length: 128 }),
+      before: jsonb("before").$type<Record<string, unknown>>(),
+      after: jsonb("after").$type<Record<string, unknown>>(),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      entityCreatedIdx: index(
+        `${indexPrefix}_entity_audit_events_entity_created_idx`
+      ).on(table.entity_id, table.created_at),
+      actorIdx: index(`${indexPrefix}_entity_audit_events_actor_idx`).on(
+        table.actor_user_id
+      ),
+    })
+  );
+}
+
+/**
+ * Create an entity_audit_events table for the public schema.
+ * Append-only record of who changed what in an entity.
+ */
+export function createEntityAuditEventsTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_audit_events",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      actor_user_id: varchar("actor_user_id", { length: 128 }), // firebase_uid, null for system actions
+      action: varchar("action", { length: 64 }).notNull(),
+      target_type: varchar("target_type", { length: 32 }).notNull(),
+      target_id: varchar("target_id", { length: 128 }),
+      before: jsonb("before").$type<Record<string, unknown>>(),
+      after: jsonb("after").$type<Record<string, unknown>>(),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      entityCreatedIdx: index(
+        `${indexPrefix}_entity_audit_events_entity_created_idx`
+      ).on(table.entity_id, table.created_at),
+      actorIdx: index(`${indexPrefix}_entity_audit_events_actor_idx`).on(
+        table.actor_user_id
+      ),
+    })
+  );
+}
+
+// ========================================
+// ENTITY OUTBOX EVENTS TABLE
+// ========================================
+
+/**
+ * Create an entity_outbox_events table for a specific PostgreSQL schema.
+ * Lifecycle events written in the same transaction as the change and
+ * delivered later by the OutboxDispatcher. No foreign key, so events about
+ * purged entities are still delivered.
+ */
+export function createEntityOutboxEventsTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_outbox_events",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      idempotency_key: varchar("idempotency_key", { length: 64 }).notNull(),
+      entity_id: uuid("entity_id").notNull(),
+      event_type: varchar("event_type", { length: 64 }).notNull(),
+      payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      attempts: integer("attempts").notNull().default(0),
+      next_attempt_at: timestamp("next_attempt_at", { withTimezone: true })
+        .notNull()
+        .defaultNow(),
+      last_error: text("last_error"),
+      delivered_at: timestamp("delivered_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      idempotencyKeyIdx: uniqueIndex(
+        `${indexPrefix}_entity_outbox_events_idempotency_key_idx`
+      ).on(table.idempotency_key),
+      pendingIdx: index(`${indexPrefix}_entity_outbox_events_pending_idx`).on(
+        table.status,
+        table.next_attempt_at
+      ),
+    })
+  );
+}
+
+/**
+ * Create an entity_outbox_events table for the public schema.
+ * Lifecycle events awaiting delivery by the OutboxDispatcher.
+ */
+export function createEntityOutboxEventsTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_outbox_events",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      idempotency_key: varchar("idempotency_key", { length: 64 }).notNull(),
+      entity_id: uuid("entity_id").notNull(),
+      event_type: varchar("event_type", { length: 64 }).notNull(),
+      payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      attempts: integer("attempts").notNull().default(0),
+      next_attempt_at: timestamp("next_attempt_at", { withTimezone: true })
+        .notNull()
+        .defaultNow(),
+      last_error: text("last_error"),
+      delivered_at: timestamp("delivered_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      idempotencyKeyIdx: uniqueIndex(
+        `${indexPrefix}_entity_outbox_events_idempotency_key_idx`
+      ).on(table.idempotency_key),
+      pendingIdx: index(`${indexPrefix}_entity_outbox_events_pending_idx`).on(
+        table.status,
+        table.next_attempt_at
+      ),
+    })
+  );
+}
+
+// ========================================
+// ENTITY WEBHOOK TABLES
+// ========================================
+
+/**
+ * Create an entity_webhook_endpoints table for a specific PostgreSQL schema.
+ * HTTP endpoints an entity receives signed lifecycle events on.
+ */
+export function createEntityWebhookEndpointsTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_webhook_endpoints",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      url: text("url").notNull(),
+      description: text("description"),
+      secret: varchar("secret", { length: 128 }).notNull(),
+      event_types: jsonb("event_types").$type<string[]>().notNull().default([]), // empty = all events
+      is_active: boolean("is_active").notNull().default(true),
+      created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+      disabled_at: timestamp("disabled_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      entityIdx: index(`${indexPrefix}_entity_webhook_endpoints_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
+
+/**
+ * Create an entity_webhook_endpoints table for the public schema.
+ * HTTP endpoints an entity receives signed lifecycle events on.
+ */
+export function createEntityWebhookEndpointsTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_webhook_endpoints",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      url: text("url").notNull(),
+      description: text("description"),
+      secret: varchar("secret", { length: 128 }).notNull(),
+      event_types: jsonb("event_types").$type<string[]>().notNull().default([]), // empty = all events
+      is_active: boolean("is_active").notNull().default(true),
+      created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+      disabled_at: timestamp("disabled_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      entityIdx: index(`${indexPrefix}_entity_webhook_endpoints_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
+
+/**
+ * Create an entity_webhook_deliveries table for a specific PostgreSQL schema.
+ * One row per event and endpoint, with retry state and attempt history.
+ */
+export function createEntityWebhookDeliveriesTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_webhook_deliveries",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      endpoint_id: uuid("endpoint_id").notNull(),
+      entity_id: uuid("entity_id").notNull(),
+      event_type: varchar("event_type", { length: 64 }).notNull(),
+      idempotency_key: varchar("idempotency_key", { length: 64 }).notNull(),
+      payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      attempts: integer("attempts").notNull().default(0),
+      next_attempt_at: timestamp("next_attempt_at", { withTimezone: true })
+        .notNull()
+        .defaultNow(),
+      attempt_history: jsonb("attempt_history")
+        .$type<Record<string, unknown>[]>()
+        .notNull()
+        .default([]),
+      delivered_at: timestamp("delivered_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      endpointEventIdx: uniqueIndex(
+        `${indexPrefix}_entity_webhook_deliveries_endpoint_event_idx`
+      ).on(table.endpoint_id, table.idempotency_key),
+      pendingIdx: index(
+        `${indexPrefix}_entity_webhook_deliveries_pending_idx`
+      ).on(table.status, table.next_attempt_at),
+    })
+  );
+}
+
+/**
+ * Create an entity_webhook_deliveries table for the public schema.
+ * One row per event and endpoint, with retry state and attempt history.
+ */
+export function createEntityWebhookDeliveriesTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_webhook_deliveries",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      endpoint_id: uuid("endpoint_id").notNull(),
+      entity_id: uuid("entity_id").notNull(),
+      event_type: varchar("event_type", { length: 64 }).notNull(),
+      idempotency_key: varchar("idempotency_key", { length: 64 }).notNull(),
+      payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      attempts: integer("attempts").notNull().default(0),
+      next_attempt_at: timestamp("next_attempt_at", { withTimezone: true })
+        .notNull()
+        .defaultNow(),
+      attempt_history: jsonb("attempt_history")
+        .$type<Record<string, unknown>[]>()
+        .notNull()
+        .default([]),
+      delivered_at: timestamp("delivered_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      endpointEventIdx: uniqueIndex(
+        `${indexPrefix}_entity_webhook_deliveries_endpoint_event_idx`
+      ).on(table.endpoint_id, table.idempotency_key),
+      pendingIdx: index(
+        `${indexPrefix}_entity_webhook_deliveries_pending_idx`
+      ).on(table.status, table.next_attempt_at),
+    })
+  );
+}
+
+// ========================================
+// ENTITY INVITE LINK TABLES
+// ========================================
+
+/**
+ * Create an entity_invite_links table for a specific PostgreSQL schema.
+ * Shareable join links that can be redeemed several times.
+ */
+export function createEntityInviteLinksTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_invite_links",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      token_hash: varchar("token_hash", { length: 64 }).notNull(),
+      role: varchar("role", { length: 20 }).notNull(),
+      max_uses: integer("max_uses"), // null = unlimited
+      use_count: integer("use_count").notNull().default(0),
+      allowed_email_domain: varchar("allowed_email_domain", { length: 255 }),
+      created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+      expires_at: timestamp("expires_at", { withTimezone: true }),
+      revoked_at: timestamp("revoked_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      tokenHashIdx: uniqueIndex(
+        `${indexPrefix}_entity_invite_links_token_hash_idx`
+      ).on(table.token_hash),
+      entityIdx: index(`${indexPrefix}_entity_invite_links_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
+
+/**
+ * Create an entity_invite_links table for the public schema.
+ * Shareable join links that can be redeemed several times.
+ */
+export function createEntityInviteLinksTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_invite_links",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      token_hash: varchar("token_hash", { length: 64 }).notNull(),
+      role: varchar("role", { length: 20 }).notNull(),
+      max_uses: integer("max_uses"), // null = unlimited
+      use_count: integer("use_count").notNull().default(0),
+      allowed_email_domain: varchar("allowed_email_domain", { length: 255 }),
+      created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+      expires_at: timestamp("expires_at", { withTimezone: true }),
+      revoked_at: timestamp("revoked_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      tokenHashIdx: uniqueIndex(
+        `${indexPrefix}_entity_invite_links_token_hash_idx`
+      ).on(table.token_hash),
+      entityIdx: index(`${indexPrefix}_entity_invite_links_entity_idx`).on(
+        table.entity_id
+      ),
+    })
+  );
+}
+
+// ========================================
+// ENTITY DOMAIN TABLES
+// ========================================
+
+/**
+ * Create an entity_domains table for a specific PostgreSQL schema.
+ * Email domains an organization has claimed, verified through DNS.
+ */
+export function createEntityDomainsTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_domains",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      domain: varchar("domain", { length: 255 }).notNull(),
+      verification_token: varchar("verification_token", {
+        length: 64,
+      }).notNull(),
+      verified_at: timestamp("verified_at", { withTimezone: true }),
+      join_policy: varchar("join_policy", { length: 20 })
+        .notNull()
+        .default("auto_join"),
+      default_role: varchar("default_role", { length: 20 })
+        .notNull()
+        .default("member"),
+      created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      entityDomainIdx: uniqueIndex(
+        `${indexPrefix}_entity_domains_entity_domain_idx`
+      ).on(table.entity_id, table.domain),
+      verifiedDomainIdx: uniqueIndex(
+        `${indexPrefix}_entity_domains_verified_idx`
+      )
+        .on(table.domain)
+        .where(sql`verified_at IS NOT NULL`),
+    })
+  );
+}
+
+/**
+ * Create an entity_domains table for the public schema.
+ * Email domains an organization has claimed, verified through DNS.
+ */
+export function createEntityDomainsTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_domains",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      domain: varchar("domain", { length: 255 }).notNull(),
+      verification_token: varchar("verification_token", {
+        length: 64,
+      }).notNull(),
+      verified_at: timestamp("verified_at", { withTimezone: true }),
+      join_policy: varchar("join_policy", { length: 20 })
+        .notNull()
+        .default("auto_join"),
+      default_role: varchar("default_role", { length: 20 })
+        .notNull()
+        .default("member"),
+      created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      entityDomainIdx: uniqueIndex(
+        `${indexPrefix}_entity_domains_entity_domain_idx`
+      ).on(table.entity_id, table.domain),
+      verifiedDomainIdx: uniqueIndex(
+        `${indexPrefix}_entity_domains_verified_idx`
+      )
+        .on(table.domain)
+        .where(sql`verified_at IS NOT NULL`),
+    })
+  );
+}
+
+// ========================================
+// JOIN REQUESTS TABLE
+// ========================================
+
+/**
+ * Create an entity_join_requests table for a specific PostgreSQL schema.
+ * Requests of users to join an organization, reviewed by its managers.
+ */
+export function createEntityJoinRequestsTable(
+  schema: PgSchema,
+  indexPrefix: string
+) {
+  return schema.table(
+    "entity_join_requests",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      user_id: varchar("user_id", { length: 128 }).notNull(),
+      message: text("message"),
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      reviewed_by_user_id: varchar("reviewed_by_user_id", { length: 128 }),
+      reviewed_at: timestamp("reviewed_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    (table: Record<string, any>) => ({
+      entityStatusIdx: index(
+        `${indexPrefix}_entity_join_requests_entity_status_idx`
+      ).on(table.entity_id, table.status),
+      userIdx: index(`${indexPrefix}_entity_join_requests_user_idx`).on(
+        table.user_id
+      ),
+      pendingIdx: uniqueIndex(`${indexPrefix}_entity_join_requests_pending_idx`)
+        .on(table.entity_id, table.user_id)
+        .where(sql`status = 'pending'`),
+    })
+  );
+}
+
+/**
+ * Create an entity_join_requests table for the public schema.
+ * Requests of users to join an organization, reviewed by its managers.
+ */
+export function createEntityJoinRequestsTablePublic(indexPrefix: string) {
+  return pgTable(
+    "entity_join_requests",
+    {
+      id: uuid("id").primaryKey().defaultRandom(),
+      entity_id: uuid("entity_id").notNull(),
+      user_id: varchar("user_id", { length: 128 }).notNull(),
+      message: text("message"),
+      status: varchar("status", { length: 20 }).notNull().default("pending"),
+      reviewed_by_user_id: varchar("reviewed_by_user_id", { length: 128 }),
+      reviewed_at: timestamp("reviewed_at", { withTimezone: true }),
+      created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+      updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    },
+    table => ({
+      entityStatusIdx: index(
+        `${indexPrefix}_entity_join_requests_entity_status_idx`
+      ).on(table.entity_id, table.status),
+      userIdx: index(`${indexPrefix}_entity_join_requests_user_idx`).on(
+        table.user_id
+      ),
+      pendingIdx: uniqueIndex(`${indexPrefix}_entity_join_requests_pending_idx`)
+        .on(table.entity_id, table.user_id)
+        .where(sql`status = 'pending'`),
+    })
+  );
+}
+
+// ========================================
+// ENTITY INVITATION SETTINGS TABLE
+// ========================================
+
+/**
+ * Create an entity_invitation_settings table for a specific PostgreSQL schema.
+ * One row per entity overriding the invitation defaults.
+ */
+export function createEntityInvitationSettingsTable(
+  schema: PgSchema,
+  _indexPrefix: string
+) {
+  return schema.table("entity_invitation_settings", {
+    entity_id: uuid("entity_id").primaryKey(),
+    default_expiry_days: integer("default_expiry_days"),
+    max_expiry_days: integer("max_expiry_days"),
+    max_pending_invitations: integer("max_pending_invitations"),
+    grantable_roles: jsonb("grantable_roles").$type<Record<string, string[]>>(), // inviter role key -> invitable roles
+    updated_by_user_id: varchar("updated_by_user_id", { length: 128 }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  });
+}
+
+/**
+ * Create an entity_invitation_settings table for the public schema.
+ * One row per entity overriding the invitation defaults.
+ */
+export function createEntityInvitationSettingsTablePublic(
+  _indexPrefix: string
+) {
+  return pgTable("entity_invitation_settings", {
+    entity_id: uuid("entity_id").primaryKey(),
+    default_expiry_days: integer("default_expiry_days"),
+    max_expiry_days: integer("max_expiry_days"),
+    max_pending_invitations: integer("max_pending_invitations"),
+    grantable_roles: jsonb("grantable_roles").$type<Record<string, string[]>>(), // inviter role key -> invitable roles
+    updated_by_user_id: varchar("updated_by_user_id", { length: 128 }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  });
+}
+
+// ========================================
+// DEFAULT TABLES (Public Schema)
+// ========================================
+
+/** Default entities table for public schema */
+export const entities = pgTable(
+  "entities",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_slug: varchar("entity_slug", { length: 12 }).notNull().unique(),
+    entity_type: varchar("entity_type", { length: 20 }).notNull(),
+    display_name: varchar("display_name", { length: 255 }).notNull(),
+    description: text("description"),
+    avatar_url: text("avatar_url"),
+    personal_owner_id: varchar("personal_owner_id", { length: 128 }), // firebase_uid, personal entities only
+    deleted_at: timestamp("deleted_at", { withTimezone: true }), // soft delete
+    parent_entity_id: uuid("parent_entity_id"), // parent organization for teams / sub-organizations
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    slugIdx: uniqueIndex("entities_slug_idx").on(table.entity_slug),
+    typeIdx: index("entities_type_idx").on(table.entity_type),
+    personalOwnerIdx: uniqueIndex("entities_personal_owner_idx").on(
+      table.personal_owner_id
+    ),
+    parentIdx: index("entities_parent_idx").on(table.parent_entity_id),
+  })
+);
+
+/** Default entity_members table for public schema */
+export const entityMembers = pgTable(
+  "entity_members",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    user_id: varchar("user_id", { length: 128 }).notNull(), // firebase_uid
+    role: varchar("role", { length: 20 }).notNull(),
+    is_active: boolean("is_active").notNull().default(true),
+    permission_overrides: jsonb("permission_overrides").$type<
+      Record<string, boolean>
+    >(), // per-member grant (true) / deny (false) by EntityPermissions key
+    expires_at: timestamp("expires_at", { withTimezone: true }), // null = never expires
+    joined_at: timestamp("joined_at", { withTimezone: true }).defaultNow(),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    entityUserUniqueIdx: uniqueIndex("entity_members_entity_user_idx").on(
+      table.entity_id,
+      table.user_id
+    ),
+    entityIdx: index("entity_members_entity_idx").on(table.entity_id),
+    userIdx: index("entity_members_user_idx").on(table.user_id),
+    activeIdx: index("entity_members_active_idx").on(table.is_active),
+  })
+);
+
+/** Default entity_invitations table for public schema */
+export const entityInvitations = pgTable(
+  "entity_invitations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    email: varchar("email", { length: 255 }).notNull(),
+    invited_user_id: varchar("invited_user_id", { length: 128 }), // firebase_uid, invitations of a known user
+    role: varchar("role", { length: 20 }).notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    invited_by_user_id: varchar("invited_by_user_id", {
+      length: 128,
+    }).notNull(), // firebase_uid
+    token: varchar("token", { length: 64 }).unique(), // legacy plaintext, null once hashed
+    token_hash: varchar("token_hash", { length: 64 }),
+    previous_token_hashes: jsonb("previous_token_hashes")
+      .$type<string[]>()
+      .notNull()
+      .default([]), // tokens replaced by reminders, still accepted
+    expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+    membership_expires_at: timestamp("membership_expires_at", {
+      withTimezone: true,
+    }), // end of the membership granted on accept
+    accepted_at: timestamp("accepted_at", { withTimezone: true }),
+    reminded_at: timestamp("reminded_at", { withTimezone: true }),
+    revoked_by_user_id: varchar("revoked_by_user_id", { length: 128 }), // firebase_uid
+    revoked_at: timestamp("revoked_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    tokenIdx: uniqueIndex("entity_invitations_token_idx").on(table.token),
+    tokenHashIdx: uniqueIndex("entity_invitations_token_hash_idx").on(
+      table.token_hash
+    ),
+    previousTokenHashesIdx: index(
+      "entity_invitations_previous_token_hashes_idx"
+    ).using("gin", table.previous_token_hashes),
+    entityIdx: index("entity_invitations_entity_idx").on(table.entity_id),
+    emailIdx: index("entity_invitations_email_idx").on(table.email),
+    invitedUserIdx: index("entity_invitations_invited_user_idx").on(
+      table.invited_user_id
+    ),
+    statusIdx: index("entity_invitations_status_idx").on(table.status),
+  })
+);
+
+/** Default entity_ownership_transfers table for public schema */
+export const entityOwnershipTransfers = pgTable(
+  "entity_ownership_transfers",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    from_user_id: varchar("from_user_id", { length: 128 }).notNull(), // firebase_uid
+    to_user_id: varchar("to_user_id", { length: 128 }).notNull(), // firebase_uid
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+    responded_at: timestamp("responded_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    entityIdx: index("entity_ownership_transfers_entity_idx").on(
+      table.entity_id
+    ),
+    toUserIdx: index("entity_ownership_transfers_to_user_idx").on(
+      table.to_user_id
+    ),
+  })
+);
+
+/** Default entity_slug_history table for public schema */
+export const entitySlugHistory = pgTable(
+  "entity_slug_history",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    slug: varchar("slug", { length: 12 }).notNull().unique(),
+    reserved_until: timestamp("reserved_until", {
+      withTimezone: true,
+    }).notNull(),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    slugIdx: uniqueIndex("entity_slug_history_slug_idx").on(table.slug),
+    entityIdx: index("entity_slug_history_entity_idx").on(table.entity_id),
+  })
+);
+
+/** Default entity_roles table for public schema */
+export const entityRoles = pgTable(
+  "entity_roles",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    role_key: varchar("role_key", { length: 20 }).notNull(),
+    display_name: varchar("display_name", { length: 255 }).notNull(),
+    description: text("description"),
+    permissions: jsonb("permissions").$type<string[]>().notNull().default([]), // EntityPermissions keys
+    rank: integer("rank").notNull().default(0),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    entityRoleKeyIdx: uniqueIndex("entity_roles_entity_role_key_idx").on(
+      table.entity_id,
+      table.role_key
+    ),
+    entityIdx: index("entity_roles_entity_idx").on(table.entity_id),
+  })
+);
+
+/** Default entity_api_keys table for public schema */
+export const entityApiKeys = pgTable(
+  "entity_api_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    key_prefix: varchar("key_prefix", { length: 16 }).notNull(), // shown to identify the key
+    key_hash: varchar("key_hash", { length: 64 }).notNull().unique(), // SHA-256 of the full key
+    scopes: jsonb("scopes").$type<string[]>().notNull().default([]), // EntityPermissions keys
+    created_by_user_id: varchar("created_by_user_id", {
+      length: 128,
+    }).notNull(), // firebase_uid
+    expires_at: timestamp("expires_at", { withTimezone: true }),
+    last_used_at: timestamp("last_used_at", { withTimezone: true }),
+    revoked_at: timestamp("revoked_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    keyHashIdx: uniqueIndex("entity_api_keys_key_hash_idx").on(table.key_hash),
+    entityIdx: index("entity_api_keys_entity_idx").on(table.entity_id),
+  })
+);
+
+/** Default entity_audit_events table for public schema */
+export const entityAuditEvents = pgTable(
+  "entity_audit_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    actor_user_id: varchar("actor_user_id", { length: 128 }), // firebase_uid, null for system actions
+    action: varchar("action", { length: 64 }).notNull(),
+    target_type: varchar("target_type", { length: 32 }).notNull(),
+    target_id: varchar("target_id", { length: 128 }),
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    entityCreatedIdx: index("entity_audit_events_entity_created_idx").on(
+      table.entity_id,
+      table.created_at
+    ),
+    actorIdx: index("entity_audit_events_actor_idx").on(table.actor_user_id),
+  })
+);
+
+/** Default entity_outbox_events table for public schema */
+export const entityOutboxEvents = pgTable(
+  "entity_outbox_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    idempotency_key: varchar("idempotency_key", { length: 64 }).notNull(),
+    entity_id: uuid("entity_id").notNull(),
+    event_type: varchar("event_type", { length: 64 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    next_attempt_at: timestamp("next_attempt_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    last_error: text("last_error"),
+    delivered_at: timestamp("delivered_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    idempotencyKeyIdx: uniqueIndex(
+      "entity_outbox_events_idempotency_key_idx"
+    ).on(table.idempotency_key),
+    pendingIdx: index("entity_outbox_events_pending_idx").on(
+      table.status,
+      table.next_attempt_at
+    ),
+  })
+);
+
+/** Default entity_webhook_endpoints table for public schema */
+export const entityWebhookEndpoints = pgTable(
+  "entity_webhook_endpoints",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    url: text("url").notNull(),
+    description: text("description"),
+    secret: varchar("secret", { length: 128 }).notNull(),
+    event_types: jsonb("event_types").$type<string[]>().notNull().default([]), // empty = all events
+    is_active: boolean("is_active").notNull().default(true),
+    created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+    disabled_at: timestamp("disabled_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    entityIdx: index("entity_webhook_endpoints_entity_idx").on(table.entity_id),
+  })
+);
+
+/** Default entity_webhook_deliveries table for public schema */
+export const entityWebhookDeliveries = pgTable(
+  "entity_webhook_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    endpoint_id: uuid("endpoint_id").notNull(),
+    entity_id: uuid("entity_id").notNull(),
+    event_type: varchar("event_type", { length: 64 }).notNull(),
+    idempotency_key: varchar("idempotency_key", { length: 64 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    next_attempt_at: timestamp("next_attempt_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    attempt_history: jsonb("attempt_history")
+      .$type<Record<string, unknown>[]>()
+      .notNull()
+      .default([]),
+    delivered_at: timestamp("delivered_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    endpointEventIdx: uniqueIndex(
+      "entity_webhook_deliveries_endpoint_event_idx"
+    ).on(table.endpoint_id, table.idempotency_key),
+    pendingIdx: index("entity_webhook_deliveries_pending_idx").on(
+      table.status,
+      table.next_attempt_at
+    ),
+  })
+);
+
+/** Default entity_invite_links table for public schema */
+export const entityInviteLinks = pgTable(
+  "entity_invite_links",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    token_hash: varchar("token_hash", { length: 64 }).notNull(),
+    role: varchar("role", { length: 20 }).notNull(),
+    max_uses: integer("max_uses"), // null = unlimited
+    use_count: integer("use_count").notNull().default(0),
+    allowed_email_domain: varchar("allowed_email_domain", { length: 255 }),
+    created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+    expires_at: timestamp("expires_at", { withTimezone: true }),
+    revoked_at: timestamp("revoked_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    tokenHashIdx: uniqueIndex("entity_invite_links_token_hash_idx").on(
+      table.token_hash
+    ),
+    entityIdx: index("entity_invite_links_entity_idx").on(table.entity_id),
+  })
+);
+
+/** Default entity_domains table for public schema */
+export const entityDomains = pgTable(
+  "entity_domains",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    domain: varchar("domain", { length: 255 }).notNull(),
+    verification_token: varchar("verification_token", {
+      length: 64,
+    }).notNull(),
+    verified_at: timestamp("verified_at", { withTimezone: true }),
+    join_policy: varchar("join_policy", { length: 20 })
+      .notNull()
+      .default("auto_join"),
+    default_role: varchar("default_role", { length: 20 })
+      .notNull()
+      .default("member"),
+    created_by_user_id: varchar("created_by_user_id", { length: 128 }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    entityDomainIdx: uniqueIndex("entity_domains_entity_domain_idx").on(
+      table.entity_id,
+      table.domain
+    ),
+    verifiedDomainIdx: uniqueIndex("entity_domains_verified_idx")
+      .on(table.domain)
+      .where(sql`verified_at IS NOT NULL`),
+  })
+);
+
+/** Default entity_join_requests table for public schema */
+export const entityJoinRequests = pgTable(
+  "entity_join_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entity_id: uuid("entity_id").notNull(),
+    user_id: varchar("user_id", { length: 128 }).notNull(),
+    message: text("message"),
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    reviewed_by_user_id: varchar("reviewed_by_user_id", { length: 128 }),
+    reviewed_at: timestamp("reviewed_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  table => ({
+    entityStatusIdx: index("entity_join_requests_entity_status_idx").on(
+      table.entity_id,
+      table.status
+    ),
+    userIdx: index("entity_join_requests_user_idx").on(table.user_id),
+    pendingIdx: uniqueIndex("entity_join_requests_pending_idx")
+      .on(table.entity_id, table.user_id)
+      .where(sql`status = 'pending'`),
+  })
+);
+
+/** Default entity_invitation_settings table for public schema */
+export const entityInvitationSettings = pgTable("entity_invitation_settings", {
+  entity_id: uuid("entity_id").primaryKey(),
+  default_expiry_days: integer("default_expiry_days"),
+  max_expiry_days: integer("max_expiry_days"),
+  max_pending_invitations: integer("max_pending_invitations"),
+  grantable_roles: jsonb("grantable_roles").$type<Record<string, string[]>>(), // inviter role key -> invitable roles
+  updated_by_user_id: varchar("updated_by_user_id", { length: 128 }),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
+// ========================================
+// TYPE EXPORTS
+// ========================================
+
+/** TypeScript type for entities table row */
+export type EntityRecord = typeof entities.$inferSelect;
+export type NewEntityRecord = typeof entities.$inferInsert;
+
+/** TypeScript type for entity_members table row */
+export type EntityMemberRecord = typeof entityMembers.$inferSelect;
+export type NewEntityMemberRecord = typeof entityMembers.$inferInsert;
+
+/** TypeScript type for entity_invitations table row */
+export type EntityInvitationRecord = typeof entityInvitations.$inferSelect;
+export type NewEntityInvitationRecord = typeof entityInvitations.$inferInsert;
+
+/** TypeScript type for entity_ownership_transfers table row */
+export type EntityOwnershipTransferRecord =
+  typeof entityOwnershipTransfers.$inferSelect;
+export type NewEntityOwnershipTransferRecord =
+  typeof entityOwnershipTransfers.$inferInsert;
+
+/** TypeScript type for entity_slug_history table row */
+export type EntitySlugHistoryRecord = typeof entitySlugHistory.$inferSelect;
+export type NewEntitySlugHistoryRecord = typeof entitySlugHistory.$inferInsert;
+
+/** TypeScript type for entity_roles table row */
+export type EntityRoleRecord = typeof entityRoles.$inferSelect;
+export type NewEntityRoleRecord = typeof entityRoles.$inferInsert;
+
+/** TypeScript type for entity_api_keys table row */
+export type EntityApiKeyRecord = typeof entityApiKeys.$inferSelect;
+export type NewEntityApiKeyRecord = typeof entityApiKeys.$inferInsert;
+
+/** TypeScript type for entity_audit_events table row */
+export type EntityAuditEventRecord = typeof entityAuditEvents.$inferSelect;
+export type NewEntityAuditEventRecord = typeof entityAuditEvents.$inferInsert;
+
+/** TypeScript type for entity_outbox_events table row */
+export type EntityOutboxEventRecord = typeof entityOutboxEvents.$inferSelect;
+export type NewEntityOutboxEventRecord = typeof entityOutboxEvents.$inferInsert;
+
+/** TypeScript type for entity_webhook_endpoints table row */
+export type EntityWebhookEndpointRecord =
+  typeof entityWebhookEndpoints.$inferSelect;
+export type NewEntityWebhookEndpointRecord =
+  typeof entityWebhookEndpoints.$inferInsert;
+
+/** TypeScript type for entity_webhook_deliveries table row */
+export type EntityWebhookDeliveryRecord =
+  typeof entityWebhookDeliveries.$inferSelect;
+export type NewEntityWebhookDeliveryRecord =
+  typeof entityWebhookDeliveries.$inferInsert;
+
+/** TypeScript type for entity_invite_links table row */
+export type EntityInviteLinkRecord = typeof entityInviteLinks.$inferSelect;
+export type NewEntityInviteLinkRecord = typeof entityInviteLinks.$inferInsert;
+
+/** TypeScript type for entity_domains table row */
+export type EntityDomainRecord = typeof entityDomains.$inferSelect;
+export type NewEntityDomainRecord = typeof entityDomains.$inferInsert;
+
+/** TypeScript type for entity_join_requests table row */
+export type EntityJoinRequestRecord = typeof entityJoinRequests.$inferSelect;
+export type NewEntityJoinRequestRecord = typeof entityJoinRequests.$inferInsert;
+
+/** TypeScript type for entity_invitation_settings table row */
+export type EntityInvitationSettingsRecord =
+  typeof entityInvitationSettings.$inferSelect;
+export type NewEntityInvitationSettingsRecord =
+  typeof entityInvitationSettings.$inferInsert;
+
+// ========================================
+// INITIALIZATION FUNCTIONS
+// ========================================
+
+/**
+ * Initialize all entity tables in the database.
+ * Note: Ownership is tracked via entity_members table (role = 'owner').
+ *
+ * @param client - postgres-js client instance
+ * @param schemaName - PostgreSQL schema name (null for public)
+ * @param indexPrefix - Prefix for index names
+ */
+export async function initEntityTables(
+  client: ReturnType<typeof import("postgres")>,
+  schemaName: string | null,
+  indexPrefix: string
+): Promise<void> {
+  const prefix = schemaName ? `${schemaName}.` : "";
+
+  // Create entities table (ownership tracked via entity_members)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entities (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_slug VARCHAR(12) NOT NULL UNIQUE,
+      entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('personal', 'organization')),
+      display_name VARCHAR(255) NOT NULL,
+      description TEXT,
+      avatar_url TEXT,
+      personal_owner_id VARCHAR(128),
+      deleted_at TIMESTAMPTZ,
+      parent_entity_id UUID REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entities_slug_idx
+    ON ${prefix}entities (entity_slug)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entities_type_idx
+    ON ${prefix}entities (entity_type)
+  `);
+
+  // One personal entity per user (upgrades tables created before the column
+  // existed; it is backfilled and made unique once entity_members exists)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entities
+    ADD COLUMN IF NOT EXISTS personal_owner_id VARCHAR(128)
+  `);
+
+  // Soft delete marker (upgrades tables created before the column existed)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entities
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ
+  `);
+
+  // Parent organization for teams / sub-organizations
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entities
+    ADD COLUMN IF NOT EXISTS parent_entity_id UUID REFERENCES ${prefix}entities(id) ON DELETE CASCADE
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entities_parent_idx
+    ON ${prefix}entities (parent_entity_id)
+  `);
+
+  // Create entity_members table (tracks all user-entity relationships including ownership)
   await client.unsafe(`
     CREATE TABLE IF NOT EXISTS ${prefix}entity_members (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
       user_id VARCHAR(128) NOT NULL,
-      role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'manager', 'member')),
+      role VARCHAR(20) NOT NULL,
       is_active BOOLEAN NOT NULL DEFAULT true,
+      permission_overrides JSONB,
+      expires_at TIMESTAMPTZ,
       joined_at TIMESTAMPTZ DEFAULT NOW(),
       created_at TIMESTAMPTZ DEFAULT NOW(),
       updated_at TIMESTAMPTZ DEFAULT NOW(),
@@ -387,6 +1700,24 @@ export async function initEntityTables(
     )
   `);
 
+  // Per-member permission overrides (upgrades tables created before the column existed)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_members
+    ADD COLUMN IF NOT EXISTS permission_overrides JSONB
+  `);
+
+  // Time-bound memberships (upgrades tables created before the column existed)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_members
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ
+  `);
+
+  // Roles may be custom role keys (upgrades tables created with the built-in-only check)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_members
+    DROP CONSTRAINT IF EXISTS entity_members_role_check
+  `);
+
   await client.unsafe(`
     CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_members_entity_user_idx
     ON ${prefix}entity_members (entity_id, user_id)
@@ -407,18 +1738,51 @@ export async function initEntityTables(
     ON ${prefix}entity_members (is_active)
   `);
 
+  // Backfill personal_owner_id (each owner's oldest personal entity) before
+  // enforcing one personal entity per user
+  await client.unsafe(`
+    UPDATE ${prefix}entities e
+    SET personal_owner_id = oldest.user_id
+    FROM (
+      SELECT DISTINCT ON (em.user_id) em.user_id, em.entity_id
+      FROM ${prefix}entity_members em
+      INNER JOIN ${prefix}entities pe ON pe.id = em.entity_id
+      WHERE em.role = 'owner'
+      AND pe.entity_type = 'personal'
+      ORDER BY em.user_id, pe.created_at ASC
+    ) oldest
+    WHERE e.id = oldest.entity_id
+    AND e.personal_owner_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM ${prefix}entities claimed
+      WHERE claimed.personal_owner_id = oldest.user_id
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entities_personal_owner_idx
+    ON ${prefix}entities (personal_owner_id)
+  `);
+
   // Create entity_invitations table
   await client.unsafe(`
     CREATE TABLE IF NOT EXISTS ${prefix}entity_invitations (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
       email VARCHAR(255) NOT NULL,
+      invited_user_id VARCHAR(128),
       role VARCHAR(20) NOT NULL CHECK (role IN ('manager', 'member')),
-      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired')),
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'revoked')),
       invited_by_user_id VARCHAR(128) NOT NULL,
-      token VARCHAR(64) NOT NULL UNIQUE,
+      token VARCHAR(64) UNIQUE,
+      token_hash VARCHAR(64),
+      previous_token_hashes JSONB NOT NULL DEFAULT '[]',
       expires_at TIMESTAMPTZ NOT NULL,
+      membership_expires_at TIMESTAMPTZ,
       accepted_at TIMESTAMPTZ,
+      reminded_at TIMESTAMPTZ,
+      revoked_by_user_id VARCHAR(128),
+      revoked_at TIMESTAMPTZ,
       created_at TIMESTAMPTZ DEFAULT NOW(),
       updated_at TIMESTAMPTZ DEFAULT NOW()
     )
@@ -429,6 +1793,73 @@ export async function initEntityTables(
     ON ${prefix}entity_invitations (token)
   `);
 
+  // Tokens are stored hashed; token only holds tokens of older rows until
+  // InvitationHelper.hashLegacyInvitationTokens, which must be called once
+  // after upgrading, converts them
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD COLUMN IF NOT EXISTS token_hash VARCHAR(64)
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ALTER COLUMN token DROP NOT NULL
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_token_hash_idx
+    ON ${prefix}entity_invitations (token_hash)
+  `);
+
+  // Reminders' new tokens do not invalidate the ones sent before them
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD COLUMN IF NOT EXISTS previous_token_hashes JSONB NOT NULL DEFAULT '[]'
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_previous_token_hashes_idx
+    ON ${prefix}entity_invitations USING GIN (previous_token_hashes)
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD COLUMN IF NOT EXISTS reminded_at TIMESTAMPTZ
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD COLUMN IF NOT EXISTS revoked_by_user_id VARCHAR(128)
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ
+  `);
+
+  // Revoked invitations are kept (upgrades tables created without the status)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    DROP CONSTRAINT IF EXISTS entity_invitations_status_check
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD CONSTRAINT entity_invitations_status_check
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'revoked'))
+  `);
+
+  // Invitations may name a known user (upgrades tables created before the column existed)
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD COLUMN IF NOT EXISTS invited_user_id VARCHAR(128)
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_invitations
+    ADD COLUMN IF NOT EXISTS membership_expires_at TIMESTAMPTZ
+  `);
+
   await client.unsafe(`
     CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_entity_idx
     ON ${prefix}entity_invitations (entity_id)
@@ -439,8 +1870,325 @@ export async function initEntityTables(
     ON ${prefix}entity_invitations (email)
   `);
 
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_invited_user_idx
+    ON ${prefix}entity_invitations (invited_user_id)
+  `);
+
   await client.unsafe(`
     CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invitations_status_idx
     ON ${prefix}entity_invitations (status)
   `);
+
+  // Create entity_ownership_transfers table (two-step ownership hand-offs)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_ownership_transfers (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      from_user_id VARCHAR(128) NOT NULL,
+      to_user_id VARCHAR(128) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'expired')),
+      expires_at TIMESTAMPTZ NOT NULL,
+      responded_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_ownership_transfers_entity_idx
+    ON ${prefix}entity_ownership_transfers (entity_id)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_ownership_transfers_to_user_idx
+    ON ${prefix}entity_ownership_transfers (to_user_id)
+  `);
+
+  // Create entity_slug_history table (previous slugs of renamed entities)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_slug_history (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      slug VARCHAR(12) NOT NULL UNIQUE,
+      reserved_until TIMESTAMPTZ NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_slug_history_slug_idx
+    ON ${prefix}entity_slug_history (slug)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_slug_history_entity_idx
+    ON ${prefix}entity_slug_history (entity_id)
+  `);
+
+  // Create entity_roles table (custom per-entity roles)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_roles (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      role_key VARCHAR(20) NOT NULL,
+      display_name VARCHAR(255) NOT NULL,
+      description TEXT,
+      permissions JSONB NOT NULL DEFAULT '[]',
+      rank INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE(entity_id, role_key)
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_roles_entity_role_key_idx
+    ON ${prefix}entity_roles (entity_id, role_key)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_roles_entity_idx
+    ON ${prefix}entity_roles (entity_id)
+  `);
+
+  // Create entity_api_keys table (hashed API keys for machine clients)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_api_keys (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      name VARCHAR(255) NOT NULL,
+      key_prefix VARCHAR(16) NOT NULL,
+      key_hash VARCHAR(64) NOT NULL UNIQUE,
+      scopes JSONB NOT NULL DEFAULT '[]',
+      created_by_user_id VARCHAR(128) NOT NULL,
+      expires_at TIMESTAMPTZ,
+      last_used_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_api_keys_key_hash_idx
+    ON ${prefix}entity_api_keys (key_hash)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_api_keys_entity_idx
+    ON ${prefix}entity_api_keys (entity_id)
+  `);
+
+  // Create entity_audit_events table (who changed what). entity_id has no
+  // foreign key, so the log outlives purged entities
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_audit_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL,
+      actor_user_id VARCHAR(128),
+      action VARCHAR(64) NOT NULL,
+      target_type VARCHAR(32) NOT NULL,
+      target_id VARCHAR(128),
+      before JSONB,
+      after JSONB,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    ALTER TABLE ${prefix}entity_audit_events
+    DROP CONSTRAINT IF EXISTS entity_audit_events_entity_id_fkey
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_audit_events_entity_created_idx
+    ON ${prefix}entity_audit_events (entity_id, created_at)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_audit_events_actor_idx
+    ON ${prefix}entity_audit_events (actor_user_id)
+  `);
+
+  // Create entity_outbox_events table (lifecycle events awaiting delivery)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_outbox_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      idempotency_key VARCHAR(64) NOT NULL,
+      entity_id UUID NOT NULL,
+      event_type VARCHAR(64) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      delivered_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_outbox_events_idempotency_key_idx
+    ON ${prefix}entity_outbox_events (idempotency_key)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_outbox_events_pending_idx
+    ON ${prefix}entity_outbox_events (status, next_attempt_at)
+  `);
+
+  // Create entity_webhook_endpoints table (per-entity HTTP callbacks)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_webhook_endpoints (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      url TEXT NOT NULL,
+      description TEXT,
+      secret VARCHAR(128) NOT NULL,
+      event_types JSONB NOT NULL DEFAULT '[]',
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_by_user_id VARCHAR(128),
+      disabled_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_webhook_endpoints_entity_idx
+    ON ${prefix}entity_webhook_endpoints (entity_id)
+  `);
+
+  // Create entity_webhook_deliveries table (one row per event and endpoint)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_webhook_deliveries (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      endpoint_id UUID NOT NULL REFERENCES ${prefix}entity_webhook_endpoints(id) ON DELETE CASCADE,
+      entity_id UUID NOT NULL,
+      event_type VARCHAR(64) NOT NULL,
+      idempotency_key VARCHAR(64) NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      attempt_history JSONB NOT NULL DEFAULT '[]',
+      delivered_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_webhook_deliveries_endpoint_event_idx
+    ON ${prefix}entity_webhook_deliveries (endpoint_id, idempotency_key)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_webhook_deliveries_pending_idx
+    ON ${prefix}entity_webhook_deliveries (status, next_attempt_at)
+  `);
+
+  // Create entity_invite_links table (shareable multi-use join links)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_invite_links (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      token_hash VARCHAR(64) NOT NULL,
+      role VARCHAR(20) NOT NULL CHECK (role IN ('manager', 'member')),
+      max_uses INTEGER CHECK (max_uses > 0),
+      use_count INTEGER NOT NULL DEFAULT 0,
+      allowed_email_domain VARCHAR(255),
+      created_by_user_id VARCHAR(128),
+      expires_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_invite_links_token_hash_idx
+    ON ${prefix}entity_invite_links (token_hash)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_invite_links_entity_idx
+    ON ${prefix}entity_invite_links (entity_id)
+  `);
+
+  // Create entity_domains table (email domains organizations can claim)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_domains (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      domain VARCHAR(255) NOT NULL,
+      verification_token VARCHAR(64) NOT NULL,
+      verified_at TIMESTAMPTZ,
+      join_policy VARCHAR(20) NOT NULL DEFAULT 'auto_join' CHECK (join_policy IN ('auto_join', 'request_to_join')),
+      default_role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (default_role IN ('manager', 'member')),
+      created_by_user_id VARCHAR(128),
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_domains_entity_domain_idx
+    ON ${prefix}entity_domains (entity_id, domain)
+  `);
+
+  // A domain can be verified by one entity only
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_domains_verified_idx
+    ON ${prefix}entity_domains (domain)
+    WHERE verified_at IS NOT NULL
+  `);
+
+  // Create entity_join_requests table (users asking to join an organization)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_join_requests (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_id UUID NOT NULL REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      user_id VARCHAR(128) NOT NULL,
+      message TEXT,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied', 'cancelled')),
+      reviewed_by_user_id VARCHAR(128),
+      reviewed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_join_requests_entity_status_idx
+    ON ${prefix}entity_join_requests (entity_id, status)
+  `);
+
+  await client.unsafe(`
+    CREATE INDEX IF NOT EXISTS ${indexPrefix}_entity_join_requests_user_idx
+    ON ${prefix}entity_join_requests (user_id)
+  `);
+
+  // A user can have one pending request per entity
+  await client.unsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS ${indexPrefix}_entity_join_requests_pending_idx
+    ON ${prefix}entity_join_requests (entity_id, user_id)
+    WHERE status = 'pending'
+  `);
+
+  // Create entity_invitation_settings table (per-entity invitation policy)
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS ${prefix}entity_invitation_settings (
+      entity_id UUID PRIMARY KEY REFERENCES ${prefix}entities(id) ON DELETE CASCADE,
+      default_expiry_days INTEGER CHECK (default_expiry_days > 0),
+      max_expiry_days INTEGER CHECK (max_expiry_days > 0),
+      max_pending_invitations INTEGER CHECK (max_pending_invitations >= 0),
+      grantable_roles JSONB,
+      updated_by_user_id VARCHAR(128),
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    )
+  `);
 }
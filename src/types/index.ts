@@ -4,32 +4,361 @@
  */
 
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
-
-// Re-export enums as values (not just types) so they can be used at runtime
-export {
-  EntityType,
+import {
   EntityRole,
-  InvitationStatus,
-  OWNER_PERMISSIONS,
-  MANAGER_PERMISSIONS,
-  MEMBER_PERMISSIONS,
-  getPermissionsForRole,
-  hasPermission,
+  InvitationStatus as BaseInvitationStatus,
+  OWNER_PERMISSIONS as BASE_OWNER_PERMISSIONS,
+  MANAGER_PERMISSIONS as BASE_MANAGER_PERMISSIONS,
+  MEMBER_PERMISSIONS as BASE_MEMBER_PERMISSIONS,
+  type EntityType,
+  type Entity,
+  type EntityInvitation as BaseEntityInvitation,
+  type EntityMember as BaseEntityMember,
+  type EntityPermissions as BaseEntityPermissions,
+  type InviteMemberRequest,
+  type UpdateEntityRequest,
 } from "@sudobility/types";
 
+// Re-export enums as values (not just types) so they can be used at runtime
+export { EntityType, EntityRole } from "@sudobility/types";
+
 // Re-export interfaces as types
 export type {
   Entity,
   EntityWithRole,
-  EntityMember,
-  EntityInvitation,
-  EntityPermissions,
   CreateEntityRequest,
   UpdateEntityRequest,
   InviteMemberRequest,
   UpdateMemberRoleRequest,
 } from "@sudobility/types";
 
+// ========================================
+// MEMBER TYPES
+// ========================================
+
+/**
+ * A user's membership in an entity.
+ */
+export interface EntityMember extends BaseEntityMember {
+  /**
+   * ISO 8601 time the membership ends (null: never). Expired memberships
+   * grant no role; EntityMemberHelper.expireMemberships deactivates them.
+   */
+  expiresAt: string | null;
+}
+
+/**
+ * Options for adding a member.
+ */
+export interface AddMemberOptions extends EntityOperationOptions {
+  /** ISO 8601 time the membership ends (default: never) */
+  expiresAt?: string;
+}
+
+/**
+ * Options for the membership maintenance methods.
+ */
+export interface MembershipMaintenanceOptions extends EntityOperationOptions {
+  /** Time the run is evaluated at (default: the current time) */
+  now?: Date;
+}
+
+// ========================================
+// INVITATION TYPES
+// ========================================
+
+/**
+ * Status of an invitation: the shared InvitationStatus plus `revoked`.
+ */
+export const InvitationStatus = {
+  ...BaseInvitationStatus,
+  /** Invitation revoked by the entity (see InvitationHelper.cancelInvitation) */
+  REVOKED: "revoked",
+} as const;
+export type InvitationStatus =
+  (typeof InvitationStatus)[keyof typeof InvitationStatus];
+
+/**
+ * An invitation to join an entity.
+ * Only a hash of the invitation token is stored, so the token is not part of
+ * it; it is returned once, in CreatedInvitation.
+ */
+export interface EntityInvitation extends Omit<
+  BaseEntityInvitation,
+  "token" | "status"
+> {
+  status: InvitationStatus;
+  /**
+   * Invited user (firebase_uid) for invitations created with inviteUser.
+   * They have no token and are answered by ID by that user.
+   */
+  invitedUserId: string | null;
+  /** ISO 8601 timestamp of the last reminder, reset when renewed */
+  remindedAt: string | null;
+  /** User who revoked the invitation (firebase_uid), if recorded */
+  revokedByUserId: string | null;
+  /** ISO 8601 timestamp of the revocation (null unless revoked) */
+  revokedAt: string | null;
+  /** ISO 8601 time the membership granted on accept ends (null: never) */
+  membershipExpiresAt: string | null;
+}
+
+/**
+ * Request to invite an existing user by ID.
+ */
+export interface InviteUserRequest {
+  /** The user to invite (firebase_uid) */
+  userId: string;
+  role: EntityRole;
+}
+
+/**
+ * A newly created invitation, including its token.
+ */
+export interface CreatedInvitation extends EntityInvitation {
+  /** Secret for the accept link; shown once, only its hash is stored */
+  token: string;
+}
+
+/**
+ * Outcome of one row of a bulk invitation.
+ */
+export enum BulkInvitationStatus {
+  CREATED = "created",
+  /** The email belongs to an active member */
+  ALREADY_MEMBER = "already_member",
+  /** A pending invitation exists for the email */
+  ALREADY_INVITED = "already_invited",
+  /** The email appears in an earlier row */
+  DUPLICATE = "duplicate",
+  /** Invalid email or role, or vetoed by a hook (see `error`) */
+  INVALID = "invalid",
+}
+
+/**
+ * Result of one row of createInvitations, in input order.
+ */
+export interface BulkInvitationResult {
+  /** The row's email, trimmed and lowercased */
+  email: string;
+  role: EntityRole;
+  status: BulkInvitationStatus;
+  /** The new invitation with its token (created rows only) */
+  invitation: CreatedInvitation | null;
+  /** Why the row was refused (invalid rows only) */
+  error: string | null;
+}
+
+/**
+ * A problem found while parsing an invitation CSV.
+ */
+export interface InvitationCsvError {
+  /** 1-based line of the record */
+  line: number;
+  message: string;
+}
+
+/**
+ * Rows parsed from an invitation CSV, ready for createInvitations.
+ */
+export interface InvitationCsvParseResult {
+  rows: InviteMemberRequest[];
+  errors: InvitationCsvError[];
+}
+
+/**
+ * Who may accept an invitation besides holding its token.
+ */
+export enum InvitationAcceptancePolicy {
+  /** Anyone with the token */
+  OPEN = "open",
+  /** Users whose email (usersTable.email) is the invited email */
+  EMAIL = "email",
+  /** Like EMAIL, and the email must be verified (see AcceptInvitationOptions) */
+  VERIFIED_EMAIL = "verified_email",
+  /** Users whose email is at the invited email's domain */
+  DOMAIN = "domain",
+}
+
+/**
+ * Why the acceptance policy refused a user (see InvitationAcceptanceError).
+ */
+export enum InvitationAcceptanceErrorCode {
+  /** The user has no email on record */
+  EMAIL_MISSING = "email_missing",
+  /** The user's email is not the invited email */
+  EMAIL_MISMATCH = "email_mismatch",
+  /** The user's email is not verified */
+  EMAIL_NOT_VERIFIED = "email_not_verified",
+  /** The user's email is at another domain than the invited email */
+  DOMAIN_MISMATCH = "domain_mismatch",
+  /** The invitation names another user */
+  USER_MISMATCH = "user_mismatch",
+}
+
+/**
+ * Options for accepting an invitation.
+ */
+export interface AcceptInvitationOptions extends EntityOperationOptions {
+  /**
+   * Whether the accepting user's email is verified, e.g. the `email_verified`
+   * claim of their ID token. Required by the verified email policy.
+   */
+  emailVerified?: boolean;
+}
+
+/**
+ * Invitation policy of an entity, with defaults for anything it does not set.
+ */
+export interface InvitationSettings {
+  entityId: string;
+  /** Days a new or renewed invitation stays valid (default: 14) */
+  defaultExpiryDays: number;
+  /** Longest expiry an inviter may choose; null for no limit */
+  maxExpiryDays: number | null;
+  /** Pending invitations the entity may have at once; null for no limit */
+  maxPendingInvitations: number | null;
+  /**
+   * Roles each inviter role may grant, keyed by role key (built-in or
+   * custom), e.g. `{ manager: ['member'] }`. Inviter roles not listed may
+   * grant the invitable roles ranked at or below their own.
+   */
+  grantableRoles: Record<string, EntityRole[]>;
+  /** Last user to change the settings (firebase_uid); null if never set */
+  updatedByUserId: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Changes to an entity's invitation settings.
+ * Omitted fields keep their value; null restores the default.
+ */
+export interface UpdateInvitationSettingsRequest {
+  defaultExpiryDays?: number | null;
+  maxExpiryDays?: number | null;
+  maxPendingInvitations?: number | null;
+  grantableRoles?: Record<string, EntityRole[]> | null;
+}
+
+/**
+ * Why the entity's invitation settings refused an invitation.
+ */
+export enum InvitationPolicyErrorCode {
+  /** The inviter's role may not grant the invited role */
+  ROLE_NOT_ALLOWED = "role_not_allowed",
+  /** The entity has as many pending invitations as it may have */
+  PENDING_LIMIT_REACHED = "pending_limit_reached",
+  /** The requested expiry exceeds the entity's maximum */
+  EXPIRY_TOO_LONG = "expiry_too_long",
+}
+
+/**
+ * Options for creating and renewing invitations.
+ */
+export interface InvitationExpiryOptions extends EntityOperationOptions {
+  /** Days until the invitation expires (default: the entity's default expiry) */
+  expiresInDays?: number;
+  /**
+   * ISO 8601 time the membership granted on accept ends (default: never).
+   * Only used when creating invitations; renewing keeps it.
+   */
+  membershipExpiresAt?: string;
+}
+
+/**
+ * Options for the invitation maintenance methods.
+ */
+export interface InvitationMaintenanceOptions extends EntityOperationOptions {
+  /** Time the run is evaluated at (default: the current time) */
+  now?: Date;
+}
+
+/**
+ * Options for the invitation scheduler.
+ */
+export interface InvitationSchedulerOptions {
+  /** Days before expiry a reminder is sent; null disables reminders (default: 2) */
+  reminderDaysBeforeExpiry?: number | null;
+  /** Days declined and expired invitations are kept; null keeps them (default: 90) */
+  retentionDays?: number | null;
+  /** Interval between runs started by `start()` (default: 1 hour) */
+  intervalMs?: number;
+}
+
+/**
+ * Outcome of one maintenance run.
+ */
+export interface InvitationMaintenanceResult {
+  /** Pending invitations past their expiry, now expired */
+  expired: number;
+  /** Reminders sent */
+  reminded: number;
+  /** Declined and expired invitations deleted */
+  purged: number;
+  /** Memberships past their expiry, now deactivated */
+  expiredMemberships: number;
+}
+
+// ========================================
+// PERMISSION TYPES
+// ========================================
+
+/**
+ * Permissions within an entity: the shared @sudobility/types permissions
+ * plus those of features that only exist in this service.
+ */
+export interface EntityPermissions extends BaseEntityPermissions {
+  /** Can register, test and disable webhook endpoints */
+  canManageWebhooks: boolean;
+}
+
+/** Permission set for the Owner role */
+export const OWNER_PERMISSIONS: EntityPermissions = {
+  ...BASE_OWNER_PERMISSIONS,
+  canManageWebhooks: true,
+};
+
+/** Permission set for the Manager role */
+export const MANAGER_PERMISSIONS: EntityPermissions = {
+  ...BASE_MANAGER_PERMISSIONS,
+  canManageWebhooks: false,
+};
+
+/** Permission set for the Member role */
+export const MEMBER_PERMISSIONS: EntityPermissions = {
+  ...BASE_MEMBER_PERMISSIONS,
+  canManageWebhooks: false,
+};
+
+/**
+ * Get permissions for a built-in role.
+ * @param role - The entity role
+ * @returns The permission set for that role
+ */
+export function getPermissionsForRole(role: EntityRole): EntityPermissions {
+  switch (role) {
+    case EntityRole.OWNER:
+      return OWNER_PERMISSIONS;
+    case EntityRole.MANAGER:
+      return MANAGER_PERMISSIONS;
+    default:
+      return MEMBER_PERMISSIONS;
+  }
+}
+
+/**
+ * Check if a built-in role has a specific permission.
+ * @param role - The entity role to check
+ * @param permission - The permission key to check
+ * @returns Whether the role has the permission
+ */
+export function hasPermission(
+  role: EntityRole,
+  permission: keyof EntityPermissions
+): boolean {
+  return getPermissionsForRole(role)[permission];
+}
+
 // ========================================
 // INTERNAL CONFIGURATION TYPES
 // ========================================
@@ -47,6 +376,41 @@ export interface EntityHelperConfig {
   membersTable: any;
   /** Users table reference (for joins) */
   usersTable: any;
+  /** Ownership transfers table reference (enables two-step ownership transfer) */
+  ownershipTransfersTable?: any;
+  /** Days a soft-deleted entity can be restored before it is purged (default: 30) */
+  deletionGracePeriodDays?: number;
+  /** Slug history table reference (enables old-slug resolution after renames) */
+  slugHistoryTable?: any;
+  /** Days a previous slug stays reserved for its former entity (default: 90) */
+  slugReservationDays?: number;
+  /** Maximum nesting depth of child organizations below a root (default: 5) */
+  maxEntityDepth?: number;
+  /** Custom roles table reference (enables per-entity custom roles) */
+  rolesTable?: any;
+  /** API keys table reference (enables entity-scoped API keys) */
+  apiKeysTable?: any;
+  /** Audit events table reference (enables the audit log) */
+  auditEventsTable?: any;
+  /** Lifecycle hooks run around entity, member and invitation changes */
+  hooks?: EntityHooks;
+  /** Outbox events table reference (enables reliable lifecycle event delivery) */
+  outboxTable?: any;
+  /** Webhook endpoints table reference (enables per-entity webhooks) */
+  webhookEndpointsTable?: any;
+  /** Webhook deliveries table reference (required with webhookEndpointsTable) */
+  webhookDeliveriesTable?: any;
+  /** Domains table reference (enables verified email domains) */
+  domainsTable?: any;
+  /** Resolver for domain verification TXT lookups (default: node:dns) */
+  dnsResolver?: DnsResolver;
+  /** Join requests table reference (enables requests to join organizations) */
+  joinRequestsTable?: any;
+  /**
+   * Invitation settings table reference (enables per-entity invitation
+   * policy; its grantable roles also limit join request approvals)
+   */
+  invitationSettingsTable?: any;
 }
 
 /**
@@ -56,6 +420,41 @@ export interface EntityHelperConfig {
 export interface InvitationHelperConfig extends EntityHelperConfig {
   /** Entity invitations table reference */
   invitationsTable: any;
+  /** Delivers invitation emails (see createEmailInvitationNotifier) */
+  invitationNotifier?: InvitationNotifier;
+  /** Invite links table reference (enables shareable multi-use join links) */
+  inviteLinksTable?: any;
+  /**
+   * Secret keying the stored invitation token hashes (HMAC-SHA256).
+   * Changing it invalidates the links of pending invitations.
+   */
+  invitationTokenSecret: string;
+  /** Who may accept an invitation with its token (default: open) */
+  invitationAcceptancePolicy?: InvitationAcceptancePolicy;
+}
+
+/**
+ * Transaction handle passed to `db.transaction()` callbacks.
+ */
+export type EntityTransaction = Parameters<
+  Parameters<PostgresJsDatabase<any>["transaction"]>[0]
+>[0];
+
+/**
+ * Options accepted by helper methods that touch the database.
+ */
+export interface EntityOperationOptions {
+  /**
+   * Caller-supplied transaction. When given, the operation joins it instead of
+   * opening its own, so it commits or rolls back with the caller's other writes.
+   * After hooks then run before it commits (see AfterHook).
+   */
+  tx?: EntityTransaction;
+  /**
+   * User performing the operation (firebase_uid), recorded in the audit log.
+   * Methods that already take the acting user default to it.
+   */
+  actorUserId?: string;
 }
 
 /**
@@ -67,10 +466,69 @@ export interface EntityOperationResult<T> {
   error?: string;
 }
 
+/**
+ * Options for looking up a single entity.
+ */
+export interface GetEntityOptions extends EntityOperationOptions {
+  /** Also return soft-deleted entities (default: false) */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options for checking slug availability.
+ */
+export interface SlugAvailabilityOptions extends EntityOperationOptions {
+  /** Entity that wants the slug; its own previous slugs count as available */
+  forEntityId?: string;
+}
+
+/**
+ * Result of resolving a slug that may be a previous slug of a renamed entity.
+ */
+export interface ResolvedEntitySlug {
+  /** The entity the slug belongs to */
+  entity: Entity;
+  /** Whether the slug is the entity's current slug (false for a previous slug) */
+  isCanonical: boolean;
+}
+
+/**
+ * A previous slug of a renamed entity.
+ */
+export interface EntitySlugHistoryEntry {
+  /** The previous slug */
+  slug: string;
+  /** Entity the slug used to belong to */
+  entityId: string;
+  /** ISO 8601 timestamp until which no other entity can claim the slug */
+  reservedUntil: string;
+  /** ISO 8601 timestamp when the entity was renamed away from this slug */
+  createdAt: string;
+}
+
+/**
+ * A soft-deleted entity that can still be restored.
+ */
+export interface DeletedEntity extends Entity {
+  /** ISO 8601 timestamp when the entity was deleted */
+  deletedAt: string;
+  /** ISO 8601 timestamp after which the entity is purged and cannot be restored */
+  restorableUntil: string;
+}
+
+/**
+ * An organization together with its position in the entity hierarchy.
+ * Teams and sub-organizations are organizations with a parent.
+ */
+export interface HierarchicalEntity extends Entity {
+  /** Parent organization ID (null for top-level organizations) */
+  parentEntityId: string | null;
+}
+
 /**
  * Options for listing entities.
  */
-export interface ListEntitiesOptions {
+export interface ListEntitiesOptions extends EntityOperationOptions {
   /** Include only entities of this type */
   entityType?: "personal" | "organization";
   /** Maximum number of results */
@@ -82,7 +540,7 @@ export interface ListEntitiesOptions {
 /**
  * Options for listing members.
  */
-export interface ListMembersOptions {
+export interface ListMembersOptions extends EntityOperationOptions {
   /** Filter by role */
   role?: "owner" | "manager" | "member";
   /** Filter by active status */
@@ -96,11 +554,1109 @@ export interface ListMembersOptions {
 /**
  * Options for listing invitations.
  */
-export interface ListInvitationsOptions {
+export interface ListInvitationsOptions extends EntityOperationOptions {
   /** Filter by status */
-  status?: "pending" | "accepted" | "declined" | "expired";
+  status?: "pending" | "accepted" | "declined" | "expired" | "revoked";
   /** Maximum number of results */
   limit?: number;
   /** Offset for pagination */
   offset?: number;
 }
+
+// ========================================
+// OWNERSHIP TRANSFER TYPES
+// ========================================
+
+/**
+ * Status of a two-step ownership transfer.
+ */
+export enum OwnershipTransferStatus {
+  /** Requested by the current owner, awaiting the new owner's response */
+  PENDING = "pending",
+  /** Accepted by the new owner, ownership has moved */
+  ACCEPTED = "accepted",
+  /** Declined by the proposed new owner */
+  DECLINED = "declined",
+  /** Withdrawn by the current owner */
+  CANCELLED = "cancelled",
+  /** Not answered before the expiry date */
+  EXPIRED = "expired",
+}
+
+/** Days a requested ownership transfer stays open for the new owner */
+export const OWNERSHIP_TRANSFER_EXPIRY_DAYS = 7;
+
+/**
+ * A pending or completed request to hand ownership of an entity to another member.
+ */
+export interface OwnershipTransfer {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Entity whose ownership is being transferred */
+  entityId: string;
+  /** Current owner who requested the transfer (firebase_uid) */
+  fromUserId: string;
+  /** Member who will become the owner (firebase_uid) */
+  toUserId: string;
+  /** Current status of the transfer */
+  status: OwnershipTransferStatus;
+  /** ISO 8601 timestamp when the request expires */
+  expiresAt: string;
+  /** ISO 8601 timestamp when the new owner responded (null while pending) */
+  respondedAt: string | null;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+// ========================================
+// ROLE TYPES
+// ========================================
+
+/**
+ * A member role: one of the built-in roles or the key of a custom role
+ * defined for the entity.
+ */
+export type EntityRoleKey = EntityRole | string;
+
+/**
+ * Rank of the built-in roles. Custom roles rank between 0 and
+ * MAX_CUSTOM_ROLE_RANK, so only owners outrank every custom role.
+ */
+export const BUILT_IN_ROLE_RANKS: Record<EntityRole, number> = {
+  [EntityRole.MEMBER]: 10,
+  [EntityRole.MANAGER]: 50,
+  [EntityRole.OWNER]: 100,
+};
+
+/** Highest rank a custom role can have */
+export const MAX_CUSTOM_ROLE_RANK = 99;
+
+/**
+ * A custom role defined for an entity.
+ */
+export interface CustomRole {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Entity the role belongs to */
+  entityId: string;
+  /** Key stored as the member role (lowercase, unique per entity) */
+  roleKey: string;
+  /** Human-readable name */
+  displayName: string;
+  /** Optional description */
+  description: string | null;
+  /** Permissions the role grants */
+  permissions: Array<keyof EntityPermissions>;
+  /** Position in the role hierarchy (0 to MAX_CUSTOM_ROLE_RANK) */
+  rank: number;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Request to create a custom role.
+ */
+export interface CreateCustomRoleRequest {
+  roleKey: string;
+  displayName: string;
+  description?: string;
+  permissions: Array<keyof EntityPermissions>;
+  rank: number;
+}
+
+/**
+ * Request to update a custom role. The role key cannot change.
+ */
+export interface UpdateCustomRoleRequest {
+  displayName?: string;
+  description?: string | null;
+  permissions?: Array<keyof EntityPermissions>;
+  rank?: number;
+}
+
+// ========================================
+// PERMISSION OVERRIDE TYPES
+// ========================================
+
+/**
+ * Per-member permission overrides: true grants a permission the role lacks,
+ * false denies one the role has. Permissions not listed follow the role.
+ */
+export type PermissionOverrides = Partial<
+  Record<keyof EntityPermissions, boolean>
+>;
+
+/**
+ * A member's permission overrides in an entity.
+ */
+export interface MemberPermissionOverrides {
+  /** Member's user ID (firebase_uid) */
+  userId: string;
+  /** The member's overrides */
+  overrides: PermissionOverrides;
+}
+
+// ========================================
+// API KEY TYPES
+// ========================================
+
+/**
+ * Role reported in the entity context of requests authenticated by an API key.
+ * API keys hold no role; their scopes decide what they may do.
+ */
+export const API_KEY_ROLE = "api_key";
+
+/**
+ * An entity-scoped API key (the secret itself is never stored).
+ */
+export interface ApiKey {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Entity the key acts for */
+  entityId: string;
+  /** Human-readable name */
+  name: string;
+  /** Leading characters of the key, for recognizing it in listings */
+  keyPrefix: string;
+  /** Permissions the key grants */
+  scopes: Array<keyof EntityPermissions>;
+  /** Member who created the key (firebase_uid) */
+  createdByUserId: string;
+  /** ISO 8601 timestamp when the key expires (null for no expiry) */
+  expiresAt: string | null;
+  /** ISO 8601 timestamp of the last successful authentication */
+  lastUsedAt: string | null;
+  /** ISO 8601 timestamp when the key was revoked (null while active) */
+  revokedAt: string | null;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * A newly created API key, including the secret.
+ * The secret is only available at creation time.
+ */
+export interface CreatedApiKey extends ApiKey {
+  /** The full API key to hand to the client */
+  key: string;
+}
+
+/**
+ * Request to create an API key.
+ */
+export interface CreateApiKeyRequest {
+  name: string;
+  /** Permissions to grant; must be a subset of the creator's permissions */
+  scopes: Array<keyof EntityPermissions>;
+  /** ISO 8601 expiry timestamp (omit for a key that does not expire) */
+  expiresAt?: string;
+}
+
+/**
+ * Result of authenticating an API key.
+ */
+export interface ApiKeyAuthentication {
+  /** The authenticated key */
+  apiKey: ApiKey;
+  /** The entity the key acts for */
+  entity: Entity;
+  /** Permissions granted by the key's scopes */
+  permissions: EntityPermissions;
+}
+
+// ========================================
+// INVITE LINK TYPES
+// ========================================
+
+/**
+ * A shareable link anyone can use to join an entity, within its limits.
+ */
+export interface InviteLink {
+  /** Unique identifier (UUID) */
+  id: string;
+  entityId: string;
+  /** Role granted to users joining through the link */
+  role: EntityRole;
+  /** Maximum number of redemptions (null for unlimited) */
+  maxUses: number | null;
+  useCount: number;
+  /** Only users with an email at this domain may redeem (null for anyone) */
+  allowedEmailDomain: string | null;
+  /** Member who created the link (firebase_uid) */
+  createdByUserId: string | null;
+  /** ISO 8601 timestamp when the link stops working (null for no expiry) */
+  expiresAt: string | null;
+  /** ISO 8601 timestamp when the link was revoked (null while active) */
+  revokedAt: string | null;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * A newly created invite link, the only time its token is available.
+ */
+export interface CreatedInviteLink extends InviteLink {
+  /** Secret part of the link; shown once, only its hash is stored */
+  token: string;
+}
+
+/**
+ * Request to create an invite link.
+ */
+export interface CreateInviteLinkRequest {
+  /** Manager or member */
+  role: EntityRole;
+  /** Maximum number of redemptions (omit for unlimited) */
+  maxUses?: number;
+  /** ISO 8601 expiry timestamp (omit for a link that does not expire) */
+  expiresAt?: string;
+  /** Restrict the link to emails at this domain, e.g. "acme.com" */
+  allowedEmailDomain?: string;
+}
+
+// ========================================
+// DOMAIN TYPES
+// ========================================
+
+/**
+ * What happens when a user with an email at a verified domain signs up.
+ */
+export enum DomainJoinPolicy {
+  /** The user becomes a member with the domain's default role */
+  AUTO_JOIN = "auto_join",
+  /** The organization is suggested to the user, who may ask to join */
+  REQUEST_TO_JOIN = "request_to_join",
+}
+
+/**
+ * Looks up DNS TXT records; compatible with `resolveTxt` of `node:dns/promises`.
+ */
+export interface DnsResolver {
+  /** @returns Each record as the list of its character strings */
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+/**
+ * An email domain claimed by an organization.
+ */
+export interface EntityDomain {
+  /** Unique identifier (UUID) */
+  id: string;
+  entityId: string;
+  /** Lowercase domain, e.g. "acme.com" */
+  domain: string;
+  joinPolicy: DomainJoinPolicy;
+  /** Role of users joining through the domain */
+  defaultRole: EntityRole;
+  /** TXT record to publish to prove control of the domain */
+  verificationRecord: {
+    name: string;
+    value: string;
+  };
+  /** ISO 8601 timestamp of verification (null while unverified) */
+  verifiedAt: string | null;
+  /** Member who added the domain (firebase_uid) */
+  createdByUserId: string | null;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Request to claim an email domain.
+ */
+export interface AddEntityDomainRequest {
+  domain: string;
+  /** Default: auto join */
+  joinPolicy?: DomainJoinPolicy;
+  /** Manager or member (default: member) */
+  defaultRole?: EntityRole;
+}
+
+/**
+ * Request to change how a domain admits users.
+ */
+export interface UpdateEntityDomainRequest {
+  joinPolicy?: DomainJoinPolicy;
+  defaultRole?: EntityRole;
+}
+
+/**
+ * Outcome of applying domain rules to a user.
+ */
+export interface DomainJoinResult {
+  /** Memberships created (or reactivated) by auto-join domains */
+  joined: EntityMember[];
+  /** Organizations the user may ask to join (request-to-join domains) */
+  joinable: Entity[];
+}
+
+// ========================================
+// JOIN REQUEST TYPES
+// ========================================
+
+/**
+ * Status of a request to join an organization.
+ */
+export enum JoinRequestStatus {
+  PENDING = "pending",
+  APPROVED = "approved",
+  DENIED = "denied",
+  /** Withdrawn by the requesting user */
+  CANCELLED = "cancelled",
+}
+
+/**
+ * A user's request to join an organization.
+ */
+export interface JoinRequest {
+  /** Unique identifier (UUID) */
+  id: string;
+  entityId: string;
+  /** Requesting user (firebase_uid) */
+  userId: string;
+  /** Note from the user to the reviewers */
+  message: string | null;
+  status: JoinRequestStatus;
+  /** Member who approved or denied the request */
+  reviewedByUserId: string | null;
+  /** ISO 8601 timestamp of approval or denial */
+  reviewedAt: string | null;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+  /** Requesting user's info (when listed for reviewers) */
+  user?: {
+    id: string;
+    email: string | null;
+    displayName: string | null;
+  };
+}
+
+/**
+ * Options for listing join requests.
+ */
+export interface ListJoinRequestsOptions extends EntityOperationOptions {
+  /** Default: pending */
+  status?: JoinRequestStatus;
+}
+
+// ========================================
+// AUDIT TYPES
+// ========================================
+
+/**
+ * Kinds of changes recorded in the audit log.
+ */
+export enum AuditAction {
+  ENTITY_CREATED = "entity.created",
+  ENTITY_UPDATED = "entity.updated",
+  ENTITY_DELETED = "entity.deleted",
+  ENTITY_RESTORED = "entity.restored",
+  ENTITY_PURGED = "entity.purged",
+  MEMBER_ADDED = "member.added",
+  MEMBER_ROLE_CHANGED = "member.role_changed",
+  MEMBER_REMOVED = "member.removed",
+  MEMBER_PERMISSIONS_CHANGED = "member.permissions_changed",
+  MEMBER_EXPIRY_CHANGED = "member.expiry_changed",
+  MEMBER_EXPIRED = "member.expired",
+  OWNERSHIP_TRANSFERRED = "ownership.transferred",
+  OWNERSHIP_TRANSFER_REQUESTED = "ownership.transfer_requested",
+  OWNERSHIP_TRANSFER_DECLINED = "ownership.transfer_declined",
+  OWNERSHIP_TRANSFER_CANCELLED = "ownership.transfer_cancelled",
+  OWNERSHIP_TRANSFER_EXPIRED = "ownership.transfer_expired",
+  INVITATION_CREATED = "invitation.created",
+  INVITATION_RENEWED = "invitation.renewed",
+  INVITATION_ACCEPTED = "invitation.accepted",
+  INVITATION_DECLINED = "invitation.declined",
+  INVITATION_CANCELLED = "invitation.cancelled",
+  INVITATION_EXPIRED = "invitation.expired",
+  ROLE_CREATED = "role.created",
+  ROLE_UPDATED = "role.updated",
+  ROLE_DELETED = "role.deleted",
+  API_KEY_CREATED = "api_key.created",
+  API_KEY_REVOKED = "api_key.revoked",
+  WEBHOOK_CREATED = "webhook.created",
+  WEBHOOK_UPDATED = "webhook.updated",
+  WEBHOOK_DISABLED = "webhook.disabled",
+  WEBHOOK_ENABLED = "webhook.enabled",
+  WEBHOOK_DELETED = "webhook.deleted",
+  INVITE_LINK_CREATED = "invite_link.created",
+  INVITE_LINK_REVOKED = "invite_link.revoked",
+  INVITE_LINK_REDEEMED = "invite_link.redeemed",
+  DOMAIN_ADDED = "domain.added",
+  DOMAIN_VERIFIED = "domain.verified",
+  DOMAIN_UPDATED = "domain.updated",
+  DOMAIN_REMOVED = "domain.removed",
+  JOIN_REQUEST_CREATED = "join_request.created",
+  JOIN_REQUEST_APPROVED = "join_request.approved",
+  JOIN_REQUEST_DENIED = "join_request.denied",
+  JOIN_REQUEST_CANCELLED = "join_request.cancelled",
+  INVITATION_SETTINGS_UPDATED = "invitation_settings.updated",
+}
+
+/**
+ * Kinds of objects an audit event can be about.
+ */
+export enum AuditTargetType {
+  ENTITY = "entity",
+  MEMBER = "member",
+  INVITATION = "invitation",
+  OWNERSHIP_TRANSFER = "ownership_transfer",
+  ROLE = "role",
+  API_KEY = "api_key",
+  WEBHOOK = "webhook",
+  INVITE_LINK = "invite_link",
+  DOMAIN = "domain",
+  JOIN_REQUEST = "join_request",
+}
+
+/**
+ * A recorded change to an entity or something it owns.
+ */
+export interface AuditEvent {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Entity the change belongs to */
+  entityId: string;
+  /** User who made the change (null for system actions such as expiry) */
+  actorUserId: string | null;
+  /** What happened */
+  action: AuditAction;
+  /** Kind of object that changed */
+  targetType: AuditTargetType;
+  /** ID of the object that changed (user ID for members, role key for roles) */
+  targetId: string | null;
+  /** Changed values before the change */
+  before: Record<string, unknown> | null;
+  /** Changed values after the change */
+  after: Record<string, unknown> | null;
+  /** ISO 8601 timestamp of the change */
+  createdAt: string;
+}
+
+/**
+ * An audit event to record.
+ */
+export interface RecordAuditEventRequest {
+  entityId: string;
+  actorUserId?: string | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+/**
+ * Options for querying the audit log of an entity.
+ */
+export interface ListAuditEventsOptions extends EntityOperationOptions {
+  /** Include only these actions */
+  actions?: AuditAction[];
+  /** Include only changes made by this user (firebase_uid) */
+  performedBy?: string;
+  /** Include only changes to this kind of object */
+  targetType?: AuditTargetType;
+  /** Include only changes to this object */
+  targetId?: string;
+  /** Include only events at or after this ISO 8601 timestamp */
+  since?: string;
+  /** Include only events before this ISO 8601 timestamp */
+  until?: string;
+  /** Maximum number of results (default 50, max 200) */
+  limit?: number;
+  /** Offset for pagination */
+  offset?: number;
+}
+
+// ========================================
+// HOOK TYPES
+// ========================================
+
+/**
+ * Context passed to every hook.
+ */
+export interface HookContext {
+  /** User performing the change (null for system actions such as expiry) */
+  actorUserId: string | null;
+}
+
+/**
+ * Context passed to before hooks, which run inside the change's transaction.
+ */
+export interface BeforeHookContext extends HookContext {
+  /** Transaction of the change; reads through it see the pending state */
+  tx: EntityTransaction;
+}
+
+/**
+ * Runs before a change, inside its transaction.
+ * Throwing (preferably a HookVetoError) vetoes the change and rolls it back.
+ */
+export type BeforeHook<T> = (
+  event: T & BeforeHookContext
+) => void | Promise<void>;
+
+/**
+ * Runs after a change has been made.
+ * Errors are logged and do not undo the change.
+ * When the operation joined a caller-supplied `tx`, the hook runs before that
+ * transaction commits, and the change may still be rolled back. Hooks must
+ * then not have side effects outside the database (emails, API calls,
+ * caches): react to the outbox instead, or run them once the caller's
+ * transaction has committed.
+ */
+export type AfterHook<T> = (event: T & HookContext) => void | Promise<void>;
+
+export interface EntityCreateHookEvent {
+  entityType: EntityType;
+  displayName: string;
+  /** Requested slug (null when one is generated) */
+  entitySlug: string | null;
+  parentEntityId: string | null;
+  /** User who becomes the owner */
+  ownerUserId: string;
+}
+
+export interface EntityHookEvent {
+  entity: Entity;
+}
+
+export interface EntityUpdateHookEvent {
+  entity: Entity;
+  request: UpdateEntityRequest;
+}
+
+export interface EntityUpdatedHookEvent {
+  entity: Entity;
+  previous: Entity;
+}
+
+export interface EntitiesPurgedHookEvent {
+  entityIds: string[];
+}
+
+export interface MemberAddHookEvent {
+  entityId: string;
+  userId: string;
+  role: EntityRoleKey;
+}
+
+export interface MemberHookEvent {
+  member: EntityMember;
+}
+
+export interface MemberRoleChangeHookEvent {
+  member: EntityMember;
+  role: EntityRoleKey;
+}
+
+export interface MemberRoleChangedHookEvent {
+  member: EntityMember;
+  previousRole: EntityRoleKey;
+}
+
+export interface PermissionOverridesChangeHookEvent {
+  entityId: string;
+  userId: string;
+  previous: PermissionOverrides;
+  overrides: PermissionOverrides;
+}
+
+export interface OwnershipTransferHookEvent {
+  entityId: string;
+  fromUserId: string;
+  toUserId: string;
+}
+
+export interface OwnershipTransferredHookEvent {
+  /** The new owner's membership */
+  member: EntityMember;
+  previousOwnerUserId: string;
+}
+
+export interface OwnershipTransferRequestHookEvent {
+  transfer: OwnershipTransfer;
+}
+
+export interface OwnershipTransferCloseHookEvent {
+  transfer: OwnershipTransfer;
+  status: OwnershipTransferStatus;
+}
+
+export interface InvitationCreateHookEvent {
+  entityId: string;
+  invitedByUserId: string;
+  request: InviteMemberRequest;
+  /** Invited user (firebase_uid) when inviting a user by ID */
+  invitedUserId?: string;
+}
+
+export interface InvitationHookEvent {
+  invitation: EntityInvitation;
+}
+
+export interface InvitationCreatedHookEvent {
+  /**
+   * The new invitation; email invitations include their token, e.g. for
+   * sending the invite. Invitations of a user ID have none.
+   */
+  invitation: EntityInvitation & { token?: string };
+}
+
+export interface InvitationAcceptHookEvent {
+  invitation: EntityInvitation;
+  userId: string;
+}
+
+export interface InvitationAcceptedHookEvent {
+  invitation: EntityInvitation;
+  member: EntityMember;
+}
+
+export interface JoinRequestCreateHookEvent {
+  entity: Entity;
+  userId: string;
+  message: string | null;
+}
+
+export interface JoinRequestHookEvent {
+  joinRequest: JoinRequest;
+}
+
+export interface JoinRequestApproveHookEvent {
+  joinRequest: JoinRequest;
+  role: EntityRoleKey;
+}
+
+export interface JoinRequestApprovedHookEvent {
+  joinRequest: JoinRequest;
+  member: EntityMember;
+}
+
+/**
+ * Lifecycle hooks for entity, member, invitation and join request changes.
+ * Members added by accepting an invitation or approving a join request also
+ * run the member add hooks.
+ */
+export interface EntityHooks {
+  beforeEntityCreate?: BeforeHook<EntityCreateHookEvent>;
+  afterEntityCreate?: AfterHook<EntityHookEvent>;
+  beforeEntityUpdate?: BeforeHook<EntityUpdateHookEvent>;
+  afterEntityUpdate?: AfterHook<EntityUpdatedHookEvent>;
+  /** Runs once for the deleted entity, not for its descendants */
+  beforeEntityDelete?: BeforeHook<EntityHookEvent>;
+  afterEntityDelete?: AfterHook<EntityHookEvent>;
+  beforeEntityRestore?: BeforeHook<EntityHookEvent>;
+  afterEntityRestore?: AfterHook<EntityHookEvent>;
+  afterEntitiesPurge?: AfterHook<EntitiesPurgedHookEvent>;
+  beforeMemberAdd?: BeforeHook<MemberAddHookEvent>;
+  afterMemberAdd?: AfterHook<MemberHookEvent>;
+  beforeMemberRoleChange?: BeforeHook<MemberRoleChangeHookEvent>;
+  afterMemberRoleChange?: AfterHook<MemberRoleChangedHookEvent>;
+  beforeMemberRemove?: BeforeHook<MemberHookEvent>;
+  afterMemberRemove?: AfterHook<MemberHookEvent>;
+  /** Runs for each membership deactivated by expireMemberships */
+  afterMemberExpire?: AfterHook<MemberHookEvent>;
+  beforePermissionOverridesChange?: BeforeHook<PermissionOverridesChangeHookEvent>;
+  afterPermissionOverridesChange?: AfterHook<PermissionOverridesChangeHookEvent>;
+  /** Runs for immediate transfers and for accepted transfer requests */
+  beforeOwnershipTransfer?: BeforeHook<OwnershipTransferHookEvent>;
+  afterOwnershipTransfer?: AfterHook<OwnershipTransferredHookEvent>;
+  beforeOwnershipTransferRequest?: BeforeHook<OwnershipTransferHookEvent>;
+  afterOwnershipTransferRequest?: AfterHook<OwnershipTransferRequestHookEvent>;
+  /** Runs when a transfer request is declined, cancelled or expires */
+  beforeOwnershipTransferClose?: BeforeHook<OwnershipTransferCloseHookEvent>;
+  afterOwnershipTransferClose?: AfterHook<OwnershipTransferCloseHookEvent>;
+  beforeInvitationCreate?: BeforeHook<InvitationCreateHookEvent>;
+  afterInvitationCreate?: AfterHook<InvitationCreatedHookEvent>;
+  beforeInvitationAccept?: BeforeHook<InvitationAcceptHookEvent>;
+  afterInvitationAccept?: AfterHook<InvitationAcceptedHookEvent>;
+  beforeInvitationDecline?: BeforeHook<InvitationHookEvent>;
+  afterInvitationDecline?: AfterHook<InvitationHookEvent>;
+  beforeInvitationCancel?: BeforeHook<InvitationHookEvent>;
+  afterInvitationCancel?: AfterHook<InvitationHookEvent>;
+  beforeInvitationRenew?: BeforeHook<InvitationHookEvent>;
+  afterInvitationRenew?: AfterHook<InvitationHookEvent>;
+  /** Runs for each invitation expired on access or by expireOldInvitations */
+  afterInvitationExpire?: AfterHook<InvitationHookEvent>;
+  beforeJoinRequestCreate?: BeforeHook<JoinRequestCreateHookEvent>;
+  /** Runs once a request is stored; notify the reviewers from here */
+  afterJoinRequestCreate?: AfterHook<JoinRequestHookEvent>;
+  beforeJoinRequestApprove?: BeforeHook<JoinRequestApproveHookEvent>;
+  afterJoinRequestApprove?: AfterHook<JoinRequestApprovedHookEvent>;
+  beforeJoinRequestDeny?: BeforeHook<JoinRequestHookEvent>;
+  afterJoinRequestDeny?: AfterHook<JoinRequestHookEvent>;
+  beforeJoinRequestCancel?: BeforeHook<JoinRequestHookEvent>;
+  afterJoinRequestCancel?: AfterHook<JoinRequestHookEvent>;
+}
+
+// ========================================
+// OUTBOX TYPES
+// ========================================
+
+/**
+ * Delivery status of an outbox event.
+ */
+export enum OutboxEventStatus {
+  PENDING = "pending",
+  DELIVERED = "delivered",
+  /** Gave up after the maximum number of attempts */
+  FAILED = "failed",
+}
+
+/**
+ * A lifecycle event as delivered to outbox sinks.
+ * Mirrors the audit event of the change.
+ */
+export interface EntityLifecycleEvent {
+  /** Unique per event and stable across retries; consumers dedupe on it */
+  idempotencyKey: string;
+  type: AuditAction;
+  entityId: string;
+  actorUserId: string | null;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** ISO 8601 timestamp of the change */
+  occurredAt: string;
+}
+
+/**
+ * Destination for outbox events.
+ * Throwing from `deliver` schedules the event for another attempt.
+ */
+export interface OutboxSink {
+  /** Name used in error messages */
+  name: string;
+  deliver(event: EntityLifecycleEvent): Promise<void>;
+}
+
+/**
+ * Options for the outbox dispatcher.
+ */
+export interface OutboxDispatcherOptions {
+  /** Sinks every event is delivered to */
+  sinks: OutboxSink[];
+  /** Events claimed per dispatch (default: 50) */
+  batchSize?: number;
+  /** Attempts before an event is marked failed (default: 10) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles with each attempt (default: 1 second) */
+  retryBaseDelayMs?: number;
+  /** Upper bound for the retry delay (default: 1 hour) */
+  retryMaxDelayMs?: number;
+  /** How long a claimed event is hidden from other dispatchers (default: 5 minutes) */
+  leaseMs?: number;
+}
+
+/**
+ * Outcome of one dispatch run.
+ */
+export interface OutboxDispatchResult {
+  delivered: number;
+  /** Failed this time and scheduled for another attempt */
+  retried: number;
+  /** Failed for the last time */
+  failed: number;
+}
+
+// ========================================
+// WEBHOOK TYPES
+// ========================================
+
+/**
+ * Event type of the synthetic event sent by "test endpoint".
+ */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+/**
+ * Event types a webhook endpoint can receive.
+ */
+export type WebhookEventType = AuditAction | typeof WEBHOOK_TEST_EVENT;
+
+/**
+ * Body of a webhook request.
+ */
+export interface WebhookPayload extends Omit<EntityLifecycleEvent, "type"> {
+  type: WebhookEventType;
+}
+
+/**
+ * An HTTP endpoint receiving an entity's lifecycle events.
+ * The signing secret is only returned when the endpoint is created.
+ */
+export interface WebhookEndpoint {
+  /** Unique identifier (UUID) */
+  id: string;
+  entityId: string;
+  /** HTTPS URL receiving a JSON POST per event */
+  url: string;
+  description: string | null;
+  /** Events delivered to the endpoint (empty for all events) */
+  eventTypes: AuditAction[];
+  /** Whether events are currently delivered */
+  isActive: boolean;
+  /** Member who registered the endpoint (firebase_uid) */
+  createdByUserId: string | null;
+  /** ISO 8601 timestamp when the endpoint was disabled (null while active) */
+  disabledAt: string | null;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * A newly registered webhook endpoint, including the signing secret.
+ */
+export interface CreatedWebhookEndpoint extends WebhookEndpoint {
+  /** Secret used to verify the signature header of each request */
+  secret: string;
+}
+
+/**
+ * Request to register a webhook endpoint.
+ */
+export interface CreateWebhookEndpointRequest {
+  url: string;
+  /** Events to deliver (omit or leave empty for all events) */
+  eventTypes?: AuditAction[];
+  description?: string;
+}
+
+/**
+ * Request to change a webhook endpoint.
+ */
+export interface UpdateWebhookEndpointRequest {
+  url?: string;
+  eventTypes?: AuditAction[];
+  description?: string | null;
+}
+
+/**
+ * Why a webhook request was refused.
+ */
+export enum WebhookErrorCode {
+  /** The entity does not exist */
+  ENTITY_NOT_FOUND = "entity_not_found",
+  /** The endpoint does not exist or belongs to another entity */
+  ENDPOINT_NOT_FOUND = "endpoint_not_found",
+  /** The URL is not an absolute HTTPS URL to a public host */
+  INVALID_URL = "invalid_url",
+  /** An event type is not one endpoints can subscribe to */
+  UNKNOWN_EVENT_TYPE = "unknown_event_type",
+}
+
+/**
+ * Delivery status of a webhook event.
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = "pending",
+  DELIVERED = "delivered",
+  /** Gave up after the maximum number of attempts */
+  FAILED = "failed",
+}
+
+/**
+ * One HTTP request made for a webhook delivery.
+ */
+export interface WebhookDeliveryAttempt {
+  /** ISO 8601 timestamp of the request */
+  attemptedAt: string;
+  /** HTTP status of the response (null if no response was received) */
+  responseStatus: number | null;
+  /** Why the attempt failed (null on success) */
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * An event queued for a webhook endpoint.
+ */
+export interface WebhookDelivery {
+  /** Unique identifier (UUID) */
+  id: string;
+  endpointId: string;
+  entityId: string;
+  eventType: AuditAction;
+  /** Idempotency key of the event; sent as the `Idempotency-Key` header */
+  idempotencyKey: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** ISO 8601 timestamp of the next attempt while pending */
+  nextAttemptAt: string;
+  /** Every attempt made so far, oldest first */
+  attemptHistory: WebhookDeliveryAttempt[];
+  /** ISO 8601 timestamp of the successful attempt */
+  deliveredAt: string | null;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+}
+
+/**
+ * Options for listing the deliveries of a webhook endpoint.
+ */
+export interface ListWebhookDeliveriesOptions extends EntityOperationOptions {
+  status?: WebhookDeliveryStatus;
+  /** Maximum number of deliveries to return (default: 50, max: 200) */
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Options for delivering pending webhook events.
+ */
+export interface WebhookDispatchOptions {
+  /** Deliveries claimed per dispatch (default: 50) */
+  batchSize?: number;
+  /** Attempts before a delivery is marked failed (default: 10) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles with each attempt (default: 1 minute) */
+  retryBaseDelayMs?: number;
+  /** Upper bound for the retry delay (default: 6 hours) */
+  retryMaxDelayMs?: number;
+  /** How long a claimed delivery is hidden from other dispatchers (default: 5 minutes) */
+  leaseMs?: number;
+  /** Request timeout (default: 10 seconds) */
+  timeoutMs?: number;
+}
+
+// ========================================
+// NOTIFICATION TYPES
+// ========================================
+
+/**
+ * Occasions on which invitation notifications are sent.
+ */
+export enum InvitationNotificationType {
+  /** New invitation, sent to the invitee */
+  INVITE = "invite",
+  /** Reminder of a pending invitation, sent to the invitee */
+  REMINDER = "reminder",
+  /** Invitation accepted, sent to the inviter */
+  ACCEPTED = "accepted",
+  /** Invitation expired unanswered, sent to the inviter */
+  EXPIRED = "expired",
+}
+
+/**
+ * Everything needed to tell someone about an invitation.
+ */
+export interface InvitationNotification {
+  type: InvitationNotificationType;
+  invitation: EntityInvitation;
+  /** Invitation token for the accept link (invites and reminders only) */
+  token: string | null;
+  /** Entity the invitation is for */
+  entity: {
+    id: string;
+    entitySlug: string;
+    displayName: string;
+  };
+  /** Member who sent the invitation (null if the user no longer exists) */
+  inviter: {
+    userId: string;
+    email: string | null;
+    displayName: string | null;
+  } | null;
+}
+
+/**
+ * Delivers invitation notifications.
+ * Called after the invitation change commits; errors are logged, except for
+ * explicitly requested reminders.
+ */
+export interface InvitationNotifier {
+  notify(notification: InvitationNotification): Promise<void>;
+}
+
+/**
+ * An email ready to send.
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Sends emails.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Values available to invitation email templates.
+ */
+export interface InvitationEmailContext extends InvitationNotification {
+  /** Link the invitee follows to accept the invitation (null without token) */
+  acceptUrl: string | null;
+}
+
+/**
+ * Subject and bodies of a rendered email.
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Renders one kind of invitation email.
+ */
+export type InvitationEmailTemplate = (
+  context: InvitationEmailContext
+) => RenderedEmail;
+
+/**
+ * Options for the email invitation notifier.
+ */
+export interface EmailInvitationNotifierOptions {
+  transport: EmailTransport;
+  /** Sender address, e.g. `"Acme <no-reply@acme.test>"` */
+  from: string;
+  /** Build the accept link for an invitation from its token */
+  acceptUrl: (token: string, invitation: EntityInvitation) => string;
+  /** Templates replacing the built-in ones */
+  templates?: Partial<
+    Record<InvitationNotificationType, InvitationEmailTemplate>
+  >;
+}
+
+/**
+ * Options for the SMTP email transport.
+ */
+export interface SmtpTransportOptions {
+  host: string;
+  /** Server port (default: 465 with `secure`, otherwise 25) */
+  port?: number;
+  /** Connect with TLS from the start (default: false) */
+  secure?: boolean;
+  /** Credentials for AUTH PLAIN (omit for servers without authentication) */
+  auth?: {
+    user: string;
+    pass: string;
+  };
+  /** Name announced in EHLO (default: "localhost") */
+  clientName?: string;
+  /** Timeout of each server reply in milliseconds (default: 10 seconds) */
+  timeoutMs?: number;
+}
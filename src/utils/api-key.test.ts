@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Tests for API Key Utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  getApiKeyDisplayPrefix,
+  hashApiKey,
+  isApiKey,
+} from "./api-key";
+
+describe("generateApiKey", () => {
+  test("generates prefixed keys in the recognized format", () => {
+    const key = generateApiKey();
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(key).toHaveLength(API_KEY_PREFIX.length + 48);
+    expect(isApiKey(key)).toBe(true);
+  });
+
+  test("generates unique keys", () => {
+    const keys = new Set(Array.from({ length: 50 }, () => generateApiKey()));
+    expect(keys.size).toBe(50);
+  });
+});
+
+describe("isApiKey", () => {
+  test("rejects values without the prefix or with the wrong length", () => {
+    expect(isApiKey("eyJhbGciOiJIUzI1NiJ9.payload.signature")).toBe(false);
+    expect(isApiKey(`${API_KEY_PREFIX}abc123`)).toBe(false);
+    expect(isApiKey(`${API_KEY_PREFIX}${"g".repeat(48)}`)).toBe(false);
+  });
+});
+
+describe("getApiKeyDisplayPrefix", () => {
+  test("keeps only the leading characters", () => {
+    const key = generateApiKey();
+    expect(getApiKeyDisplayPrefix(key)).toBe(key.slice(0, 12));
+  });
+});
+
+describe("hashApiKey", () => {
+  test("produces a stable 64-character hex digest", async () => {
+    const key = generateApiKey();
+    const hash = await hashApiKey(key);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashApiKey(key)).toBe(hash);
+    expect(await hashApiKey(generateApiKey())).not.toBe(hash);
+  });
+});
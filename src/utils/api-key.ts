@@ -0,0 +1,58 @@
+/**
+ * @fileoverview API Key Utilities
+ * @description Functions for generating, recognizing and hashing entity API keys
+ */
+
+import { sha256Hex, toHex } from "./crypto";
+
+/** Prefix that makes entity API keys recognizable (e.g. by secret scanners) */
+export const API_KEY_PREFIX = "esk_";
+
+/** Number of random bytes in an API key secret */
+const API_KEY_SECRET_BYTES = 24;
+
+/** Number of leading key characters kept for display */
+const API_KEY_DISPLAY_LENGTH = 12;
+
+/** Format of a complete API key */
+const API_KEY_PATTERN = new RegExp(
+  `^${API_KEY_PREFIX}[0-9a-f]{${API_KEY_SECRET_BYTES * 2}}$`
+);
+
+/**
+ * Generate a new API key.
+ * @returns The prefix followed by 48 random hex characters
+ */
+export function generateApiKey(): string {
+  const bytes = new Uint8Array(API_KEY_SECRET_BYTES);
+  crypto.getRandomValues(bytes);
+  return API_KEY_PREFIX + toHex(bytes);
+}
+
+/**
+ * Check whether a string has the format of an API key.
+ * @param value - The candidate key
+ * @returns Whether the value looks like an API key
+ */
+export function isApiKey(value: string): boolean {
+  return API_KEY_PATTERN.test(value);
+}
+
+/**
+ * Get the part of a key that is safe to show in listings.
+ * @param key - The full API key
+ * @returns The leading characters of the key
+ */
+export function getApiKeyDisplayPrefix(key: string): string {
+  return key.slice(0, API_KEY_DISPLAY_LENGTH);
+}
+
+/**
+ * Hash an API key for storage and lookup.
+ * Keys are long random secrets, so a fast unsalted hash is sufficient.
+ * @param key - The full API key
+ * @returns SHA-256 digest as a 64-character hex string
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  return sha256Hex(key);
+}
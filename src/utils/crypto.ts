@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Crypto Utilities
+ * @description Hex-encoded SHA-256 and HMAC-SHA256 digests shared by the
+ * API key, invitation token and webhook utilities
+ */
+
+/**
+ * Convert bytes to a lowercase hex string.
+ */
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), b =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Compute the SHA-256 of a string.
+ * @returns 64-character hex digest
+ */
+export async function sha256Hex(message: string): Promise<string> {
+  return toHex(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(message))
+  );
+}
+
+/**
+ * Compute the HMAC-SHA256 of a string.
+ * @param secret - The key
+ * @param message - The data to authenticate
+ * @returns 64-character hex digest
+ */
+export async function hmacSha256Hex(
+  secret: string,
+  message: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(
+    await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message))
+  );
+}
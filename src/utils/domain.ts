@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Email Domain Utilities
+ * @description Functions for normalizing emails, email domains and DNS
+ * verification records
+ */
+
+/** Host label under which domain verification TXT records are published */
+export const DOMAIN_VERIFICATION_HOST_PREFIX = "_entity-verification";
+
+/** Prefix of the domain verification TXT record value */
+const DOMAIN_VERIFICATION_VALUE_PREFIX = "entity-verification=";
+
+/** Format of a normalized domain */
+const DOMAIN_PATTERN = /^(?=.{1,255}$)[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * Normalize an email domain ("@Acme.com" becomes "acme.com").
+ * @param domain - The domain as entered
+ * @returns The lowercase domain without a leading "@"
+ * @throws Error if the result is not a valid domain
+ */
+export function normalizeEmailDomain(domain: string): string {
+  const normalized = domain.trim().toLowerCase().replace(/^@/, "");
+  if (!DOMAIN_PATTERN.test(normalized)) {
+    throw new Error("Invalid email domain");
+  }
+  return normalized;
+}
+
+/**
+ * Normalize an email address for storage and comparison
+ * (" Bob@Acme.com " becomes "bob@acme.com").
+ * @param email - The email address as entered
+ * @returns The trimmed, lowercase address
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Get the domain of an email address.
+ * @param email - The email address
+ * @returns The lowercase domain, or null if the address has none
+ */
+export function getEmailDomain(email: string): string | null {
+  const index = email.lastIndexOf("@");
+  if (index === -1 || index === email.length - 1) {
+    return null;
+  }
+  return email
+    .slice(index + 1)
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Get the DNS TXT record that proves control of a domain.
+ * @param domain - The normalized domain
+ * @param token - The domain's verification token
+ * @returns Host name and value of the record
+ */
+export function getDomainVerificationRecord(
+  domain: string,
+  token: string
+): { name: string; value: string } {
+  return {
+    name: `${DOMAIN_VERIFICATION_HOST_PREFIX}.${domain}`,
+    value: `${DOMAIN_VERIFICATION_VALUE_PREFIX}${token}`,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Error Classes
+ * @description Errors carrying a machine-readable reason for the caller's UI
+ */
+
+import type {
+  InvitationAcceptanceErrorCode,
+  InvitationPolicyErrorCode,
+  WebhookErrorCode,
+} from "../types";
+
+/**
+ * Error thrown when the invitation acceptance policy refuses a user.
+ * `code` tells which check failed.
+ */
+export class InvitationAcceptanceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: InvitationAcceptanceErrorCode
+  ) {
+    super(message);
+    this.name = "InvitationAcceptanceError";
+  }
+}
+
+/**
+ * Error thrown when an entity's invitation settings refuse an invitation.
+ * `code` tells which setting refused it.
+ */
+export class InvitationPolicyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: InvitationPolicyErrorCode
+  ) {
+    super(message);
+    this.name = "InvitationPolicyError";
+  }
+}
+
+/**
+ * Error thrown when a webhook endpoint request is refused.
+ * `code` tells why.
+ */
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly code: WebhookErrorCode
+  ) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Lifecycle Hook Utilities
+ * @description Running the before/after hooks configured on entity helpers
+ */
+
+import type { EntityHooks } from "../types";
+
+/**
+ * Error a before hook throws to veto a change.
+ * The change's transaction is rolled back and the error reaches the caller.
+ */
+export class HookVetoError extends Error {
+  constructor(
+    message: string,
+    /** Optional machine-readable reason */
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = "HookVetoError";
+  }
+}
+
+type BeforeHookName = Extract<keyof EntityHooks, `before${string}`>;
+type AfterHookName = Extract<keyof EntityHooks, `after${string}`>;
+type HookEvent<K extends keyof EntityHooks> = Parameters<
+  NonNullable<EntityHooks[K]>
+>[0];
+
+/**
+ * Run a before hook if one is configured.
+ * Errors propagate so the hook can veto the change.
+ * @param hooks - The configured hooks (may be undefined)
+ * @param name - The hook to run
+ * @param event - The hook's event, including the change's transaction
+ */
+export async function runBeforeHook<K extends BeforeHookName>(
+  hooks: EntityHooks | undefined,
+  name: K,
+  event: HookEvent<K>
+): Promise<void> {
+  const hook = hooks?.[name] as
+    | ((event: HookEvent<K>) => void | Promise<void>)
+    | undefined;
+  if (hook) {
+    await hook(event);
+  }
+}
+
+/**
+ * Run an after hook if one is configured.
+ * The change has already been made, so errors are logged instead of thrown.
+ * Inside a caller-supplied transaction the change is not committed yet; the
+ * hook contract (AfterHook) forbids side effects outside the database then.
+ * @param hooks - The configured hooks (may be undefined)
+ * @param name - The hook to run
+ * @param event - The hook's event
+ */
+export async function runAfterHook<K extends AfterHookName>(
+  hooks: EntityHooks | undefined,
+  name: K,
+  event: HookEvent<K>
+): Promise<void> {
+  const hook = hooks?.[name] as
+    | ((event: HookEvent<K>) => void | Promise<void>)
+    | undefined;
+  if (!hook) {
+    return;
+  }
+
+  try {
+    await hook(event);
+  } catch (error) {
+    console.error(`Entity hook ${name} failed:`, error);
+  }
+}
@@ -3,3 +3,15 @@
  */
 
 export * from "./slug-generator";
+export * from "./transaction";
+export * from "./crypto";
+export * from "./permissions";
+export * from "./api-key";
+export * from "./invitation-token";
+export * from "./invitation-csv";
+export * from "./hooks";
+export * from "./errors";
+export * from "./outbox";
+export * from "./webhook";
+export * from "./domain";
+export * from "./membership";
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Tests for Invitation CSV Utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import { parseInvitationCsv } from "./invitation-csv";
+import { EntityRole } from "../types";
+
+describe("parseInvitationCsv", () => {
+  test("reads the email and role columns of a header row", () => {
+    const csv = [
+      "Name,Email,Role",
+      '"Doe, Jane",jane@acme.test,Manager',
+      "John,john@acme.test,",
+      "",
+      "Max,max@acme.test,admin",
+    ].join("\r\n");
+
+    expect(parseInvitationCsv(csv)).toEqual({
+      rows: [
+        { email: "jane@acme.test", role: EntityRole.MANAGER },
+        { email: "john@acme.test", role: EntityRole.MEMBER },
+      ],
+      errors: [{ line: 5, message: 'Unknown role "admin"' }],
+    });
+  });
+
+  test("uses the first columns without a header row", () => {
+    const csv = 'jane@acme.test\n"max@acme.test",member\n,manager\n';
+
+    expect(parseInvitationCsv(csv, EntityRole.MANAGER)).toEqual({
+      rows: [
+        { email: "jane@acme.test", role: EntityRole.MANAGER },
+        { email: "max@acme.test", role: EntityRole.MEMBER },
+      ],
+      errors: [{ line: 3, message: "Missing email" }],
+    });
+  });
+});
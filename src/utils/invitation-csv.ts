@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Invitation CSV Utilities
+ * @description Parsing CSV files of invitees for bulk invitations
+ */
+
+import { EntityRole, type InvitationCsvParseResult } from "../types";
+
+/** Roles an invitation can grant */
+const INVITABLE_ROLES = [EntityRole.MANAGER, EntityRole.MEMBER];
+
+/**
+ * A CSV record with the line it starts on.
+ */
+interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may contain commas,
+ * line breaks and doubled quotes).
+ */
+function parseCsvRecords(csv: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") {
+        i++;
+      }
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return records;
+}
+
+/**
+ * Parse a CSV of invitees for InvitationHelper.createInvitations.
+ * With a header row, the `email` and optional `role` columns are used (other
+ * columns are ignored); without one, the first column is the email and the
+ * second the role. Blank lines are skipped. Emails are validated by
+ * createInvitations, so only missing emails and unknown roles are errors here.
+ * @param csv - The CSV text
+ * @param defaultRole - Role of rows without one (default: member)
+ * @returns The rows to invite and the lines that could not be used
+ */
+export function parseInvitationCsv(
+  csv: string,
+  defaultRole: EntityRole = EntityRole.MEMBER
+): InvitationCsvParseResult {
+  const result: InvitationCsvParseResult = { rows: [], errors: [] };
+  const records = parseCsvRecords(csv.replace(/^\uFEFF/, "")).filter(record =>
+    record.fields.some(value => value.trim() !== "")
+  );
+  if (records.length === 0) {
+    return result;
+  }
+
+  const header = records[0].fields.map(value => value.trim().toLowerCase());
+  let emailColumn = 0;
+  let roleColumn = 1;
+  let body = records;
+  if (header.includes("email")) {
+    emailColumn = header.indexOf("email");
+    roleColumn = header.indexOf("role");
+    body = records.slice(1);
+  }
+
+  for (const { line, fields } of body) {
+    const email = fields[emailColumn]?.trim() ?? "";
+    if (!email) {
+      result.errors.push({ line, message: "Missing email" });
+      continue;
+    }
+
+    const roleValue =
+      roleColumn >= 0 ? (fields[roleColumn]?.trim().toLowerCase() ?? "") : "";
+    const role = roleValue
+      ? INVITABLE_ROLES.find(candidate => candidate === roleValue)
+      : defaultRole;
+    if (!role) {
+      result.errors.push({ line, message: `Unknown role "${roleValue}"` });
+      continue;
+    }
+
+    result.rows.push({ email, role });
+  }
+
+  return result;
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Tests for Invitation Token Utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import { hashInvitationToken } from "./invitation-token";
+import { generateInvitationToken } from "./slug-generator";
+
+describe("hashInvitationToken", () => {
+  test("hashes with HMAC-SHA256", async () => {
+    expect(await hashInvitationToken("abc", "secret")).toBe(
+      "9946dad4e00e913fc8be8e5d3f7e110a4a9e832f83fb09c345285d78638d8a0e"
+    );
+  });
+
+  test("a secret is required", async () => {
+    await expect(hashInvitationToken("abc", "")).rejects.toThrow(
+      "Invitation token secret is required"
+    );
+  });
+
+  test("keyed hashes are stable and depend on the secret", async () => {
+    const token = generateInvitationToken();
+    const hash = await hashInvitationToken(token, "secret-a");
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashInvitationToken(token, "secret-a")).toBe(hash);
+    expect(await hashInvitationToken(token, "secret-b")).not.toBe(hash);
+  });
+});
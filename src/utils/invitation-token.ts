@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Invitation Token Utilities
+ * @description Hashing invitation tokens for storage and lookup
+ */
+
+import { hmacSha256Hex } from "./crypto";
+
+/**
+ * Hash an invitation token for storage and lookup.
+ * The hash is an HMAC, so stored hashes cannot be matched against tokens
+ * without the secret.
+ * @param token - The plaintext invitation token
+ * @param secret - Server-side key (see `invitationTokenSecret`)
+ * @returns 64-character hex digest
+ */
+export async function hashInvitationToken(
+  token: string,
+  secret: string
+): Promise<string> {
+  if (!secret) {
+    throw new Error("Invitation token secret is required");
+  }
+  return hmacSha256Hex(secret, token);
+}
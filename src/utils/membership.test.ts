@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Tests for Membership Expiry Utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import { parseMembershipExpiry } from "./membership";
+
+const now = new Date("2026-01-10T00:00:00.000Z");
+
+describe("parseMembershipExpiry", () => {
+  test("parses a future time", () => {
+    expect(parseMembershipExpiry("2026-02-01T00:00:00Z", now)).toEqual(
+      new Date("2026-02-01T00:00:00.000Z")
+    );
+  });
+
+  test("refuses invalid and past times", () => {
+    expect(() => parseMembershipExpiry("next week", now)).toThrow(
+      "Invalid membership expiry"
+    );
+    expect(() => parseMembershipExpiry(now.toISOString(), now)).toThrow(
+      "Membership expiry must be in the future"
+    );
+  });
+});
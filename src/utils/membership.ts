@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Membership Expiry Utilities
+ * @description Functions for validating and querying time-bound memberships
+ */
+
+import { gt, isNull, or, type SQL } from "drizzle-orm";
+
+/**
+ * Parse a membership expiry.
+ * @param expiresAt - ISO 8601 time the membership ends
+ * @param now - Time the expiry must come after (default: the current time)
+ * @returns The expiry as a Date
+ * @throws Error if the time is invalid or not in the future
+ */
+export function parseMembershipExpiry(
+  expiresAt: string,
+  now: Date = new Date()
+): Date {
+  const date = new Date(expiresAt);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error("Invalid membership expiry");
+  }
+  if (date <= now) {
+    throw new Error("Membership expiry must be in the future");
+  }
+  return date;
+}
+
+/**
+ * Condition matching memberships that have not expired: those without an
+ * expiry or expiring after `now`. Combine it with `is_active = true`.
+ * @param membersTable - The entity_members table
+ * @param now - Time the condition is evaluated at (default: the current time)
+ */
+export function notExpiredMembership(
+  membersTable: any,
+  now: Date = new Date()
+): SQL {
+  return or(isNull(membersTable.expires_at), gt(membersTable.expires_at, now))!;
+}
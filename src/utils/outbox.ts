@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Outbox Utilities
+ * @description Built-in outbox sinks and retry backoff calculation
+ */
+
+import type { EntityLifecycleEvent, OutboxSink } from "../types";
+
+/** Default timeout for webhook deliveries */
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Options for an HTTP webhook sink.
+ */
+export interface WebhookSinkOptions {
+  /** Endpoint receiving a JSON POST per event */
+  url: string;
+  /** Extra request headers (e.g. authorization) */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 10 seconds) */
+  timeoutMs?: number;
+  /** Sink name used in error messages (default: the URL) */
+  name?: string;
+}
+
+/**
+ * Create a sink that hands events to an in-process handler.
+ * @param name - Sink name used in error messages
+ * @param handler - Called once per delivery attempt
+ */
+export function createHandlerSink(
+  name: string,
+  handler: (event: EntityLifecycleEvent) => void | Promise<void>
+): OutboxSink {
+  return {
+    name,
+    async deliver(event) {
+      await handler(event);
+    },
+  };
+}
+
+/**
+ * Create a sink that POSTs each event as JSON to a URL.
+ * The idempotency key is also sent as the `Idempotency-Key` header.
+ * Non-2xx responses count as failed deliveries.
+ */
+export function createWebhookSink(options: WebhookSinkOptions): OutboxSink {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+
+  return {
+    name: options.name ?? options.url,
+    async deliver(event) {
+      const response = await fetch(options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": event.idempotencyKey,
+          ...options.headers,
+        },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with status ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Calculate the delay before the next delivery attempt (exponential backoff).
+ * @param attempts - Attempts made so far (at least 1)
+ * @param baseDelayMs - Delay after the first attempt
+ * @param maxDelayMs - Upper bound for the delay
+ */
+export function calculateRetryDelay(
+  attempts: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number {
+  return Math.min(baseDelayMs * 2 ** Math.max(attempts - 1, 0), maxDelayMs);
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Tests for Permission Utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  applyPermissionOverrides,
+  buildPermissions,
+  isPermissionKey,
+} from "./permissions";
+import { MEMBER_PERMISSIONS } from "../types";
+
+describe("applyPermissionOverrides", () => {
+  test("grants a permission the role lacks", () => {
+    const merged = applyPermissionOverrides(MEMBER_PERMISSIONS, {
+      canManageApiKeys: true,
+    });
+    expect(merged.canManageApiKeys).toBe(true);
+    expect(merged.canManageMembers).toBe(false);
+  });
+
+  test("denies a permission the role has", () => {
+    const merged = applyPermissionOverrides(MEMBER_PERMISSIONS, {
+      canViewApiKeys: false,
+    });
+    expect(merged.canViewApiKeys).toBe(false);
+    expect(merged.canViewEntity).toBe(true);
+  });
+
+  test("returns the role permissions unchanged without overrides", () => {
+    expect(applyPermissionOverrides(MEMBER_PERMISSIONS, null)).toBe(
+      MEMBER_PERMISSIONS
+    );
+  });
+
+  test("ignores unknown keys and non-boolean values", () => {
+    const merged = applyPermissionOverrides(MEMBER_PERMISSIONS, {
+      canLaunchRockets: true,
+      canEditEntity: "yes",
+    } as any);
+    expect(merged).toEqual(MEMBER_PERMISSIONS);
+  });
+});
+
+describe("buildPermissions", () => {
+  test("grants only the listed permissions", () => {
+    const permissions = buildPermissions(["canViewEntity"]);
+    expect(permissions.canViewEntity).toBe(true);
+    expect(Object.values(permissions).filter(Boolean)).toHaveLength(1);
+  });
+});
+
+describe("isPermissionKey", () => {
+  test("recognizes EntityPermissions keys", () => {
+    expect(isPermissionKey("canManageApiKeys")).toBe(true);
+    expect(isPermissionKey("canLaunchRockets")).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Permission Utilities
+ * @description Helpers for building and combining EntityPermissions sets
+ */
+
+import {
+  OWNER_PERMISSIONS,
+  type EntityPermissions,
+  type PermissionOverrides,
+} from "../types";
+
+/** All permission keys (the owner holds every permission) */
+export const PERMISSION_KEYS = Object.keys(OWNER_PERMISSIONS) as Array<
+  keyof EntityPermissions
+>;
+
+/**
+ * Check if a string is a known EntityPermissions key.
+ * @param key - The candidate key
+ * @returns Whether the key names a permission
+ */
+export function isPermissionKey(key: string): key is keyof EntityPermissions {
+  return PERMISSION_KEYS.includes(key as keyof EntityPermissions);
+}
+
+/**
+ * Build a permission set granting exactly the given permissions.
+ * @param granted - Permissions to grant
+ * @returns Permission set with every other permission denied
+ */
+export function buildPermissions(
+  granted: Iterable<keyof EntityPermissions>
+): EntityPermissions {
+  const grantedSet = new Set(granted);
+  return Object.fromEntries(
+    PERMISSION_KEYS.map(key => [key, grantedSet.has(key)])
+  ) as unknown as EntityPermissions;
+}
+
+/**
+ * Apply per-member grant/deny overrides on top of role permissions.
+ * @param permissions - Permissions from the member's role
+ * @param overrides - Overrides (true grants, false denies); null for none
+ * @returns Merged permission set
+ */
+export function applyPermissionOverrides(
+  permissions: EntityPermissions,
+  overrides: PermissionOverrides | null | undefined
+): EntityPermissions {
+  if (!overrides) {
+    return permissions;
+  }
+
+  const merged = { ...permissions };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (isPermissionKey(key) && typeof value === "boolean") {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Transaction Utilities
+ * @description Helpers for running multi-statement operations atomically
+ */
+
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { EntityTransaction } from "../types";
+
+/**
+ * Run a callback inside a database transaction.
+ * Joins the caller-supplied transaction when one is given, otherwise opens a new one.
+ * @param db - The Drizzle database instance
+ * @param tx - Optional caller-supplied transaction
+ * @param fn - The work to run atomically
+ * @returns The callback's result
+ */
+export async function runInTransaction<T>(
+  db: PostgresJsDatabase<any>,
+  tx: EntityTransaction | undefined,
+  fn: (tx: EntityTransaction) => Promise<T>
+): Promise<T> {
+  if (tx) {
+    return fn(tx);
+  }
+  return db.transaction(fn);
+}
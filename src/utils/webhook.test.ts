@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Tests for Webhook Utilities
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  WEBHOOK_SECRET_PREFIX,
+  generateWebhookSecret,
+  isPrivateWebhookHost,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhook";
+
+const secret = "whsec_test";
+const body = JSON.stringify({ type: "member.added" });
+
+describe("generateWebhookSecret", () => {
+  test("generates prefixed, unique secrets", () => {
+    const first = generateWebhookSecret();
+    expect(first.startsWith(WEBHOOK_SECRET_PREFIX)).toBe(true);
+    expect(first).toHaveLength(WEBHOOK_SECRET_PREFIX.length + 64);
+    expect(generateWebhookSecret()).not.toBe(first);
+  });
+});
+
+describe("signWebhookPayload", () => {
+  test("signs the timestamp and body with HMAC-SHA256", async () => {
+    expect(await signWebhookPayload("key", "body", 1700000000)).toBe(
+      "t=1700000000,v1=47b6ce0fca59474308e2921c247cb2493dce6b8101d90ac05bd0c6a37d0e046e"
+    );
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  test("accepts a fresh signature of the same body", async () => {
+    const header = await signWebhookPayload(secret, body);
+    expect(await verifyWebhookSignature(secret, body, header)).toBe(true);
+  });
+
+  test("rejects a tampered body or the wrong secret", async () => {
+    const header = await signWebhookPayload(secret, body);
+    expect(await verifyWebhookSignature(secret, body + " ", header)).toBe(
+      false
+    );
+    expect(await verifyWebhookSignature("whsec_other", body, header)).toBe(
+      false
+    );
+  });
+
+  test("rejects stale and malformed headers", async () => {
+    const stale = await signWebhookPayload(
+      secret,
+      body,
+      Math.floor(Date.now() / 1000) - 600
+    );
+    expect(await verifyWebhookSignature(secret, body, stale)).toBe(false);
+    expect(await verifyWebhookSignature(secret, body, "garbage")).toBe(false);
+  });
+});
+
+describe("isPrivateWebhookHost", () => {
+  const hostname = (url: string) => new URL(url).hostname;
+
+  test("refuses loopback, private, link-local and metadata hosts", () => {
+    for (const url of [
+      "https://localhost/hook",
+      "https://api.localhost./hook",
+      "https://metadata.google.internal/computeMetadata/v1",
+      "https://127.0.0.1/hook",
+      "https://2130706433/hook",
+      "https://0x7f.1/hook",
+      "https://0.0.0.0/hook",
+      "https://10.1.2.3/hook",
+      "https://172.20.0.1/hook",
+      "https://192.168.1.10/hook",
+      "https://100.64.0.1/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[::]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+      "https://[::ffff:169.254.169.254]/hook",
+      "https://[64:ff9b::10.0.0.1]/hook",
+      "https://[fd00:ec2::254]/hook",
+      "https://[fe80::1]/hook",
+    ]) {
+      expect(isPrivateWebhookHost(hostname(url)), url).toBe(true);
+    }
+  });
+
+  test("allows public hosts", () => {
+    for (const url of [
+      "https://hooks.acme.test/hook",
+      "https://8.8.8.8/hook",
+      "https://172.32.0.1/hook",
+      "https://[2606:4700::1111]/hook",
+      "https://[::ffff:8.8.8.8]/hook",
+    ]) {
+      expect(isPrivateWebhookHost(hostname(url)), url).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Webhook Utilities
+ * @description Functions for generating webhook secrets, signing payloads and
+ * checking webhook hosts
+ */
+
+import { hmacSha256Hex, toHex } from "./crypto";
+
+/** Prefix that makes webhook signing secrets recognizable */
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+/** Header carrying the signature of a webhook request */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/** Number of random bytes in a webhook secret */
+const WEBHOOK_SECRET_BYTES = 32;
+
+/** Default maximum age of a signature accepted by verifyWebhookSignature */
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** Hostnames of the local machine and of cloud metadata services */
+const PRIVATE_HOSTNAMES = new Set([
+  "localhost",
+  "metadata",
+  "metadata.google.internal",
+]);
+
+/**
+ * Generate a new webhook signing secret.
+ * @returns The prefix followed by 64 random hex characters
+ */
+export function generateWebhookSecret(): string {
+  const bytes = new Uint8Array(WEBHOOK_SECRET_BYTES);
+  crypto.getRandomValues(bytes);
+  return WEBHOOK_SECRET_PREFIX + toHex(bytes);
+}
+
+/**
+ * Sign a webhook body.
+ * The signature covers the timestamp and the body, so receivers can reject
+ * replayed requests.
+ * @param secret - The endpoint's signing secret
+ * @param body - The exact request body
+ * @param timestamp - Unix time in seconds (default: now)
+ * @returns Header value in the form `t=<timestamp>,v1=<hex hmac>`
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify the signature header of a webhook request.
+ * For receivers written in TypeScript; others can follow signWebhookPayload.
+ * @param secret - The endpoint's signing secret
+ * @param body - The raw request body
+ * @param header - Value of the signature header
+ * @param toleranceSeconds - Maximum age of the signature (default: 5 minutes)
+ * @returns Whether the signature is valid and recent
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): Promise<boolean> {
+  const parts = new Map(
+    header.split(",").map(part => {
+      const index = part.indexOf("=");
+      return [part.slice(0, index).trim(), part.slice(index + 1).trim()];
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+  if (expected.length !== signature.length) {
+    return false;
+  }
+
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Check whether a URL hostname names a loopback, private, link-local (which
+ * includes cloud metadata services) or otherwise non-public address.
+ * Hostnames are not resolved: a public name whose DNS points at a private
+ * address passes, so block private ranges at the network egress as well.
+ * @param hostname - `URL.hostname` (IPv6 literals in brackets)
+ * @returns Whether webhooks must not be sent to the host
+ */
+export function isPrivateWebhookHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  if (PRIVATE_HOSTNAMES.has(host) || host.endsWith(".localhost")) {
+    return true;
+  }
+
+  if (host.startsWith("[") && host.endsWith("]")) {
+    const groups = parseIPv6(host.slice(1, -1));
+    return groups === null || isPrivateIPv6(groups);
+  }
+
+  const octets = parseIPv4(host);
+  return octets !== null && isPrivateIPv4(octets);
+}
+
+/**
+ * Parse a dotted IPv4 address (as normalized by `URL`).
+ * @returns The four octets, or null for anything else
+ */
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split(".");
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+/**
+ * Parse an IPv6 address in hex notation (as normalized by `URL`).
+ * @returns The eight 16-bit groups, or null for anything else
+ */
+function parseIPv6(host: string): number[] | null {
+  const halves = host.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (part: string) =>
+    part ? part.split(":").map(group => parseInt(group, 16)) : [];
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  return groups.every(group => group >= 0 && group <= 0xffff) ? groups : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const [first] = groups;
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] <= 1) {
+    return true; // unspecified, loopback
+  }
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses
+  const mapped =
+    groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff;
+  const nat64 =
+    first === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every(group => group === 0);
+  if (mapped || nat64) {
+    return isPrivateIPv4([
+      groups[6] >> 8,
+      groups[6] & 0xff,
+      groups[7] >> 8,
+      groups[7] & 0xff,
+    ]);
+  }
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local, AWS metadata (fd00:ec2::254)
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}